@@ -0,0 +1,14 @@
+/** @type {import('jest').Config} */
+const jestConfig = {
+    testEnvironment: 'node',
+    roots: ['<rootDir>/src'],
+    transform: {
+        // The app's tsconfig targets the Next.js bundler; tests run as CommonJS
+        '^.+\\.tsx?$': ['ts-jest', { tsconfig: { module: 'commonjs', moduleResolution: 'node', jsx: 'react-jsx' } }],
+    },
+    moduleNameMapper: {
+        '^@/(.*)$': '<rootDir>/src/$1',
+    },
+};
+
+module.exports = jestConfig;
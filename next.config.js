@@ -2,6 +2,8 @@
 const nextConfig = {
     experimental: {
         serverComponentsExternalPackages: ['@prisma/client', 'bcryptjs'],
+        // Runs src/instrumentation.ts at startup, which starts the job worker
+        instrumentationHook: true,
     },
 };
 
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { reencryptStoredSecrets } from '@/lib/encryption';
+import { isOperatorRequest } from '@/lib/operator-auth';
+
+// Leave headroom under typical serverless function limits
+const RUN_BUDGET_MS = 50000;
+
+// POST /api/admin/reencrypt - Encrypt rows stored before encryption and move rows
+// to the active key; called with "Authorization: Bearer $JOB_RUNNER_SECRET"
+// until `remaining` is 0
+export async function POST(request: NextRequest) {
+    if (!isOperatorRequest(request)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const result = await reencryptStoredSecrets({ deadline: Date.now() + RUN_BUDGET_MS });
+        return NextResponse.json({ success: true, ...result });
+    } catch (error) {
+        console.error('[Admin] Re-encryption error:', error);
+        return NextResponse.json(
+            { error: 'Failed to re-encrypt stored data', details: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+        );
+    }
+}
@@ -43,7 +43,13 @@ export async function POST() {
         });
         console.log('[Admin] Deleted transactions:', deletedTransactions.count);
 
-        // 5. Delete orphaned vendors (vendors with no subscriptions)
+        // 5. Delete import batches (previews and rollback history)
+        const deletedImports = await prisma.importBatch.deleteMany({
+            where: { userId },
+        });
+        console.log('[Admin] Deleted import batches:', deletedImports.count);
+
+        // 6. Delete orphaned vendors (vendors with no subscriptions)
         const orphanedVendors = await prisma.vendor.deleteMany({
             where: {
                 subscriptions: { none: {} },
@@ -52,12 +58,19 @@ export async function POST() {
         });
         console.log('[Admin] Deleted orphaned vendors:', orphanedVendors.count);
 
-        // 6. Reset OAuth token sync timestamp to allow fresh Gmail scan
+        // 7. Reset OAuth token sync state so the next Gmail scan backfills again
         await prisma.oAuthToken.updateMany({
             where: { userId },
-            data: { lastGmailSyncAt: null },
+            data: { lastSyncAt: null, syncCheckpoint: null },
+        });
+        console.log('[Admin] Reset OAuth sync state');
+
+        // 8. Same for the IMAP checkpoint
+        await prisma.imapAccount.updateMany({
+            where: { userId },
+            data: { uidValidity: null, lastUid: null, lastSyncAt: null },
         });
-        console.log('[Admin] Reset OAuth sync timestamp');
+        console.log('[Admin] Reset IMAP sync state');
 
         return NextResponse.json({
             success: true,
@@ -66,6 +79,7 @@ export async function POST() {
                 subscriptions: deletedSubscriptions.count,
                 gmailMessages: deletedGmailMessages.count,
                 transactions: deletedTransactions.count,
+                imports: deletedImports.count,
                 vendors: orphanedVendors.count,
             },
             message: 'All subscription data cleared. You can now scan your inbox fresh.',
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/prisma';
+import { validateBody, chargeAlertUpdateSchema } from '@/lib/validation';
+
+// PATCH /api/alerts/[id] - Dismiss an alert, or reopen a dismissed one
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+
+        const body = await request.json();
+        const validation = validateBody(body, chargeAlertUpdateSchema);
+        if (!validation.success) {
+            return NextResponse.json(
+                { error: validation.error, details: validation.details },
+                { status: 400 }
+            );
+        }
+
+        const alert = await prisma.chargeAlert.findFirst({
+            where: { id: params.id, userId },
+        });
+
+        if (!alert) {
+            return NextResponse.json({ error: 'Alert not found' }, { status: 404 });
+        }
+
+        const updated = await prisma.chargeAlert.update({
+            where: { id: params.id },
+            data: { status: validation.data.status },
+        });
+
+        return NextResponse.json({
+            success: true,
+            alert: { id: updated.id, status: updated.status },
+        });
+    } catch (error) {
+        console.error('[Alert Update] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to update alert' },
+            { status: 500 }
+        );
+    }
+}
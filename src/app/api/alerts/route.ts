@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { listChargeAlerts, refreshChargeAlerts } from '@/lib/charge-alerts';
+
+// GET /api/alerts - Price change and billing anomaly alerts
+// Query params: subscriptionId, includeDismissed=true
+export async function GET(request: NextRequest) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+        const searchParams = request.nextUrl.searchParams;
+
+        const alerts = await listChargeAlerts(userId, {
+            subscriptionId: searchParams.get('subscriptionId') || undefined,
+            includeDismissed: searchParams.get('includeDismissed') === 'true',
+        });
+
+        return NextResponse.json({
+            alerts,
+            total: alerts.length,
+        });
+    } catch (error) {
+        console.error('[Alerts API] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch alerts' },
+            { status: 500 }
+        );
+    }
+}
+
+// POST /api/alerts - Re-run anomaly detection over the stored transaction history
+export async function POST() {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+        const created = await refreshChargeAlerts(userId);
+
+        return NextResponse.json({ success: true, created });
+    } catch (error) {
+        console.error('[Alerts Refresh] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to refresh alerts' },
+            { status: 500 }
+        );
+    }
+}
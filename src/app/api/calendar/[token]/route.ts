@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import prisma from '@/lib/prisma';
+import { buildCalendarEvents, renderCalendar } from '@/lib/calendar-feed';
+
+// GET /api/calendar/[token].ics - iCalendar feed of renewals, deadlines and follow-ups
+// Authenticated by the secret token in the URL, not the session, so calendar apps can fetch it
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { token: string } }
+) {
+    try {
+        const token = params.token.replace(/\.ics$/i, '');
+        if (!token) {
+            return NextResponse.json({ error: 'Calendar not found' }, { status: 404 });
+        }
+
+        const user = await prisma.user.findUnique({
+            where: { calendarToken: token },
+            select: { id: true },
+        });
+
+        // Revoked and unknown tokens look the same
+        if (!user) {
+            return NextResponse.json({ error: 'Calendar not found' }, { status: 404 });
+        }
+
+        const events = await buildCalendarEvents(user.id, request.nextUrl.origin);
+        const body = renderCalendar(events, 'SubSentry Renewals');
+
+        return new NextResponse(body, {
+            headers: {
+                'Content-Type': 'text/calendar; charset=utf-8',
+                'Content-Disposition': 'inline; filename="subsentry.ics"',
+                'Cache-Control': 'private, no-store',
+            },
+        });
+    } catch (error) {
+        console.error('[Calendar Feed] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to build calendar' },
+            { status: 500 }
+        );
+    }
+}
@@ -3,6 +3,11 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import prisma from '@/lib/prisma';
 import { getGmailStatus } from '@/lib/gmail';
+import { getFxConverter, normalizeAmount, sumMoney } from '@/lib/fx';
+import { getActionDeadline, isUpcomingDeadline } from '@/lib/contract-terms';
+import { getUrgencyLabel } from '@/lib/renewal-detection';
+import { buildSpendForecast } from '@/lib/spend-forecast';
+import { DEFAULT_TIMEZONE, todayIn } from '@/lib/calendar-date';
 
 export async function GET() {
     console.log('[Dashboard] GET request received');
@@ -42,28 +47,60 @@ export async function GET() {
 
         const totalSubscriptions = subscriptions.length;
         const gmailSubscriptions = subscriptions.filter(s => s.source === 'gmail').length;
+        const imapSubscriptions = subscriptions.filter(s => s.source === 'imap').length;
+        const outlookSubscriptions = subscriptions.filter(s => s.source === 'outlook').length;
         const csvSubscriptions = subscriptions.filter(s => s.source === 'csv').length;
 
-        // Calculate upcoming renewals (within 30 days)
-        const now = new Date();
-        const thirtyDaysFromNow = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000);
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { timezone: true },
+        });
 
-        const upcomingRenewals = subscriptions.filter(s =>
-            s.renewalDate &&
-            s.renewalDate >= now &&
-            s.renewalDate <= thirtyDaysFromNow
-        );
+        // Upcoming renewals by the last day to cancel or renegotiate, not the renewal itself:
+        // deadlines in the next 30 days, plus missed notice deadlines whose term has not ended yet
+        const upcomingRenewals = subscriptions
+            .filter(s => s.status !== 'cancelled')
+            .map(s => ({ ...s, actionDeadline: getActionDeadline(s, user?.timezone) }))
+            .filter(s => isUpcomingDeadline(s.actionDeadline))
+            .sort((a, b) => a.actionDeadline!.deadline.getTime() - b.actionDeadline!.deadline.getTime());
+        const urgentRenewals = upcomingRenewals.filter(s => s.actionDeadline!.daysUntilDeadline >= 0);
 
         // Get total transactions (from CSV)
         const transactionCount = await prisma.transaction.count({
             where: { userId },
         });
 
-        // Calculate total spend from subscriptions
-        const totalSpend = subscriptions.reduce((sum, s) => {
-            const amount = s.amount ? parseFloat(s.amount.toString()) : 0;
-            return sum + amount;
-        }, 0);
+        // Get savings
+        const savings = await prisma.saving.findMany({
+            where: {
+                negotiation: { userId },
+            },
+        });
+
+        // Convert into the reporting currency at each renewal/saving date
+        const fx = await getFxConverter(userId, [
+            ...subscriptions.map(s => s.currency),
+            ...savings.map(s => s.currency),
+        ]);
+
+        // Spend as a run-rate: each active subscription normalized by its billing cycle,
+        // the same figures the spend forecast starts from
+        const { runRate, unconverted } = buildSpendForecast(
+            subscriptions
+                .filter(s => s.status === 'active' && s.amount)
+                .map(s => ({
+                    id: s.id,
+                    vendorId: s.vendorId,
+                    vendorName: s.vendor.name,
+                    amount: parseFloat(s.amount!.toString()),
+                    currency: s.currency,
+                    billingCycle: s.billingCycle,
+                    renewalDate: s.renewalDate,
+                })),
+            [],
+            fx,
+            todayIn(user?.timezone || DEFAULT_TIMEZONE)
+        );
 
         // Get negotiations stats
         const negotiations = await prisma.negotiation.findMany({
@@ -73,20 +110,23 @@ export async function GET() {
         const negotiationsSent = negotiations.filter(n => n.status === 'sent').length;
         const negotiationsDraft = negotiations.filter(n => n.status === 'draft').length;
 
-        // Get savings
-        const savings = await prisma.saving.findMany({
-            where: {
-                negotiation: { userId },
-            },
-        });
-
-        const estimatedSavings = savings.reduce(
-            (sum, s) => sum + parseFloat(s.estimatedAmount.toString()),
-            0
+        const estimatedSavings = sumMoney(
+            savings.map(s => ({
+                amount: parseFloat(s.estimatedAmount.toString()),
+                currency: s.currency,
+                date: s.createdAt,
+            })),
+            fx
         );
-        const confirmedSavings = savings.reduce(
-            (sum, s) => sum + parseFloat(s.confirmedAmount?.toString() || '0'),
-            0
+        const confirmedSavings = sumMoney(
+            savings
+                .filter(s => s.confirmedAmount)
+                .map(s => ({
+                    amount: parseFloat(s.confirmedAmount!.toString()),
+                    currency: s.currency,
+                    date: s.updatedAt,
+                })),
+            fx
         );
 
         // Get Gmail connection status
@@ -117,6 +157,7 @@ export async function GET() {
         })));
 
         return NextResponse.json({
+            reportingCurrency: fx.reportingCurrency,
             vendors: {
                 total: vendorCount,
                 saas: saasCount,
@@ -124,21 +165,41 @@ export async function GET() {
             subscriptions: {
                 total: totalSubscriptions,
                 gmail: gmailSubscriptions,
+                imap: imapSubscriptions,
+                outlook: outlookSubscriptions,
                 csv: csvSubscriptions,
             },
             renewals: {
-                urgent: upcomingRenewals.length,
+                urgent: urgentRenewals.length,
                 upcoming: upcomingRenewals.map(s => ({
                     id: s.id,
+                    vendorId: s.vendorId,
                     vendorName: s.vendor.name,
-                    renewalDate: s.renewalDate,
+                    vendorCategory: s.vendor.category,
+                    renewalDate: s.actionDeadline!.termEndDate,
+                    actionDeadline: s.actionDeadline!.deadline,
+                    daysUntilDeadline: s.actionDeadline!.daysUntilDeadline,
+                    noticePeriodDays: s.actionDeadline!.noticePeriodDays,
+                    autoRenew: s.actionDeadline!.autoRenew,
+                    urgencyLabel: getUrgencyLabel(s.actionDeadline!.daysUntilDeadline),
                     amount: s.amount,
+                    currency: s.currency,
+                    normalizedAmount: normalizeAmount(
+                        fx,
+                        s.amount ? parseFloat(s.amount.toString()) : null,
+                        s.currency,
+                        s.actionDeadline!.termEndDate
+                    ),
                     billingCycle: s.billingCycle,
                 })),
             },
             transactions: {
                 count: transactionCount,
-                totalSpend,
+            },
+            spend: {
+                monthlyRunRate: runRate.monthly,
+                annualRunRate: runRate.annual,
+                unconverted,
             },
             negotiations: {
                 total: negotiations.length,
@@ -146,8 +207,11 @@ export async function GET() {
                 draft: negotiationsDraft,
             },
             savings: {
-                estimated: estimatedSavings,
-                confirmed: confirmedSavings,
+                estimated: estimatedSavings.normalized,
+                confirmed: confirmedSavings.normalized,
+                estimatedByCurrency: estimatedSavings.original,
+                confirmedByCurrency: confirmedSavings.original,
+                unconverted: estimatedSavings.unconverted,
             },
             gmail: gmailStatus,
             emailStats: {
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { acceptExtractionReview, rejectExtractionReview } from '@/lib/extraction-review';
+import { validateBody, extractionReviewSchema } from '@/lib/validation';
+
+// POST /api/extraction-reviews/[id] - Accept an extraction (optionally with corrected fields) or reject it
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+
+        const body = await request.json();
+        const validation = validateBody(body, extractionReviewSchema);
+        if (!validation.success) {
+            return NextResponse.json(
+                { error: validation.error, details: validation.details },
+                { status: 400 }
+            );
+        }
+
+        const decision = validation.data;
+        const result = decision.action === 'accept'
+            ? await acceptExtractionReview(userId, params.id, decision.fields)
+            : await rejectExtractionReview(userId, params.id, { blockSender: decision.blockSender });
+
+        if (!result.success) {
+            return NextResponse.json({ error: result.error }, { status: result.status });
+        }
+
+        return NextResponse.json({ success: true, ...result.data });
+    } catch (error) {
+        console.error('[Extraction Review] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to review extraction' },
+            { status: 500 }
+        );
+    }
+}
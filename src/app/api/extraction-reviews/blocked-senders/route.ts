@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { unblockSenderDomain } from '@/lib/extraction-review';
+
+// DELETE /api/extraction-reviews/blocked-senders?domain=xxx - Send a blocked sender's new mail for extraction again
+export async function DELETE(request: NextRequest) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+        const domain = request.nextUrl.searchParams.get('domain');
+
+        if (!domain) {
+            return NextResponse.json({ error: 'domain is required' }, { status: 400 });
+        }
+
+        const removed = await unblockSenderDomain(userId, domain.toLowerCase());
+        if (!removed) {
+            return NextResponse.json({ error: 'Sender is not blocked' }, { status: 404 });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('[Extraction Reviews API] Unblock error:', error);
+        return NextResponse.json(
+            { error: 'Failed to unblock sender' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { listBlockedSenderDomains, listPendingReviews } from '@/lib/extraction-review';
+
+// GET /api/extraction-reviews - Low and medium confidence email extractions waiting for review, with blocked senders
+export async function GET() {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+        const [reviews, blockedSenders] = await Promise.all([
+            listPendingReviews(userId),
+            listBlockedSenderDomains(userId),
+        ]);
+
+        return NextResponse.json({ reviews, blockedSenders, total: reviews.length });
+    } catch (error) {
+        console.error('[Extraction Reviews API] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch extractions to review' },
+            { status: 500 }
+        );
+    }
+}
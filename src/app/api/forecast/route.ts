@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getSpendForecast } from '@/lib/spend-forecast';
+
+// GET /api/forecast - Run-rate and 12-month outflow projection, with and without pending negotiation savings
+export async function GET() {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+        const forecast = await getSpendForecast(userId);
+
+        return NextResponse.json(forecast);
+    } catch (error) {
+        console.error('[Forecast API] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to build forecast' },
+            { status: 500 }
+        );
+    }
+}
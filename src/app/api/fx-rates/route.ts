@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/prisma';
+import { getFxRateSummary, parseFxRatesCSV, saveFxRates } from '@/lib/fx';
+import { validateBody, fxRateImportSchema } from '@/lib/validation';
+
+// GET /api/fx-rates - Summarize the locally stored exchange rates
+export async function GET() {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+        const summary = await getFxRateSummary(userId);
+
+        return NextResponse.json(summary);
+    } catch (error) {
+        console.error('[FX Rates API] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch exchange rates' },
+            { status: 500 }
+        );
+    }
+}
+
+// POST /api/fx-rates - Import a CSV of daily exchange rates
+export async function POST(request: NextRequest) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+
+        const formData = await request.formData();
+        const file = formData.get('file') as File;
+
+        if (!file) {
+            return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+        }
+
+        // Base currency for wide files (one column per currency); defaults to EUR as in ECB exports
+        const baseField = formData.get('base');
+        const validation = validateBody(
+            { base: typeof baseField === 'string' && baseField.length > 0 ? baseField : undefined },
+            fxRateImportSchema
+        );
+        if (!validation.success) {
+            return NextResponse.json({ error: validation.error }, { status: 400 });
+        }
+
+        const parseResult = parseFxRatesCSV(await file.text(), validation.data.base);
+
+        if (parseResult.rates.length === 0) {
+            return NextResponse.json(
+                { error: 'No valid exchange rates found', details: parseResult.errors },
+                { status: 400 }
+            );
+        }
+
+        const imported = await saveFxRates(userId, parseResult.rates);
+        const summary = await getFxRateSummary(userId);
+
+        return NextResponse.json({
+            success: true,
+            imported,
+            errors: parseResult.errors,
+            summary,
+        });
+    } catch (error) {
+        console.error('[FX Rates API] Import error:', error);
+        return NextResponse.json(
+            { error: 'Failed to import exchange rates' },
+            { status: 500 }
+        );
+    }
+}
+
+// DELETE /api/fx-rates - Remove all stored exchange rates
+export async function DELETE() {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+        const deleted = await prisma.fxRate.deleteMany({ where: { userId } });
+
+        return NextResponse.json({
+            success: true,
+            deleted: deleted.count,
+        });
+    } catch (error) {
+        console.error('[FX Rates API] Delete error:', error);
+        return NextResponse.json(
+            { error: 'Failed to delete exchange rates' },
+            { status: 500 }
+        );
+    }
+}
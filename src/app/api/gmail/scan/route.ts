@@ -1,10 +1,84 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import { scanInbox } from '@/lib/gmail';
+import { enqueueJob } from '@/lib/jobs';
+import { listGmailLabels } from '@/lib/gmail';
+import { getGmailScanSettings, saveGmailScanSettings, GmailScanSettings } from '@/lib/gmail-scan-settings';
 import { checkRateLimit, rateLimitHeaders } from '@/lib/rate-limit';
-import { validateBody, gmailScanSchema } from '@/lib/validation';
+import { validateBody, gmailScanSchema, gmailScanSettingsSchema } from '@/lib/validation';
 
+function serializeSettings(settings: GmailScanSettings) {
+    return {
+        ...settings,
+        backfillAfter: settings.backfillAfter?.toISOString().slice(0, 10) ?? null,
+        backfillBefore: settings.backfillBefore?.toISOString().slice(0, 10) ?? null,
+    };
+}
+
+// GET /api/gmail/scan - Get the scan settings and the Gmail labels they can target
+export async function GET() {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+        const [settings, labels] = await Promise.all([
+            getGmailScanSettings(userId),
+            listGmailLabels(userId).catch(error => {
+                console.error('[Gmail Scan] Failed to list labels:', error);
+                return [] as string[];
+            }),
+        ]);
+
+        return NextResponse.json({ settings: serializeSettings(settings), labels });
+    } catch (error) {
+        console.error('[Gmail Scan] Settings error:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch scan settings' },
+            { status: 500 }
+        );
+    }
+}
+
+// PUT /api/gmail/scan - Save the scan settings without scanning
+export async function PUT(request: NextRequest) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+
+        const body = await request.json();
+        const validation = validateBody(body, gmailScanSettingsSchema);
+        if (!validation.success) {
+            return NextResponse.json(
+                { error: validation.error, details: validation.details },
+                { status: 400 }
+            );
+        }
+
+        const { settings, queryChanged } = await saveGmailScanSettings(userId, validation.data);
+
+        return NextResponse.json({
+            success: true,
+            settings: serializeSettings(settings),
+            // The next scan backfills with the new query instead of resuming
+            resync: queryChanged,
+        });
+    } catch (error) {
+        console.error('[Gmail Scan] Settings update error:', error);
+        return NextResponse.json(
+            { error: 'Failed to save scan settings' },
+            { status: 500 }
+        );
+    }
+}
+
+// POST /api/gmail/scan - Queue an inbox sync, saving any scan settings sent along first
 export async function POST(request: NextRequest) {
     console.log('[Gmail Scan] POST request received');
 
@@ -31,25 +105,29 @@ export async function POST(request: NextRequest) {
         // Validate request body
         const body = await request.json().catch(() => ({}));
         const validation = validateBody(body, gmailScanSchema);
-        const maxResults = validation.success ? validation.data.maxResults : 10;
+        if (!validation.success) {
+            return NextResponse.json(
+                { error: validation.error, details: validation.details },
+                { status: 400 }
+            );
+        }
+        const { maxResults, settings } = validation.data;
 
-        console.log('[Gmail Scan] Starting TOP-N scan with maxResults:', maxResults);
-        const result = await scanInbox(userId, maxResults);
+        if (settings) {
+            const saved = await saveGmailScanSettings(userId, settings);
+            console.log('[Gmail Scan] Saved scan settings, query changed:', saved.queryChanged);
+        }
 
-        const response = {
-            success: true,
-            messagesScanned: result.messagesScanned,
-            newMessages: result.newMessages,
-            subscriptionsCreated: result.subscriptionsCreated,
-            vendorsCreated: result.vendorsCreated,
-            skippedCount: result.skippedCount,
-            message: result.newMessages === 0
-                ? `Checked ${result.messagesScanned} emails, no new messages to process`
-                : `Processed ${result.newMessages} new emails, created ${result.subscriptionsCreated} subscriptions${result.vendorsCreated > 0 ? ` and ${result.vendorsCreated} new vendors` : ''}`,
-        };
-
-        console.log('[Gmail Scan] Complete:', response);
-        return NextResponse.json(response);
+        // One scan per user at a time; scanning again while one runs returns it
+        const job = await enqueueJob({
+            userId,
+            type: 'gmail_scan',
+            key: 'inbox',
+            payload: { maxResults },
+        });
+
+        console.log('[Gmail Scan] Queued job:', job.id);
+        return NextResponse.json({ success: true, jobId: job.id, job }, { status: 202 });
     } catch (error) {
         console.error('[Gmail Scan] Error:', error);
         return NextResponse.json(
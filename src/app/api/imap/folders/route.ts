@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { listImapFolders } from '@/lib/imap';
+
+// GET /api/imap/folders - List the folders on the connected IMAP server
+export async function GET() {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+        const result = await listImapFolders(userId);
+        if (!result.success) {
+            return NextResponse.json({ error: result.error }, { status: result.status });
+        }
+
+        return NextResponse.json({ folders: result.data.folders });
+    } catch (error) {
+        console.error('[IMAP Folders] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to list IMAP folders' },
+            { status: 500 }
+        );
+    }
+}
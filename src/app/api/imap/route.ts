@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { deleteImapAccount, getImapStatus, saveImapAccount } from '@/lib/imap';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/rate-limit';
+import { validateBody, imapAccountSchema } from '@/lib/validation';
+
+// GET /api/imap - Get the connected IMAP account (never includes the password)
+export async function GET() {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+        const status = await getImapStatus(userId);
+
+        return NextResponse.json(status);
+    } catch (error) {
+        console.error('[IMAP API] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to get IMAP status' },
+            { status: 500 }
+        );
+    }
+}
+
+// PUT /api/imap - Test and save the IMAP account settings
+export async function PUT(request: NextRequest) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+
+        // Every attempt logs in to the server, so guessing passwords is throttled
+        const rateLimit = checkRateLimit(userId, 'imapConnect');
+        if (!rateLimit.allowed) {
+            return NextResponse.json(
+                { error: 'Too many requests', retryAfter: Math.ceil(rateLimit.resetIn / 1000) },
+                { status: 429, headers: rateLimitHeaders(rateLimit) }
+            );
+        }
+
+        const body = await request.json();
+        const validation = validateBody(body, imapAccountSchema);
+        if (!validation.success) {
+            return NextResponse.json(
+                { error: validation.error, details: validation.details },
+                { status: 400 }
+            );
+        }
+
+        const result = await saveImapAccount(userId, validation.data);
+        if (!result.success) {
+            return NextResponse.json({ error: result.error }, { status: result.status });
+        }
+
+        return NextResponse.json({
+            success: true,
+            folders: result.data.folders,
+            account: await getImapStatus(userId),
+        });
+    } catch (error) {
+        console.error('[IMAP API] Save error:', error);
+        return NextResponse.json(
+            { error: 'Failed to save IMAP account' },
+            { status: 500 }
+        );
+    }
+}
+
+// DELETE /api/imap - Disconnect the IMAP account
+export async function DELETE() {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+        await deleteImapAccount(userId);
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('[IMAP API] Delete error:', error);
+        return NextResponse.json(
+            { error: 'Failed to disconnect IMAP account' },
+            { status: 500 }
+        );
+    }
+}
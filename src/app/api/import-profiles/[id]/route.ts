@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/prisma';
+
+// DELETE /api/import-profiles/[id] - Delete a saved column mapping profile
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+
+        const profile = await prisma.importProfile.findFirst({
+            where: { id: params.id, userId },
+        });
+
+        if (!profile) {
+            return NextResponse.json({ error: 'Import profile not found' }, { status: 404 });
+        }
+
+        await prisma.importProfile.delete({
+            where: { id: params.id },
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('[Import Profile Delete] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to delete import profile' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { listImportProfiles } from '@/lib/import-profiles';
+
+// GET /api/import-profiles - List saved CSV column mapping profiles
+export async function GET() {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+        const profiles = await listImportProfiles(userId);
+
+        return NextResponse.json({
+            profiles,
+            total: profiles.length,
+        });
+    } catch (error) {
+        console.error('[Import Profiles API] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch import profiles' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { commitImportBatch } from '@/lib/import-batches';
+
+// POST /api/imports/[id]/commit - Confirm a previewed import and write it
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+        const result = await commitImportBatch(userId, params.id);
+
+        if (!result.success) {
+            return NextResponse.json({ error: result.error }, { status: result.status });
+        }
+
+        return NextResponse.json({
+            success: true,
+            ...result.data,
+        });
+    } catch (error) {
+        console.error('[Import Commit] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to commit import' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { rollbackImportBatch } from '@/lib/import-batches';
+
+// POST /api/imports/[id]/rollback - Undo a committed import batch
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+        const result = await rollbackImportBatch(userId, params.id);
+
+        if (!result.success) {
+            return NextResponse.json({ error: result.error }, { status: result.status });
+        }
+
+        return NextResponse.json({
+            success: true,
+            ...result.data,
+        });
+    } catch (error) {
+        console.error('[Import Rollback] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to roll back import' },
+            { status: 500 }
+        );
+    }
+}
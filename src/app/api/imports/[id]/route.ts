@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { discardImportBatch } from '@/lib/import-batches';
+
+// DELETE /api/imports/[id] - Discard an unconfirmed import preview
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+        const result = await discardImportBatch(userId, params.id);
+
+        if (!result.success) {
+            return NextResponse.json({ error: result.error }, { status: result.status });
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('[Import Discard] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to discard import' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/prisma';
+
+// GET /api/imports - List statement import batches, newest first
+export async function GET() {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+
+        const batches = await prisma.importBatch.findMany({
+            where: { userId },
+            orderBy: { createdAt: 'desc' },
+            take: 50,
+            include: {
+                _count: {
+                    select: { transactions: true, vendors: true, subscriptions: true },
+                },
+            },
+        });
+
+        return NextResponse.json({
+            imports: batches.map(b => ({
+                id: b.id,
+                fileName: b.fileName,
+                format: b.format,
+                profileName: b.profileName,
+                status: b.status,
+                totalRows: b.totalRows,
+                newCount: b.newCount,
+                duplicateCount: b.duplicateCount,
+                nonSaasCount: b.nonSaasCount,
+                transactions: b._count.transactions,
+                vendorsCreated: b._count.vendors,
+                subscriptionsCreated: b._count.subscriptions,
+                createdAt: b.createdAt,
+                committedAt: b.committedAt,
+                rolledBackAt: b.rolledBackAt,
+            })),
+            total: batches.length,
+        });
+    } catch (error) {
+        console.error('[Imports API] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch imports' },
+            { status: 500 }
+        );
+    }
+}
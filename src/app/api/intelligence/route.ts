@@ -1,11 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import { getOrCreateIntelligence } from '@/lib/intelligence-engine';
+import prisma from '@/lib/prisma';
+import { getIntelligenceSnapshot } from '@/lib/intelligence-engine';
+import { enqueueJob } from '@/lib/jobs';
+
+/**
+ * Queue intelligence generation for a subscription
+ * Shares one job per subscription, so a regenerate while a first generation
+ * is still running waits for that run instead of starting another
+ */
+function queueIntelligence(userId: string, subscriptionId: string, forceRegenerate: boolean) {
+    return enqueueJob({
+        userId,
+        type: 'intelligence',
+        key: subscriptionId,
+        payload: { subscriptionId, forceRegenerate },
+    });
+}
 
 /**
  * GET /api/intelligence?subscriptionId=xxx
- * Returns cached intelligence snapshot or generates new one
+ * Returns the cached intelligence snapshot, or queues generation and returns
+ * the job to poll (202)
  */
 export async function GET(request: NextRequest) {
     console.log('[Intelligence API] GET request received');
@@ -16,6 +33,7 @@ export async function GET(request: NextRequest) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
+        const userId = (session.user as { id: string }).id;
         const subscriptionId = request.nextUrl.searchParams.get('subscriptionId');
 
         if (!subscriptionId) {
@@ -25,18 +43,27 @@ export async function GET(request: NextRequest) {
             );
         }
 
-        // Get or create intelligence snapshot (uses cache by default)
-        const intelligence = await getOrCreateIntelligence(subscriptionId, false);
+        const subscription = await prisma.subscription.findFirst({
+            where: { id: subscriptionId, userId },
+            select: { id: true },
+        });
 
-        if (!intelligence) {
+        if (!subscription) {
             return NextResponse.json(
                 { error: 'Subscription not found' },
                 { status: 404 }
             );
         }
 
-        console.log('[Intelligence API] Returning snapshot for:', subscriptionId);
-        return NextResponse.json(intelligence);
+        const intelligence = await getIntelligenceSnapshot(subscriptionId);
+        if (intelligence) {
+            console.log('[Intelligence API] Returning snapshot for:', subscriptionId);
+            return NextResponse.json(intelligence);
+        }
+
+        const job = await queueIntelligence(userId, subscriptionId, false);
+        console.log('[Intelligence API] Queued generation for:', subscriptionId, job.id);
+        return NextResponse.json({ jobId: job.id, job }, { status: 202 });
 
     } catch (error) {
         console.error('[Intelligence API] Error:', error);
@@ -48,8 +75,8 @@ export async function GET(request: NextRequest) {
 }
 
 /**
- * POST /api/intelligence/regenerate
- * Forces regeneration of intelligence snapshot
+ * POST /api/intelligence
+ * Queues regeneration of the intelligence snapshot and returns the job to poll
  */
 export async function POST(request: NextRequest) {
     console.log('[Intelligence API] POST request received');
@@ -60,6 +87,7 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
         }
 
+        const userId = (session.user as { id: string }).id;
         const body = await request.json();
         const { subscriptionId } = body;
 
@@ -70,21 +98,21 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        // Force regeneration
-        const intelligence = await getOrCreateIntelligence(subscriptionId, true);
+        const subscription = await prisma.subscription.findFirst({
+            where: { id: subscriptionId, userId },
+            select: { id: true },
+        });
 
-        if (!intelligence) {
+        if (!subscription) {
             return NextResponse.json(
                 { error: 'Subscription not found' },
                 { status: 404 }
             );
         }
 
-        console.log('[Intelligence API] Regenerated snapshot for:', subscriptionId);
-        return NextResponse.json({
-            ...intelligence,
-            regenerated: true,
-        });
+        const job = await queueIntelligence(userId, subscriptionId, true);
+        console.log('[Intelligence API] Queued regeneration for:', subscriptionId, job.id);
+        return NextResponse.json({ jobId: job.id, job }, { status: 202 });
 
     } catch (error) {
         console.error('[Intelligence API] Error:', error);
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { cancelJob } from '@/lib/jobs';
+
+// POST /api/jobs/[id]/cancel - Cancel a queued job, or ask a running one to stop
+// after the unit of work it is on; work already done is kept
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+        const result = await cancelJob(userId, params.id);
+
+        if (!result.success) {
+            return NextResponse.json({ error: result.error }, { status: result.status });
+        }
+
+        return NextResponse.json({ success: true, job: result.data });
+    } catch (error) {
+        console.error('[Jobs API] Cancel error:', error);
+        return NextResponse.json(
+            { error: 'Failed to cancel job' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getJob, isJobFinished, JobView } from '@/lib/jobs';
+
+export const dynamic = 'force-dynamic';
+
+const CHECK_INTERVAL_MS = 1000;
+// Comment lines keep proxies from closing a quiet stream
+const KEEPALIVE_INTERVAL_MS = 15000;
+// EventSource reconnects on its own when a long stream is closed
+const MAX_STREAM_MS = 5 * 60 * 1000;
+
+// GET /api/jobs/[id]/events - Server-sent events with the job's status, progress
+// and counters whenever they change; the stream ends once the job has finished
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+        const initial = await getJob(userId, params.id);
+
+        if (!initial) {
+            return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+        }
+
+        const encoder = new TextEncoder();
+        let closed = false;
+        request.signal.addEventListener('abort', () => { closed = true; });
+
+        const stream = new ReadableStream({
+            async start(controller) {
+                const write = (chunk: string) => {
+                    if (closed) return;
+                    try {
+                        controller.enqueue(encoder.encode(chunk));
+                    } catch {
+                        closed = true;
+                    }
+                };
+
+                const deadline = Date.now() + MAX_STREAM_MS;
+                let job: JobView | null = initial;
+                let lastSent = '';
+                let lastWrite = 0;
+
+                try {
+                    while (job && !closed) {
+                        const serialized = JSON.stringify(job);
+                        if (serialized !== lastSent) {
+                            write(`data: ${serialized}\n\n`);
+                            lastSent = serialized;
+                            lastWrite = Date.now();
+                        } else if (Date.now() - lastWrite >= KEEPALIVE_INTERVAL_MS) {
+                            write(': keepalive\n\n');
+                            lastWrite = Date.now();
+                        }
+
+                        if (isJobFinished(job) || Date.now() >= deadline) break;
+
+                        await new Promise(resolve => setTimeout(resolve, CHECK_INTERVAL_MS));
+                        job = await getJob(userId, params.id);
+                    }
+                } catch (error) {
+                    console.error('[Jobs API] Event stream error:', error);
+                }
+
+                if (!closed) {
+                    closed = true;
+                    controller.close();
+                }
+            },
+            cancel() {
+                closed = true;
+            },
+        });
+
+        return new Response(stream, {
+            headers: {
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-store, no-transform',
+                Connection: 'keep-alive',
+            },
+        });
+    } catch (error) {
+        console.error('[Jobs API] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to stream job' },
+            { status: 500 }
+        );
+    }
+}
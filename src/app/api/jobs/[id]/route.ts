@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getJob } from '@/lib/jobs';
+
+// GET /api/jobs/[id] - Status, progress and, once finished, the result or error of a job
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+        const job = await getJob(userId, params.id);
+
+        if (!job) {
+            return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+        }
+
+        return NextResponse.json(job, { headers: { 'Cache-Control': 'no-store' } });
+    } catch (error) {
+        console.error('[Jobs API] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch job' },
+            { status: 500 }
+        );
+    }
+}
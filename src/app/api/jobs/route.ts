@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { listJobs } from '@/lib/jobs';
+import { validateSearchParams, jobListSchema } from '@/lib/validation';
+
+// GET /api/jobs - Recent background jobs, e.g. ?type=gmail_scan&active=true to resume polling a running scan
+export async function GET(request: NextRequest) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+
+        const validation = validateSearchParams(request.nextUrl.searchParams, jobListSchema);
+        if (!validation.success) {
+            return NextResponse.json(
+                { error: validation.error, details: validation.details },
+                { status: 400 }
+            );
+        }
+
+        const jobs = await listJobs(userId, {
+            type: validation.data.type,
+            activeOnly: validation.data.active,
+        });
+
+        return NextResponse.json({ jobs });
+    } catch (error) {
+        console.error('[Jobs API] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch jobs' },
+            { status: 500 }
+        );
+    }
+}
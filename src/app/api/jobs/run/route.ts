@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { drainJobs } from '@/lib/jobs';
+import { isOperatorRequest } from '@/lib/operator-auth';
+
+// Leave headroom under typical serverless function limits
+const RUN_BUDGET_MS = 50000;
+
+// POST /api/jobs/run - Run queued jobs for a while; for deployments without a
+// long-lived worker, called on a schedule with "Authorization: Bearer $JOB_RUNNER_SECRET"
+export async function POST(request: NextRequest) {
+    if (!isOperatorRequest(request)) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const ran = await drainJobs(Date.now() + RUN_BUDGET_MS);
+        return NextResponse.json({ success: true, ran });
+    } catch (error) {
+        console.error('[Jobs API] Run error:', error);
+        return NextResponse.json(
+            { error: 'Failed to run jobs' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/prisma';
+import { correctMerchantMapping } from '@/lib/merchant-mappings';
+import { validateBody, merchantMappingUpdateSchema } from '@/lib/validation';
+
+// PATCH /api/merchant-mappings/[id] - Correct the vendor a descriptor is filed under
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+
+        const body = await request.json();
+        const validation = validateBody(body, merchantMappingUpdateSchema);
+        if (!validation.success) {
+            return NextResponse.json(
+                { error: validation.error, details: validation.details },
+                { status: 400 }
+            );
+        }
+
+        const mapping = await correctMerchantMapping(userId, params.id, validation.data.canonicalName);
+        if (!mapping) {
+            return NextResponse.json({ error: 'Merchant mapping not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ mapping });
+    } catch (error) {
+        console.error('[Merchant Mapping Update] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to update merchant mapping' },
+            { status: 500 }
+        );
+    }
+}
+
+// DELETE /api/merchant-mappings/[id] - Forget a mapping; the next import maps the descriptor afresh
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+
+        const mapping = await prisma.merchantMapping.findFirst({
+            where: { id: params.id, userId },
+        });
+
+        if (!mapping) {
+            return NextResponse.json({ error: 'Merchant mapping not found' }, { status: 404 });
+        }
+
+        await prisma.merchantMapping.delete({
+            where: { id: params.id },
+        });
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('[Merchant Mapping Delete] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to delete merchant mapping' },
+            { status: 500 }
+        );
+    }
+}
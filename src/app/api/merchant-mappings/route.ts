@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { listMerchantMappings } from '@/lib/merchant-mappings';
+
+// GET /api/merchant-mappings - List statement descriptors and the vendors they map to
+export async function GET() {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+        const mappings = await listMerchantMappings(userId);
+
+        return NextResponse.json({
+            mappings,
+            total: mappings.length,
+        });
+    } catch (error) {
+        console.error('[Merchant Mappings API] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch merchant mappings' },
+            { status: 500 }
+        );
+    }
+}
@@ -3,7 +3,9 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import prisma from '@/lib/prisma';
 import { generateNegotiationEmail, NegotiationStrategy, getStrategyDisplayName } from '@/lib/llm';
-import { getRenewalInfo } from '@/lib/renewal-detection';
+import { Frequency, getRenewalInfo } from '@/lib/renewal-detection';
+import { getFxConverter, sumMoney } from '@/lib/fx';
+import { signedAmount } from '@/lib/csv-parser';
 import { checkRateLimit, rateLimitHeaders } from '@/lib/rate-limit';
 import { validateBody, createNegotiationSchema, updateNegotiationSchema } from '@/lib/validation';
 
@@ -55,24 +57,25 @@ export async function POST(request: NextRequest) {
 
         // Calculate context for LLM
         const transactions = vendor.transactions;
-        const dates = transactions.map(t => new Date(t.date));
         const frequency = transactions[0]?.frequency || 'monthly';
 
         let renewalDate: Date | undefined;
         try {
-            const renewalInfo = getRenewalInfo(dates, frequency as 'monthly' | 'annual' | 'quarterly' | 'one-time');
+            const renewalInfo = getRenewalInfo(transactions, frequency as Frequency);
             renewalDate = renewalInfo.renewalDate;
         } catch {
             // No transactions
         }
 
+        // Net of refunds and credits, averaged over regular billing periods
         const totalSpend = transactions.reduce(
-            (sum, t) => sum + parseFloat(t.amount.toString()),
+            (sum, t) => sum + signedAmount({ amount: parseFloat(t.amount.toString()), kind: t.kind }),
             0
         );
+        const billingPeriods = transactions.filter(t => t.kind === 'charge').length;
         const monthlySpend = frequency === 'annual'
             ? totalSpend / 12
-            : totalSpend / Math.max(transactions.length, 1);
+            : totalSpend / Math.max(billingPeriods, 1);
 
         // Get user info
         const user = await prisma.user.findUnique({
@@ -207,26 +210,50 @@ export async function GET(request: NextRequest) {
             orderBy: { createdAt: 'desc' },
         });
 
+        const fx = await getFxConverter(
+            userId,
+            negotiations.flatMap(n => n.savings.map(s => s.currency))
+        );
+
         return NextResponse.json({
-            negotiations: negotiations.map(n => ({
-                id: n.id,
-                vendorId: n.vendorId,
-                vendorName: n.vendor.name,
-                strategy: n.strategy,
-                strategyName: getStrategyDisplayName(n.strategy as NegotiationStrategy),
-                status: n.status,
-                renewalDate: n.renewalDate?.toISOString(),
-                sentAt: n.sentAt?.toISOString(),
-                createdAt: n.createdAt.toISOString(),
-                estimatedSavings: n.savings.reduce(
-                    (sum, s) => sum + parseFloat(s.estimatedAmount.toString()),
-                    0
-                ),
-                confirmedSavings: n.savings.reduce(
-                    (sum, s) => sum + parseFloat(s.confirmedAmount?.toString() || '0'),
-                    0
-                ),
-            })),
+            reportingCurrency: fx.reportingCurrency,
+            negotiations: negotiations.map(n => {
+                const estimated = sumMoney(
+                    n.savings.map(s => ({
+                        amount: parseFloat(s.estimatedAmount.toString()),
+                        currency: s.currency,
+                        date: s.createdAt,
+                    })),
+                    fx
+                );
+                const confirmed = sumMoney(
+                    n.savings
+                        .filter(s => s.confirmedAmount)
+                        .map(s => ({
+                            amount: parseFloat(s.confirmedAmount!.toString()),
+                            currency: s.currency,
+                            date: s.updatedAt,
+                        })),
+                    fx
+                );
+
+                return {
+                    id: n.id,
+                    vendorId: n.vendorId,
+                    vendorName: n.vendor.name,
+                    strategy: n.strategy,
+                    strategyName: getStrategyDisplayName(n.strategy as NegotiationStrategy),
+                    status: n.status,
+                    renewalDate: n.renewalDate?.toISOString(),
+                    sentAt: n.sentAt?.toISOString(),
+                    followUpAt: n.followUpAt?.toISOString(),
+                    createdAt: n.createdAt.toISOString(),
+                    estimatedSavings: estimated.normalized,
+                    confirmedSavings: confirmed.normalized,
+                    estimatedSavingsByCurrency: estimated.original,
+                    confirmedSavingsByCurrency: confirmed.original,
+                };
+            }),
         });
     } catch (error) {
         console.error('List negotiations error:', error);
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions, isMicrosoftSignInConfigured } from '@/lib/auth';
+import { deleteOutlookToken, getOutlookStatus } from '@/lib/outlook';
+
+// GET /api/outlook - Get the connected Microsoft 365 mailbox and whether Microsoft sign-in is set up
+export async function GET() {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+        const status = await getOutlookStatus(userId);
+
+        return NextResponse.json({ ...status, available: isMicrosoftSignInConfigured() });
+    } catch (error) {
+        console.error('[Outlook API] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to get Outlook status' },
+            { status: 500 }
+        );
+    }
+}
+
+// DELETE /api/outlook - Disconnect the mailbox; subscriptions already found are kept
+export async function DELETE() {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+        await deleteOutlookToken(userId);
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('[Outlook API] Delete error:', error);
+        return NextResponse.json(
+            { error: 'Failed to disconnect Outlook' },
+            { status: 500 }
+        );
+    }
+}
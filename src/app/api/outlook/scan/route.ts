@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { hasOutlookConnected } from '@/lib/outlook';
+import { DEFAULT_BACKFILL_LIMIT } from '@/lib/mailbox';
+import { enqueueJob } from '@/lib/jobs';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/rate-limit';
+import { validateBody, gmailScanSchema } from '@/lib/validation';
+
+// POST /api/outlook/scan - Queue a sync of the Outlook inbox; poll /api/jobs/[id] for the result
+export async function POST(request: NextRequest) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+
+        const rateLimit = checkRateLimit(userId, 'outlookScan');
+        if (!rateLimit.allowed) {
+            return NextResponse.json(
+                { error: 'Too many requests', retryAfter: Math.ceil(rateLimit.resetIn / 1000) },
+                { status: 429, headers: rateLimitHeaders(rateLimit) }
+            );
+        }
+
+        if (!(await hasOutlookConnected(userId))) {
+            return NextResponse.json({ error: 'No Outlook mailbox connected' }, { status: 400 });
+        }
+
+        // Same backfill cap as the Gmail scan
+        const body = await request.json().catch(() => ({}));
+        const validation = validateBody(body, gmailScanSchema);
+        const maxResults = validation.success ? validation.data.maxResults : DEFAULT_BACKFILL_LIMIT;
+
+        const job = await enqueueJob({
+            userId,
+            type: 'outlook_scan',
+            key: 'inbox',
+            payload: { maxResults },
+        });
+
+        return NextResponse.json({ success: true, jobId: job.id, job }, { status: 202 });
+    } catch (error) {
+        console.error('[Outlook Scan] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to scan Outlook inbox' },
+            { status: 500 }
+        );
+    }
+}
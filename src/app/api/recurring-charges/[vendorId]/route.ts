@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { confirmRecurringCandidate, dismissRecurringCandidate } from '@/lib/recurring-detection';
+import { validateBody, recurringReviewSchema } from '@/lib/validation';
+
+// POST /api/recurring-charges/[vendorId] - Confirm a likely recurring vendor as a subscription, or dismiss it for good
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { vendorId: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+
+        const body = await request.json();
+        const validation = validateBody(body, recurringReviewSchema);
+        if (!validation.success) {
+            return NextResponse.json(
+                { error: validation.error, details: validation.details },
+                { status: 400 }
+            );
+        }
+
+        const result = validation.data.action === 'confirm'
+            ? await confirmRecurringCandidate(userId, params.vendorId)
+            : await dismissRecurringCandidate(userId, params.vendorId);
+
+        if (!result.success) {
+            return NextResponse.json({ error: result.error }, { status: result.status });
+        }
+
+        return NextResponse.json({ success: true, ...result.data });
+    } catch (error) {
+        console.error('[Recurring Charge Review] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to review recurring charge' },
+            { status: 500 }
+        );
+    }
+}
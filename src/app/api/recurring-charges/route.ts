@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { findRecurringCandidates } from '@/lib/recurring-detection';
+
+// GET /api/recurring-charges - Vendors outside the SaaS catalog that bill like a subscription
+export async function GET() {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+        const candidates = await findRecurringCandidates(userId);
+
+        return NextResponse.json({
+            candidates: candidates.map(c => ({
+                ...c,
+                lastChargeDate: c.lastChargeDate.toISOString(),
+                nextExpectedDate: c.nextExpectedDate.toISOString(),
+            })),
+            total: candidates.length,
+        });
+    } catch (error) {
+        console.error('[Recurring Charges API] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to detect recurring charges' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { applyReprocessProposal, discardReprocessProposal } from '@/lib/reprocess';
+import { validateBody, reprocessDecisionSchema } from '@/lib/validation';
+
+// POST /api/reprocess/[id] - Apply the approved fields of a re-read (all when none are listed), or discard it
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+
+        const body = await request.json();
+        const validation = validateBody(body, reprocessDecisionSchema);
+        if (!validation.success) {
+            return NextResponse.json(
+                { error: validation.error, details: validation.details },
+                { status: 400 }
+            );
+        }
+
+        const decision = validation.data;
+        const result = decision.action === 'apply'
+            ? await applyReprocessProposal(userId, params.id, decision.fields)
+            : await discardReprocessProposal(userId, params.id);
+
+        if (!result.success) {
+            return NextResponse.json({ error: result.error }, { status: result.status });
+        }
+
+        return NextResponse.json({ success: true, ...result.data });
+    } catch (error) {
+        console.error('[Reprocess Decision] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to apply changes' },
+            { status: 500 }
+        );
+    }
+}
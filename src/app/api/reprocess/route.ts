@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { enqueueJob } from '@/lib/jobs';
+import { getReprocessSummary, listReprocessProposals } from '@/lib/reprocess';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/rate-limit';
+import { validateBody, reprocessRequestSchema } from '@/lib/validation';
+
+// GET /api/reprocess - How many stored emails an older extractor read, and the changes waiting for approval
+export async function GET() {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+        const [summary, proposals] = await Promise.all([
+            getReprocessSummary(userId),
+            listReprocessProposals(userId),
+        ]);
+
+        return NextResponse.json({ ...summary, proposals });
+    } catch (error) {
+        console.error('[Reprocess API] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch reprocessing status' },
+            { status: 500 }
+        );
+    }
+}
+
+// POST /api/reprocess - Queue a re-read of the selected (or all outdated) stored emails; poll /api/jobs/[id] for the result
+export async function POST(request: NextRequest) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+
+        const rateLimit = checkRateLimit(userId, 'reprocess');
+        if (!rateLimit.allowed) {
+            return NextResponse.json(
+                { error: 'Too many requests', retryAfter: Math.ceil(rateLimit.resetIn / 1000) },
+                { status: 429, headers: rateLimitHeaders(rateLimit) }
+            );
+        }
+
+        const body = await request.json().catch(() => ({}));
+        const validation = validateBody(body, reprocessRequestSchema);
+        if (!validation.success) {
+            return NextResponse.json(
+                { error: validation.error, details: validation.details },
+                { status: 400 }
+            );
+        }
+
+        // One re-read at a time; LLM calls are the expensive part
+        const job = await enqueueJob({
+            userId,
+            type: 'reprocess_extraction',
+            key: 'emails',
+            payload: {
+                messageIds: validation.data.messageIds ?? null,
+                outdatedOnly: validation.data.outdatedOnly,
+            },
+            maxAttempts: 1,
+        });
+
+        return NextResponse.json({ success: true, jobId: job.id, job }, { status: 202 });
+    } catch (error) {
+        console.error('[Reprocess API] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to start reprocessing' },
+            { status: 500 }
+        );
+    }
+}
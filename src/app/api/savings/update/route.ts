@@ -49,6 +49,7 @@ export async function PUT(request: NextRequest) {
             confirmedAmount: updated.confirmedAmount
                 ? parseFloat(updated.confirmedAmount.toString())
                 : null,
+            currency: updated.currency,
             notes: updated.notes,
         });
     } catch (error) {
@@ -4,6 +4,9 @@ import { authOptions } from '@/lib/auth';
 import prisma from '@/lib/prisma';
 import { sendEmail, isValidEmail, isAnyEmailMethodAvailable } from '@/lib/email';
 
+// Days to wait for a vendor reply before following up
+const FOLLOW_UP_DAYS = 7;
+
 export async function POST(request: NextRequest) {
     try {
         const session = await getServerSession(authOptions);
@@ -34,7 +37,7 @@ export async function POST(request: NextRequest) {
         const hasEmailMethod = await isAnyEmailMethodAvailable(userId);
         if (!hasEmailMethod) {
             return NextResponse.json(
-                { error: 'No email method available. Please connect Gmail or configure SMTP.' },
+                { error: 'No email method available. Please connect Gmail or Outlook, or configure SMTP.' },
                 { status: 500 }
             );
         }
@@ -64,7 +67,7 @@ export async function POST(request: NextRequest) {
         const subject = subjectMatch?.[1] || `Regarding ${negotiation.vendor.name} subscription`;
         const body = bodyMatch?.[1] || emailContent;
 
-        // Send email (tries Gmail first, then SMTP)
+        // Send email (tries Gmail first, then Outlook, then SMTP)
         const result = await sendEmail(
             { to: recipientEmail, subject, body },
             userId
@@ -83,18 +86,26 @@ export async function POST(request: NextRequest) {
             data: {
                 status: 'sent',
                 sentAt: new Date(),
+                followUpAt: new Date(Date.now() + FOLLOW_UP_DAYS * 24 * 60 * 60 * 1000),
                 recipientEmail,
                 finalEmail: emailContent,
                 gmailMessageId: result.messageId, // Audit trail
             },
         });
 
-        // Create savings record if estimated
+        // Create savings record if estimated, in the currency the vendor bills in
         if (estimatedSavings && estimatedSavings > 0) {
+            const subscription = await prisma.subscription.findFirst({
+                where: { userId, vendorId: negotiation.vendorId },
+                select: { currency: true },
+                orderBy: { lastDetectedAt: 'desc' },
+            });
+
             await prisma.saving.create({
                 data: {
                     negotiationId,
                     estimatedAmount: estimatedSavings,
+                    currency: subscription?.currency || 'USD',
                 },
             });
         }
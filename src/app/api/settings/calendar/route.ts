@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/prisma';
+import { getCalendarFeedUrl, issueCalendarToken, revokeCalendarToken } from '@/lib/calendar-feed';
+
+// GET /api/settings/calendar - Current calendar feed URL, or null when the feed is off
+export async function GET(request: NextRequest) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { calendarToken: true },
+        });
+
+        return NextResponse.json({
+            url: user?.calendarToken ? getCalendarFeedUrl(request.nextUrl.origin, user.calendarToken) : null,
+        });
+    } catch (error) {
+        console.error('[Calendar Settings] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch calendar feed' },
+            { status: 500 }
+        );
+    }
+}
+
+// POST /api/settings/calendar - Create the feed, or replace its URL (the old one stops working)
+export async function POST(request: NextRequest) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+        const token = await issueCalendarToken(userId);
+
+        return NextResponse.json({
+            success: true,
+            url: getCalendarFeedUrl(request.nextUrl.origin, token),
+        });
+    } catch (error) {
+        console.error('[Calendar Settings] Issue error:', error);
+        return NextResponse.json(
+            { error: 'Failed to create calendar feed' },
+            { status: 500 }
+        );
+    }
+}
+
+// DELETE /api/settings/calendar - Revoke the feed
+export async function DELETE() {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+        await revokeCalendarToken(userId);
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('[Calendar Settings] Revoke error:', error);
+        return NextResponse.json(
+            { error: 'Failed to revoke calendar feed' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/prisma';
+import { validateBody, userSettingsSchema } from '@/lib/validation';
+
+// GET /api/settings - Get the current user's preferences
+export async function GET() {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { reportingCurrency: true, timezone: true },
+        });
+
+        if (!user) {
+            return NextResponse.json({ error: 'User not found' }, { status: 404 });
+        }
+
+        return NextResponse.json({ settings: user });
+    } catch (error) {
+        console.error('[Settings API] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to fetch settings' },
+            { status: 500 }
+        );
+    }
+}
+
+// PATCH /api/settings - Update the current user's preferences
+export async function PATCH(request: NextRequest) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+
+        const body = await request.json();
+        const validation = validateBody(body, userSettingsSchema);
+        if (!validation.success) {
+            return NextResponse.json(
+                { error: validation.error, details: validation.details },
+                { status: 400 }
+            );
+        }
+
+        const user = await prisma.user.update({
+            where: { id: userId },
+            data: validation.data,
+            select: { reportingCurrency: true, timezone: true },
+        });
+
+        return NextResponse.json({
+            success: true,
+            settings: user,
+        });
+    } catch (error) {
+        console.error('[Settings API] Update error:', error);
+        return NextResponse.json(
+            { error: 'Failed to update settings' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import prisma from '@/lib/prisma';
+import { downloadMailboxAttachment } from '@/lib/mailbox';
+
+// GET /api/subscriptions/[id]/invoice - Download the invoice attachment the subscription was read from
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const session = await getServerSession(authOptions);
+        if (!session?.user) {
+            return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+        }
+
+        const userId = (session.user as { id: string }).id;
+
+        const subscription = await prisma.subscription.findFirst({
+            where: { id: params.id, userId },
+            select: { invoiceAttachmentId: true },
+        });
+
+        if (!subscription?.invoiceAttachmentId) {
+            return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+        }
+
+        // The file is fetched from the mailbox on demand rather than kept in the database
+        const invoice = await downloadMailboxAttachment(userId, subscription.invoiceAttachmentId);
+        if (!invoice) {
+            return NextResponse.json({ error: 'Invoice is no longer available in the mailbox' }, { status: 404 });
+        }
+
+        // PDFs open in the browser; HTML from an email is never rendered on our origin
+        const isPdf = invoice.mimeType === 'application/pdf';
+        const filename = invoice.filename.replace(/["\\\r\n]/g, '_');
+
+        return new NextResponse(new Uint8Array(invoice.data), {
+            headers: {
+                'Content-Type': isPdf ? 'application/pdf' : 'application/octet-stream',
+                'Content-Disposition': `${isPdf ? 'inline' : 'attachment'}; filename="${filename}"`,
+                'Content-Security-Policy': 'sandbox',
+                'X-Content-Type-Options': 'nosniff',
+                'Cache-Control': 'private, no-store',
+            },
+        });
+    } catch (error) {
+        console.error('[Subscription Invoice] Error:', error);
+        return NextResponse.json(
+            { error: 'Failed to download invoice' },
+            { status: 500 }
+        );
+    }
+}
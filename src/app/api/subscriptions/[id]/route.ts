@@ -2,6 +2,16 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import prisma from '@/lib/prisma';
+import { getActionDeadline } from '@/lib/contract-terms';
+import { decryptField } from '@/lib/encryption';
+import { getUrgencyLabel } from '@/lib/renewal-detection';
+import { validateBody, updateSubscriptionSchema } from '@/lib/validation';
+
+// Absent leaves the stored date alone, null clears it
+function toOptionalDate(value: string | null | undefined): Date | null | undefined {
+    if (value === undefined) return undefined;
+    return value === null ? null : new Date(value);
+}
 
 // GET /api/subscriptions/[id] - Get subscription details
 export async function GET(
@@ -23,6 +33,9 @@ export async function GET(
             },
             include: {
                 vendor: true,
+                invoiceAttachment: {
+                    select: { id: true, filename: true, mimeType: true, size: true, text: true, encryptionKeyId: true },
+                },
             },
         });
 
@@ -38,14 +51,29 @@ export async function GET(
             });
             if (message) {
                 emailContext = {
+                    gmailId: message.gmailId,
                     subject: message.subject,
                     sender: message.sender,
                     snippet: message.snippet,
                     date: message.date,
+                    invoice: subscription.invoiceAttachment
+                        ? {
+                            filename: subscription.invoiceAttachment.filename,
+                            mimeType: subscription.invoiceAttachment.mimeType,
+                            size: subscription.invoiceAttachment.size,
+                            excerpt: decryptField(subscription.invoiceAttachment.text, subscription.invoiceAttachment.encryptionKeyId)?.slice(0, 500) ?? null,
+                        }
+                        : null,
                 };
             }
         }
 
+        const user = await prisma.user.findUnique({
+            where: { id: userId },
+            select: { timezone: true },
+        });
+        const actionDeadline = getActionDeadline(subscription, user?.timezone);
+
         return NextResponse.json({
             subscription: {
                 id: subscription.id,
@@ -58,12 +86,22 @@ export async function GET(
                 source: subscription.source,
                 renewalDate: subscription.renewalDate,
                 billingCycle: subscription.billingCycle,
+                contractStartDate: subscription.contractStartDate,
+                contractEndDate: subscription.contractEndDate,
+                termMonths: subscription.termMonths,
+                autoRenew: subscription.autoRenew,
+                noticePeriodDays: subscription.noticePeriodDays,
+                termEndDate: actionDeadline?.termEndDate ?? null,
+                actionDeadline: actionDeadline?.deadline ?? null,
+                daysUntilDeadline: actionDeadline?.daysUntilDeadline ?? null,
+                urgencyLabel: actionDeadline ? getUrgencyLabel(actionDeadline.daysUntilDeadline) : null,
                 plan: subscription.plan,
                 seats: subscription.seats,
                 amount: subscription.amount ? parseFloat(subscription.amount.toString()) : null,
                 currency: subscription.currency,
                 confidenceScore: subscription.confidenceScore,
                 status: subscription.status,
+                trialEndsAt: subscription.trialEndsAt,
                 notes: subscription.notes,
                 lastDetectedAt: subscription.lastDetectedAt,
                 createdAt: subscription.createdAt,
@@ -92,6 +130,15 @@ export async function PATCH(
 
         const userId = (session.user as { id: string }).id;
         const body = await request.json();
+        const validation = validateBody(body, updateSubscriptionSchema);
+        if (!validation.success) {
+            return NextResponse.json(
+                { error: validation.error, details: validation.details },
+                { status: 400 }
+            );
+        }
+
+        const data = validation.data;
 
         const subscription = await prisma.subscription.findFirst({
             where: { id: params.id, userId },
@@ -104,12 +151,22 @@ export async function PATCH(
         const updated = await prisma.subscription.update({
             where: { id: params.id },
             data: {
-                renewalDate: body.renewalDate ? new Date(body.renewalDate) : undefined,
-                billingCycle: body.billingCycle,
-                amount: body.amount !== undefined ? parseFloat(body.amount) : undefined,
-                currency: body.currency,
-                status: body.status,
-                notes: body.notes,
+                renewalDate: data.renewalDate ? new Date(data.renewalDate) : undefined,
+                billingCycle: data.billingCycle,
+                amount: data.amount ?? undefined,
+                currency: data.currency,
+                plan: data.plan,
+                seats: data.seats,
+                status: data.status,
+                // Marking a subscription as a trial starts it now, so earlier charges cannot convert it
+                trialStartedAt: data.status === 'trial' && subscription.status !== 'trial' ? new Date() : undefined,
+                trialEndsAt: toOptionalDate(data.trialEndsAt),
+                notes: data.notes,
+                contractStartDate: toOptionalDate(data.contractStartDate),
+                contractEndDate: toOptionalDate(data.contractEndDate),
+                termMonths: data.termMonths,
+                autoRenew: data.autoRenew,
+                noticePeriodDays: data.noticePeriodDays,
             },
             include: { vendor: true },
         });
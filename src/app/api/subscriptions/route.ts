@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import prisma from '@/lib/prisma';
 import { checkRateLimit, rateLimitHeaders } from '@/lib/rate-limit';
+import { getActionDeadline, isUpcomingDeadline } from '@/lib/contract-terms';
 import { validateBody, validateSearchParams, createSubscriptionSchema, subscriptionFilterSchema } from '@/lib/validation';
 
 // GET /api/subscriptions - List all subscriptions
@@ -23,25 +24,18 @@ export async function GET(request: NextRequest) {
         // Build type-safe where clause
         interface WhereClause {
             userId: string;
-            renewalDate?: { gte: Date; lte: Date };
-            status?: string;
+            status?: string | { not: string };
         }
         
         const whereClause: WhereClause = { userId };
 
-        // Filter for upcoming renewals
         if (filter === 'renewing') {
-            const now = new Date();
-            const thirtyDaysFromNow = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000);
-            whereClause.renewalDate = {
-                gte: now,
-                lte: thirtyDaysFromNow,
-            };
-        } else if (filter === 'active' || filter === 'cancelled') {
+            whereClause.status = { not: 'cancelled' };
+        } else if (filter === 'active' || filter === 'trial' || filter === 'cancelled') {
             whereClause.status = filter;
         }
 
-        const subscriptions = await prisma.subscription.findMany({
+        const rows = await prisma.subscription.findMany({
             where: whereClause,
             include: {
                 vendor: true,
@@ -52,6 +46,17 @@ export async function GET(request: NextRequest) {
             ],
         });
 
+        // Upcoming renewals: the last day to cancel or renegotiate is within 30 calendar
+        // days of today in the user's timezone (same rule as the dashboard)
+        let subscriptions = rows;
+        if (filter === 'renewing') {
+            const user = await prisma.user.findUnique({
+                where: { id: userId },
+                select: { timezone: true },
+            });
+            subscriptions = rows.filter(s => isUpcomingDeadline(getActionDeadline(s, user?.timezone)));
+        }
+
         return NextResponse.json({
             subscriptions: subscriptions.map(s => ({
                 id: s.id,
@@ -68,6 +73,7 @@ export async function GET(request: NextRequest) {
                 currency: s.currency,
                 confidenceScore: s.confidenceScore,
                 status: s.status,
+                trialEndsAt: s.trialEndsAt,
                 lastDetectedAt: s.lastDetectedAt,
                 createdAt: s.createdAt,
             })),
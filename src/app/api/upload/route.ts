@@ -1,10 +1,14 @@
+import { createHash } from 'crypto';
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import prisma from '@/lib/prisma';
-import { parseCSV, calculateVendorSummaries } from '@/lib/csv-parser';
-import { detectFrequency } from '@/lib/renewal-detection';
+import { previewCSV, validateColumnMapping, ColumnMapping } from '@/lib/csv-parser';
+import { detectStatementFormat } from '@/lib/statement-parser';
+import { findImportProfile, saveImportProfile } from '@/lib/import-profiles';
+import { enqueueJob } from '@/lib/jobs';
+import { validateBody, columnMappingSchema, importProfileNameSchema } from '@/lib/validation';
 
+// POST /api/upload - Queue a statement for parsing and staging; poll /api/jobs/[id] for the preview
 export async function POST(request: NextRequest) {
     try {
         // Check authentication
@@ -15,7 +19,7 @@ export async function POST(request: NextRequest) {
 
         const userId = (session.user as { id: string }).id;
 
-        // Get CSV content from form data
+        // Get statement content from form data
         const formData = await request.formData();
         const file = formData.get('file') as File;
 
@@ -23,92 +27,104 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: 'No file provided' }, { status: 400 });
         }
 
-        const csvContent = await file.text();
-        const parseResult = parseCSV(csvContent);
-
-        if (parseResult.transactions.length === 0) {
-            return NextResponse.json(
-                {
-                    error: 'No valid transactions found',
-                    details: parseResult.errors,
-                },
-                { status: 400 }
-            );
-        }
+        // Format is detected from content: CSV, OFX/QFX or QIF
+        const content = await file.text();
+
+        // CSV needs a confirmed column mapping: explicit from the mapping step,
+        // or a saved profile matching this header row
+        let mapping: ColumnMapping | undefined;
+        let appliedProfileName: string | null = null;
+        let mappingConfirmed = false;
+
+        if (detectStatementFormat(content) === 'csv') {
+            const preview = previewCSV(content);
+            const mappingField = formData.get('mapping');
+
+            if (typeof mappingField === 'string' && mappingField.length > 0) {
+                let rawMapping: unknown;
+                try {
+                    rawMapping = JSON.parse(mappingField);
+                } catch {
+                    return NextResponse.json({ error: 'Invalid column mapping' }, { status: 400 });
+                }
+
+                const validation = validateBody(rawMapping, columnMappingSchema);
+                if (!validation.success) {
+                    return NextResponse.json(
+                        { error: validation.error, details: validation.details },
+                        { status: 400 }
+                    );
+                }
+                mapping = validation.data;
+                mappingConfirmed = true;
+
+                const mappingErrors = validateColumnMapping(mapping, preview.headers);
+                if (mappingErrors.length > 0) {
+                    return NextResponse.json(
+                        { error: 'Invalid column mapping', details: mappingErrors },
+                        { status: 400 }
+                    );
+                }
 
-        // Calculate vendor summaries
-        const vendorSummaries = calculateVendorSummaries(parseResult.transactions);
-
-        // Store transactions and vendors in database
-        const createdVendors: { id: string; name: string }[] = [];
-        const createdTransactions: { id: string }[] = [];
-
-        for (const summary of vendorSummaries) {
-            // Create or update vendor
-            const vendor = await prisma.vendor.upsert({
-                where: { name: summary.vendorName },
-                update: {
-                    category: summary.category,
-                    isSaaS: summary.isSaaS,
-                },
-                create: {
-                    name: summary.vendorName,
-                    normalizedName: summary.normalizedName,
-                    category: summary.category,
-                    isSaaS: summary.isSaaS,
-                },
-            });
-
-            createdVendors.push({ id: vendor.id, name: vendor.name });
-
-            // Get transactions for this vendor
-            const vendorTransactions = parseResult.transactions.filter(
-                t => t.normalizedVendorName === summary.normalizedName
-            );
-
-            // Calculate frequency
-            const dates = vendorTransactions.map(t => t.date);
-            const frequency = detectFrequency(dates);
-
-            // Create transactions
-            for (const tx of vendorTransactions) {
-                const transaction = await prisma.transaction.create({
-                    data: {
+                const profileName = formData.get('profileName');
+                if (typeof profileName === 'string' && profileName.trim().length > 0) {
+                    const nameValidation = validateBody(profileName, importProfileNameSchema);
+                    if (!nameValidation.success) {
+                        return NextResponse.json({ error: nameValidation.error }, { status: 400 });
+                    }
+
+                    const profile = await saveImportProfile({
                         userId,
-                        vendorId: vendor.id,
-                        amount: tx.amount,
-                        date: tx.date,
-                        frequency,
-                        rawDescription: tx.rawDescription,
-                    },
-                });
-                createdTransactions.push({ id: transaction.id });
+                        name: nameValidation.data,
+                        headerSignature: preview.headerSignature,
+                        headers: preview.headers,
+                        mapping,
+                    });
+                    appliedProfileName = profile.name;
+                }
+            } else {
+                const profile = await findImportProfile(userId, preview.headerSignature);
+
+                if (!profile || validateColumnMapping(profile.mapping, preview.headers).length > 0) {
+                    // Unknown header row: ask the user to confirm or override the guessed mapping
+                    return NextResponse.json({
+                        success: false,
+                        needsMapping: true,
+                        preview,
+                    });
+                }
+
+                mapping = profile.mapping;
+                appliedProfileName = profile.name;
             }
         }
 
-        // Return summary
-        return NextResponse.json({
-            success: true,
-            summary: {
-                totalRows: parseResult.totalRows,
-                validTransactions: parseResult.transactions.length,
-                saasCount: parseResult.saasCount,
-                vendorsCreated: createdVendors.length,
-                transactionsCreated: createdTransactions.length,
-                errors: parseResult.errors,
+        // Parsing and vendor matching run in the background; uploading the same
+        // file with the same mapping again returns the job already in flight
+        const key = createHash('sha256')
+            .update(content)
+            .update(JSON.stringify(mapping ?? null))
+            .update(String(mappingConfirmed))
+            .digest('hex');
+
+        const job = await enqueueJob({
+            userId,
+            type: 'statement_upload',
+            key,
+            payload: {
+                content,
+                fileName: file.name || null,
+                mapping: mapping ?? null,
+                mappingConfirmed,
+                profileName: appliedProfileName,
             },
-            vendors: vendorSummaries.slice(0, 10).map(v => ({
-                name: v.vendorName,
-                totalSpend: v.totalAmount,
-                transactionCount: v.transactionCount,
-                isSaaS: v.isSaaS,
-                category: v.category,
-            })),
         });
+
+        return NextResponse.json({ success: true, jobId: job.id, job }, { status: 202 });
     } catch (error) {
         console.error('Upload error:', error);
         return NextResponse.json(
-            { error: 'Failed to process CSV' },
+            { error: 'Failed to process statement' },
             { status: 500 }
         );
     }
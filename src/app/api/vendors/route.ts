@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import prisma from '@/lib/prisma';
+import { getFxConverter, normalizeAmount, sumMoney } from '@/lib/fx';
 
 // GET /api/vendors - List all vendors with subscription counts
 export async function GET() {
@@ -39,12 +40,25 @@ export async function GET() {
             orderBy: { name: 'asc' },
         });
 
+        const fx = await getFxConverter(
+            userId,
+            vendors.flatMap(v => v.subscriptions.map(s => s.currency))
+        );
+
         return NextResponse.json({
+            reportingCurrency: fx.reportingCurrency,
             vendors: vendors.map(v => {
-                // Calculate total spend from subscriptions
-                const totalSpend = v.subscriptions.reduce((sum, s) => {
-                    return sum + (s.amount ? parseFloat(s.amount.toString()) : 0);
-                }, 0);
+                // Calculate total spend from subscriptions, converted at each renewal date
+                const totalSpend = sumMoney(
+                    v.subscriptions
+                        .filter(s => s.amount)
+                        .map(s => ({
+                            amount: parseFloat(s.amount!.toString()),
+                            currency: s.currency,
+                            date: s.renewalDate || s.lastDetectedAt,
+                        })),
+                    fx
+                );
 
                 // Get nearest renewal
                 const upcomingRenewals = v.subscriptions
@@ -63,13 +77,21 @@ export async function GET() {
                     isSaaS: v.isSaaS,
                     subscriptionCount: v._count.subscriptions,
                     negotiationCount: v._count.negotiations,
-                    totalSpend,
+                    totalSpend: totalSpend.normalized,
+                    totalSpendByCurrency: totalSpend.original,
                     nextRenewal,
                     subscriptions: v.subscriptions.map(s => ({
                         id: s.id,
                         source: s.source,
                         renewalDate: s.renewalDate,
                         amount: s.amount ? parseFloat(s.amount.toString()) : null,
+                        currency: s.currency,
+                        normalizedAmount: normalizeAmount(
+                            fx,
+                            s.amount ? parseFloat(s.amount.toString()) : null,
+                            s.currency,
+                            s.renewalDate || s.lastDetectedAt
+                        ),
                         billingCycle: s.billingCycle,
                         confidenceScore: s.confidenceScore,
                     })),
@@ -6,38 +6,64 @@ import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import Navbar from '@/components/Navbar';
 import CSVUpload from '@/components/CSVUpload';
+import CurrencySettings from '@/components/CurrencySettings';
+import CalendarFeed from '@/components/CalendarFeed';
+import TimezoneSettings from '@/components/TimezoneSettings';
+import MerchantMappings from '@/components/MerchantMappings';
+import RecurringCandidates from '@/components/RecurringCandidates';
+import ExtractionReviews from '@/components/ExtractionReviews';
+import ReprocessExtractions from '@/components/ReprocessExtractions';
+import ChargeAlerts from '@/components/ChargeAlerts';
+import SpendForecast from '@/components/SpendForecast';
+import ImapSettings from '@/components/ImapSettings';
+import OutlookMailbox from '@/components/OutlookMailbox';
+import GmailScanSettings from '@/components/GmailScanSettings';
+import ScanProgress from '@/components/ScanProgress';
+import { isJobFinished } from '@/lib/job-client';
+import { useScanJob } from '@/lib/use-scan-job';
 
 interface DashboardData {
+    reportingCurrency: string;
     vendors: { total: number; saas: number };
-    subscriptions: { total: number; gmail: number; csv: number };
-    renewals: { urgent: number; upcoming: Array<{ id: string; vendorName: string; renewalDate: string; amount: number | null }> };
-    transactions: { count: number; totalSpend: number };
+    subscriptions: { total: number; gmail: number; imap: number; outlook: number; csv: number };
+    renewals: {
+        urgent: number;
+        upcoming: Array<{
+            id: string;
+            vendorId: string;
+            vendorName: string;
+            vendorCategory: string | null;
+            renewalDate: string;
+            actionDeadline: string;
+            daysUntilDeadline: number;
+            noticePeriodDays: number;
+            autoRenew: boolean;
+            urgencyLabel: { label: string; color: string };
+            amount: number | null;
+            currency: string;
+            normalizedAmount: number | null;
+        }>;
+    };
+    transactions: { count: number };
+    spend: { monthlyRunRate: number; annualRunRate: number; unconverted: number };
     negotiations: { total: number; sent: number; draft: number };
-    savings: { estimated: number; confirmed: number };
+    savings: {
+        estimated: number;
+        confirmed: number;
+        estimatedByCurrency: Record<string, number>;
+        confirmedByCurrency: Record<string, number>;
+        unconverted: number;
+    };
     gmail: { connected: boolean; email?: string; lastScan?: string };
     emailStats: { scanned: number };
 }
 
-interface Vendor {
-    id: string;
-    name: string;
-    category: string | null;
-    monthlySpend: number;
-    daysUntilRenewal: number | null;
-    isUrgent: boolean;
-    urgencyLabel: { label: string; color: string } | null;
-    source?: string;
-}
-
 export default function DashboardPage() {
     const { status } = useSession();
     const router = useRouter();
     const [data, setData] = useState<DashboardData | null>(null);
-    const [vendors, setVendors] = useState<Vendor[]>([]);
     const [loading, setLoading] = useState(true);
-    const [scanning, setScanning] = useState(false);
     const [resetting, setResetting] = useState(false);
-    const [scanMessage, setScanMessage] = useState('');
 
     useEffect(() => {
         if (status === 'unauthenticated') {
@@ -47,19 +73,11 @@ export default function DashboardPage() {
 
     const fetchData = async () => {
         try {
-            const [dashRes, vendorsRes] = await Promise.all([
-                fetch('/api/dashboard'),
-                fetch('/api/vendors?filter=urgent'),
-            ]);
+            const dashRes = await fetch('/api/dashboard');
 
             if (dashRes.ok) {
                 setData(await dashRes.json());
             }
-
-            if (vendorsRes.ok) {
-                const vendorData = await vendorsRes.json();
-                setVendors(vendorData.vendors.slice(0, 5));
-            }
         } catch (error) {
             console.error('Failed to fetch dashboard data:', error);
         } finally {
@@ -67,34 +85,26 @@ export default function DashboardPage() {
         }
     };
 
-    const handleScanInbox = async () => {
-        setScanning(true);
-        setScanMessage('');
-        try {
-            const res = await fetch('/api/gmail/scan', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-            });
-            const result = await res.json();
-            if (res.ok) {
-                setScanMessage(`Detected ${result.renewalsDetected} renewals from ${result.messagesScanned} emails`);
-                fetchData(); // Refresh dashboard data
-            } else {
-                setScanMessage(result.error || 'Failed to scan inbox');
-            }
-        } catch {
-            setScanMessage('Failed to scan inbox');
-        } finally {
-            setScanning(false);
-        }
-    };
+    const {
+        scanning,
+        scanJob,
+        message: scanMessage,
+        setMessage: setScanMessage,
+        startScan: handleScanInbox,
+        cancelScan: handleCancelScan,
+    } = useScanJob({
+        type: 'gmail_scan',
+        scanUrl: '/api/gmail/scan',
+        enabled: status === 'authenticated',
+        onComplete: fetchData,
+    });
 
     const handleResetData = async () => {
         if (!confirm('This will delete all your subscription data and allow a fresh Gmail scan. Continue?')) {
             return;
         }
         setResetting(true);
-        setScanMessage('');
+        setScanMessage(null);
         try {
             const res = await fetch('/api/admin/reset-data', {
                 method: 'POST',
@@ -102,13 +112,16 @@ export default function DashboardPage() {
             });
             const result = await res.json();
             if (res.ok) {
-                setScanMessage(`Data reset complete. Deleted ${result.deleted.subscriptions} subscriptions, ${result.deleted.gmailMessages} emails.`);
+                setScanMessage({
+                    text: `Data reset complete. Deleted ${result.deleted.subscriptions} subscriptions, ${result.deleted.gmailMessages} emails.`,
+                    error: false,
+                });
                 fetchData();
             } else {
-                setScanMessage(result.error || 'Failed to reset data');
+                setScanMessage({ text: result.error || 'Failed to reset data', error: true });
             }
         } catch {
-            setScanMessage('Failed to reset data');
+            setScanMessage({ text: 'Failed to reset data', error: true });
         } finally {
             setResetting(false);
         }
@@ -128,15 +141,28 @@ export default function DashboardPage() {
         );
     }
 
-    const formatCurrency = (amount: number) => {
+    const formatCurrency = (amount: number, currency = data?.reportingCurrency || 'USD') => {
         return new Intl.NumberFormat('en-US', {
             style: 'currency',
-            currency: 'USD',
+            currency,
             minimumFractionDigits: 0,
             maximumFractionDigits: 0,
         }).format(amount);
     };
 
+    // Original amounts, shown when a total mixes currencies
+    const formatBreakdown = (byCurrency: Record<string, number> | undefined) => {
+        const entries = Object.entries(byCurrency || {});
+        if (entries.length < 2 && entries.every(([code]) => code === data?.reportingCurrency)) {
+            return null;
+        }
+        return entries.map(([code, amount]) => formatCurrency(amount, code)).join(' + ');
+    };
+
+    const formatShortDate = (date: string) => {
+        return new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+    };
+
     const getColorClass = (color: string) => {
         const colors: Record<string, string> = {
             red: 'badge-danger',
@@ -148,6 +174,8 @@ export default function DashboardPage() {
         return colors[color] || 'badge-info';
     };
 
+    const upcoming = data?.renewals.upcoming.slice(0, 5) || [];
+
     return (
         <div className="min-h-screen bg-[#0a0a0f]">
             <Navbar />
@@ -218,9 +246,12 @@ export default function DashboardPage() {
                             </>
                         )}
                     </div>
-                    {scanMessage && (
+                    {scanJob && !isJobFinished(scanJob) && (
+                        <ScanProgress job={scanJob} onCancel={handleCancelScan} />
+                    )}
+                    {scanMessage && !scanJob && (
                         <div className="mt-2 text-sm text-gray-400">
-                            {scanMessage}
+                            {scanMessage.text}
                         </div>
                     )}
                 </div>
@@ -238,6 +269,12 @@ export default function DashboardPage() {
                         {(data?.subscriptions?.gmail || 0) > 0 && (
                             <span className="text-xs text-gray-500 mt-1">{data?.subscriptions.gmail} from Gmail</span>
                         )}
+                        {(data?.subscriptions?.imap || 0) > 0 && (
+                            <span className="text-xs text-gray-500">{data?.subscriptions.imap} from IMAP</span>
+                        )}
+                        {(data?.subscriptions?.outlook || 0) > 0 && (
+                            <span className="text-xs text-gray-500">{data?.subscriptions.outlook} from Outlook</span>
+                        )}
                     </Link>
 
                     <Link href="/subscriptions?filter=renewing" className="stat-card card-hover cursor-pointer">
@@ -247,7 +284,7 @@ export default function DashboardPage() {
                             </svg>
                         </div>
                         <span className="stat-value">{data?.renewals.urgent || 0}</span>
-                        <span className="stat-label">Renewals This Month</span>
+                        <span className="stat-label">Cancel-by Dates This Month</span>
                         {(data?.subscriptions?.total || 0) > 0 && (
                             <span className="text-xs text-gray-500 mt-1">{data?.subscriptions.total} total subscriptions</span>
                         )}
@@ -274,25 +311,82 @@ export default function DashboardPage() {
                         </div>
                         <span className="stat-value">{formatCurrency(data?.savings.estimated || 0)}</span>
                         <span className="stat-label">Est. Savings</span>
+                        {formatBreakdown(data?.savings.estimatedByCurrency) && (
+                            <span className="text-xs text-gray-500 mt-1">{formatBreakdown(data?.savings.estimatedByCurrency)}</span>
+                        )}
                         {(data?.savings?.confirmed || 0) > 0 && (
                             <span className="text-xs text-green-500 mt-1">{formatCurrency(data?.savings.confirmed || 0)} confirmed</span>
                         )}
                     </Link>
                 </div>
 
+                {/* Spend Forecast - remounts after imports and currency changes */}
+                <SpendForecast key={`forecast-${data?.transactions.count ?? 0}-${data?.reportingCurrency}`} />
+
+                {/* Gmail Scan Settings - which messages a scan lists */}
+                {data?.gmail?.connected && (
+                    <div className="card mb-8">
+                        <h2 className="text-lg font-semibold text-white mb-4">Gmail Scan Settings</h2>
+                        <GmailScanSettings />
+                    </div>
+                )}
+
+                {/* Other Mailboxes Section */}
+                <div className="card mb-8">
+                    <h2 className="text-lg font-semibold text-white mb-4">Other Mailboxes</h2>
+                    <OutlookMailbox onScanComplete={fetchData} />
+                    <ImapSettings onScanComplete={fetchData} />
+                </div>
+
                 {/* Upload Section */}
                 <div className="card mb-8">
                     <h2 className="text-lg font-semibold text-white mb-4">Import Transactions</h2>
                     <CSVUpload onUploadComplete={fetchData} />
                 </div>
 
-                {/* Urgent Renewals */}
+                {/* Price changes and billing anomalies */}
+                <ChargeAlerts key={`alerts-${data?.transactions.count ?? 0}`} />
+
+                {/* Unsure email extractions waiting for a person */}
+                <ExtractionReviews key={`reviews-${data?.emailStats.scanned ?? 0}`} onChange={fetchData} />
+
+                {/* Re-read stored emails after the extractor improves */}
+                <ReprocessExtractions key={`reprocess-${data?.emailStats.scanned ?? 0}`} onChange={fetchData} />
+
+                {/* Likely recurring vendors outside the SaaS catalog */}
+                <RecurringCandidates key={`recurring-${data?.transactions.count ?? 0}`} onChange={fetchData} />
+
+                {/* Currency Section */}
+                <div className="card mb-8">
+                    <h2 className="text-lg font-semibold text-white mb-4">Currency</h2>
+                    <CurrencySettings
+                        reportingCurrency={data?.reportingCurrency || 'USD'}
+                        onChange={fetchData}
+                    />
+                </div>
+
+                {/* Calendar Section - timezone decides renewal day counts and feed dates */}
+                <div className="card mb-8">
+                    <h2 className="text-lg font-semibold text-white mb-4">Calendar</h2>
+                    <div className="space-y-6">
+                        <TimezoneSettings onChange={fetchData} />
+                        <CalendarFeed />
+                    </div>
+                </div>
+
+                {/* Merchant Names Section - remounts after each import to pick up new descriptors */}
+                <div className="card mb-8">
+                    <h2 className="text-lg font-semibold text-white mb-4">Merchant Names</h2>
+                    <MerchantMappings key={data?.transactions.count ?? 0} />
+                </div>
+
+                {/* Upcoming Renewals, ordered by the last day to cancel or renegotiate */}
                 {
-                    vendors.length > 0 && (
+                    upcoming.length > 0 && (
                         <div className="card">
                             <div className="flex items-center justify-between mb-4">
                                 <h2 className="text-lg font-semibold text-white">Upcoming Renewals</h2>
-                                <Link href="/vendors" className="text-sm text-primary-400 hover:text-primary-300">
+                                <Link href="/subscriptions?filter=renewing" className="text-sm text-primary-400 hover:text-primary-300">
                                     View all →
                                 </Link>
                             </div>
@@ -303,29 +397,35 @@ export default function DashboardPage() {
                                         <tr>
                                             <th>Vendor</th>
                                             <th>Category</th>
-                                            <th>Monthly Spend</th>
-                                            <th>Renewal</th>
+                                            <th>Amount</th>
+                                            <th>Cancel By</th>
                                             <th>Action</th>
                                         </tr>
                                     </thead>
                                     <tbody>
-                                        {vendors.map((vendor) => (
-                                            <tr key={vendor.id}>
-                                                <td className="font-medium text-white">{vendor.name}</td>
-                                                <td className="text-gray-400">{vendor.category || '—'}</td>
-                                                <td className="text-white">{formatCurrency(vendor.monthlySpend)}</td>
+                                        {upcoming.map((renewal) => (
+                                            <tr key={renewal.id}>
+                                                <td className="font-medium text-white">
+                                                    <Link href={`/subscriptions/${renewal.id}`} className="hover:text-primary-300">
+                                                        {renewal.vendorName}
+                                                    </Link>
+                                                </td>
+                                                <td className="text-gray-400">{renewal.vendorCategory || '—'}</td>
+                                                <td className="text-white">
+                                                    {renewal.normalizedAmount !== null ? formatCurrency(renewal.normalizedAmount) : '—'}
+                                                </td>
                                                 <td>
-                                                    {vendor.urgencyLabel ? (
-                                                        <span className={`badge ${getColorClass(vendor.urgencyLabel.color)}`}>
-                                                            {vendor.urgencyLabel.label}
-                                                        </span>
-                                                    ) : (
-                                                        <span className="text-gray-500">—</span>
-                                                    )}
+                                                    <span className={`badge ${getColorClass(renewal.urgencyLabel.color)}`}>
+                                                        {renewal.urgencyLabel.label}
+                                                    </span>
+                                                    <span className="block text-xs text-gray-500 mt-1">
+                                                        {formatShortDate(renewal.actionDeadline)}
+                                                        {renewal.noticePeriodDays > 0 && ` · renews ${formatShortDate(renewal.renewalDate)}`}
+                                                    </span>
                                                 </td>
                                                 <td>
                                                     <Link
-                                                        href={`/negotiate/${vendor.id}`}
+                                                        href={`/negotiate/${renewal.vendorId}?subscriptionId=${renewal.id}`}
                                                         className="btn btn-primary text-xs py-1.5 px-3"
                                                     >
                                                         Negotiate
@@ -342,7 +442,7 @@ export default function DashboardPage() {
 
                 {/* Empty State */}
                 {
-                    !loading && vendors.length === 0 && !data?.vendors.total && (
+                    !loading && upcoming.length === 0 && !data?.vendors.total && (
                         <div className="card text-center py-12">
                             <div className="w-16 h-16 bg-primary-500/10 rounded-full flex items-center justify-center mx-auto mb-4">
                                 <svg className="w-8 h-8 text-primary-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -1,7 +1,7 @@
 'use client';
 
-import { Suspense, useState } from 'react';
-import { signIn } from 'next-auth/react';
+import { Suspense, useEffect, useState } from 'react';
+import { getProviders, signIn } from 'next-auth/react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 
@@ -13,9 +13,18 @@ function LoginForm() {
     const [error, setError] = useState('');
     const [loading, setLoading] = useState(false);
     const [googleLoading, setGoogleLoading] = useState(false);
+    const [microsoftLoading, setMicrosoftLoading] = useState(false);
+    // Microsoft sign-in is only registered when an Azure AD app is configured
+    const [microsoftAvailable, setMicrosoftAvailable] = useState(false);
 
     const callbackUrl = searchParams.get('callbackUrl') || '/dashboard';
 
+    useEffect(() => {
+        getProviders()
+            .then(providers => setMicrosoftAvailable(!!providers?.['azure-ad']))
+            .catch(() => setMicrosoftAvailable(false));
+    }, []);
+
     async function handleGoogleLogin() {
         setGoogleLoading(true);
         setError('');
@@ -27,6 +36,17 @@ function LoginForm() {
         }
     }
 
+    async function handleMicrosoftLogin() {
+        setMicrosoftLoading(true);
+        setError('');
+        try {
+            await signIn('azure-ad', { callbackUrl });
+        } catch {
+            setError('Failed to connect with Microsoft. Please try again.');
+            setMicrosoftLoading(false);
+        }
+    }
+
     async function handleSubmit(e: React.FormEvent) {
         e.preventDefault();
         setError('');
@@ -106,9 +126,30 @@ function LoginForm() {
                     {googleLoading ? 'Connecting...' : 'Continue with Google'}
                 </button>
 
+                {/* Microsoft Login Button */}
+                {microsoftAvailable && (
+                    <button
+                        onClick={handleMicrosoftLogin}
+                        disabled={microsoftLoading}
+                        className="w-full py-3 px-4 bg-white hover:bg-gray-100 text-gray-800 font-medium rounded-lg flex items-center justify-center gap-3 transition-colors mb-4"
+                    >
+                        {microsoftLoading ? (
+                            <div className="spinner border-gray-600" />
+                        ) : (
+                            <svg className="w-5 h-5" viewBox="0 0 24 24">
+                                <path fill="#F25022" d="M1 1h10.5v10.5H1z" />
+                                <path fill="#7FBA00" d="M12.5 1H23v10.5H12.5z" />
+                                <path fill="#00A4EF" d="M1 12.5h10.5V23H1z" />
+                                <path fill="#FFB900" d="M12.5 12.5H23V23H12.5z" />
+                            </svg>
+                        )}
+                        {microsoftLoading ? 'Connecting...' : 'Continue with Microsoft'}
+                    </button>
+                )}
+
                 {/* Scope Explanation */}
                 <div className="text-xs text-gray-500 mb-6 p-3 bg-gray-900/50 rounded-lg">
-                    <p className="font-medium text-gray-400 mb-2">Gmail permissions requested:</p>
+                    <p className="font-medium text-gray-400 mb-2">Mailbox permissions requested (Gmail or Outlook):</p>
                     <ul className="space-y-1">
                         <li className="flex items-start gap-2">
                             <svg className="w-3.5 h-3.5 text-blue-400 mt-0.5 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -6,6 +6,7 @@ import { useRouter, useParams, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import Navbar from '@/components/Navbar';
 import NegotiationEmailEditor from '@/components/NegotiationEmailEditor';
+import { waitForJob } from '@/lib/job-client';
 
 interface SubscriptionInfo {
     id: string;
@@ -73,10 +74,15 @@ export default function NegotiatePage() {
                 });
             }
 
-            // Fetch cached intelligence (includes negotiation email)
+            // Fetch cached intelligence (includes negotiation email); a 202 means it is being generated
             const intRes = await fetch(`/api/intelligence?subscriptionId=${subscriptionId}`);
             if (intRes.ok) {
-                const intData = await intRes.json();
+                let intData = await intRes.json();
+                if (intRes.status === 202) {
+                    const job = await waitForJob(intData.jobId);
+                    if (job.status !== 'succeeded') throw new Error(job.error || 'Intelligence generation failed');
+                    intData = job.result;
+                }
                 setIntelligence(intData);
 
                 // Set email content from cached data
@@ -106,7 +112,11 @@ export default function NegotiatePage() {
             });
 
             if (res.ok) {
-                const data = await res.json();
+                const { jobId } = await res.json();
+                const job = await waitForJob<Intelligence>(jobId);
+                if (job.status !== 'succeeded' || !job.result) throw new Error(job.error || 'Regeneration failed');
+
+                const data = job.result;
                 setIntelligence(data);
                 if (data.negotiationSubject) setSubject(data.negotiationSubject);
                 if (data.negotiationEmail) setBody(data.negotiationEmail);
@@ -154,6 +164,7 @@ export default function NegotiatePage() {
             month: 'long',
             day: 'numeric',
             year: 'numeric',
+            timeZone: 'UTC', // Renewal dates are calendar dates stored at UTC midnight
         });
     };
 
@@ -24,6 +24,7 @@ export default function NegotiationsPage() {
     const { status } = useSession();
     const router = useRouter();
     const [negotiations, setNegotiations] = useState<Negotiation[]>([]);
+    const [reportingCurrency, setReportingCurrency] = useState('USD');
     const [loading, setLoading] = useState(true);
     const [filter, setFilter] = useState<string>('');
 
@@ -47,6 +48,7 @@ export default function NegotiationsPage() {
             if (response.ok) {
                 const data = await response.json();
                 setNegotiations(data.negotiations);
+                setReportingCurrency(data.reportingCurrency || 'USD');
             }
         } catch (error) {
             console.error('Failed to fetch negotiations:', error);
@@ -58,7 +60,7 @@ export default function NegotiationsPage() {
     const formatCurrency = (amount: number) => {
         return new Intl.NumberFormat('en-US', {
             style: 'currency',
-            currency: 'USD',
+            currency: reportingCurrency,
             minimumFractionDigits: 0,
         }).format(amount);
     };
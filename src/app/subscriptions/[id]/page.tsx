@@ -7,6 +7,9 @@ import Link from 'next/link';
 import Navbar from '@/components/Navbar';
 import IntelligenceCard from '@/components/IntelligenceCard';
 import AlternativesPanel from '@/components/AlternativesPanel';
+import ChargeAlerts from '@/components/ChargeAlerts';
+import ContractTermsCard from '@/components/ContractTermsCard';
+import { waitForJob } from '@/lib/job-client';
 
 interface SubscriptionDetail {
     id: string;
@@ -20,22 +23,38 @@ interface SubscriptionDetail {
     source: string;
     renewalDate: string | null;
     billingCycle: string | null;
+    contractStartDate: string | null;
+    contractEndDate: string | null;
+    termMonths: number | null;
+    autoRenew: boolean;
+    noticePeriodDays: number | null;
+    termEndDate: string | null;
+    actionDeadline: string | null;
+    urgencyLabel: { label: string; color: string } | null;
     plan: string | null;
     seats: number | null;
     amount: number | null;
     currency: string;
     confidenceScore: string;
     status: string;
+    trialEndsAt: string | null;
     notes: string | null;
     lastDetectedAt: string;
     createdAt: string;
 }
 
 interface EmailContext {
+    gmailId: string;
     subject: string | null;
     sender: string | null;
     snippet: string | null;
     date: string | null;
+    invoice: {
+        filename: string;
+        mimeType: string;
+        size: number;
+        excerpt: string | null;
+    } | null;
 }
 
 interface Alternative {
@@ -72,6 +91,8 @@ export default function SubscriptionDetailPage() {
     const [loading, setLoading] = useState(true);
     const [intelligenceLoading, setIntelligenceLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [rereading, setRereading] = useState(false);
+    const [rereadMessage, setRereadMessage] = useState<string | null>(null);
 
     useEffect(() => {
         if (status === 'unauthenticated') {
@@ -85,6 +106,37 @@ export default function SubscriptionDetailPage() {
         }
     }, [status, params.id]);
 
+    // Re-read the source email with the current extractor; changes wait for approval on the dashboard
+    const rereadSourceEmail = async (gmailId: string) => {
+        setRereading(true);
+        setRereadMessage(null);
+        try {
+            const res = await fetch('/api/reprocess', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ messageIds: [gmailId], outdatedOnly: false }),
+            });
+            const result = await res.json();
+            if (!res.ok) {
+                setRereadMessage(result.error || 'Failed to re-read email');
+                return;
+            }
+
+            const job = await waitForJob<{ proposals: number }>(result.jobId);
+            if (job.status !== 'succeeded' || !job.result) {
+                setRereadMessage(job.error || 'Failed to re-read email');
+            } else {
+                setRereadMessage(job.result.proposals > 0
+                    ? 'The new read differs. Review the changes under Re-run Extraction on the dashboard.'
+                    : 'The new read matches what is stored.');
+            }
+        } catch {
+            setRereadMessage('Failed to re-read email');
+        } finally {
+            setRereading(false);
+        }
+    };
+
     const fetchSubscription = async () => {
         try {
             setLoading(true);
@@ -125,7 +177,13 @@ export default function SubscriptionDetailPage() {
             });
 
             if (res.ok) {
-                const data = await res.json();
+                let data = await res.json();
+                // Generation runs as a background job
+                if (res.status === 202) {
+                    const job = await waitForJob(data.jobId);
+                    if (job.status !== 'succeeded') throw new Error(job.error || 'Intelligence generation failed');
+                    data = job.result;
+                }
                 setIntelligence(data);
             }
         } catch (err) {
@@ -148,13 +206,15 @@ export default function SubscriptionDetailPage() {
         }).format(amount);
     };
 
-    const formatDate = (dateStr: string | null) => {
+    // Pass timeZone 'UTC' for calendar dates (renewals), which are stored at UTC midnight
+    const formatDate = (dateStr: string | null, timeZone?: string) => {
         if (!dateStr) return '—';
         return new Date(dateStr).toLocaleDateString('en-US', {
             weekday: 'long',
             month: 'long',
             day: 'numeric',
             year: 'numeric',
+            timeZone,
         });
     };
 
@@ -256,7 +316,7 @@ export default function SubscriptionDetailPage() {
                             </div>
                             <div>
                                 <dt className="text-gray-500 text-sm">Renewal Date</dt>
-                                <dd className="text-white text-lg">{formatDate(subscription.renewalDate)}</dd>
+                                <dd className="text-white text-lg">{formatDate(subscription.renewalDate, 'UTC')}</dd>
                             </div>
                             <div>
                                 <dt className="text-gray-500 text-sm">Amount</dt>
@@ -270,7 +330,13 @@ export default function SubscriptionDetailPage() {
                             </div>
                             <div>
                                 <dt className="text-gray-500 text-sm">Status</dt>
-                                <dd className="text-white capitalize">{subscription.status}</dd>
+                                {subscription.status === 'trial' ? (
+                                    <dd className="text-white">
+                                        Free trial · converts {formatDate(subscription.trialEndsAt, 'UTC')}
+                                    </dd>
+                                ) : (
+                                    <dd className="text-white capitalize">{subscription.status}</dd>
+                                )}
                             </div>
                         </dl>
                     </div>
@@ -298,6 +364,12 @@ export default function SubscriptionDetailPage() {
                     </div>
                 </div>
 
+                {/* Contract terms and the notice deadline they imply */}
+                <ContractTermsCard subscription={subscription} onSaved={fetchSubscription} />
+
+                {/* Price changes and billing anomalies */}
+                <ChargeAlerts subscriptionId={subscription.id} />
+
                 {/* AI Intelligence Card */}
                 {intelligence ? (
                     <div className="mb-6">
@@ -334,7 +406,17 @@ export default function SubscriptionDetailPage() {
                 {/* Email Context */}
                 {emailContext && (
                     <div className="card p-6 mb-6">
-                        <h3 className="text-gray-400 text-sm mb-4">Source Email</h3>
+                        <div className="flex items-center justify-between mb-4">
+                            <h3 className="text-gray-400 text-sm">Source Email</h3>
+                            <button
+                                onClick={() => rereadSourceEmail(emailContext.gmailId)}
+                                className="btn btn-secondary text-sm py-1 px-3"
+                                disabled={rereading}
+                            >
+                                {rereading ? 'Re-reading...' : 'Re-read email'}
+                            </button>
+                        </div>
+                        {rereadMessage && <p className="text-sm text-gray-400 mb-4">{rereadMessage}</p>}
                         <div className="bg-dark-lighter rounded-lg p-4">
                             <div className="flex items-center justify-between mb-3">
                                 <span className="text-gray-400 text-sm">{emailContext.sender}</span>
@@ -343,6 +425,28 @@ export default function SubscriptionDetailPage() {
                             <h4 className="text-white font-medium mb-2">{emailContext.subject}</h4>
                             <p className="text-gray-400 text-sm">{emailContext.snippet}</p>
                         </div>
+                        {emailContext.invoice && (
+                            <div className="bg-dark-lighter rounded-lg p-4 mt-4">
+                                <div className="flex items-center justify-between mb-2">
+                                    <span className="text-gray-400 text-sm">Source Invoice</span>
+                                    <a
+                                        href={`/api/subscriptions/${subscription.id}/invoice`}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="text-sm text-primary-400 hover:text-primary-300"
+                                    >
+                                        {emailContext.invoice.filename} ({Math.max(1, Math.round(emailContext.invoice.size / 1024))} KB)
+                                    </a>
+                                </div>
+                                {emailContext.invoice.excerpt ? (
+                                    <p className="text-gray-500 text-xs font-mono whitespace-pre-line line-clamp-6">
+                                        {emailContext.invoice.excerpt}
+                                    </p>
+                                ) : (
+                                    <p className="text-gray-500 text-xs">No text could be read from this attachment.</p>
+                                )}
+                            </div>
+                        )}
                     </div>
                 )}
             </main>
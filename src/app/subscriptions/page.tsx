@@ -21,6 +21,7 @@ interface Subscription {
     currency: string;
     confidenceScore: string;
     status: string;
+    trialEndsAt: string | null;
     lastDetectedAt: string;
 }
 
@@ -78,6 +79,7 @@ export default function SubscriptionsPage() {
             month: 'short',
             day: 'numeric',
             year: 'numeric',
+            timeZone: 'UTC', // Renewal dates are calendar dates stored at UTC midnight
         });
     };
 
@@ -86,6 +88,7 @@ export default function SubscriptionsPage() {
             active: 'bg-green-500/20 text-green-400',
             cancelled: 'bg-red-500/20 text-red-400',
             pending: 'bg-yellow-500/20 text-yellow-400',
+            trial: 'bg-blue-500/20 text-blue-400',
         };
         return colors[status] || 'bg-gray-500/20 text-gray-400';
     };
@@ -132,7 +135,9 @@ export default function SubscriptionsPage() {
                         <p className="text-gray-400 mt-1">
                             {filter === 'renewing'
                                 ? 'Subscriptions renewing in the next 30 days'
-                                : 'All your detected and tracked subscriptions'}
+                                : filter === 'trial'
+                                    ? 'Free trials that will convert to paid subscriptions'
+                                    : 'All your detected and tracked subscriptions'}
                         </p>
                     </div>
                     <div className="flex gap-2">
@@ -154,6 +159,15 @@ export default function SubscriptionsPage() {
                         >
                             Renewing Soon
                         </Link>
+                        <Link
+                            href="/subscriptions?filter=trial"
+                            className={`px-4 py-2 rounded-lg text-sm ${filter === 'trial'
+                                ? 'bg-primary text-white'
+                                : 'bg-dark-lighter text-gray-400 hover:text-white'
+                                }`}
+                        >
+                            Free Trials
+                        </Link>
                     </div>
                 </div>
 
@@ -215,7 +229,16 @@ export default function SubscriptionsPage() {
                                             </div>
                                         </td>
                                         <td className="px-6 py-4 text-white">
-                                            {formatDate(sub.renewalDate)}
+                                            {sub.status === 'trial' ? (
+                                                <div>
+                                                    {formatDate(sub.trialEndsAt || sub.renewalDate)}
+                                                    <span className={`ml-2 px-2 py-0.5 rounded text-xs ${getStatusBadge('trial')}`}>
+                                                        Trial ends
+                                                    </span>
+                                                </div>
+                                            ) : (
+                                                formatDate(sub.renewalDate)
+                                            )}
                                         </td>
                                         <td className="px-6 py-4 text-white font-mono">
                                             {formatCurrency(sub.amount, sub.currency)}
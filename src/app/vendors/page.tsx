@@ -26,6 +26,7 @@ export default function VendorsPage() {
     const { status } = useSession();
     const router = useRouter();
     const [vendors, setVendors] = useState<Vendor[]>([]);
+    const [reportingCurrency, setReportingCurrency] = useState('USD');
     const [filter, setFilter] = useState<'all' | 'saas' | 'urgent'>('saas');
     const [loading, setLoading] = useState(true);
     const [search, setSearch] = useState('');
@@ -49,6 +50,7 @@ export default function VendorsPage() {
             if (response.ok) {
                 const data = await response.json();
                 setVendors(data.vendors);
+                setReportingCurrency(data.reportingCurrency || 'USD');
             }
         } catch (error) {
             console.error('Failed to fetch vendors:', error);
@@ -60,7 +62,7 @@ export default function VendorsPage() {
     const formatCurrency = (amount: number) => {
         return new Intl.NumberFormat('en-US', {
             style: 'currency',
-            currency: 'USD',
+            currency: reportingCurrency,
             minimumFractionDigits: 0,
             maximumFractionDigits: 0,
         }).format(amount);
@@ -2,21 +2,24 @@
 
 import { useCallback, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
+import ColumnMappingStep, { ColumnMapping, CSVPreview } from './ColumnMappingStep';
+import ImportPreviewPanel, { ImportPreview } from './ImportPreviewPanel';
+import { waitForJob } from '@/lib/job-client';
 
 interface CSVUploadProps {
-    onUploadComplete?: (result: UploadResult) => void;
+    onUploadComplete?: (result: UploadResult | null) => void;
 }
 
 interface UploadResult {
     success: boolean;
-    summary: {
-        totalRows: number;
-        validTransactions: number;
-        saasCount: number;
-        vendorsCreated: number;
-        transactionsCreated: number;
-        errors: string[];
-    };
+    batchId: string;
+    transactionsCreated: number;
+    duplicatesSkipped: number;
+    vendorsCreated: number;
+    subscriptionsCreated: number;
+    subscriptionsUpdated: number;
+    trialsConverted: number;
+    alertsCreated: number;
     vendors: Array<{
         name: string;
         totalSpend: number;
@@ -26,15 +29,29 @@ interface UploadResult {
     }>;
 }
 
+// What a statement_upload job returns: a staged preview, or a request to confirm the mapping
+interface StagedUpload {
+    success: boolean;
+    needsMapping?: boolean;
+    preview: CSVPreview | ImportPreview;
+    profileName?: string | null;
+    ambiguousRows?: number;
+}
+
 export default function CSVUpload({ onUploadComplete }: CSVUploadProps) {
     const [uploading, setUploading] = useState(false);
+    const [uploadProgress, setUploadProgress] = useState<string | null>(null);
     const [result, setResult] = useState<UploadResult | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const [mappingStep, setMappingStep] = useState<{
+        file: File;
+        preview: CSVPreview;
+        profileName?: string | null;
+        ambiguousRows?: number;
+    } | null>(null);
+    const [preview, setPreview] = useState<ImportPreview | null>(null);
 
-    const onDrop = useCallback(async (acceptedFiles: File[]) => {
-        const file = acceptedFiles[0];
-        if (!file) return;
-
+    const uploadFile = useCallback(async (file: File, mapping?: ColumnMapping, profileName?: string) => {
         setUploading(true);
         setError(null);
         setResult(null);
@@ -42,36 +59,130 @@ export default function CSVUpload({ onUploadComplete }: CSVUploadProps) {
         try {
             const formData = new FormData();
             formData.append('file', file);
+            if (mapping) {
+                formData.append('mapping', JSON.stringify(mapping));
+            }
+            if (profileName) {
+                formData.append('profileName', profileName);
+            }
 
             const response = await fetch('/api/upload', {
                 method: 'POST',
                 body: formData,
             });
 
+            const queued = await response.json();
+
+            if (!response.ok) {
+                setError(queued.error || 'Upload failed');
+                return;
+            }
+
+            // Unknown header rows come back straight away; parsing runs as a background job
+            let data = queued;
+            if (queued.jobId) {
+                const job = await waitForJob<StagedUpload>(queued.jobId, update => setUploadProgress(update.progressMessage));
+                if (job.status !== 'succeeded' || !job.result) {
+                    setError(job.error || 'Upload failed');
+                    return;
+                }
+                data = job.result;
+            }
+
+            if (data.needsMapping) {
+                setMappingStep({
+                    file,
+                    preview: data.preview,
+                    profileName: data.profileName,
+                    ambiguousRows: data.ambiguousRows,
+                });
+                return;
+            }
+
+            setMappingStep(null);
+            setPreview(data.preview);
+        } catch {
+            setError('Failed to upload file. Please try again.');
+        } finally {
+            setUploadProgress(null);
+            setUploading(false);
+        }
+    }, []);
+
+    const commitPreview = useCallback(async (batchId: string) => {
+        setUploading(true);
+        setError(null);
+
+        try {
+            const response = await fetch(`/api/imports/${batchId}/commit`, { method: 'POST' });
             const data = await response.json();
 
             if (!response.ok) {
-                setError(data.error || 'Upload failed');
+                setError(data.error || 'Import failed');
                 return;
             }
 
+            setPreview(null);
             setResult(data);
             onUploadComplete?.(data);
         } catch {
-            setError('Failed to upload file. Please try again.');
+            setError('Failed to import file. Please try again.');
         } finally {
             setUploading(false);
         }
     }, [onUploadComplete]);
 
+    const discardPreview = useCallback(async (batchId: string) => {
+        setPreview(null);
+        try {
+            await fetch(`/api/imports/${batchId}`, { method: 'DELETE' });
+        } catch {
+            // Abandoned previews are harmless; nothing was written
+        }
+    }, []);
+
+    const undoImport = useCallback(async (batchId: string) => {
+        setUploading(true);
+        setError(null);
+
+        try {
+            const response = await fetch(`/api/imports/${batchId}/rollback`, { method: 'POST' });
+            const data = await response.json();
+
+            if (!response.ok) {
+                setError(data.error || 'Undo failed');
+                return;
+            }
+
+            setResult(null);
+            onUploadComplete?.(null);
+        } catch {
+            setError('Failed to undo import. Please try again.');
+        } finally {
+            setUploading(false);
+        }
+    }, [onUploadComplete]);
+
+    const onDrop = useCallback(async (acceptedFiles: File[]) => {
+        const file = acceptedFiles[0];
+        if (!file) return;
+
+        setMappingStep(null);
+        setPreview(null);
+        await uploadFile(file);
+    }, [uploadFile]);
+
     const { getRootProps, getInputProps, isDragActive } = useDropzone({
         onDrop,
         accept: {
             'text/csv': ['.csv'],
             'application/vnd.ms-excel': ['.csv'],
+            'application/x-ofx': ['.ofx', '.qfx'],
+            'application/vnd.intu.qfx': ['.qfx'],
+            'application/qif': ['.qif'],
         },
         maxFiles: 1,
-        disabled: uploading,
+        disabled: uploading || !!mappingStep || !!preview,
     });
 
     return (
@@ -85,7 +196,7 @@ export default function CSVUpload({ onUploadComplete }: CSVUploadProps) {
                     {uploading ? (
                         <>
                             <div className="spinner w-8 h-8" />
-                            <p className="text-gray-400">Processing your file...</p>
+                            <p className="text-gray-400">{uploadProgress ? `${uploadProgress}...` : 'Processing your file...'}</p>
                         </>
                     ) : (
                         <>
@@ -96,10 +207,10 @@ export default function CSVUpload({ onUploadComplete }: CSVUploadProps) {
                             </div>
                             <div className="text-center">
                                 <p className="text-white font-medium">
-                                    {isDragActive ? 'Drop your CSV here' : 'Drop CSV here or click to upload'}
+                                    {isDragActive ? 'Drop your statement here' : 'Drop a statement here or click to upload'}
                                 </p>
                                 <p className="text-sm text-gray-500 mt-1">
-                                    Supports QuickBooks, bank exports, and generic CSV formats
+                                    Supports CSV (QuickBooks, bank exports), OFX/QFX and QIF statements
                                 </p>
                             </div>
                         </>
@@ -107,6 +218,27 @@ export default function CSVUpload({ onUploadComplete }: CSVUploadProps) {
                 </div>
             </div>
 
+            {mappingStep && (
+                <ColumnMappingStep
+                    fileName={mappingStep.file.name}
+                    preview={mappingStep.preview}
+                    profileName={mappingStep.profileName}
+                    ambiguousRows={mappingStep.ambiguousRows}
+                    submitting={uploading}
+                    onConfirm={(mapping, profileName) => uploadFile(mappingStep.file, mapping, profileName)}
+                    onCancel={() => setMappingStep(null)}
+                />
+            )}
+
+            {preview && (
+                <ImportPreviewPanel
+                    preview={preview}
+                    submitting={uploading}
+                    onConfirm={() => commitPreview(preview.batchId)}
+                    onDiscard={() => discardPreview(preview.batchId)}
+                />
+            )}
+
             {error && (
                 <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
                     <p className="text-red-400 text-sm">{error}</p>
@@ -119,26 +251,43 @@ export default function CSVUpload({ onUploadComplete }: CSVUploadProps) {
                         <svg className="w-5 h-5 text-accent-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
                         </svg>
-                        <span className="text-accent-400 font-medium">Upload Successful</span>
+                        <span className="text-accent-400 font-medium">Import Successful</span>
+                        <button
+                            onClick={() => undoImport(result.batchId)}
+                            className="ml-auto text-xs text-gray-400 hover:text-white"
+                            disabled={uploading}
+                        >
+                            Undo import
+                        </button>
                     </div>
                     <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
                         <div>
                             <p className="text-gray-400">Transactions</p>
-                            <p className="text-white font-medium">{result.summary.validTransactions}</p>
+                            <p className="text-white font-medium">{result.transactionsCreated}</p>
                         </div>
                         <div>
-                            <p className="text-gray-400">SaaS Detected</p>
-                            <p className="text-white font-medium">{result.summary.saasCount}</p>
+                            <p className="text-gray-400">Duplicates Skipped</p>
+                            <p className="text-white font-medium">{result.duplicatesSkipped}</p>
                         </div>
                         <div>
                             <p className="text-gray-400">Vendors</p>
-                            <p className="text-white font-medium">{result.summary.vendorsCreated}</p>
+                            <p className="text-white font-medium">{result.vendorsCreated}</p>
                         </div>
                         <div>
-                            <p className="text-gray-400">Errors</p>
-                            <p className="text-white font-medium">{result.summary.errors.length}</p>
+                            <p className="text-gray-400">Subscriptions</p>
+                            <p className="text-white font-medium">{result.subscriptionsCreated + result.subscriptionsUpdated}</p>
                         </div>
                     </div>
+                    {result.trialsConverted > 0 && (
+                        <p className="text-xs text-gray-400 mt-3">
+                            {result.trialsConverted} free trials converted to paid subscriptions at their first charge.
+                        </p>
+                    )}
+                    {result.alertsCreated > 0 && (
+                        <p className="text-xs text-yellow-400 mt-3">
+                            {result.alertsCreated} new billing alerts, such as price changes or duplicate charges. See the dashboard.
+                        </p>
+                    )}
                 </div>
             )}
         </div>
@@ -0,0 +1,93 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+export default function CalendarFeed() {
+    const [url, setUrl] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+    const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+    useEffect(() => {
+        const fetchFeed = async () => {
+            try {
+                const res = await fetch('/api/settings/calendar');
+                if (res.ok) {
+                    const data = await res.json();
+                    setUrl(data.url);
+                }
+            } catch (error) {
+                console.error('Failed to fetch calendar feed:', error);
+            }
+        };
+
+        fetchFeed();
+    }, []);
+
+    const updateFeed = async (method: 'POST' | 'DELETE') => {
+        if (method === 'DELETE' && !confirm('Calendars subscribed to this feed will stop updating. Continue?')) {
+            return;
+        }
+
+        setBusy(true);
+        setMessage(null);
+        try {
+            const res = await fetch('/api/settings/calendar', { method });
+            const result = await res.json();
+            if (res.ok) {
+                setUrl(method === 'POST' ? result.url : null);
+            } else {
+                setMessage({ text: result.error || 'Failed to update calendar feed', error: true });
+            }
+        } catch {
+            setMessage({ text: 'Failed to update calendar feed', error: true });
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const copyUrl = async () => {
+        if (!url) return;
+        try {
+            await navigator.clipboard.writeText(url);
+            setMessage({ text: 'Feed URL copied', error: false });
+        } catch {
+            setMessage({ text: 'Copy failed; select the URL and copy it manually', error: true });
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <p className="text-sm text-gray-400">
+                Subscribe to renewals, cancellation deadlines and negotiation follow-ups from Google Calendar,
+                Outlook or Apple Calendar. Anyone with the URL can read the feed.
+            </p>
+
+            {url ? (
+                <>
+                    <div className="flex gap-2">
+                        <input type="text" readOnly value={url} className="input font-mono text-xs" onFocus={(e) => e.target.select()} />
+                        <button onClick={copyUrl} className="btn btn-secondary text-sm" disabled={busy}>
+                            Copy
+                        </button>
+                    </div>
+                    <div className="flex gap-2">
+                        <button onClick={() => updateFeed('POST')} className="btn btn-secondary text-sm" disabled={busy}>
+                            Reset URL
+                        </button>
+                        <button onClick={() => updateFeed('DELETE')} className="btn btn-secondary text-sm text-red-400" disabled={busy}>
+                            Turn off
+                        </button>
+                    </div>
+                </>
+            ) : (
+                <button onClick={() => updateFeed('POST')} className="btn btn-primary text-sm" disabled={busy}>
+                    Create calendar feed
+                </button>
+            )}
+
+            {message && (
+                <p className={`text-sm ${message.error ? 'text-red-400' : 'text-accent-400'}`}>{message.text}</p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+
+interface AlertTransaction {
+    id: string;
+    date: string;
+    amount: number;
+}
+
+interface ChargeAlert {
+    id: string;
+    subscriptionId: string;
+    vendorName: string;
+    type: 'price_increase' | 'price_decrease' | 'duplicate_charge' | 'extra_charge' | 'missing_charge' | 'trial_ending';
+    occurredAt: string;
+    previousAmount: number | null;
+    newAmount: number | null;
+    currency: string;
+    transactions: AlertTransaction[];
+}
+
+interface ChargeAlertsProps {
+    subscriptionId?: string; // Only this subscription's alerts; omits vendor links
+}
+
+const ALERT_LABELS: Record<ChargeAlert['type'], { label: string; badge: string }> = {
+    price_increase: { label: 'Price increase', badge: 'badge-danger' },
+    price_decrease: { label: 'Price decrease', badge: 'badge-success' },
+    duplicate_charge: { label: 'Duplicate charge', badge: 'badge-danger' },
+    extra_charge: { label: 'Extra charge', badge: 'badge-warning' },
+    missing_charge: { label: 'Missing charge', badge: 'badge-info' },
+    trial_ending: { label: 'Trial ending', badge: 'badge-warning' },
+};
+
+export default function ChargeAlerts({ subscriptionId }: ChargeAlertsProps) {
+    const [alerts, setAlerts] = useState<ChargeAlert[]>([]);
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    useEffect(() => {
+        const fetchAlerts = async () => {
+            try {
+                const query = subscriptionId ? `?subscriptionId=${subscriptionId}` : '';
+                const res = await fetch(`/api/alerts${query}`);
+                if (res.ok) {
+                    const data = await res.json();
+                    setAlerts(data.alerts);
+                }
+            } catch (error) {
+                console.error('Failed to fetch alerts:', error);
+            }
+        };
+
+        fetchAlerts();
+    }, [subscriptionId]);
+
+    const dismiss = async (id: string) => {
+        setBusyId(id);
+        try {
+            const res = await fetch(`/api/alerts/${id}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ status: 'dismissed' }),
+            });
+            if (res.ok) {
+                setAlerts(prev => prev.filter(a => a.id !== id));
+            }
+        } catch (error) {
+            console.error('Failed to dismiss alert:', error);
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const formatAmount = (amount: number | null, currency: string) => {
+        if (amount === null) return '—';
+        return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+    };
+
+    const formatDate = (date: string) => {
+        return new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+    };
+
+    const describe = (alert: ChargeAlert) => {
+        switch (alert.type) {
+            case 'price_increase':
+            case 'price_decrease':
+                return `${formatAmount(alert.previousAmount, alert.currency)} → ${formatAmount(alert.newAmount, alert.currency)}`;
+            case 'duplicate_charge':
+                return `Charged ${formatAmount(alert.newAmount, alert.currency)} twice in one billing period`;
+            case 'extra_charge':
+                return `${formatAmount(alert.newAmount, alert.currency)} on top of the regular ${formatAmount(alert.previousAmount, alert.currency)}`;
+            case 'missing_charge':
+                return `Expected about ${formatAmount(alert.previousAmount, alert.currency)} around ${formatDate(alert.occurredAt)}`;
+            case 'trial_ending':
+                return alert.newAmount !== null
+                    ? `Free trial converts to ${formatAmount(alert.newAmount, alert.currency)} on ${formatDate(alert.occurredAt)}`
+                    : `Free trial converts to paid on ${formatDate(alert.occurredAt)}`;
+        }
+    };
+
+    if (alerts.length === 0) return null;
+
+    return (
+        <div className="card mb-8">
+            <h2 className="text-lg font-semibold text-white mb-4">Billing Alerts</h2>
+            <div className="divide-y divide-gray-800">
+                {alerts.map(alert => (
+                    <div key={alert.id} className="py-3 flex flex-col sm:flex-row sm:items-start gap-3">
+                        <div className="flex-1">
+                            <div className="flex items-center gap-2">
+                                <span className={`badge ${ALERT_LABELS[alert.type].badge}`}>{ALERT_LABELS[alert.type].label}</span>
+                                {!subscriptionId && (
+                                    <Link href={`/subscriptions/${alert.subscriptionId}`} className="text-white font-medium hover:text-primary-300">
+                                        {alert.vendorName}
+                                    </Link>
+                                )}
+                                <span className="text-xs text-gray-500">{formatDate(alert.occurredAt)}</span>
+                            </div>
+                            <p className="text-sm text-gray-300 mt-1">{describe(alert)}</p>
+                            <ul className="text-xs text-gray-500 mt-1 space-y-0.5">
+                                {alert.transactions.map(tx => (
+                                    <li key={tx.id} className="font-mono">
+                                        {formatDate(tx.date)} · {formatAmount(tx.amount, alert.currency)}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                        <button
+                            onClick={() => dismiss(alert.id)}
+                            className="text-xs text-gray-400 hover:text-white"
+                            disabled={busyId === alert.id}
+                        >
+                            Dismiss
+                        </button>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
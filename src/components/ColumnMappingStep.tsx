@@ -0,0 +1,261 @@
+'use client';
+
+import { useState } from 'react';
+
+export type AmountSignConvention = 'absolute' | 'negative_is_charge' | 'positive_is_charge';
+export type DateOrder = 'auto' | 'month_first' | 'day_first';
+export type DecimalSeparator = 'auto' | 'dot' | 'comma';
+
+export interface ColumnMapping {
+    date: string | null;
+    description: string | null;
+    amount: string | null;
+    debit: string | null;
+    credit: string | null;
+    vendor: string | null;
+    category: string | null;
+    amountSign: AmountSignConvention;
+    dateOrder?: DateOrder;
+    decimalSeparator?: DecimalSeparator;
+}
+
+export interface CSVPreview {
+    headers: string[];
+    sampleRows: Record<string, string>[];
+    headerSignature: string;
+    detectedMapping: ColumnMapping;
+    detectedLocale: {
+        dateOrder: Exclude<DateOrder, 'auto'> | null;
+        decimalSeparator: Exclude<DecimalSeparator, 'auto'> | null;
+    };
+    missingFields: string[];
+}
+
+interface ColumnMappingStepProps {
+    fileName: string;
+    preview: CSVPreview;
+    profileName?: string | null;
+    ambiguousRows?: number;
+    submitting?: boolean;
+    onConfirm: (mapping: ColumnMapping, profileName: string) => void;
+    onCancel: () => void;
+}
+
+type ColumnField = Exclude<keyof ColumnMapping, 'amountSign' | 'dateOrder' | 'decimalSeparator'>;
+
+const SIGN_OPTIONS: { value: AmountSignConvention; label: string }[] = [
+    { value: 'absolute', label: 'Every row is a charge (negatives are refunds)' },
+    { value: 'negative_is_charge', label: 'Negative amounts are charges (bank style)' },
+    { value: 'positive_is_charge', label: 'Positive amounts are charges (card style)' },
+];
+
+const DATE_ORDER_OPTIONS: { value: DateOrder; label: string }[] = [
+    { value: 'auto', label: 'Detect from file' },
+    { value: 'month_first', label: 'Month first (12/31/2025)' },
+    { value: 'day_first', label: 'Day first (31/12/2025, 31.12.2025)' },
+];
+
+const DECIMAL_OPTIONS: { value: DecimalSeparator; label: string }[] = [
+    { value: 'auto', label: 'Detect from file' },
+    { value: 'dot', label: 'Decimal point (1,234.56)' },
+    { value: 'comma', label: 'Decimal comma (1.234,56)' },
+];
+
+export default function ColumnMappingStep({
+    fileName,
+    preview,
+    profileName: initialProfileName,
+    ambiguousRows = 0,
+    submitting = false,
+    onConfirm,
+    onCancel,
+}: ColumnMappingStepProps) {
+    const [mapping, setMapping] = useState<ColumnMapping>(preview.detectedMapping);
+    const [useSplitAmounts, setUseSplitAmounts] = useState(!!preview.detectedMapping.debit);
+    const [profileName, setProfileName] = useState(initialProfileName || '');
+
+    const setColumn = (field: ColumnField, value: string) => {
+        setMapping(prev => ({ ...prev, [field]: value || null }));
+    };
+
+    const effectiveMapping: ColumnMapping = useSplitAmounts
+        ? { ...mapping, amount: null }
+        : { ...mapping, debit: null, credit: null };
+
+    const isComplete = !!effectiveMapping.date &&
+        !!(effectiveMapping.description || effectiveMapping.vendor) &&
+        !!(effectiveMapping.amount || effectiveMapping.debit);
+
+    const renderSelect = (field: ColumnField, label: string, required = false) => (
+        <div>
+            <label className="label">
+                {label}
+                {required && <span className="text-red-400 ml-1">*</span>}
+            </label>
+            <select
+                value={mapping[field] || ''}
+                onChange={(e) => setColumn(field, e.target.value)}
+                className="input"
+                disabled={submitting}
+            >
+                <option value="">— Not in this file —</option>
+                {preview.headers.map(header => (
+                    <option key={header} value={header}>{header}</option>
+                ))}
+            </select>
+        </div>
+    );
+
+    return (
+        <div className="p-4 bg-gray-800/50 border border-gray-700 rounded-lg space-y-4 animate-fade-in">
+            <div>
+                <h3 className="text-white font-medium">Confirm column mapping</h3>
+                {ambiguousRows > 0 ? (
+                    <p className="text-sm text-gray-400 mt-1">
+                        {ambiguousRows} rows in <span className="text-white">{fileName}</span> read differently
+                        depending on the date or number format. Choose the format this file uses.
+                    </p>
+                ) : (
+                    <p className="text-sm text-gray-400 mt-1">
+                        We haven&apos;t seen the columns in <span className="text-white">{fileName}</span> before.
+                        Check which column holds each field.
+                    </p>
+                )}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {renderSelect('date', 'Date', true)}
+                {renderSelect('description', 'Description')}
+                {renderSelect('vendor', 'Vendor / Payee')}
+                {renderSelect('category', 'Category')}
+            </div>
+
+            <div className="space-y-3">
+                <label className="flex items-center gap-2 text-sm text-gray-300">
+                    <input
+                        type="checkbox"
+                        checked={useSplitAmounts}
+                        onChange={(e) => setUseSplitAmounts(e.target.checked)}
+                        disabled={submitting}
+                    />
+                    Amounts are split into separate debit and credit columns
+                </label>
+
+                {useSplitAmounts ? (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        {renderSelect('debit', 'Debit (money out)', true)}
+                        {renderSelect('credit', 'Credit (money in)')}
+                    </div>
+                ) : (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        {renderSelect('amount', 'Amount', true)}
+                        <div>
+                            <label className="label">Sign convention</label>
+                            <select
+                                value={mapping.amountSign}
+                                onChange={(e) => setMapping(prev => ({ ...prev, amountSign: e.target.value as AmountSignConvention }))}
+                                className="input"
+                                disabled={submitting}
+                            >
+                                {SIGN_OPTIONS.map(option => (
+                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                    <label className="label">Date format</label>
+                    <select
+                        value={mapping.dateOrder || 'auto'}
+                        onChange={(e) => setMapping(prev => ({ ...prev, dateOrder: e.target.value as DateOrder }))}
+                        className="input"
+                        disabled={submitting}
+                    >
+                        {DATE_ORDER_OPTIONS.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                    </select>
+                    {!preview.detectedLocale.dateOrder && (
+                        <p className="text-xs text-yellow-400 mt-1">
+                            Could not tell from the file; dates like 03/04 will be skipped unless you choose.
+                        </p>
+                    )}
+                </div>
+                <div>
+                    <label className="label">Number format</label>
+                    <select
+                        value={mapping.decimalSeparator || 'auto'}
+                        onChange={(e) => setMapping(prev => ({ ...prev, decimalSeparator: e.target.value as DecimalSeparator }))}
+                        className="input"
+                        disabled={submitting}
+                    >
+                        {DECIMAL_OPTIONS.map(option => (
+                            <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                    </select>
+                    {!preview.detectedLocale.decimalSeparator && (
+                        <p className="text-xs text-yellow-400 mt-1">
+                            Could not tell from the file; amounts like 1,234 will be skipped unless you choose.
+                        </p>
+                    )}
+                </div>
+            </div>
+
+            {preview.sampleRows.length > 0 && (
+                <div className="table-container">
+                    <table className="table">
+                        <thead>
+                            <tr>
+                                {preview.headers.map(header => (
+                                    <th key={header}>{header}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {preview.sampleRows.map((row, i) => (
+                                <tr key={i}>
+                                    {preview.headers.map(header => (
+                                        <td key={header} className="text-gray-300 text-xs">{row[header] || ''}</td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            <div>
+                <label className="label">Save as profile (optional)</label>
+                <input
+                    type="text"
+                    value={profileName}
+                    onChange={(e) => setProfileName(e.target.value)}
+                    placeholder="e.g. Chase business checking"
+                    className="input"
+                    maxLength={100}
+                    disabled={submitting}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                    Saved profiles are applied automatically the next time a file with these columns is uploaded.
+                </p>
+            </div>
+
+            <div className="flex justify-end gap-2">
+                <button onClick={onCancel} className="btn btn-secondary text-sm py-2 px-4" disabled={submitting}>
+                    Cancel
+                </button>
+                <button
+                    onClick={() => onConfirm(effectiveMapping, profileName.trim())}
+                    className="btn btn-primary text-sm py-2 px-4"
+                    disabled={!isComplete || submitting}
+                >
+                    {submitting ? 'Importing...' : 'Import'}
+                </button>
+            </div>
+        </div>
+    );
+}
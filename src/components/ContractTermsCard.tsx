@@ -0,0 +1,194 @@
+'use client';
+
+import { useState } from 'react';
+
+interface ContractTerms {
+    id: string;
+    contractStartDate: string | null;
+    contractEndDate: string | null;
+    termMonths: number | null;
+    autoRenew: boolean;
+    noticePeriodDays: number | null;
+    termEndDate: string | null;
+    actionDeadline: string | null;
+    urgencyLabel: { label: string; color: string } | null;
+}
+
+interface ContractTermsCardProps {
+    subscription: ContractTerms;
+    onSaved: () => void;
+}
+
+const URGENCY_BADGES: Record<string, string> = {
+    red: 'badge-danger',
+    orange: 'badge-warning',
+    yellow: 'badge-warning',
+    green: 'badge-success',
+    gray: 'badge-info',
+};
+
+// <input type="date"> works in plain calendar dates, which the API stores as UTC midnight
+function toDateInput(value: string | null): string {
+    return value ? value.slice(0, 10) : '';
+}
+
+function fromDateInput(value: string): string | null {
+    return value ? `${value}T00:00:00.000Z` : null;
+}
+
+export default function ContractTermsCard({ subscription, onSaved }: ContractTermsCardProps) {
+    const [editing, setEditing] = useState(false);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [form, setForm] = useState({
+        contractStartDate: toDateInput(subscription.contractStartDate),
+        contractEndDate: toDateInput(subscription.contractEndDate),
+        termMonths: subscription.termMonths?.toString() || '',
+        autoRenew: subscription.autoRenew,
+        noticePeriodDays: subscription.noticePeriodDays?.toString() || '',
+    });
+
+    const formatDate = (dateStr: string | null) => {
+        if (!dateStr) return '—';
+        return new Date(dateStr).toLocaleDateString('en-US', {
+            month: 'long',
+            day: 'numeric',
+            year: 'numeric',
+            timeZone: 'UTC',
+        });
+    };
+
+    const handleSave = async () => {
+        setSaving(true);
+        setError(null);
+        try {
+            const res = await fetch(`/api/subscriptions/${subscription.id}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    contractStartDate: fromDateInput(form.contractStartDate),
+                    contractEndDate: fromDateInput(form.contractEndDate),
+                    termMonths: form.termMonths ? parseInt(form.termMonths, 10) : null,
+                    autoRenew: form.autoRenew,
+                    noticePeriodDays: form.noticePeriodDays ? parseInt(form.noticePeriodDays, 10) : null,
+                }),
+            });
+            const result = await res.json();
+            if (res.ok) {
+                setEditing(false);
+                onSaved();
+            } else {
+                setError(result.error || 'Failed to save contract terms');
+            }
+        } catch {
+            setError('Failed to save contract terms');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="card p-6 mb-6">
+            <div className="flex items-center justify-between mb-4">
+                <h3 className="text-gray-400 text-sm">Contract</h3>
+                {!editing && (
+                    <button onClick={() => setEditing(true)} className="text-sm text-primary-400 hover:text-primary-300">
+                        Edit
+                    </button>
+                )}
+            </div>
+
+            {editing ? (
+                <div className="grid grid-cols-2 gap-4">
+                    <label className="block">
+                        <span className="text-gray-500 text-sm">Contract start</span>
+                        <input
+                            type="date"
+                            className="input mt-1"
+                            value={form.contractStartDate}
+                            onChange={e => setForm({ ...form, contractStartDate: e.target.value })}
+                        />
+                    </label>
+                    <label className="block">
+                        <span className="text-gray-500 text-sm">Contract end</span>
+                        <input
+                            type="date"
+                            className="input mt-1"
+                            value={form.contractEndDate}
+                            onChange={e => setForm({ ...form, contractEndDate: e.target.value })}
+                        />
+                    </label>
+                    <label className="block">
+                        <span className="text-gray-500 text-sm">Term (months)</span>
+                        <input
+                            type="number"
+                            min={1}
+                            className="input mt-1"
+                            value={form.termMonths}
+                            onChange={e => setForm({ ...form, termMonths: e.target.value })}
+                        />
+                    </label>
+                    <label className="block">
+                        <span className="text-gray-500 text-sm">Notice period (days)</span>
+                        <input
+                            type="number"
+                            min={0}
+                            className="input mt-1"
+                            value={form.noticePeriodDays}
+                            onChange={e => setForm({ ...form, noticePeriodDays: e.target.value })}
+                        />
+                    </label>
+                    <label className="flex items-center gap-2 col-span-2">
+                        <input
+                            type="checkbox"
+                            checked={form.autoRenew}
+                            onChange={e => setForm({ ...form, autoRenew: e.target.checked })}
+                        />
+                        <span className="text-white text-sm">Renews automatically</span>
+                    </label>
+                    {error && <p className="text-sm text-red-400 col-span-2">{error}</p>}
+                    <div className="flex gap-2 col-span-2">
+                        <button onClick={() => setEditing(false)} className="btn btn-secondary text-sm" disabled={saving}>
+                            Cancel
+                        </button>
+                        <button onClick={handleSave} className="btn btn-primary text-sm" disabled={saving}>
+                            {saving ? 'Saving...' : 'Save'}
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <dl className="grid grid-cols-2 gap-4">
+                    <div>
+                        <dt className="text-gray-500 text-sm">Last Day to Cancel or Renegotiate</dt>
+                        <dd className="text-white text-lg flex items-center gap-2">
+                            {formatDate(subscription.actionDeadline)}
+                            {subscription.urgencyLabel && (
+                                <span className={`badge ${URGENCY_BADGES[subscription.urgencyLabel.color] || 'badge-info'}`}>
+                                    {subscription.urgencyLabel.label}
+                                </span>
+                            )}
+                        </dd>
+                    </div>
+                    <div>
+                        <dt className="text-gray-500 text-sm">{subscription.autoRenew ? 'Term Renews' : 'Term Ends'}</dt>
+                        <dd className="text-white text-lg">{formatDate(subscription.termEndDate)}</dd>
+                    </div>
+                    <div>
+                        <dt className="text-gray-500 text-sm">Contract Period</dt>
+                        <dd className="text-white">
+                            {formatDate(subscription.contractStartDate)} – {formatDate(subscription.contractEndDate)}
+                        </dd>
+                    </div>
+                    <div>
+                        <dt className="text-gray-500 text-sm">Term / Notice</dt>
+                        <dd className="text-white">
+                            {subscription.termMonths ? `${subscription.termMonths} months` : '—'}
+                            {' / '}
+                            {subscription.noticePeriodDays !== null ? `${subscription.noticePeriodDays} days` : '—'}
+                        </dd>
+                    </div>
+                </dl>
+            )}
+        </div>
+    );
+}
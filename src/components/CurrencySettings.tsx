@@ -0,0 +1,155 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+interface CurrencySettingsProps {
+    reportingCurrency: string;
+    onChange?: () => void;
+}
+
+interface FxRateSummary {
+    count: number;
+    pairs: string[];
+    firstDate: string | null;
+    lastDate: string | null;
+}
+
+const COMMON_CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'CHF', 'JPY', 'INR', 'SEK', 'NOK', 'DKK', 'NZD', 'SGD'];
+
+export default function CurrencySettings({ reportingCurrency, onChange }: CurrencySettingsProps) {
+    const [currency, setCurrency] = useState(reportingCurrency);
+    const [summary, setSummary] = useState<FxRateSummary | null>(null);
+    const [base, setBase] = useState('EUR');
+    const [busy, setBusy] = useState(false);
+    const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+    const fileInput = useRef<HTMLInputElement>(null);
+
+    const fetchSummary = async () => {
+        try {
+            const res = await fetch('/api/fx-rates');
+            if (res.ok) {
+                setSummary(await res.json());
+            }
+        } catch (error) {
+            console.error('Failed to fetch exchange rates:', error);
+        }
+    };
+
+    useEffect(() => {
+        fetchSummary();
+    }, []);
+
+    useEffect(() => {
+        setCurrency(reportingCurrency);
+    }, [reportingCurrency]);
+
+    const saveCurrency = async (value: string) => {
+        setCurrency(value);
+        setBusy(true);
+        setMessage(null);
+        try {
+            const res = await fetch('/api/settings', {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ reportingCurrency: value }),
+            });
+            const result = await res.json();
+            if (res.ok) {
+                onChange?.();
+            } else {
+                setMessage({ text: result.error || 'Failed to update currency', error: true });
+            }
+        } catch {
+            setMessage({ text: 'Failed to update currency', error: true });
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const importRates = async (file: File) => {
+        setBusy(true);
+        setMessage(null);
+        try {
+            const formData = new FormData();
+            formData.append('file', file);
+            formData.append('base', base);
+
+            const res = await fetch('/api/fx-rates', { method: 'POST', body: formData });
+            const result = await res.json();
+            if (res.ok) {
+                setSummary(result.summary);
+                setMessage({ text: `Imported ${result.imported} rates`, error: false });
+                onChange?.();
+            } else {
+                setMessage({ text: result.error || 'Failed to import rates', error: true });
+            }
+        } catch {
+            setMessage({ text: 'Failed to import rates', error: true });
+        } finally {
+            setBusy(false);
+            if (fileInput.current) fileInput.current.value = '';
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                    <label className="label">Reporting currency</label>
+                    <select
+                        value={currency}
+                        onChange={(e) => saveCurrency(e.target.value)}
+                        className="input"
+                        disabled={busy}
+                    >
+                        {Array.from(new Set([currency, ...COMMON_CURRENCIES])).map(code => (
+                            <option key={code} value={code}>{code}</option>
+                        ))}
+                    </select>
+                    <p className="text-xs text-gray-500 mt-1">
+                        Totals are converted into this currency at each transaction or renewal date.
+                    </p>
+                </div>
+                <div>
+                    <label className="label">Exchange rates (CSV)</label>
+                    <div className="flex gap-2">
+                        <select
+                            value={base}
+                            onChange={(e) => setBase(e.target.value)}
+                            className="input w-24"
+                            disabled={busy}
+                            title="Base currency for files with one column per currency"
+                        >
+                            {COMMON_CURRENCIES.map(code => (
+                                <option key={code} value={code}>{code}</option>
+                            ))}
+                        </select>
+                        <input
+                            ref={fileInput}
+                            type="file"
+                            accept=".csv,text/csv"
+                            className="input"
+                            disabled={busy}
+                            onChange={(e) => e.target.files?.[0] && importRates(e.target.files[0])}
+                        />
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                        Columns date, base, quote, rate &mdash; or date plus one column per currency against the base.
+                    </p>
+                </div>
+            </div>
+
+            {summary && (
+                <p className="text-sm text-gray-400">
+                    {summary.count > 0
+                        ? `${summary.count} rates stored for ${summary.pairs.join(', ')} (${summary.firstDate?.slice(0, 10)} to ${summary.lastDate?.slice(0, 10)})`
+                        : 'No exchange rates imported yet. Amounts in other currencies are left out of converted totals.'}
+                </p>
+            )}
+
+            {message && (
+                <p className={`text-sm ${message.error ? 'text-red-400' : 'text-accent-400'}`}>{message.text}</p>
+            )}
+        </div>
+    );
+}
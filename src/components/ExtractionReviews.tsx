@@ -0,0 +1,355 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface ExtractedFields {
+    vendorName: string;
+    amount: number | null;
+    currency: string;
+    billingCycle: 'monthly' | 'yearly' | null;
+    plan: string | null;
+    seats: number | null;
+    renewalDate: string | null;
+    trialEndDate: string | null;
+    emailType: string | null;
+}
+
+interface ReviewItem {
+    id: string;
+    confidence: string;
+    fields: ExtractedFields;
+    message: {
+        subject: string | null;
+        sender: string | null;
+        senderDomain: string | null;
+        snippet: string | null;
+        date: string | null;
+    };
+}
+
+interface ExtractionReviewsProps {
+    onChange?: () => void;
+}
+
+interface EditDraft {
+    vendorName: string;
+    amount: string;
+    currency: string;
+    billingCycle: string;
+    plan: string;
+    seats: string;
+    renewalDate: string;
+}
+
+function toDraft(fields: ExtractedFields): EditDraft {
+    return {
+        vendorName: fields.vendorName,
+        amount: fields.amount?.toString() || '',
+        currency: fields.currency,
+        billingCycle: fields.billingCycle || '',
+        plan: fields.plan || '',
+        seats: fields.seats?.toString() || '',
+        renewalDate: fields.renewalDate || '',
+    };
+}
+
+export default function ExtractionReviews({ onChange }: ExtractionReviewsProps) {
+    const [reviews, setReviews] = useState<ReviewItem[]>([]);
+    const [blockedSenders, setBlockedSenders] = useState<string[]>([]);
+    const [editing, setEditing] = useState<{ id: string; draft: EditDraft } | null>(null);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchReviews = async () => {
+        try {
+            const res = await fetch('/api/extraction-reviews');
+            if (res.ok) {
+                const data = await res.json();
+                setReviews(data.reviews);
+                setBlockedSenders(data.blockedSenders);
+            }
+        } catch (err) {
+            console.error('Failed to fetch extractions to review:', err);
+        }
+    };
+
+    useEffect(() => {
+        fetchReviews();
+    }, []);
+
+    const decide = async (id: string, body: Record<string, unknown>) => {
+        setBusyId(id);
+        setError(null);
+        try {
+            const res = await fetch(`/api/extraction-reviews/${id}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body),
+            });
+            const result = await res.json();
+            if (!res.ok) {
+                setError(result.error || 'Failed to save your choice');
+                return;
+            }
+
+            setEditing(null);
+            if (body.action === 'accept') {
+                setReviews(prev => prev.filter(r => r.id !== id));
+                onChange?.();
+            } else {
+                // Blocking a sender also clears its other pending items
+                fetchReviews();
+            }
+        } catch {
+            setError('Failed to save your choice');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const acceptEdited = (id: string, draft: EditDraft) => decide(id, {
+        action: 'accept',
+        fields: {
+            vendorName: draft.vendorName,
+            amount: draft.amount ? parseFloat(draft.amount) : null,
+            currency: draft.currency,
+            billingCycle: draft.billingCycle || null,
+            plan: draft.plan || null,
+            seats: draft.seats ? parseInt(draft.seats, 10) : null,
+            renewalDate: draft.renewalDate || null,
+        },
+    });
+
+    const unblock = async (domain: string) => {
+        try {
+            const res = await fetch(`/api/extraction-reviews/blocked-senders?domain=${encodeURIComponent(domain)}`, {
+                method: 'DELETE',
+            });
+            if (res.ok) {
+                setBlockedSenders(prev => prev.filter(d => d !== domain));
+            }
+        } catch (err) {
+            console.error('Failed to unblock sender:', err);
+        }
+    };
+
+    const formatAmount = (amount: number, currency: string) => {
+        return new Intl.NumberFormat('en-US', {
+            style: 'currency',
+            currency,
+            minimumFractionDigits: 2,
+        }).format(amount);
+    };
+
+    if (reviews.length === 0 && blockedSenders.length === 0) return null;
+
+    return (
+        <div className="card mb-8">
+            <h2 className="text-lg font-semibold text-white mb-1">Needs Review</h2>
+            <p className="text-sm text-gray-400 mb-4">
+                The extractor was not sure about these emails. Accept what looks right, fix what does not,
+                and reject anything that is not a subscription.
+            </p>
+
+            {reviews.length === 0 && (
+                <p className="text-sm text-gray-500 mb-4">Nothing waiting for review.</p>
+            )}
+
+            <div className="divide-y divide-gray-800">
+                {reviews.map(review => {
+                    const { fields, message } = review;
+                    const draft = editing?.id === review.id ? editing.draft : null;
+                    const busy = busyId === review.id;
+
+                    return (
+                        <div key={review.id} className="py-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <div className="min-w-0">
+                                <p className="text-white font-medium truncate">{message.subject || '(no subject)'}</p>
+                                <p className="text-xs text-gray-500">
+                                    {message.sender}
+                                    {message.date && ` · ${new Date(message.date).toLocaleDateString()}`}
+                                </p>
+                                {message.snippet && (
+                                    <p className="text-sm text-gray-400 mt-2 border-l-2 border-gray-700 pl-3">
+                                        {message.snippet}
+                                    </p>
+                                )}
+                            </div>
+
+                            <div>
+                                {draft ? (
+                                    <div className="grid grid-cols-2 gap-2">
+                                        <div className="col-span-2">
+                                            <label className="label">Vendor</label>
+                                            <input
+                                                type="text"
+                                                value={draft.vendorName}
+                                                onChange={(e) => setEditing({ id: review.id, draft: { ...draft, vendorName: e.target.value } })}
+                                                className="input"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label className="label">Amount</label>
+                                            <input
+                                                type="number"
+                                                step="0.01"
+                                                min="0"
+                                                value={draft.amount}
+                                                onChange={(e) => setEditing({ id: review.id, draft: { ...draft, amount: e.target.value } })}
+                                                className="input"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label className="label">Currency</label>
+                                            <input
+                                                type="text"
+                                                maxLength={3}
+                                                value={draft.currency}
+                                                onChange={(e) => setEditing({ id: review.id, draft: { ...draft, currency: e.target.value.toUpperCase() } })}
+                                                className="input"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label className="label">Billing</label>
+                                            <select
+                                                value={draft.billingCycle}
+                                                onChange={(e) => setEditing({ id: review.id, draft: { ...draft, billingCycle: e.target.value } })}
+                                                className="input"
+                                            >
+                                                <option value="">Unknown</option>
+                                                <option value="monthly">Monthly</option>
+                                                <option value="yearly">Yearly</option>
+                                            </select>
+                                        </div>
+                                        <div>
+                                            <label className="label">Renewal date</label>
+                                            <input
+                                                type="date"
+                                                value={draft.renewalDate}
+                                                onChange={(e) => setEditing({ id: review.id, draft: { ...draft, renewalDate: e.target.value } })}
+                                                className="input"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label className="label">Plan</label>
+                                            <input
+                                                type="text"
+                                                value={draft.plan}
+                                                onChange={(e) => setEditing({ id: review.id, draft: { ...draft, plan: e.target.value } })}
+                                                className="input"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label className="label">Seats</label>
+                                            <input
+                                                type="number"
+                                                min="1"
+                                                value={draft.seats}
+                                                onChange={(e) => setEditing({ id: review.id, draft: { ...draft, seats: e.target.value } })}
+                                                className="input"
+                                            />
+                                        </div>
+                                    </div>
+                                ) : (
+                                    <div>
+                                        <div className="flex items-center gap-2">
+                                            <span className="text-white font-medium">{fields.vendorName}</span>
+                                            <span className={`badge ${review.confidence === 'medium' ? 'badge-warning' : 'badge-danger'}`}>
+                                                {review.confidence} confidence
+                                            </span>
+                                        </div>
+                                        <p className="text-sm text-gray-400">
+                                            {fields.amount !== null ? formatAmount(fields.amount, fields.currency) : 'No amount'}
+                                            {fields.billingCycle && ` ${fields.billingCycle}`}
+                                            {fields.plan && ` · ${fields.plan}`}
+                                            {fields.seats && ` · ${fields.seats} seats`}
+                                        </p>
+                                        {(fields.renewalDate || fields.trialEndDate) && (
+                                            <p className="text-xs text-gray-500">
+                                                {fields.trialEndDate ? `Trial ends ${fields.trialEndDate}` : `Renews ${fields.renewalDate}`}
+                                            </p>
+                                        )}
+                                    </div>
+                                )}
+
+                                <div className="flex flex-wrap gap-2 mt-3">
+                                    {draft ? (
+                                        <>
+                                            <button
+                                                onClick={() => acceptEdited(review.id, draft)}
+                                                className="btn btn-primary text-sm py-1 px-3"
+                                                disabled={busy || !draft.vendorName.trim()}
+                                            >
+                                                Save & Accept
+                                            </button>
+                                            <button
+                                                onClick={() => setEditing(null)}
+                                                className="btn btn-secondary text-sm py-1 px-3"
+                                                disabled={busy}
+                                            >
+                                                Cancel
+                                            </button>
+                                        </>
+                                    ) : (
+                                        <>
+                                            <button
+                                                onClick={() => decide(review.id, { action: 'accept' })}
+                                                className="btn btn-primary text-sm py-1 px-3"
+                                                disabled={busy}
+                                            >
+                                                Accept
+                                            </button>
+                                            <button
+                                                onClick={() => setEditing({ id: review.id, draft: toDraft(fields) })}
+                                                className="btn btn-secondary text-sm py-1 px-3"
+                                                disabled={busy}
+                                            >
+                                                Edit
+                                            </button>
+                                            <button
+                                                onClick={() => decide(review.id, { action: 'reject' })}
+                                                className="btn btn-secondary text-sm py-1 px-3"
+                                                disabled={busy}
+                                            >
+                                                Not a subscription
+                                            </button>
+                                            {message.senderDomain && (
+                                                <button
+                                                    onClick={() => decide(review.id, { action: 'reject', blockSender: true })}
+                                                    className="btn btn-secondary text-sm py-1 px-3 text-red-400"
+                                                    disabled={busy}
+                                                >
+                                                    Block {message.senderDomain}
+                                                </button>
+                                            )}
+                                        </>
+                                    )}
+                                </div>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            {blockedSenders.length > 0 && (
+                <div className="mt-4 pt-4 border-t border-gray-800">
+                    <p className="text-xs text-gray-500 mb-2">Blocked senders (mail from them is never extracted)</p>
+                    <div className="flex flex-wrap gap-2">
+                        {blockedSenders.map(domain => (
+                            <button
+                                key={domain}
+                                onClick={() => unblock(domain)}
+                                className="badge bg-gray-800 text-gray-400 hover:text-white"
+                                title="Unblock"
+                            >
+                                {domain} ×
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {error && <p className="text-sm text-red-400 mt-3">{error}</p>}
+        </div>
+    );
+}
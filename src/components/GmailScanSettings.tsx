@@ -0,0 +1,185 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface ScanSettings {
+    keywords: string[];
+    senderDomains: string[];
+    labels: string[];
+    aliases: string[];
+    backfillAfter: string | null;
+    backfillBefore: string | null;
+    excludeSenderDomains: string[];
+    excludeKeywords: string[];
+}
+
+type ListField = 'keywords' | 'senderDomains' | 'aliases' | 'excludeSenderDomains' | 'excludeKeywords';
+
+const LIST_FIELDS: { field: ListField; label: string; placeholder: string }[] = [
+    { field: 'keywords', label: 'Extra keywords', placeholder: 'seat true-up, license renewal' },
+    { field: 'senderDomains', label: 'Always scan mail from', placeholder: 'stripe.com, paddle.com' },
+    { field: 'aliases', label: 'Billing aliases', placeholder: 'billing@yourcompany.com' },
+    { field: 'excludeSenderDomains', label: 'Never scan mail from', placeholder: 'linkedin.com' },
+    { field: 'excludeKeywords', label: 'Skip messages mentioning', placeholder: 'webinar, newsletter' },
+];
+
+function splitList(value: string): string[] {
+    return value.split(/[,\n]/).map(item => item.trim()).filter(Boolean);
+}
+
+export default function GmailScanSettings() {
+    const [settings, setSettings] = useState<ScanSettings | null>(null);
+    const [drafts, setDrafts] = useState<Record<ListField, string>>({
+        keywords: '', senderDomains: '', aliases: '', excludeSenderDomains: '', excludeKeywords: '',
+    });
+    const [labels, setLabels] = useState<string[]>([]);
+    const [busy, setBusy] = useState(false);
+    const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+    const applySettings = (next: ScanSettings) => {
+        setSettings(next);
+        setDrafts({
+            keywords: next.keywords.join(', '),
+            senderDomains: next.senderDomains.join(', '),
+            aliases: next.aliases.join(', '),
+            excludeSenderDomains: next.excludeSenderDomains.join(', '),
+            excludeKeywords: next.excludeKeywords.join(', '),
+        });
+    };
+
+    useEffect(() => {
+        const fetchSettings = async () => {
+            try {
+                const res = await fetch('/api/gmail/scan');
+                if (res.ok) {
+                    const data = await res.json();
+                    applySettings(data.settings);
+                    setLabels(data.labels);
+                }
+            } catch (error) {
+                console.error('Failed to fetch scan settings:', error);
+            }
+        };
+
+        fetchSettings();
+    }, []);
+
+    const toggleLabel = (label: string) => {
+        if (!settings) return;
+        const selected = settings.labels.includes(label)
+            ? settings.labels.filter(l => l !== label)
+            : [...settings.labels, label];
+        setSettings({ ...settings, labels: selected });
+    };
+
+    const saveSettings = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!settings) return;
+
+        setBusy(true);
+        setMessage(null);
+        try {
+            const res = await fetch('/api/gmail/scan', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    keywords: splitList(drafts.keywords),
+                    senderDomains: splitList(drafts.senderDomains),
+                    labels: settings.labels,
+                    aliases: splitList(drafts.aliases),
+                    backfillAfter: settings.backfillAfter || null,
+                    backfillBefore: settings.backfillBefore || null,
+                    excludeSenderDomains: splitList(drafts.excludeSenderDomains),
+                    excludeKeywords: splitList(drafts.excludeKeywords),
+                }),
+            });
+            const result = await res.json();
+            if (res.ok) {
+                applySettings(result.settings);
+                setMessage({
+                    text: result.resync
+                        ? 'Saved. The next scan searches again with these settings.'
+                        : 'Saved.',
+                    error: false,
+                });
+            } else {
+                setMessage({ text: result.error || 'Failed to save scan settings', error: true });
+            }
+        } catch {
+            setMessage({ text: 'Failed to save scan settings', error: true });
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    if (!settings) return null;
+
+    return (
+        <form onSubmit={saveSettings} className="space-y-4">
+            <p className="text-sm text-gray-400">
+                Scans search the inbox for billing keywords. Narrow them to the labels or aliases your receipts
+                go to, add senders and keywords of your own, and rule out noise. Separate entries with commas.
+            </p>
+
+            {labels.length > 0 && (
+                <div>
+                    <label className="label">Labels to search instead of the inbox</label>
+                    <div className="flex flex-wrap gap-2">
+                        {labels.map(label => (
+                            <button
+                                key={label}
+                                type="button"
+                                onClick={() => toggleLabel(label)}
+                                className={`badge ${settings.labels.includes(label) ? 'badge-info' : 'bg-gray-800 text-gray-400'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {LIST_FIELDS.map(({ field, label, placeholder }) => (
+                    <div key={field}>
+                        <label className="label">{label}</label>
+                        <input
+                            type="text"
+                            value={drafts[field]}
+                            onChange={(e) => setDrafts({ ...drafts, [field]: e.target.value })}
+                            placeholder={placeholder}
+                            className="input"
+                        />
+                    </div>
+                ))}
+                <div>
+                    <label className="label">Backfill date range (end day not included)</label>
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="date"
+                            value={settings.backfillAfter || ''}
+                            onChange={(e) => setSettings({ ...settings, backfillAfter: e.target.value || null })}
+                            className="input"
+                        />
+                        <span className="text-gray-500 text-sm">to</span>
+                        <input
+                            type="date"
+                            value={settings.backfillBefore || ''}
+                            onChange={(e) => setSettings({ ...settings, backfillBefore: e.target.value || null })}
+                            className="input"
+                        />
+                    </div>
+                </div>
+            </div>
+
+            <div className="flex items-center gap-3">
+                <button type="submit" className="btn btn-primary text-sm" disabled={busy}>
+                    {busy ? 'Saving...' : 'Save Scan Settings'}
+                </button>
+                {message && (
+                    <p className={`text-sm ${message.error ? 'text-red-400' : 'text-accent-400'}`}>{message.text}</p>
+                )}
+            </div>
+        </form>
+    );
+}
@@ -0,0 +1,253 @@
+'use client';
+
+import { useState } from 'react';
+import ScanProgress from '@/components/ScanProgress';
+import { isJobFinished } from '@/lib/job-client';
+import { useMailboxAccount } from '@/lib/use-mailbox-account';
+
+interface ImapStatus {
+    connected: boolean;
+    host?: string;
+    port?: number;
+    secure?: boolean;
+    username?: string;
+    folder?: string;
+    lastScan?: string;
+}
+
+interface ImapSettingsProps {
+    onScanComplete?: () => void;
+}
+
+const EMPTY_FORM = { host: '', port: '993', secure: true, username: '', password: '', folder: 'INBOX' };
+
+export default function ImapSettings({ onScanComplete }: ImapSettingsProps) {
+    const {
+        status,
+        setStatus,
+        busy,
+        setBusy,
+        scanning,
+        scanJob,
+        message,
+        setMessage,
+        startScan,
+        cancelScan,
+        disconnect,
+    } = useMailboxAccount<ImapStatus>({
+        statusUrl: '/api/imap',
+        scanUrl: '/api/imap/scan',
+        scanType: 'imap_scan',
+        disconnectPrompt: 'Disconnect this mailbox? Subscriptions already found are kept.',
+        onScanComplete,
+    });
+    const [form, setForm] = useState(EMPTY_FORM);
+    const [folders, setFolders] = useState<string[]>([]);
+    const [editing, setEditing] = useState(false);
+
+    const startEditing = async () => {
+        setMessage(null);
+        setEditing(true);
+        if (!status?.connected) {
+            setForm(EMPTY_FORM);
+            setFolders([]);
+            return;
+        }
+
+        setForm({
+            host: status.host || '',
+            port: String(status.port || 993),
+            secure: status.secure ?? true,
+            username: status.username || '',
+            password: '',
+            folder: status.folder || 'INBOX',
+        });
+        try {
+            const res = await fetch('/api/imap/folders');
+            if (res.ok) {
+                const data = await res.json();
+                setFolders(data.folders);
+            }
+        } catch (error) {
+            console.error('Failed to fetch IMAP folders:', error);
+        }
+    };
+
+    const saveAccount = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setBusy(true);
+        setMessage(null);
+        try {
+            const res = await fetch('/api/imap', {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    ...form,
+                    port: parseInt(form.port, 10),
+                    password: form.password || undefined,
+                }),
+            });
+            const result = await res.json();
+            if (res.ok) {
+                setStatus(result.account);
+                setFolders(result.folders);
+                setEditing(false);
+                setMessage({ text: 'Connected. Scan the folder to look for subscriptions.', error: false });
+            } else {
+                setMessage({ text: result.error || 'Failed to connect', error: true });
+            }
+        } catch {
+            setMessage({ text: 'Failed to connect', error: true });
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    if (!status) return null;
+
+    return (
+        <div className="space-y-4">
+            <p className="text-sm text-gray-400">
+                Scan a mailbox on any IMAP server, such as Fastmail, iCloud or a company mail server.
+                Use an app password where your provider offers one.
+            </p>
+
+            {status.connected && !editing && (
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                    <div className="flex items-center gap-3">
+                        <div className="w-3 h-3 rounded-full bg-green-500" />
+                        <div>
+                            <span className="text-white font-medium">{status.username}</span>
+                            <span className="text-gray-400 text-sm ml-2">
+                                {status.host} · {status.folder}
+                            </span>
+                            {status.lastScan && (
+                                <p className="text-xs text-gray-500">
+                                    Last scanned {new Date(status.lastScan).toLocaleString()}
+                                </p>
+                            )}
+                        </div>
+                    </div>
+                    <div className="flex gap-2">
+                        <button onClick={startScan} className="btn btn-primary text-sm" disabled={scanning || busy}>
+                            {scanning ? 'Scanning...' : 'Scan Folder'}
+                        </button>
+                        <button onClick={startEditing} className="btn btn-secondary text-sm" disabled={scanning || busy}>
+                            Edit
+                        </button>
+                        <button onClick={disconnect} className="btn btn-secondary text-sm text-red-400" disabled={scanning || busy}>
+                            Disconnect
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {!status.connected && !editing && (
+                <button onClick={startEditing} className="btn btn-primary text-sm">
+                    Connect IMAP mailbox
+                </button>
+            )}
+
+            {editing && (
+                <form onSubmit={saveAccount} className="space-y-3">
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                        <div className="sm:col-span-2">
+                            <label className="label">Server</label>
+                            <input
+                                type="text"
+                                value={form.host}
+                                onChange={(e) => setForm({ ...form, host: e.target.value })}
+                                placeholder="imap.example.com"
+                                className="input"
+                                required
+                            />
+                        </div>
+                        <div>
+                            <label className="label">Port</label>
+                            <input
+                                type="number"
+                                value={form.port}
+                                onChange={(e) => setForm({ ...form, port: e.target.value })}
+                                className="input"
+                                min={1}
+                                max={65535}
+                                required
+                            />
+                        </div>
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input
+                            type="checkbox"
+                            checked={form.secure}
+                            onChange={(e) => setForm({ ...form, secure: e.target.checked })}
+                        />
+                        Use TLS (port 993); turn off for servers that upgrade with STARTTLS
+                    </label>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        <div>
+                            <label className="label">Username</label>
+                            <input
+                                type="text"
+                                value={form.username}
+                                onChange={(e) => setForm({ ...form, username: e.target.value })}
+                                className="input"
+                                autoComplete="username"
+                                required
+                            />
+                        </div>
+                        <div>
+                            <label className="label">Password</label>
+                            <input
+                                type="password"
+                                value={form.password}
+                                onChange={(e) => setForm({ ...form, password: e.target.value })}
+                                placeholder={status.connected ? 'Leave blank to keep the saved password' : ''}
+                                className="input"
+                                autoComplete="current-password"
+                                required={!status.connected}
+                            />
+                        </div>
+                    </div>
+                    <div>
+                        <label className="label">Folder</label>
+                        {folders.length > 0 ? (
+                            <select
+                                value={form.folder}
+                                onChange={(e) => setForm({ ...form, folder: e.target.value })}
+                                className="input"
+                            >
+                                {Array.from(new Set([form.folder, ...folders])).map(folder => (
+                                    <option key={folder} value={folder}>{folder}</option>
+                                ))}
+                            </select>
+                        ) : (
+                            <input
+                                type="text"
+                                value={form.folder}
+                                onChange={(e) => setForm({ ...form, folder: e.target.value })}
+                                className="input"
+                                required
+                            />
+                        )}
+                    </div>
+                    <div className="flex gap-2">
+                        <button type="submit" className="btn btn-primary text-sm" disabled={busy}>
+                            {busy ? 'Connecting...' : 'Test & Save'}
+                        </button>
+                        <button type="button" onClick={() => setEditing(false)} className="btn btn-secondary text-sm" disabled={busy}>
+                            Cancel
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            {scanJob && !isJobFinished(scanJob) && (
+                <ScanProgress job={scanJob} onCancel={cancelScan} />
+            )}
+
+            {message && (
+                <p className={`text-sm ${message.error ? 'text-red-400' : 'text-accent-400'}`}>{message.text}</p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,135 @@
+'use client';
+
+export interface ImportPreview {
+    batchId: string;
+    fileName: string | null;
+    format: 'csv' | 'ofx' | 'qif';
+    profileName: string | null;
+    totals: {
+        rows: number;
+        new: number;
+        duplicate: number;
+        nonSaaS: number;
+        ambiguous: number;
+        deposits: number;
+        refunds: number;
+    };
+    vendorsToCreate: string[];
+    subscriptionsToCreate: string[];
+    subscriptionsToUpdate: string[];
+    errors: string[];
+}
+
+interface ImportPreviewPanelProps {
+    preview: ImportPreview;
+    submitting?: boolean;
+    onConfirm: () => void;
+    onDiscard: () => void;
+}
+
+function NameList({ title, names }: { title: string; names: string[] }) {
+    if (names.length === 0) return null;
+
+    return (
+        <div>
+            <p className="text-gray-400 text-xs uppercase tracking-wide mb-1">{title} ({names.length})</p>
+            <p className="text-sm text-white">
+                {names.slice(0, 8).join(', ')}
+                {names.length > 8 && <span className="text-gray-500"> and {names.length - 8} more</span>}
+            </p>
+        </div>
+    );
+}
+
+export default function ImportPreviewPanel({
+    preview,
+    submitting = false,
+    onConfirm,
+    onDiscard,
+}: ImportPreviewPanelProps) {
+    const importable = preview.totals.new + preview.totals.nonSaaS;
+
+    return (
+        <div className="p-4 bg-gray-800/50 border border-gray-700 rounded-lg space-y-4 animate-fade-in">
+            <div>
+                <h3 className="text-white font-medium">Review import</h3>
+                <p className="text-sm text-gray-400 mt-1">
+                    {preview.fileName || 'Statement'} · {preview.format.toUpperCase()}
+                    {preview.profileName && <> · profile &ldquo;{preview.profileName}&rdquo;</>}
+                </p>
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+                <div>
+                    <p className="text-gray-400">New SaaS</p>
+                    <p className="text-white font-medium">{preview.totals.new}</p>
+                </div>
+                <div>
+                    <p className="text-gray-400">Other new</p>
+                    <p className="text-white font-medium">{preview.totals.nonSaaS}</p>
+                </div>
+                <div>
+                    <p className="text-gray-400">Duplicates</p>
+                    <p className="text-white font-medium">{preview.totals.duplicate}</p>
+                </div>
+                <div>
+                    <p className="text-gray-400">Errors</p>
+                    <p className="text-white font-medium">{preview.errors.length}</p>
+                </div>
+            </div>
+
+            <div className="space-y-3">
+                <NameList title="Vendors to create" names={preview.vendorsToCreate} />
+                <NameList title="Subscriptions to create" names={preview.subscriptionsToCreate} />
+                <NameList title="Subscriptions to update" names={preview.subscriptionsToUpdate} />
+            </div>
+
+            {preview.errors.length > 0 && (
+                <ul className="text-xs text-red-400 space-y-1">
+                    {preview.errors.map((message, i) => (
+                        <li key={i}>{message}</li>
+                    ))}
+                </ul>
+            )}
+
+            {preview.totals.ambiguous > 0 && (
+                <p className="text-xs text-yellow-400">
+                    {preview.totals.ambiguous} rows were skipped because their date or amount format is ambiguous.
+                    Discard and upload again choosing the file&apos;s date and number format.
+                </p>
+            )}
+
+            {preview.totals.deposits > 0 && (
+                <p className="text-xs text-yellow-400">
+                    {preview.totals.deposits} incoming payments were skipped as deposits or card payments.
+                    Only money in described as a refund or credit is imported, so check the file if a refund is missing.
+                </p>
+            )}
+
+            {preview.totals.refunds > 0 && (
+                <p className="text-xs text-gray-500">
+                    {preview.totals.refunds} refunds or credits will be netted against their vendor&apos;s charges.
+                </p>
+            )}
+
+            {preview.totals.duplicate > 0 && (
+                <p className="text-xs text-gray-500">
+                    Duplicates were already imported from an earlier file and will be skipped.
+                </p>
+            )}
+
+            <div className="flex justify-end gap-2">
+                <button onClick={onDiscard} className="btn btn-secondary text-sm py-2 px-4" disabled={submitting}>
+                    Discard
+                </button>
+                <button
+                    onClick={onConfirm}
+                    className="btn btn-primary text-sm py-2 px-4"
+                    disabled={importable === 0 || submitting}
+                >
+                    {submitting ? 'Importing...' : `Import ${importable} transactions`}
+                </button>
+            </div>
+        </div>
+    );
+}
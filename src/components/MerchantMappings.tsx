@@ -0,0 +1,178 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface MerchantMapping {
+    id: string;
+    descriptor: string;
+    canonicalName: string;
+    source: 'auto' | 'user';
+}
+
+const VISIBLE_LIMIT = 25;
+
+export default function MerchantMappings() {
+    const [mappings, setMappings] = useState<MerchantMapping[]>([]);
+    const [search, setSearch] = useState('');
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draftName, setDraftName] = useState('');
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchMappings = async () => {
+        try {
+            const res = await fetch('/api/merchant-mappings');
+            if (res.ok) {
+                const data = await res.json();
+                setMappings(data.mappings);
+            }
+        } catch (err) {
+            console.error('Failed to fetch merchant mappings:', err);
+        }
+    };
+
+    useEffect(() => {
+        fetchMappings();
+    }, []);
+
+    const startEditing = (mapping: MerchantMapping) => {
+        setEditingId(mapping.id);
+        setDraftName(mapping.canonicalName);
+        setError(null);
+    };
+
+    const saveCorrection = async (id: string) => {
+        setBusy(true);
+        setError(null);
+        try {
+            const res = await fetch(`/api/merchant-mappings/${id}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ canonicalName: draftName }),
+            });
+            const result = await res.json();
+            if (res.ok) {
+                setMappings(prev => prev.map(m => (m.id === id ? { ...m, ...result.mapping } : m)));
+                setEditingId(null);
+            } else {
+                setError(result.error || 'Failed to save correction');
+            }
+        } catch {
+            setError('Failed to save correction');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const resetMapping = async (id: string) => {
+        setBusy(true);
+        setError(null);
+        try {
+            const res = await fetch(`/api/merchant-mappings/${id}`, { method: 'DELETE' });
+            if (res.ok) {
+                setMappings(prev => prev.filter(m => m.id !== id));
+            } else {
+                setError('Failed to reset mapping');
+            }
+        } catch {
+            setError('Failed to reset mapping');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const query = search.trim().toLowerCase();
+    const filtered = mappings.filter(m =>
+        !query || m.descriptor.toLowerCase().includes(query) || m.canonicalName.toLowerCase().includes(query)
+    );
+
+    if (mappings.length === 0) {
+        return (
+            <p className="text-sm text-gray-400">
+                Statement descriptors appear here after your first import, so you can correct the vendor they are filed under.
+            </p>
+        );
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                <p className="text-xs text-gray-500">
+                    Corrections apply to future imports. Already imported transactions keep their vendor.
+                </p>
+                <input
+                    type="text"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    placeholder="Search descriptors..."
+                    className="input sm:w-64"
+                />
+            </div>
+
+            <div className="divide-y divide-gray-800">
+                {filtered.slice(0, VISIBLE_LIMIT).map(mapping => (
+                    <div key={mapping.id} className="py-2 flex flex-col sm:flex-row sm:items-center gap-2 text-sm">
+                        <span className="font-mono text-xs text-gray-400 sm:w-1/2 truncate" title={mapping.descriptor}>
+                            {mapping.descriptor}
+                        </span>
+                        {editingId === mapping.id ? (
+                            <div className="flex gap-2 flex-1">
+                                <input
+                                    type="text"
+                                    value={draftName}
+                                    onChange={(e) => setDraftName(e.target.value)}
+                                    className="input flex-1 py-1"
+                                    disabled={busy}
+                                    autoFocus
+                                />
+                                <button
+                                    onClick={() => saveCorrection(mapping.id)}
+                                    className="btn btn-primary text-xs py-1 px-3"
+                                    disabled={busy || draftName.trim().length === 0}
+                                >
+                                    Save
+                                </button>
+                                <button
+                                    onClick={() => setEditingId(null)}
+                                    className="btn btn-secondary text-xs py-1 px-3"
+                                    disabled={busy}
+                                >
+                                    Cancel
+                                </button>
+                            </div>
+                        ) : (
+                            <div className="flex items-center gap-2 flex-1">
+                                <span className="text-white flex-1">{mapping.canonicalName}</span>
+                                {mapping.source === 'user' && <span className="badge badge-info">Corrected</span>}
+                                <button
+                                    onClick={() => startEditing(mapping)}
+                                    className="text-xs text-primary-400 hover:text-primary-300"
+                                    disabled={busy}
+                                >
+                                    Edit
+                                </button>
+                                {mapping.source === 'user' && (
+                                    <button
+                                        onClick={() => resetMapping(mapping.id)}
+                                        className="text-xs text-gray-500 hover:text-gray-300"
+                                        disabled={busy}
+                                    >
+                                        Reset
+                                    </button>
+                                )}
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+
+            {filtered.length > VISIBLE_LIMIT && (
+                <p className="text-xs text-gray-500">
+                    Showing {VISIBLE_LIMIT} of {filtered.length}. Search to narrow the list.
+                </p>
+            )}
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+        </div>
+    );
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import { signIn } from 'next-auth/react';
+import ScanProgress from '@/components/ScanProgress';
+import { isJobFinished } from '@/lib/job-client';
+import { useMailboxAccount } from '@/lib/use-mailbox-account';
+
+interface OutlookStatus {
+    connected: boolean;
+    available: boolean;
+    email?: string;
+    lastScan?: string;
+}
+
+interface OutlookMailboxProps {
+    onScanComplete?: () => void;
+}
+
+export default function OutlookMailbox({ onScanComplete }: OutlookMailboxProps) {
+    const { status, busy, scanning, scanJob, message, startScan, cancelScan, disconnect } = useMailboxAccount<OutlookStatus>({
+        statusUrl: '/api/outlook',
+        scanUrl: '/api/outlook/scan',
+        scanType: 'outlook_scan',
+        disconnectPrompt: 'Disconnect Outlook? Subscriptions already found are kept.',
+        onScanComplete,
+    });
+
+    // Nothing to offer until an Azure AD app is configured
+    if (!status || (!status.connected && !status.available)) return null;
+
+    return (
+        <div className="space-y-4 pb-6 mb-6 border-b border-gray-800">
+            <p className="text-sm text-gray-400">
+                Scan a Microsoft 365 or Outlook.com inbox and send negotiation emails from it.
+            </p>
+
+            {status.connected ? (
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                    <div className="flex items-center gap-3">
+                        <div className="w-3 h-3 rounded-full bg-green-500" />
+                        <div>
+                            <span className="text-white font-medium">Outlook</span>
+                            <span className="text-gray-400 text-sm ml-2">Connected as {status.email}</span>
+                            {status.lastScan && (
+                                <p className="text-xs text-gray-500">
+                                    Last scanned {new Date(status.lastScan).toLocaleString()}
+                                </p>
+                            )}
+                        </div>
+                    </div>
+                    <div className="flex gap-2">
+                        <button onClick={startScan} className="btn btn-primary text-sm" disabled={scanning || busy}>
+                            {scanning ? 'Scanning...' : 'Scan Inbox'}
+                        </button>
+                        <button onClick={disconnect} className="btn btn-secondary text-sm text-red-400" disabled={scanning || busy}>
+                            Disconnect
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <div>
+                    <button
+                        onClick={() => signIn('azure-ad', { callbackUrl: '/dashboard' })}
+                        className="btn btn-primary text-sm"
+                    >
+                        Connect Microsoft 365
+                    </button>
+                    <p className="text-xs text-gray-500 mt-2">
+                        Sign in with a Microsoft account that uses the same email address as this account.
+                    </p>
+                </div>
+            )}
+
+            {scanJob && !isJobFinished(scanJob) && (
+                <ScanProgress job={scanJob} onCancel={cancelScan} />
+            )}
+
+            {message && (
+                <p className={`text-sm ${message.error ? 'text-red-400' : 'text-accent-400'}`}>{message.text}</p>
+            )}
+        </div>
+    );
+}
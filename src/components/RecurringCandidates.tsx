@@ -0,0 +1,128 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface RecurringCandidate {
+    vendorId: string;
+    vendorName: string;
+    frequency: string;
+    typicalAmount: number;
+    currency: string;
+    occurrences: number;
+    lastChargeDate: string;
+    nextExpectedDate: string;
+    confidence: number;
+    reasons: string[];
+}
+
+interface RecurringCandidatesProps {
+    onChange?: () => void;
+}
+
+function confidenceBadge(confidence: number): string {
+    if (confidence >= 0.8) return 'badge-success';
+    if (confidence >= 0.6) return 'badge-warning';
+    return 'badge-info';
+}
+
+export default function RecurringCandidates({ onChange }: RecurringCandidatesProps) {
+    const [candidates, setCandidates] = useState<RecurringCandidate[]>([]);
+    const [busyVendorId, setBusyVendorId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchCandidates = async () => {
+        try {
+            const res = await fetch('/api/recurring-charges');
+            if (res.ok) {
+                const data = await res.json();
+                setCandidates(data.candidates);
+            }
+        } catch (err) {
+            console.error('Failed to fetch recurring charges:', err);
+        }
+    };
+
+    useEffect(() => {
+        fetchCandidates();
+    }, []);
+
+    const review = async (vendorId: string, action: 'confirm' | 'dismiss') => {
+        setBusyVendorId(vendorId);
+        setError(null);
+        try {
+            const res = await fetch(`/api/recurring-charges/${vendorId}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ action }),
+            });
+            const result = await res.json();
+            if (res.ok) {
+                setCandidates(prev => prev.filter(c => c.vendorId !== vendorId));
+                if (action === 'confirm') onChange?.();
+            } else {
+                setError(result.error || 'Failed to save your choice');
+            }
+        } catch {
+            setError('Failed to save your choice');
+        } finally {
+            setBusyVendorId(null);
+        }
+    };
+
+    const formatAmount = (amount: number, currency: string) => {
+        return new Intl.NumberFormat('en-US', {
+            style: 'currency',
+            currency,
+            minimumFractionDigits: 2,
+        }).format(amount);
+    };
+
+    if (candidates.length === 0) return null;
+
+    return (
+        <div className="card mb-8">
+            <h2 className="text-lg font-semibold text-white mb-1">Possible Subscriptions</h2>
+            <p className="text-sm text-gray-400 mb-4">
+                These vendors are not in the SaaS catalog but charge you on a regular schedule.
+            </p>
+
+            <div className="divide-y divide-gray-800">
+                {candidates.map(candidate => (
+                    <div key={candidate.vendorId} className="py-3 flex flex-col sm:flex-row sm:items-center gap-3">
+                        <div className="flex-1">
+                            <div className="flex items-center gap-2">
+                                <span className="text-white font-medium">{candidate.vendorName}</span>
+                                <span className={`badge ${confidenceBadge(candidate.confidence)}`}>
+                                    {Math.round(candidate.confidence * 100)}% likely
+                                </span>
+                            </div>
+                            <p className="text-sm text-gray-400">
+                                {formatAmount(candidate.typicalAmount, candidate.currency)} {candidate.frequency}
+                                {' · '}next expected {new Date(candidate.nextExpectedDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })}
+                            </p>
+                            <p className="text-xs text-gray-500">{candidate.reasons.join(' · ')}</p>
+                        </div>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => review(candidate.vendorId, 'dismiss')}
+                                className="btn btn-secondary text-sm py-1 px-3"
+                                disabled={busyVendorId === candidate.vendorId}
+                            >
+                                Not a subscription
+                            </button>
+                            <button
+                                onClick={() => review(candidate.vendorId, 'confirm')}
+                                className="btn btn-primary text-sm py-1 px-3"
+                                disabled={busyVendorId === candidate.vendorId}
+                            >
+                                Track it
+                            </button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {error && <p className="text-sm text-red-400 mt-3">{error}</p>}
+        </div>
+    );
+}
@@ -0,0 +1,241 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { isJobFinished, PolledJob, requestJobCancel, waitForJob } from '@/lib/job-client';
+
+interface FieldChange {
+    field: string;
+    current: string | number | null;
+    proposed: string | number | null;
+}
+
+interface Proposal {
+    id: string;
+    subscriptionId: string | null;
+    vendorName: string;
+    confidence: string;
+    changes: FieldChange[];
+    message: {
+        subject: string | null;
+        sender: string | null;
+        date: string | null;
+    };
+}
+
+interface ReprocessStatus {
+    extractionVersion: number;
+    storedMessages: number;
+    outdatedMessages: number;
+    proposals: Proposal[];
+}
+
+interface ReprocessExtractionsProps {
+    onChange?: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+    amount: 'Amount',
+    currency: 'Currency',
+    billingCycle: 'Billing cycle',
+    plan: 'Plan',
+    seats: 'Seats',
+    renewalDate: 'Renewal date',
+    trialEndsAt: 'Trial ends',
+};
+
+function formatValue(value: string | number | null): string {
+    return value === null ? '—' : String(value);
+}
+
+export default function ReprocessExtractions({ onChange }: ReprocessExtractionsProps) {
+    const [status, setStatus] = useState<ReprocessStatus | null>(null);
+    // Fields left checked on each proposal; everything starts approved
+    const [approved, setApproved] = useState<Record<string, string[]>>({});
+    const [job, setJob] = useState<PolledJob<{ message: string }> | null>(null);
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+    const fetchStatus = async () => {
+        try {
+            const res = await fetch('/api/reprocess');
+            if (res.ok) {
+                const data: ReprocessStatus = await res.json();
+                setStatus(data);
+                setApproved(Object.fromEntries(data.proposals.map(p => [p.id, p.changes.map(c => c.field)])));
+            }
+        } catch (error) {
+            console.error('Failed to fetch reprocessing status:', error);
+        }
+    };
+
+    useEffect(() => {
+        fetchStatus();
+    }, []);
+
+    const startReprocess = async (outdatedOnly: boolean) => {
+        setMessage(null);
+        try {
+            const res = await fetch('/api/reprocess', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ outdatedOnly }),
+            });
+            const result = await res.json();
+            if (!res.ok) {
+                setMessage({ text: result.error || 'Failed to start re-reading', error: true });
+                return;
+            }
+
+            const finished = await waitForJob<{ message: string }>(result.jobId, setJob);
+            if (finished.result) {
+                setMessage({ text: finished.result.message, error: false });
+            } else if (finished.status !== 'cancelled') {
+                setMessage({ text: finished.error || 'Re-reading failed', error: true });
+            }
+            fetchStatus();
+        } catch {
+            setMessage({ text: 'Re-reading failed', error: true });
+        } finally {
+            setJob(null);
+        }
+    };
+
+    const cancelReprocess = async () => {
+        if (!job) return;
+        try {
+            await requestJobCancel(job.id);
+            setJob(prev => prev && { ...prev, cancelRequested: true });
+        } catch {
+            setMessage({ text: 'Failed to cancel', error: true });
+        }
+    };
+
+    const toggleField = (proposalId: string, field: string) => {
+        setApproved(prev => {
+            const fields = prev[proposalId] || [];
+            return {
+                ...prev,
+                [proposalId]: fields.includes(field) ? fields.filter(f => f !== field) : [...fields, field],
+            };
+        });
+    };
+
+    const decide = async (proposal: Proposal, action: 'apply' | 'discard') => {
+        setBusyId(proposal.id);
+        setMessage(null);
+        try {
+            const res = await fetch(`/api/reprocess/${proposal.id}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(action === 'apply' ? { action, fields: approved[proposal.id] } : { action }),
+            });
+            const result = await res.json();
+            if (!res.ok) {
+                setMessage({ text: result.error || 'Failed to save your choice', error: true });
+                return;
+            }
+
+            setStatus(prev => prev && { ...prev, proposals: prev.proposals.filter(p => p.id !== proposal.id) });
+            if (action === 'apply') onChange?.();
+        } catch {
+            setMessage({ text: 'Failed to save your choice', error: true });
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    if (!status || (status.storedMessages === 0 && status.proposals.length === 0)) return null;
+
+    const running = job !== null && !isJobFinished(job);
+
+    return (
+        <div className="card mb-8">
+            <h2 className="text-lg font-semibold text-white mb-1">Re-run Extraction</h2>
+            <p className="text-sm text-gray-400 mb-4">
+                {status.outdatedMessages > 0
+                    ? `${status.outdatedMessages} of ${status.storedMessages} stored emails were read by an older version of the extractor. `
+                    : `All ${status.storedMessages} stored emails were read by the current extractor. `}
+                Re-reading shows what would change on each subscription; nothing is saved until you apply it.
+            </p>
+
+            {running ? (
+                <div className="flex items-center justify-between gap-3 mb-4">
+                    <span className="text-sm text-gray-300">
+                        {job.status === 'queued' ? 'Waiting for a worker...' : job.progressMessage || 'Listing emails...'}
+                    </span>
+                    <button onClick={cancelReprocess} disabled={job.cancelRequested} className="btn btn-secondary text-sm py-1 px-3">
+                        {job.cancelRequested ? 'Stopping...' : 'Cancel'}
+                    </button>
+                </div>
+            ) : (
+                <div className="flex gap-2 mb-4">
+                    <button
+                        onClick={() => startReprocess(true)}
+                        className="btn btn-primary text-sm"
+                        disabled={status.outdatedMessages === 0}
+                    >
+                        Re-read outdated emails
+                    </button>
+                    <button onClick={() => startReprocess(false)} className="btn btn-secondary text-sm">
+                        Re-read all
+                    </button>
+                </div>
+            )}
+
+            <div className="divide-y divide-gray-800">
+                {status.proposals.map(proposal => (
+                    <div key={proposal.id} className="py-4">
+                        <div className="flex items-center gap-2">
+                            <span className="text-white font-medium">{proposal.vendorName}</span>
+                            {!proposal.subscriptionId && <span className="badge badge-info">New subscription</span>}
+                        </div>
+                        <p className="text-xs text-gray-500 mb-2">
+                            {proposal.message.subject || '(no subject)'}
+                            {proposal.message.date && ` · ${new Date(proposal.message.date).toLocaleDateString()}`}
+                        </p>
+
+                        <table className="w-full text-sm mb-3">
+                            <tbody>
+                                {proposal.changes.map(change => (
+                                    <tr key={change.field}>
+                                        <td className="py-1 pr-2 w-6">
+                                            <input
+                                                type="checkbox"
+                                                checked={(approved[proposal.id] || []).includes(change.field)}
+                                                onChange={() => toggleField(proposal.id, change.field)}
+                                            />
+                                        </td>
+                                        <td className="py-1 pr-4 text-gray-400">{FIELD_LABELS[change.field] || change.field}</td>
+                                        <td className="py-1 pr-4 text-red-400 line-through">{formatValue(change.current)}</td>
+                                        <td className="py-1 text-accent-400">{formatValue(change.proposed)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => decide(proposal, 'apply')}
+                                className="btn btn-primary text-sm py-1 px-3"
+                                disabled={busyId === proposal.id || (approved[proposal.id] || []).length === 0}
+                            >
+                                Apply selected
+                            </button>
+                            <button
+                                onClick={() => decide(proposal, 'discard')}
+                                className="btn btn-secondary text-sm py-1 px-3"
+                                disabled={busyId === proposal.id}
+                            >
+                                Keep current
+                            </button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            {message && (
+                <p className={`text-sm mt-3 ${message.error ? 'text-red-400' : 'text-accent-400'}`}>{message.text}</p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import type { PolledJob } from '@/lib/job-client';
+
+interface ScanProgressProps {
+    job: PolledJob<unknown>;
+    onCancel: () => void;
+}
+
+const COUNTERS: { stat: string; label: string }[] = [
+    { stat: 'messagesFetched', label: 'Emails fetched' },
+    { stat: 'messagesClassified', label: 'Classified' },
+    { stat: 'extractionCalls', label: 'Extraction calls' },
+    { stat: 'subscriptionsCreated', label: 'Subscriptions' },
+    { stat: 'vendorsCreated', label: 'Vendors' },
+    { stat: 'reviewsQueued', label: 'Need review' },
+];
+
+export default function ScanProgress({ job, onCancel }: ScanProgressProps) {
+    const stats = job.stats || {};
+    const percent = job.progressTotal
+        ? Math.min(100, Math.round((job.progress / job.progressTotal) * 100))
+        : 0;
+
+    return (
+        <div className="mt-2 card p-4 space-y-3">
+            <div className="flex items-center justify-between gap-3">
+                <span className="text-sm text-gray-300">
+                    {job.status === 'queued'
+                        ? 'Waiting for a worker...'
+                        : job.progressMessage || 'Listing emails...'}
+                </span>
+                <button
+                    onClick={onCancel}
+                    disabled={job.cancelRequested}
+                    className="btn btn-secondary text-sm py-1 px-3"
+                >
+                    {job.cancelRequested ? 'Stopping...' : 'Cancel'}
+                </button>
+            </div>
+
+            <div className="h-2 bg-gray-800 rounded-full overflow-hidden">
+                <div className="h-full bg-primary-500 transition-all" style={{ width: `${percent}%` }} />
+            </div>
+
+            <div className="grid grid-cols-3 sm:grid-cols-6 gap-3">
+                {COUNTERS.map(({ stat, label }) => (
+                    <div key={stat}>
+                        <p className="text-lg font-semibold text-white">{stats[stat] ?? 0}</p>
+                        <p className="text-xs text-gray-500">{label}</p>
+                    </div>
+                ))}
+            </div>
+
+            {job.cancelRequested && (
+                <p className="text-xs text-gray-500">
+                    Stopping after the current email. Everything found so far is kept.
+                </p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface ForecastMonth {
+    month: string;
+    baseline: number;
+    withSavings: number;
+    charges: number;
+}
+
+interface Forecast {
+    reportingCurrency: string;
+    months: ForecastMonth[];
+    runRate: {
+        monthly: number;
+        annual: number;
+        monthlyWithSavings: number;
+        annualWithSavings: number;
+    };
+    totals: { baseline: number; withSavings: number; savings: number };
+    pendingNegotiations: number;
+    unconverted: number;
+}
+
+export default function SpendForecast() {
+    const [forecast, setForecast] = useState<Forecast | null>(null);
+    const [showSavings, setShowSavings] = useState(false);
+
+    useEffect(() => {
+        const fetchForecast = async () => {
+            try {
+                const res = await fetch('/api/forecast');
+                if (res.ok) {
+                    setForecast(await res.json());
+                }
+            } catch (error) {
+                console.error('Failed to fetch forecast:', error);
+            }
+        };
+
+        fetchForecast();
+    }, []);
+
+    if (!forecast || forecast.totals.baseline === 0) return null;
+
+    const formatCurrency = (amount: number) => {
+        return new Intl.NumberFormat('en-US', {
+            style: 'currency',
+            currency: forecast.reportingCurrency,
+            minimumFractionDigits: 0,
+            maximumFractionDigits: 0,
+        }).format(amount);
+    };
+
+    const formatMonth = (month: string) => {
+        const [year, m] = month.split('-').map(Number);
+        return new Date(year, m - 1, 1).toLocaleDateString('en-US', { month: 'short' });
+    };
+
+    const peak = Math.max(...forecast.months.map(m => m.baseline));
+    const hasScenario = forecast.pendingNegotiations > 0 && forecast.totals.savings > 0;
+
+    return (
+        <div className="card mb-8">
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-semibold text-white">12-Month Forecast</h2>
+                {hasScenario && (
+                    <label className="flex items-center gap-2 text-sm text-gray-400">
+                        <input
+                            type="checkbox"
+                            checked={showSavings}
+                            onChange={(e) => setShowSavings(e.target.checked)}
+                        />
+                        If {forecast.pendingNegotiations} pending negotiation{forecast.pendingNegotiations === 1 ? '' : 's'} land
+                    </label>
+                )}
+            </div>
+
+            <div className="grid grid-cols-3 gap-4 mb-6">
+                <div>
+                    <p className="text-sm text-gray-400">Monthly run-rate</p>
+                    <p className="text-xl font-semibold text-white">
+                        {formatCurrency(showSavings ? forecast.runRate.monthlyWithSavings : forecast.runRate.monthly)}
+                    </p>
+                </div>
+                <div>
+                    <p className="text-sm text-gray-400">Annual run-rate</p>
+                    <p className="text-xl font-semibold text-white">
+                        {formatCurrency(showSavings ? forecast.runRate.annualWithSavings : forecast.runRate.annual)}
+                    </p>
+                </div>
+                <div>
+                    <p className="text-sm text-gray-400">Next 12 months</p>
+                    <p className="text-xl font-semibold text-white">
+                        {formatCurrency(showSavings ? forecast.totals.withSavings : forecast.totals.baseline)}
+                    </p>
+                    {showSavings && (
+                        <p className="text-xs text-accent-400">{formatCurrency(forecast.totals.savings)} saved</p>
+                    )}
+                </div>
+            </div>
+
+            {/* Bars scale to the busiest month; the savings scenario overlays the baseline */}
+            <div className="flex items-end gap-2 h-40">
+                {forecast.months.map(month => (
+                    <div key={month.month} className="flex-1 flex flex-col items-center gap-1 h-full">
+                        <div
+                            className="relative w-full flex-1 flex items-end"
+                            title={`${formatCurrency(month.baseline)} across ${month.charges} charge${month.charges === 1 ? '' : 's'}`
+                                + (showSavings ? ` · ${formatCurrency(month.withSavings)} with savings` : '')}
+                        >
+                            <div
+                                className="w-full bg-primary-500/40 rounded-t"
+                                style={{ height: `${peak > 0 ? (month.baseline / peak) * 100 : 0}%` }}
+                            />
+                            {showSavings && (
+                                <div
+                                    className="absolute bottom-0 left-0 w-full bg-accent-500/70 rounded-t"
+                                    style={{ height: `${peak > 0 ? (month.withSavings / peak) * 100 : 0}%` }}
+                                />
+                            )}
+                        </div>
+                        <span className="text-xs text-gray-500">{formatMonth(month.month)}</span>
+                    </div>
+                ))}
+            </div>
+
+            {forecast.unconverted > 0 && (
+                <p className="text-xs text-yellow-400 mt-3">
+                    {forecast.unconverted} subscription{forecast.unconverted === 1 ? ' is' : 's are'} left out for lack of an exchange rate.
+                </p>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface TimezoneSettingsProps {
+    onChange?: () => void;
+}
+
+// Intl.supportedValuesOf is missing from older TypeScript lib typings
+function listTimeZones(): string[] {
+    const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+    return intl.supportedValuesOf ? intl.supportedValuesOf('timeZone') : ['UTC'];
+}
+
+export default function TimezoneSettings({ onChange }: TimezoneSettingsProps) {
+    const [timezone, setTimezone] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const browserZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+    useEffect(() => {
+        const fetchSettings = async () => {
+            try {
+                const res = await fetch('/api/settings');
+                if (res.ok) {
+                    const data = await res.json();
+                    setTimezone(data.settings.timezone);
+                }
+            } catch (err) {
+                console.error('Failed to fetch settings:', err);
+            }
+        };
+
+        fetchSettings();
+    }, []);
+
+    const saveTimezone = async (value: string) => {
+        setTimezone(value);
+        setBusy(true);
+        setError(null);
+        try {
+            const res = await fetch('/api/settings', {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ timezone: value }),
+            });
+            const result = await res.json();
+            if (res.ok) {
+                onChange?.();
+            } else {
+                setError(result.error || 'Failed to update timezone');
+            }
+        } catch {
+            setError('Failed to update timezone');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    if (!timezone) return null;
+
+    return (
+        <div>
+            <label className="label">Timezone</label>
+            <select
+                value={timezone}
+                onChange={(e) => saveTimezone(e.target.value)}
+                className="input"
+                disabled={busy}
+            >
+                {Array.from(new Set([timezone, 'UTC', ...listTimeZones()])).map(zone => (
+                    <option key={zone} value={zone}>{zone}</option>
+                ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">
+                Decides what &ldquo;today&rdquo; is when counting days to renewals and cancellation deadlines.
+                {timezone !== browserZone && (
+                    <>
+                        {' '}
+                        <button onClick={() => saveTimezone(browserZone)} className="text-primary-400 hover:text-primary-300" disabled={busy}>
+                            Use {browserZone}
+                        </button>
+                    </>
+                )}
+            </p>
+            {error && <p className="text-sm text-red-400 mt-1">{error}</p>}
+        </div>
+    );
+}
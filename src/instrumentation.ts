@@ -0,0 +1,10 @@
+/**
+ * Starts the background job worker when the Node.js server boots
+ * Set JOB_WORKER=off where jobs are run elsewhere, e.g. via /api/jobs/run
+ */
+export async function register() {
+    if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.JOB_WORKER === 'off') return;
+
+    const { startJobWorker } = await import('./lib/jobs');
+    startJobWorker();
+}
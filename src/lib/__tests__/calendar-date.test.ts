@@ -0,0 +1,88 @@
+import { addMonths, daysBetween, fromDate, isLeapYear, todayIn } from '../calendar-date';
+
+describe('addMonths', () => {
+    it('clamps Jan 31 to the end of February', () => {
+        expect(addMonths({ year: 2023, month: 1, day: 31 }, 1)).toEqual({ year: 2023, month: 2, day: 28 });
+        expect(addMonths({ year: 2024, month: 1, day: 31 }, 1)).toEqual({ year: 2024, month: 2, day: 29 });
+    });
+
+    it('returns to the anchor day after a short month', () => {
+        expect(addMonths({ year: 2024, month: 2, day: 29 }, 1, 31)).toEqual({ year: 2024, month: 3, day: 31 });
+        expect(addMonths({ year: 2023, month: 1, day: 31 }, 3)).toEqual({ year: 2023, month: 4, day: 30 });
+    });
+
+    it('keeps Feb 29 only in leap years', () => {
+        const leapDay = { year: 2024, month: 2, day: 29 };
+        expect(addMonths(leapDay, 12)).toEqual({ year: 2025, month: 2, day: 28 });
+        expect(addMonths(leapDay, 48)).toEqual({ year: 2028, month: 2, day: 29 });
+        expect(isLeapYear(2100)).toBe(false);
+        expect(addMonths({ year: 2099, month: 1, day: 31 }, 13)).toEqual({ year: 2100, month: 2, day: 28 });
+    });
+
+    it('crosses year boundaries in both directions', () => {
+        expect(addMonths({ year: 2024, month: 12, day: 15 }, 1)).toEqual({ year: 2025, month: 1, day: 15 });
+        expect(addMonths({ year: 2024, month: 3, day: 31 }, -1)).toEqual({ year: 2024, month: 2, day: 29 });
+        expect(addMonths({ year: 2024, month: 1, day: 10 }, -1)).toEqual({ year: 2023, month: 12, day: 10 });
+    });
+});
+
+describe('todayIn', () => {
+    it('follows the spring-forward change in New York', () => {
+        // DST started at 2024-03-10 02:00 local (07:00 UTC)
+        expect(todayIn('America/New_York', new Date('2024-03-10T04:30:00Z'))).toEqual({ year: 2024, month: 3, day: 9 });
+        expect(todayIn('America/New_York', new Date('2024-03-10T05:30:00Z'))).toEqual({ year: 2024, month: 3, day: 10 });
+        expect(todayIn('America/New_York', new Date('2024-03-11T03:30:00Z'))).toEqual({ year: 2024, month: 3, day: 10 });
+        expect(todayIn('America/New_York', new Date('2024-03-11T04:30:00Z'))).toEqual({ year: 2024, month: 3, day: 11 });
+    });
+
+    it('follows the fall-back change in New York', () => {
+        // DST ended at 2024-11-03 02:00 local (06:00 UTC)
+        expect(todayIn('America/New_York', new Date('2024-11-04T03:30:00Z'))).toEqual({ year: 2024, month: 11, day: 3 });
+        expect(todayIn('America/New_York', new Date('2024-11-04T04:30:00Z'))).toEqual({ year: 2024, month: 11, day: 3 });
+        expect(todayIn('America/New_York', new Date('2024-11-04T05:30:00Z'))).toEqual({ year: 2024, month: 11, day: 4 });
+    });
+
+    it('follows the change in Berlin', () => {
+        // Clocks went forward at 2024-03-31 01:00 UTC
+        expect(todayIn('Europe/Berlin', new Date('2024-03-30T22:30:00Z'))).toEqual({ year: 2024, month: 3, day: 30 });
+        expect(todayIn('Europe/Berlin', new Date('2024-03-30T23:30:00Z'))).toEqual({ year: 2024, month: 3, day: 31 });
+        expect(todayIn('Europe/Berlin', new Date('2024-03-31T21:30:00Z'))).toEqual({ year: 2024, month: 3, day: 31 });
+        expect(todayIn('Europe/Berlin', new Date('2024-03-31T22:30:00Z'))).toEqual({ year: 2024, month: 4, day: 1 });
+    });
+
+    it('falls back to UTC for an unknown timezone', () => {
+        expect(todayIn('Mars/Olympus_Mons', new Date('2024-02-29T23:59:00Z'))).toEqual({ year: 2024, month: 2, day: 29 });
+    });
+});
+
+describe('daysBetween', () => {
+    const originalTz = process.env.TZ;
+    afterEach(() => {
+        process.env.TZ = originalTz;
+    });
+
+    it('counts whole days across DST changes regardless of the server timezone', () => {
+        for (const tz of ['UTC', 'America/New_York', 'Europe/Berlin', 'Australia/Sydney']) {
+            process.env.TZ = tz;
+            expect(daysBetween({ year: 2024, month: 3, day: 9 }, { year: 2024, month: 3, day: 11 })).toBe(2);
+            expect(daysBetween({ year: 2024, month: 3, day: 30 }, { year: 2024, month: 4, day: 1 })).toBe(2);
+            expect(daysBetween({ year: 2024, month: 11, day: 2 }, { year: 2024, month: 11, day: 4 })).toBe(2);
+        }
+    });
+
+    it('counts from today in the user timezone across a DST change', () => {
+        const today = todayIn('America/New_York', new Date('2024-03-10T04:30:00Z'));
+        expect(daysBetween(today, fromDate(new Date('2024-03-11T00:00:00Z')))).toBe(2);
+    });
+
+    it('counts Feb 29 in leap years only', () => {
+        expect(daysBetween({ year: 2024, month: 2, day: 28 }, { year: 2024, month: 3, day: 1 })).toBe(2);
+        expect(daysBetween({ year: 2023, month: 2, day: 28 }, { year: 2023, month: 3, day: 1 })).toBe(1);
+        expect(daysBetween({ year: 2024, month: 1, day: 1 }, { year: 2025, month: 1, day: 1 })).toBe(366);
+        expect(daysBetween({ year: 2024, month: 2, day: 29 }, { year: 2025, month: 2, day: 28 })).toBe(365);
+    });
+
+    it('is negative when the second date is earlier', () => {
+        expect(daysBetween({ year: 2024, month: 3, day: 1 }, { year: 2024, month: 2, day: 28 })).toBe(-2);
+    });
+});
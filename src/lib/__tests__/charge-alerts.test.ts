@@ -0,0 +1,85 @@
+import { ChargeHistoryRow, detectChargeAnomalies } from '../charge-alerts';
+
+jest.mock('../prisma', () => ({ __esModule: true, default: {} }));
+
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+const history = (rows: Array<[string, number]>): ChargeHistoryRow[] =>
+    rows.map(([date, amount]) => ({ id: `t-${date}-${amount}`, date: day(date), amount, currency: 'USD', kind: 'charge' }));
+
+const monthly = (amounts: number[]) =>
+    history(amounts.map((amount, i) => [`2024-${String(i + 1).padStart(2, '0')}-05`, amount]));
+
+// A day inside the billing period that follows the last charge
+const IN_PERIOD = day('2024-06-20');
+
+describe('detectChargeAnomalies', () => {
+    it('finds nothing in a steady monthly history', () => {
+        expect(detectChargeAnomalies(monthly([20, 20, 20, 20, 20, 20]), { expectCharges: true, now: IN_PERIOD })).toEqual([]);
+    });
+
+    it('flags a second charge in the same period as a duplicate or an extra charge', () => {
+        const rows = [...monthly([20, 20, 20, 20, 20, 20]), ...history([['2024-03-07', 20], ['2024-04-09', 45]])];
+
+        const anomalies = detectChargeAnomalies(rows, { expectCharges: true, now: IN_PERIOD });
+
+        expect(anomalies.map(a => [a.type, a.key, a.previousAmount, a.newAmount])).toEqual([
+            ['duplicate_charge', 'duplicate_charge:t-2024-03-07-20', 20, 20],
+            ['extra_charge', 'extra_charge:t-2024-04-09-45', 20, 45],
+        ]);
+    });
+
+    it('flags each billing period skipped between two charges', () => {
+        const rows = history([['2024-01-05', 20], ['2024-02-05', 20], ['2024-03-05', 20], ['2024-05-05', 20], ['2024-06-05', 20]]);
+
+        const anomalies = detectChargeAnomalies(rows, { expectCharges: true, now: IN_PERIOD });
+
+        expect(anomalies).toHaveLength(1);
+        expect(anomalies[0]).toMatchObject({
+            type: 'missing_charge',
+            key: 'missing_charge:2024-04-04',
+            previousAmount: 20,
+            newAmount: null,
+        });
+    });
+
+    it('flags price changes on a flat-priced plan', () => {
+        const anomalies = detectChargeAnomalies(monthly([20, 20, 20, 25, 25, 24.9]), { expectCharges: true, now: IN_PERIOD });
+
+        // 25 to 24.90 is under the noise threshold
+        expect(anomalies.map(a => [a.type, a.occurredAt, a.previousAmount, a.newAmount])).toEqual([
+            ['price_increase', day('2024-04-05'), 20, 25],
+        ]);
+    });
+
+    it('leaves usage-billed amounts alone', () => {
+        expect(detectChargeAnomalies(monthly([20, 23, 19, 27, 22, 30]), { expectCharges: true, now: IN_PERIOD })).toEqual([]);
+    });
+
+    it('reports the next charge as overdue only for subscriptions still expected to bill', () => {
+        const rows = monthly([20, 20, 20, 20, 20]);
+
+        // Due around Jun 4; a week late is still inside the grace period
+        expect(detectChargeAnomalies(rows, { expectCharges: true, now: day('2024-06-10') })).toEqual([]);
+
+        const overdue = detectChargeAnomalies(rows, { expectCharges: true, now: day('2024-06-20') });
+        expect(overdue).toEqual([expect.objectContaining({
+            type: 'missing_charge',
+            key: 'missing_charge:2024-06-04',
+            transactions: [expect.objectContaining({ id: 't-2024-05-05-20' })],
+        })]);
+
+        expect(detectChargeAnomalies(rows, { expectCharges: false, now: day('2024-06-20') })).toEqual([]);
+    });
+
+    it('ignores refunds and histories without a regular cadence', () => {
+        const withRefund = [
+            ...monthly([20, 20, 20, 20, 20, 20]),
+            { id: 'refund', date: day('2024-03-06'), amount: 20, currency: 'USD', kind: 'refund' },
+        ];
+        expect(detectChargeAnomalies(withRefund, { expectCharges: true, now: IN_PERIOD })).toEqual([]);
+
+        const irregular = history([['2024-01-02', 12], ['2024-01-09', 80], ['2024-03-28', 7], ['2024-04-02', 45], ['2024-06-15', 19]]);
+        expect(detectChargeAnomalies(irregular, { expectCharges: true, now: IN_PERIOD })).toEqual([]);
+    });
+});
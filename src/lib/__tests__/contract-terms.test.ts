@@ -0,0 +1,89 @@
+import { ContractTerms, getActionDeadline, getCurrentTermEnd, isUpcomingDeadline } from '../contract-terms';
+
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+const terms = (overrides: Partial<ContractTerms>): ContractTerms => ({
+    renewalDate: null,
+    contractStartDate: null,
+    contractEndDate: null,
+    termMonths: null,
+    autoRenew: true,
+    noticePeriodDays: null,
+    ...overrides,
+});
+
+describe('getCurrentTermEnd', () => {
+    const today = { year: 2024, month: 6, day: 1 };
+
+    it('falls back to the detected renewal date without contract dates', () => {
+        expect(getCurrentTermEnd(terms({ renewalDate: day('2024-09-15') }), today)).toEqual(day('2024-09-15'));
+        expect(getCurrentTermEnd(terms({}), today)).toBeNull();
+    });
+
+    it('rolls an auto-renewing contract forward one term at a time', () => {
+        const contract = terms({ contractEndDate: day('2023-03-31'), termMonths: 12 });
+
+        expect(getCurrentTermEnd(contract, today)).toEqual(day('2025-03-31'));
+        expect(getCurrentTermEnd(contract, { year: 2024, month: 3, day: 31 })).toEqual(day('2024-03-31'));
+    });
+
+    it('keeps the stored end date of a contract that does not renew', () => {
+        expect(getCurrentTermEnd(terms({ contractEndDate: day('2023-03-31'), termMonths: 12, autoRenew: false }), today))
+            .toEqual(day('2023-03-31'));
+    });
+
+    it('counts terms from the start date so month-end terms do not drift', () => {
+        const contract = terms({ contractStartDate: day('2023-01-31'), termMonths: 1 });
+
+        expect(getCurrentTermEnd(contract, { year: 2024, month: 2, day: 15 })).toEqual(day('2024-02-29'));
+        expect(getCurrentTermEnd(contract, { year: 2024, month: 3, day: 1 })).toEqual(day('2024-03-31'));
+    });
+});
+
+describe('getActionDeadline', () => {
+    const annual = terms({ contractEndDate: day('2024-07-01'), termMonths: 12, noticePeriodDays: 30 });
+
+    it('puts the deadline a notice period before the term ends', () => {
+        expect(getActionDeadline(annual, 'UTC', new Date('2024-05-20T12:00:00Z'))).toEqual({
+            termEndDate: day('2024-07-01'),
+            deadline: day('2024-06-01'),
+            daysUntilDeadline: 12,
+            daysUntilTermEnd: 42,
+            noticePeriodDays: 30,
+            autoRenew: true,
+        });
+    });
+
+    it('ignores the notice period when the contract does not renew itself', () => {
+        const deadline = getActionDeadline({ ...annual, autoRenew: false }, 'UTC', new Date('2024-05-20T12:00:00Z'));
+
+        expect(deadline).toMatchObject({ deadline: day('2024-07-01'), noticePeriodDays: 0 });
+    });
+
+    it("counts days from today in the user's timezone", () => {
+        // Still May 19 in Los Angeles
+        const deadline = getActionDeadline(annual, 'America/Los_Angeles', new Date('2024-05-20T02:00:00Z'));
+
+        expect(deadline!.daysUntilDeadline).toBe(13);
+    });
+
+    it('returns null without a term end or renewal date', () => {
+        expect(getActionDeadline(terms({ noticePeriodDays: 30 }))).toBeNull();
+    });
+});
+
+describe('isUpcomingDeadline', () => {
+    const at = (contract: ContractTerms, now: string) => getActionDeadline(contract, 'UTC', new Date(`${now}T12:00:00Z`));
+    const renewing = terms({ contractEndDate: day('2024-07-01'), termMonths: 12, noticePeriodDays: 30 });
+
+    it('includes deadlines within the window and missed ones while the term is still running', () => {
+        expect(isUpcomingDeadline(at(renewing, '2024-04-15'))).toBe(false);
+        expect(isUpcomingDeadline(at(renewing, '2024-05-20'))).toBe(true);
+        expect(isUpcomingDeadline(at(renewing, '2024-06-15'))).toBe(true);
+    });
+
+    it('drops contracts whose term has ended', () => {
+        expect(isUpcomingDeadline(at({ ...renewing, autoRenew: false }, '2024-07-10'))).toBe(false);
+        expect(isUpcomingDeadline(null)).toBe(false);
+    });
+});
@@ -0,0 +1,71 @@
+import { buildFxConverter, FxRateRow, sumMoney } from '../fx';
+
+jest.mock('../prisma', () => ({ __esModule: true, default: {} }));
+
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+const rate = (date: string, base: string, quote: string, value: number): FxRateRow => ({
+    date: day(date),
+    base,
+    quote,
+    rate: value,
+});
+
+describe('buildFxConverter', () => {
+    it('uses the direct pair, then its inverse', () => {
+        const fx = buildFxConverter('USD', [rate('2024-01-01', 'EUR', 'USD', 1.1), rate('2024-01-01', 'USD', 'JPY', 150)]);
+
+        expect(fx.convert(100, 'EUR', day('2024-02-01'))).toBeCloseTo(110);
+        expect(fx.convert(15000, 'JPY', day('2024-02-01'))).toBeCloseTo(100);
+        expect(fx.convert(100, 'usd', day('2024-02-01'))).toBe(100);
+    });
+
+    it('crosses through a shared currency when there is no pair with the reporting currency', () => {
+        // GBP -> EUR -> USD
+        const fx = buildFxConverter('USD', [rate('2024-01-01', 'GBP', 'EUR', 1.2), rate('2024-01-01', 'EUR', 'USD', 1.1)]);
+
+        expect(fx.convert(100, 'GBP', day('2024-02-01'))).toBeCloseTo(132);
+    });
+
+    it('crosses through inverse pairs on both legs', () => {
+        // CHF -> EUR by EUR/CHF, EUR -> USD by USD/EUR
+        const fx = buildFxConverter('USD', [rate('2024-01-01', 'EUR', 'CHF', 0.95), rate('2024-01-01', 'USD', 'EUR', 0.9)]);
+
+        expect(fx.convert(95, 'CHF', day('2024-02-01'))).toBeCloseTo(100 / 0.9);
+    });
+
+    it('takes the rate on or before the date, and the first rate before any is known', () => {
+        const fx = buildFxConverter('USD', [
+            rate('2024-03-01', 'EUR', 'USD', 1.2),
+            rate('2024-01-01', 'EUR', 'USD', 1.1),
+        ]);
+
+        expect(fx.convert(100, 'EUR', day('2023-06-01'))).toBeCloseTo(110);
+        expect(fx.convert(100, 'EUR', day('2024-02-29'))).toBeCloseTo(110);
+        expect(fx.convert(100, 'EUR', day('2024-03-01'))).toBeCloseTo(120);
+        expect(fx.convert(100, 'EUR', day('2025-01-01'))).toBeCloseTo(120);
+    });
+
+    it('returns null when no path to the reporting currency exists', () => {
+        const fx = buildFxConverter('USD', [rate('2024-01-01', 'GBP', 'EUR', 1.2)]);
+
+        expect(fx.convert(100, 'GBP', day('2024-02-01'))).toBeNull();
+        expect(fx.convert(100, 'SEK', day('2024-02-01'))).toBeNull();
+    });
+});
+
+describe('sumMoney', () => {
+    it('totals converted amounts and counts the ones it could not convert', () => {
+        const fx = buildFxConverter('USD', [rate('2024-01-01', 'EUR', 'USD', 1.1)]);
+
+        const total = sumMoney([
+            { amount: 10, currency: 'USD', date: day('2024-02-01') },
+            { amount: 100, currency: 'EUR', date: day('2024-02-01') },
+            { amount: 5, currency: 'SEK', date: day('2024-02-01') },
+        ], fx);
+
+        expect(total.normalized).toBeCloseTo(120);
+        expect(total.unconverted).toBe(1);
+        expect(total.original).toEqual({ USD: 10, EUR: 100, SEK: 5 });
+    });
+});
@@ -0,0 +1,257 @@
+import { AddressInfo, createServer, Server, Socket } from 'net';
+import prisma from '../prisma';
+import { openImapMailbox } from '../imap';
+
+jest.mock('../prisma', () => ({
+    __esModule: true,
+    default: { imapAccount: { findUnique: jest.fn(), update: jest.fn() } },
+}));
+
+const findAccount = prisma.imapAccount.findUnique as jest.Mock;
+const updateAccount = prisma.imapAccount.update as jest.Mock;
+
+// ============================================================================
+// SCRIPTED SERVER
+// ============================================================================
+
+interface ScriptedFolder {
+    uidValidity: number;
+    uidNext: number;
+    messages: Array<{ uid: number; source: string }>;
+}
+
+/**
+ * Just enough IMAP4rev1 for a plain-text login, SELECT, UID SEARCH and UID FETCH
+ * Every command the client sends is recorded
+ */
+function startImapServer(folder: ScriptedFolder): Promise<{ server: Server; port: number; commands: string[] }> {
+    const commands: string[] = [];
+
+    const server = createServer((socket: Socket) => {
+        const send = (line: string) => socket.write(`${line}\r\n`);
+        let buffered = '';
+
+        send('* OK [CAPABILITY IMAP4rev1] Scripted server ready');
+
+        socket.on('data', chunk => {
+            buffered += chunk.toString('latin1');
+            let end: number;
+            while ((end = buffered.indexOf('\r\n')) >= 0) {
+                const line = buffered.slice(0, end);
+                buffered = buffered.slice(end + 2);
+
+                const [, tag, command, args = ''] = line.match(/^(\S+) (UID \S+|\S+) ?(.*)$/) || [];
+                if (!tag) continue;
+                commands.push(`${command.toUpperCase()} ${args}`.trim());
+
+                const uids = folder.messages.map(m => m.uid);
+                switch (command.toUpperCase()) {
+                    case 'CAPABILITY':
+                        send('* CAPABILITY IMAP4rev1');
+                        break;
+                    case 'LIST':
+                        send('* LIST (\\HasNoChildren) "/" INBOX');
+                        break;
+                    case 'SELECT':
+                    case 'EXAMINE':
+                        send('* FLAGS (\\Seen \\Answered \\Flagged \\Deleted \\Draft)');
+                        send(`* ${folder.messages.length} EXISTS`);
+                        send('* 0 RECENT');
+                        send(`* OK [UIDVALIDITY ${folder.uidValidity}] UIDs valid`);
+                        send(`* OK [UIDNEXT ${folder.uidNext}] Predicted next UID`);
+                        send(`${tag} OK [READ-WRITE] SELECT completed`);
+                        continue;
+                    case 'UID SEARCH': {
+                        const range = args.match(/UID (\d+):\*/);
+                        // Like a real server, "n:*" always includes the highest UID
+                        const found = range
+                            ? uids.filter(uid => uid >= Math.min(parseInt(range[1], 10), Math.max(...uids)))
+                            : uids;
+                        send(`* SEARCH${found.map(uid => ` ${uid}`).join('')}`);
+                        break;
+                    }
+                    case 'UID FETCH': {
+                        const uid = parseInt(args, 10);
+                        const index = folder.messages.findIndex(m => m.uid === uid);
+                        if (index >= 0) {
+                            const source = folder.messages[index].source;
+                            send(`* ${index + 1} FETCH (UID ${uid} BODY[] {${Buffer.byteLength(source)}}`);
+                            send(`${source})`);
+                        }
+                        break;
+                    }
+                    case 'LOGOUT':
+                        send('* BYE Logging out');
+                        send(`${tag} OK LOGOUT completed`);
+                        socket.end();
+                        continue;
+                }
+                send(`${tag} OK ${command} completed`);
+            }
+        });
+    });
+
+    return new Promise(resolve => {
+        server.listen(0, '127.0.0.1', () => {
+            resolve({ server, port: (server.address() as AddressInfo).port, commands });
+        });
+    });
+}
+
+const email = (subject: string, body: string) => [
+    'From: Billing <billing@example.com>',
+    'To: me@example.org',
+    `Subject: ${subject}`,
+    'Date: Fri, 01 Mar 2024 10:00:00 +0000',
+    'Message-ID: <m1@example.com>',
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    body,
+].join('\r\n');
+
+const FOLDER: ScriptedFolder = {
+    uidValidity: 7,
+    uidNext: 13,
+    messages: [
+        { uid: 3, source: email('Welcome', 'Thanks for signing up') },
+        { uid: 5, source: email('Your receipt', 'Pro plan, $12.00 per month') },
+        { uid: 9, source: email('Invoice 1002', 'Amount due: $12.00') },
+        { uid: 12, source: email('Renewal notice', 'Your plan renews on April 1') },
+    ],
+};
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('openImapMailbox', () => {
+    let server: Server;
+    let port: number;
+    let commands: string[];
+
+    beforeAll(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        ({ server, port, commands } = await startImapServer(FOLDER));
+    });
+
+    afterAll(async () => {
+        jest.restoreAllMocks();
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+        commands.length = 0;
+        findAccount.mockReset();
+        updateAccount.mockReset();
+    });
+
+    const account = (checkpoint: { uidValidity: string | null; lastUid: number | null }) => ({
+        id: 'acct1',
+        userId: 'user1',
+        host: '127.0.0.1',
+        port,
+        secure: false,
+        username: 'me@example.org',
+        password: 'app-password',
+        encryptionKeyId: null,
+        folder: 'INBOX',
+        lastSyncAt: null,
+        ...checkpoint,
+    });
+
+    const open = async (checkpoint: { uidValidity: string | null; lastUid: number | null }) => {
+        findAccount.mockResolvedValue(account(checkpoint));
+        const mailbox = await openImapMailbox('user1');
+        if (!mailbox) throw new Error('No mailbox');
+        return mailbox;
+    };
+
+    it('backfills the newest messages on the first scan and checkpoints UIDVALIDITY with the last UID', async () => {
+        const mailbox = await open({ uidValidity: null, lastUid: null });
+        try {
+            const listing = await mailbox.listMessageIds(3);
+
+            expect(listing).toEqual({
+                syncMode: 'backfill',
+                messageIds: ['imap:acct1:7:5', 'imap:acct1:7:9', 'imap:acct1:7:12'],
+                checkpoint: '7:12',
+            });
+            expect(commands).toContain('UID SEARCH ALL');
+        } finally {
+            await mailbox.close();
+        }
+    });
+
+    it('searches only above the saved UID on later scans', async () => {
+        const mailbox = await open({ uidValidity: '7', lastUid: 5 });
+        try {
+            const listing = await mailbox.listMessageIds(3);
+
+            expect(listing).toEqual({
+                syncMode: 'incremental',
+                messageIds: ['imap:acct1:7:9', 'imap:acct1:7:12'],
+                checkpoint: '7:12',
+            });
+            expect(commands.find(c => c.startsWith('UID SEARCH'))).toMatch(/^UID SEARCH UID 6:\*/);
+        } finally {
+            await mailbox.close();
+        }
+    });
+
+    it('drops the newest message that "n:*" returns when nothing is new', async () => {
+        const mailbox = await open({ uidValidity: '7', lastUid: 12 });
+        try {
+            const listing = await mailbox.listMessageIds(3);
+
+            expect(listing).toEqual({ syncMode: 'incremental', messageIds: [], checkpoint: '7:12' });
+        } finally {
+            await mailbox.close();
+        }
+    });
+
+    it('falls back to a full resync when UIDVALIDITY changes', async () => {
+        const mailbox = await open({ uidValidity: '6', lastUid: 40 });
+        try {
+            const listing = await mailbox.listMessageIds(10);
+
+            expect(listing.syncMode).toBe('full_resync');
+            expect(listing.messageIds).toEqual(FOLDER.messages.map(m => `imap:acct1:7:${m.uid}`));
+            expect(listing.checkpoint).toBe('7:12');
+            expect(commands).toContain('UID SEARCH ALL');
+        } finally {
+            await mailbox.close();
+        }
+    });
+
+    it('saves the checkpoint as UIDVALIDITY and last UID', async () => {
+        const mailbox = await open({ uidValidity: '7', lastUid: 5 });
+        try {
+            await mailbox.saveCheckpoint('7:12');
+
+            expect(updateAccount).toHaveBeenCalledWith({
+                where: { id: 'acct1' },
+                data: { lastSyncAt: expect.any(Date), uidValidity: '7', lastUid: 12 },
+            });
+        } finally {
+            await mailbox.close();
+        }
+    });
+
+    it('fetches a message by UID and refuses IDs from an older UIDVALIDITY', async () => {
+        const mailbox = await open({ uidValidity: '7', lastUid: 5 });
+        try {
+            const message = await mailbox.fetchMessage('imap:acct1:7:9');
+
+            expect(message).toMatchObject({
+                id: 'imap:acct1:7:9',
+                subject: 'Invoice 1002',
+                from: '"Billing" <billing@example.com>',
+                body: 'Amount due: $12.00',
+                attachments: [],
+            });
+            expect(await mailbox.fetchMessage('imap:acct1:6:9')).toBeNull();
+        } finally {
+            await mailbox.close();
+        }
+    });
+});
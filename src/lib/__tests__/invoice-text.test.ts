@@ -0,0 +1,108 @@
+import { deflateSync } from 'zlib';
+import { detectInvoiceFormat, extractInvoiceText, extractPdfText, htmlToText } from '../invoice-text';
+
+interface FixtureStream {
+    dictionary?: string;
+    content: string;
+    compress?: boolean;
+}
+
+// A minimal PDF: one object per stream, no xref table, which is all the reader looks at
+const pdf = (streams: FixtureStream[]) => Buffer.concat([
+    Buffer.from('%PDF-1.4\n', 'latin1'),
+    ...streams.map(({ dictionary = '', content, compress = true }, i) => {
+        const raw = Buffer.from(content, 'latin1');
+        const data = compress ? deflateSync(raw) : raw;
+        const filter = compress ? ' /Filter /FlateDecode' : '';
+        return Buffer.concat([
+            Buffer.from(`${i + 1} 0 obj\n<< /Length ${data.length}${filter}${dictionary} >>\nstream\n`, 'latin1'),
+            data,
+            Buffer.from('\nendstream\nendobj\n', 'latin1'),
+        ]);
+    }),
+    Buffer.from('%%EOF\n', 'latin1'),
+]);
+
+const toUnicode = (body: string) => `/CIDInit /ProcSet findresource begin
+12 dict begin
+begincmap
+1 begincodespacerange <0000> <FFFF> endcodespacerange
+${body}
+endcmap
+end end`;
+
+describe('detectInvoiceFormat', () => {
+    it('reads the MIME type first, then the extension', () => {
+        expect(detectInvoiceFormat('application/pdf', 'invoice.bin')).toBe('pdf');
+        expect(detectInvoiceFormat('application/octet-stream', 'Invoice.PDF')).toBe('pdf');
+        expect(detectInvoiceFormat(null, 'receipt.htm')).toBe('html');
+        expect(detectInvoiceFormat('image/png', 'logo.png')).toBeNull();
+    });
+});
+
+describe('extractPdfText', () => {
+    it('reads the text layer of a Flate-compressed content stream', () => {
+        const text = extractPdfText(pdf([{
+            content: 'BT /F1 12 Tf 72 720 Td (Invoice INV-1001) Tj 0 -14 Td (Total \\(USD\\)) Tj 0 -14 Td [(12) -400 (seats)] TJ ET',
+        }]));
+
+        expect(text).toBe('Invoice INV-1001\nTotal (USD)\n12 seats');
+    });
+
+    it('decodes two-byte codes through ToUnicode bfchar and bfrange maps', () => {
+        const cmap = toUnicode([
+            '2 beginbfchar',
+            '<0001> <0050>',
+            '<0002> <0072>',
+            'endbfchar',
+            '1 beginbfrange',
+            '<0003> <0005> <006F>',
+            'endbfrange',
+        ].join('\n'));
+
+        const text = extractPdfText(pdf([
+            { content: cmap },
+            { content: 'BT /F1 10 Tf 50 700 Td <00010002000300040005> Tj ET' },
+        ]));
+
+        // 3..5 map onto o, p, q
+        expect(text).toBe('Propq');
+    });
+
+    it('skips a stream that inflates past the per-stream limit', () => {
+        const padding = `% ${'x'.repeat(5 * 1024 * 1024)}\n`;
+        const text = extractPdfText(pdf([
+            { content: `${padding}BT (Hidden) Tj ET` },
+            { content: 'BT (Amount due $49.00) Tj ET' },
+        ]));
+
+        expect(text).toBe('Amount due $49.00');
+    });
+
+    it('ignores streams with filters it cannot decode', () => {
+        const text = extractPdfText(pdf([
+            { dictionary: ' /Filter /DCTDecode /Subtype /Image', content: 'BT (Not text) Tj ET', compress: false },
+            { content: 'BT (Plan: Team) Tj ET', compress: false },
+        ]));
+
+        expect(text).toBe('Plan: Team');
+    });
+});
+
+describe('htmlToText', () => {
+    it('drops markup, scripts and styles and keeps block breaks', () => {
+        const text = htmlToText(`
+            <html><head><style>td { color: red; }</style><script>var total = 0;</script></head>
+            <body><h1>Receipt</h1><table><tr><td>Pro plan</td><td>&euro;20&nbsp;/&nbsp;month</td></tr></table>
+            <p>Seats:&#32;5</p></body></html>`);
+
+        expect(text).toBe('Receipt\nPro plan €20 / month\nSeats: 5');
+    });
+});
+
+describe('extractInvoiceText', () => {
+    it('returns null when an attachment has no readable text', () => {
+        expect(extractInvoiceText(Buffer.from('<html><body> </body></html>'), 'html')).toBeNull();
+        expect(extractInvoiceText(pdf([{ content: '0 0 m 10 10 l S' }]), 'pdf')).toBeNull();
+    });
+});
@@ -0,0 +1,53 @@
+import { cleanDescriptor, descriptorKey, normalizeDescriptor } from '../merchant-normalization';
+
+describe('cleanDescriptor', () => {
+    it('drops phone numbers, references and locations', () => {
+        expect(cleanDescriptor('FIGMA 415-890-5404 CA')).toBe('FIGMA');
+        expect(cleanDescriptor('ZOOM.US 888-799-9666 SAN JOSE CA')).toBe('ZOOM.US');
+        expect(cleanDescriptor('NOTION LABS INC #88213')).toBe('NOTION LABS INC');
+        expect(cleanDescriptor('AMZN Mktp US*2K4RT1P03')).toBe('AMZN Mktp');
+    });
+
+    it('cuts fixed-width padding before the location', () => {
+        expect(cleanDescriptor('LINEAR ORBIT INC        SAN FRANCISCO CA')).toBe('LINEAR ORBIT INC');
+    });
+
+    it('keeps a state code that directly follows the merchant name', () => {
+        expect(cleanDescriptor('ACME CO')).toBe('ACME CO');
+        expect(cleanDescriptor('ACME CO DENVER CO')).toBe('ACME CO');
+    });
+});
+
+describe('descriptorKey', () => {
+    it('gives the same key to one merchant across statements', () => {
+        expect(descriptorKey('Figma 415-890-5404 CA')).toBe(descriptorKey('FIGMA  4158905404'));
+    });
+});
+
+describe('normalizeDescriptor', () => {
+    it('looks past payment processor prefixes', () => {
+        expect(normalizeDescriptor('PAYPAL *NOTIONLABS 402-935-7733')).toMatchObject({
+            merchant: 'NOTIONLABS',
+            processor: 'PayPal',
+        });
+        expect(normalizeDescriptor('SQ *BLUE BOTTLE COFFEE Oakland CA').processor).toBe('Square');
+    });
+
+    it('files known SaaS products under their vendor name, even through a marketplace', () => {
+        expect(normalizeDescriptor('SQ *FIGMA').canonicalName).toBe('Figma');
+        expect(normalizeDescriptor('GITHUB INC 877-448-4820 CA').canonicalName).toBe('GitHub');
+    });
+
+    it('names the marketplace when the merchant behind it is unknown', () => {
+        expect(normalizeDescriptor('AMZN Mktp US*2K4RT1P03')).toMatchObject({
+            processor: 'Amazon Marketplace',
+            canonicalName: 'Amazon Marketplace',
+        });
+        expect(normalizeDescriptor('APPLE.COM/BILL 866-712-7753 CA').canonicalName).toBe('Apple');
+    });
+
+    it('title-cases unknown merchants without billing words or domains', () => {
+        expect(normalizeDescriptor('RECURRING ACME ANALYTICS.IO SUBSCRIPTION').canonicalName).toBe('Acme Analytics');
+        expect(normalizeDescriptor('POS PURCHASE WIDGETCO 03/14').canonicalName).toBe('Widgetco');
+    });
+});
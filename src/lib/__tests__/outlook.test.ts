@@ -0,0 +1,192 @@
+import { AddressInfo } from 'net';
+import { createServer, Server } from 'http';
+import prisma from '../prisma';
+
+jest.mock('../prisma', () => ({
+    __esModule: true,
+    default: { oAuthToken: { findUnique: jest.fn(), update: jest.fn() } },
+}));
+
+jest.mock('../oauth-tokens', () => ({
+    findOAuthToken: jest.fn(async () => ({
+        accessToken: 'graph-token',
+        refreshToken: 'refresh-token',
+        expiresAt: new Date(Date.now() + 3600 * 1000),
+    })),
+    saveOAuthTokens: jest.fn(),
+}));
+
+const findToken = prisma.oAuthToken.findUnique as jest.Mock;
+
+// ============================================================================
+// MOCK GRAPH
+// ============================================================================
+
+interface GraphReply {
+    status?: number;
+    body?: unknown;
+}
+
+type GraphRoute = (url: URL) => GraphReply | undefined;
+
+let server: Server;
+let graphUrl: string;
+let route: GraphRoute = () => undefined;
+const requests: Array<{ url: URL; authorization?: string; prefer?: string }> = [];
+
+const page = (ids: string[], links: { next?: string; delta?: string } = {}) => ({
+    value: ids.map(id => (id.startsWith('-') ? { id: id.slice(1), '@removed': { reason: 'deleted' } } : { id })),
+    ...(links.next ? { '@odata.nextLink': `${graphUrl}${links.next}` } : {}),
+    ...(links.delta ? { '@odata.deltaLink': `${graphUrl}${links.delta}` } : {}),
+});
+
+// Replies in order, repeating the last one
+const sequence = (...replies: GraphReply[]) => {
+    let calls = 0;
+    return () => replies[Math.min(calls++, replies.length - 1)];
+};
+
+let outlook: typeof import('../outlook');
+
+beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    server = createServer((request, response) => {
+        const url = new URL(request.url || '/', graphUrl);
+        requests.push({
+            url,
+            authorization: request.headers.authorization,
+            prefer: request.headers.prefer as string | undefined,
+        });
+
+        const reply = route(url) || { status: 404, body: { error: { code: 'ResourceNotFound' } } };
+        response.writeHead(reply.status || 200, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(reply.body ?? {}));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    graphUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1.0`;
+
+    // The Graph URL is read when the module loads
+    process.env.MICROSOFT_GRAPH_URL = graphUrl;
+    outlook = await import('../outlook');
+});
+
+afterAll(async () => {
+    jest.restoreAllMocks();
+    delete process.env.MICROSOFT_GRAPH_URL;
+    await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+    requests.length = 0;
+    route = () => undefined;
+    findToken.mockReset();
+});
+
+const openMailbox = async (syncCheckpoint: string | null) => {
+    findToken.mockResolvedValue({ syncCheckpoint });
+    const mailbox = await outlook.openOutlookMailbox('user1');
+    if (!mailbox) throw new Error('No mailbox');
+    return mailbox;
+};
+
+// Fresh delta round and newest-first inbox listing, as a backfill requests them
+const backfillRoutes: GraphRoute = url => {
+    if (url.pathname.endsWith('/messages/delta')) return { body: page([], { delta: '/delta-link?token=fresh' }) };
+    if (url.pathname.endsWith('/mailFolders/inbox/messages')) {
+        return url.searchParams.get('page') === '2'
+            ? { body: page(['c', 'd']) }
+            : { body: page(['a', 'b'], { next: '/me/mailFolders/inbox/messages?page=2' }) };
+    }
+    return undefined;
+};
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('openOutlookMailbox', () => {
+    it('backfills the newest inbox messages and checkpoints a delta link taken first', async () => {
+        route = backfillRoutes;
+        const mailbox = await openMailbox(null);
+
+        const listing = await mailbox.listMessageIds(3);
+
+        expect(listing).toEqual({
+            syncMode: 'backfill',
+            messageIds: ['outlook:a', 'outlook:b', 'outlook:c'],
+            checkpoint: `${graphUrl}/delta-link?token=fresh`,
+        });
+        expect(requests[0].url.pathname).toBe('/v1.0/me/mailFolders/inbox/messages/delta');
+        expect(requests[0].authorization).toBe('Bearer graph-token');
+        expect(requests[0].prefer).toContain('IdType="ImmutableId"');
+    });
+
+    it('follows the stored delta link through every page to the next delta link', async () => {
+        route = url => {
+            if (url.pathname !== '/v1.0/delta-link') return undefined;
+            return url.searchParams.get('token') === 'stored'
+                ? { body: page(['d', '-e'], { next: '/delta-link?token=page2' }) }
+                : { body: page(['d', 'f'], { delta: '/delta-link?token=next' }) };
+        };
+        const mailbox = await openMailbox(`${graphUrl}/delta-link?token=stored`);
+
+        const listing = await mailbox.listMessageIds(3);
+
+        // Removed messages are dropped and a message changed twice is listed once
+        expect(listing).toEqual({
+            syncMode: 'incremental',
+            messageIds: ['outlook:d', 'outlook:f'],
+            checkpoint: `${graphUrl}/delta-link?token=next`,
+        });
+    });
+
+    it('falls back to a full resync when the delta link has expired', async () => {
+        route = url => url.pathname === '/v1.0/expired-link'
+            ? { status: 410, body: { error: { code: 'SyncStateNotFound' } } }
+            : backfillRoutes(url);
+        const mailbox = await openMailbox(`${graphUrl}/expired-link`);
+
+        const listing = await mailbox.listMessageIds(2);
+
+        expect(listing).toEqual({
+            syncMode: 'full_resync',
+            messageIds: ['outlook:a', 'outlook:b'],
+            checkpoint: `${graphUrl}/delta-link?token=fresh`,
+        });
+        // 410 is not retried
+        expect(requests.filter(r => r.url.pathname === '/v1.0/expired-link')).toHaveLength(1);
+    });
+
+    it('retries throttled and failed Graph calls', async () => {
+        const deltaReplies = sequence(
+            { status: 429, body: { error: { code: 'TooManyRequests' } } },
+            { status: 503 },
+            { body: page(['g'], { delta: '/delta-link?token=next' }) }
+        );
+        route = url => (url.pathname === '/v1.0/delta-link' ? deltaReplies() : undefined);
+        const mailbox = await openMailbox(`${graphUrl}/delta-link?token=stored`);
+
+        const listing = await mailbox.listMessageIds(3);
+
+        expect(listing.messageIds).toEqual(['outlook:g']);
+        expect(requests).toHaveLength(3);
+    });
+
+    it('gives up after three attempts', async () => {
+        route = () => ({ status: 500 });
+        const mailbox = await openMailbox(`${graphUrl}/delta-link?token=stored`);
+
+        await expect(mailbox.listMessageIds(3)).rejects.toMatchObject({ status: 500 });
+        expect(requests).toHaveLength(3);
+    });
+
+    it('does not retry client errors', async () => {
+        route = () => ({ status: 403, body: { error: { code: 'ErrorAccessDenied' } } });
+        const mailbox = await openMailbox(`${graphUrl}/delta-link?token=stored`);
+
+        await expect(mailbox.listMessageIds(3)).rejects.toMatchObject({ status: 403 });
+        expect(requests).toHaveLength(1);
+    });
+});
@@ -0,0 +1,72 @@
+import { analyzeRecurringCharges, RecurringChargeInput } from '../recurring-detection';
+
+jest.mock('../prisma', () => ({ __esModule: true, default: {} }));
+
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+const charges = (dates: string[], amount: number | number[], rawDescription = 'ACME HOSTING 800-555-0100'): RecurringChargeInput[] =>
+    dates.map((date, i) => ({
+        date: day(date),
+        amount: Array.isArray(amount) ? amount[i] : amount,
+        kind: 'charge',
+        rawDescription,
+    }));
+
+const MONTHLY = ['2024-01-05', '2024-02-05', '2024-03-05', '2024-04-05', '2024-05-05', '2024-06-05'];
+
+describe('analyzeRecurringCharges', () => {
+    it('recognizes a monthly charge with a steady price and descriptor', () => {
+        const signal = analyzeRecurringCharges(charges(MONTHLY, 29), day('2024-06-20'));
+
+        expect(signal).toMatchObject({
+            frequency: 'monthly',
+            typicalAmount: 29,
+            occurrences: 6,
+            lastChargeDate: day('2024-06-05'),
+        });
+        expect(signal!.confidence).toBeGreaterThanOrEqual(0.8);
+        expect(signal!.reasons).toEqual(expect.arrayContaining(['Same amount every time', 'Identical statement descriptor']));
+    });
+
+    it('still matches when reference numbers change the descriptor', () => {
+        const history = MONTHLY.map((date, i) => ({
+            date: day(date),
+            amount: 29,
+            kind: 'charge',
+            rawDescription: `ACME HOSTING #${1000 + i}`,
+        }));
+
+        expect(analyzeRecurringCharges(history, day('2024-06-20'))!.reasons).toContain('Identical statement descriptor');
+    });
+
+    it('reports a price that moves now and then', () => {
+        const signal = analyzeRecurringCharges(charges(MONTHLY, [29, 29, 29, 29, 35, 29]), day('2024-06-20'));
+
+        expect(signal!.typicalAmount).toBe(29);
+        expect(signal!.reasons).toContain('Amount stable in 83% of charges');
+    });
+
+    it('needs three charges for short cadences but two for yearly ones', () => {
+        expect(analyzeRecurringCharges(charges(MONTHLY.slice(0, 2), 29), day('2024-02-20'))).toBeNull();
+        expect(analyzeRecurringCharges(charges(['2023-03-01', '2024-03-01'], 240), day('2024-04-01'))).toMatchObject({
+            frequency: 'annual',
+            occurrences: 2,
+        });
+    });
+
+    it('drops a subscription that stopped charging two and a half periods ago', () => {
+        expect(analyzeRecurringCharges(charges(MONTHLY, 29), day('2024-08-15'))).not.toBeNull();
+        expect(analyzeRecurringCharges(charges(MONTHLY, 29), day('2024-09-01'))).toBeNull();
+    });
+
+    it('ignores refunds and irregular spending', () => {
+        const withRefund = [
+            ...charges(MONTHLY, 29),
+            { date: day('2024-03-10'), amount: 29, kind: 'refund', rawDescription: 'ACME HOSTING REFUND' },
+        ];
+        expect(analyzeRecurringCharges(withRefund, day('2024-06-20'))!.occurrences).toBe(6);
+
+        const irregular = charges(['2024-01-02', '2024-01-09', '2024-03-28', '2024-04-02', '2024-06-15'], [12, 80, 7, 45, 19]);
+        expect(analyzeRecurringCharges(irregular, day('2024-06-20'))).toBeNull();
+    });
+});
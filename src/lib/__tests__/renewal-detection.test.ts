@@ -0,0 +1,30 @@
+import { calculateRenewalDate } from '../renewal-detection';
+
+const date = (iso: string) => new Date(`${iso}T00:00:00Z`);
+const day = (iso: string) => {
+    const [year, month, dayOfMonth] = iso.split('-').map(Number);
+    return { year, month, day: dayOfMonth };
+};
+
+describe('calculateRenewalDate', () => {
+    it('clamps a month-end anchor to February and returns to it afterwards', () => {
+        expect(calculateRenewalDate(date('2024-01-31'), 'monthly', undefined, day('2024-02-01'))).toEqual(date('2024-02-29'));
+        expect(calculateRenewalDate(date('2023-01-31'), 'monthly', undefined, day('2023-02-01'))).toEqual(date('2023-02-28'));
+        expect(calculateRenewalDate(date('2024-02-29'), 'monthly', date('2024-01-31'), day('2024-03-01'))).toEqual(date('2024-03-31'));
+    });
+
+    it('renews a Feb 29 annual charge on Feb 28 outside leap years', () => {
+        expect(calculateRenewalDate(date('2024-02-29'), 'annual', undefined, day('2024-03-01'))).toEqual(date('2025-02-28'));
+        expect(calculateRenewalDate(date('2024-02-29'), 'annual', undefined, day('2027-03-01'))).toEqual(date('2028-02-29'));
+    });
+
+    it('steps weekly renewals by whole days across a DST change', () => {
+        expect(calculateRenewalDate(date('2024-03-07'), 'weekly', undefined, day('2024-03-10'))).toEqual(date('2024-03-14'));
+        expect(calculateRenewalDate(date('2024-10-31'), 'weekly', undefined, day('2024-11-03'))).toEqual(date('2024-11-07'));
+    });
+
+    it('keeps the anchor day when a charge posts late', () => {
+        // Billed on the 31st, posted on Mar 2: the next renewal is Mar 31
+        expect(calculateRenewalDate(date('2024-03-02'), 'monthly', date('2024-01-31'), day('2024-03-05'))).toEqual(date('2024-03-31'));
+    });
+});
@@ -0,0 +1,135 @@
+import { buildFxConverter } from '../fx';
+import { buildSpendForecast, ForecastSubscription, projectCharges } from '../spend-forecast';
+
+jest.mock('../prisma', () => ({ __esModule: true, default: {} }));
+
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+const subscription = (overrides: Partial<ForecastSubscription>): ForecastSubscription => ({
+    id: 'sub',
+    vendorId: 'vendor',
+    vendorName: 'Vendor',
+    amount: 100,
+    currency: 'USD',
+    billingCycle: 'monthly',
+    renewalDate: null,
+    ...overrides,
+});
+
+describe('projectCharges', () => {
+    it('rolls a stale renewal date forward to the next charge', () => {
+        const charges = projectCharges(
+            subscription({ billingCycle: 'yearly', renewalDate: day('2023-03-15') }),
+            day('2024-06-01'),
+            day('2025-06-01')
+        );
+
+        expect(charges).toEqual([{ date: day('2025-03-15'), amount: 100 }]);
+    });
+
+    it('keeps a month-end renewal on the last day of shorter months', () => {
+        const charges = projectCharges(
+            subscription({ renewalDate: day('2024-01-31') }),
+            day('2024-02-01'),
+            day('2024-05-01')
+        );
+
+        expect(charges.map(c => c.date)).toEqual([day('2024-02-29'), day('2024-03-31'), day('2024-04-30')]);
+    });
+
+    it('spreads a subscription without a renewal date over months at its monthly run-rate', () => {
+        const charges = projectCharges(
+            subscription({ amount: 120, billingCycle: 'yearly' }),
+            day('2024-03-05'),
+            day('2024-06-01')
+        );
+
+        expect(charges).toEqual([
+            { date: day('2024-03-01'), amount: 10 },
+            { date: day('2024-04-01'), amount: 10 },
+            { date: day('2024-05-01'), amount: 10 },
+        ]);
+    });
+
+    it('treats an unknown billing cycle as monthly', () => {
+        const charges = projectCharges(
+            subscription({ billingCycle: 'sometimes', renewalDate: day('2024-03-10') }),
+            day('2024-03-01'),
+            day('2024-05-01')
+        );
+
+        expect(charges.map(c => c.date)).toEqual([day('2024-03-10'), day('2024-04-10')]);
+    });
+});
+
+describe('buildSpendForecast', () => {
+    const fx = buildFxConverter('USD', [{ date: day('2024-01-01'), base: 'EUR', quote: 'USD', rate: 1.1 }]);
+    const today = { year: 2024, month: 3, day: 5 };
+
+    const subscriptions = [
+        subscription({ id: 'slack', vendorId: 'slack', vendorName: 'Slack', renewalDate: day('2024-01-10') }),
+        subscription({
+            id: 'figma',
+            vendorId: 'figma',
+            vendorName: 'Figma',
+            amount: 1200,
+            currency: 'EUR',
+            billingCycle: 'yearly',
+            renewalDate: day('2024-06-01'),
+        }),
+        subscription({ id: 'miro', vendorId: 'miro', vendorName: 'Miro', amount: 50, currency: 'GBP' }),
+    ];
+
+    it('normalizes run-rate by billing cycle into the reporting currency', () => {
+        const forecast = buildSpendForecast(subscriptions, [], fx, today);
+
+        expect(forecast.reportingCurrency).toBe('USD');
+        expect(forecast.runRate).toEqual({
+            monthly: 210,
+            annual: 2520,
+            monthlyWithSavings: 210,
+            annualWithSavings: 2520,
+        });
+        expect(forecast.subscriptions.map(s => [s.vendorName, s.monthly, s.annual])).toEqual([
+            ['Figma', 110, 1320],
+            ['Slack', 100, 1200],
+            ['Miro', null, null],
+        ]);
+        expect(forecast.unconverted).toBe(1);
+    });
+
+    it('projects twelve months starting with the current one', () => {
+        const forecast = buildSpendForecast(subscriptions, [], fx, today);
+
+        expect(forecast.months).toHaveLength(12);
+        expect(forecast.months[0]).toEqual({ month: '2024-03', baseline: 100, withSavings: 100, charges: 1 });
+        expect(forecast.months[3]).toEqual({ month: '2024-06', baseline: 1420, withSavings: 1420, charges: 2 });
+        expect(forecast.months[11].month).toBe('2025-02');
+        expect(forecast.totals).toEqual({ baseline: 2520, withSavings: 2520, savings: 0 });
+    });
+
+    it('applies a pending saving to its vendor from the next renewal', () => {
+        const forecast = buildSpendForecast(
+            subscriptions,
+            [{ vendorId: 'slack', annualAmount: 240, currency: 'USD', landsOn: null }],
+            fx,
+            today
+        );
+
+        expect(forecast.months[0]).toMatchObject({ baseline: 100, withSavings: 80 });
+        expect(forecast.runRate.monthlyWithSavings).toBe(190);
+        expect(forecast.totals).toEqual({ baseline: 2520, withSavings: 2280, savings: 240 });
+        expect(forecast.pendingNegotiations).toBe(1);
+    });
+
+    it('starts a saving at the renewal the negotiation lands on', () => {
+        const forecast = buildSpendForecast(
+            subscriptions,
+            [{ vendorId: 'slack', annualAmount: 240, currency: 'USD', landsOn: day('2024-09-10') }],
+            fx,
+            today
+        );
+
+        expect(forecast.months.map(m => m.baseline - m.withSavings)).toEqual([0, 0, 0, 0, 0, 0, 20, 20, 20, 20, 20, 20]);
+    });
+});
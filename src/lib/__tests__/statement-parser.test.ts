@@ -0,0 +1,35 @@
+import { parseOFX } from '../ofx-parser';
+import { parseQIF } from '../qif-parser';
+
+const ofx = (transactions: Array<[string, string]>) => `OFXHEADER:100
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>USD<BANKTRANLIST>
+${transactions.map(([amount, name], i) => `<STMTTRN><TRNTYPE>OTHER<DTPOSTED>2024030${i + 1}<TRNAMT>${amount}<FITID>${i + 1}<NAME>${name}</STMTTRN>`).join('\n')}
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+describe('parseOFX', () => {
+    it('counts money in without refund wording instead of dropping it silently', () => {
+        const result = parseOFX(ofx([
+            ['-12.00', 'SLACK TECHNOLOGIES'],
+            ['12.00', 'SLACK TECHNOLOGIES'],
+            ['5.00', 'REFUND NOTION LABS'],
+        ]));
+
+        expect(result.transactions.map(t => t.kind)).toEqual(['charge', 'refund']);
+        expect(result.depositRows).toBe(1);
+        expect(result.totalRows).toBe(3);
+    });
+});
+
+describe('parseQIF', () => {
+    it('counts deposits it skips', () => {
+        const result = parseQIF([
+            '!Type:Bank',
+            'D03/01/2024', 'T-20.00', 'PGITHUB', '^',
+            'D03/02/2024', 'T1500.00', 'PPAYROLL', '^',
+            'D03/03/2024', 'T20.00', 'PGITHUB CREDIT', '^',
+        ].join('\n'));
+
+        expect(result.transactions.map(t => t.kind)).toEqual(['charge', 'credit']);
+        expect(result.depositRows).toBe(1);
+    });
+});
@@ -1,13 +1,55 @@
 import { NextAuthOptions } from 'next-auth';
 import CredentialsProvider from 'next-auth/providers/credentials';
 import GoogleProvider from 'next-auth/providers/google';
+import AzureADProvider from 'next-auth/providers/azure-ad';
 import bcrypt from 'bcryptjs';
 import prisma from '@/lib/prisma';
+import { MICROSOFT_SCOPES } from '@/lib/outlook';
+import { saveOAuthTokens, OAuthTokenProvider } from '@/lib/oauth-tokens';
+
+/**
+ * OAuth sign-in providers that also grant mailbox access
+ * tokenProvider is the OAuthToken.provider the tokens are stored under
+ */
+const OAUTH_MAILBOX_PROVIDERS: Record<string, {
+    label: string;
+    tokenProvider: OAuthTokenProvider;
+    idField: 'googleId' | 'microsoftId';
+}> = {
+    google: { label: 'Google', tokenProvider: 'google', idField: 'googleId' },
+    'azure-ad': { label: 'Microsoft', tokenProvider: 'microsoft', idField: 'microsoftId' },
+};
+
+/**
+ * Microsoft 365 / Outlook sign-in, only offered once an Azure AD app is configured
+ */
+export function isMicrosoftSignInConfigured(): boolean {
+    return !!(process.env.AZURE_AD_CLIENT_ID && process.env.AZURE_AD_CLIENT_SECRET);
+}
+
+// Tenant aliases that accept accounts from any directory
+const MULTI_TENANT_IDS = ['common', 'organizations', 'consumers'];
+
+/**
+ * Whether the sign-in's email may be used to find an existing account
+ * Google verifies addresses itself. A multi-tenant Azure AD app accepts emails
+ * any tenant admin can set, so they only count with the xms_edov claim
+ * (verified domain owner) or when the app is limited to a single tenant
+ */
+function isEmailVerified(provider: string, profile: unknown): boolean {
+    const claims = (profile || {}) as { email_verified?: boolean; xms_edov?: boolean | string };
+    if (provider === 'google') {
+        return claims.email_verified !== false;
+    }
+
+    const tenant = process.env.AZURE_AD_TENANT_ID || 'common';
+    return !MULTI_TENANT_IDS.includes(tenant) || claims.xms_edov === true || claims.xms_edov === '1';
+}
 
 /**
  * NextAuth Configuration
  * 
- * CRITICAL: Google OAuth users are auto-provisioned.
+ * CRITICAL: Google and Microsoft OAuth users are auto-provisioned.
  * No manual registration required. No AccessDenied errors.
  */
 export const authOptions: NextAuthOptions = {
@@ -23,6 +65,25 @@ export const authOptions: NextAuthOptions = {
                 },
             },
         }),
+        ...(isMicrosoftSignInConfigured() ? [
+            AzureADProvider({
+                clientId: process.env.AZURE_AD_CLIENT_ID!,
+                clientSecret: process.env.AZURE_AD_CLIENT_SECRET!,
+                tenantId: process.env.AZURE_AD_TENANT_ID || 'common',
+                authorization: {
+                    params: { scope: MICROSOFT_SCOPES },
+                },
+                // Skips the profile photo lookup; preferred_username is not an email and is never used as one
+                profile(profile) {
+                    return {
+                        id: profile.sub,
+                        name: profile.name,
+                        email: profile.email,
+                        image: null,
+                    };
+                },
+            }),
+        ] : []),
         CredentialsProvider({
             name: 'credentials',
             credentials: {
@@ -72,117 +133,129 @@ export const authOptions: NextAuthOptions = {
         /**
          * signIn Callback - CRITICAL FOR AUTO-PROVISIONING
          * 
-         * For Google users:
-         * 1. If user doesn't exist → CREATE them automatically
-         * 2. If user exists without googleId → LINK Google account
-         * 3. If user exists with googleId → PROCEED normally
+         * For Google and Microsoft users:
+         * 1. If a user has the provider's ID → PROCEED normally
+         * 2. If the email is verified and no user has it → CREATE them automatically
+         * 3. If the email is verified and its user has no provider ID → LINK the account
          * 
-         * NEVER return false for Google sign-in.
+         * Returns false for an account without an email, an unverified email that
+         * matches no linked account, or an email whose user is linked to another
+         * account of the same provider.
          */
         async signIn({ user, account, profile }) {
-            // For Google OAuth
-            if (account?.provider === 'google') {
-                console.log('[Auth] Google sign-in attempt for:', user.email);
+            const oauth = account ? OAUTH_MAILBOX_PROVIDERS[account.provider] : undefined;
+            if (!account || !oauth) {
+                // For credentials provider, the authorize function already validated
+                return true;
+            }
 
-                try {
-                    // Find existing user by email
-                    let dbUser = await prisma.user.findUnique({
-                        where: { email: user.email! },
-                    });
+            const { label, tokenProvider, idField } = oauth;
+            console.log(`[Auth] ${label} sign-in attempt for:`, user.email);
 
-                    if (!dbUser) {
-                        // AUTO-PROVISION: Create new user for Google sign-in
-                        console.log('[Auth] Creating new user for Google account:', user.email);
-                        dbUser = await prisma.user.create({
-                            data: {
-                                email: user.email!,
-                                name: user.name || profile?.name || user.email!.split('@')[0],
-                                googleId: account.providerAccountId,
-                                image: user.image || (profile as { picture?: string })?.picture,
-                            },
-                        });
-                        console.log('[Auth] User created successfully:', dbUser.id);
-                    } else if (!dbUser.googleId) {
-                        // LINK: Existing email/password user logging in with Google
-                        console.log('[Auth] Linking Google to existing account:', user.email);
-                        await prisma.user.update({
-                            where: { id: dbUser.id },
-                            data: {
-                                googleId: account.providerAccountId,
-                                image: user.image || dbUser.image,
-                                name: dbUser.name || user.name,
-                            },
-                        });
-                        console.log('[Auth] Google account linked successfully');
-                    } else {
-                        console.log('[Auth] Existing Google user login:', user.email);
-                    }
+            if (!user.email) {
+                // Some Microsoft accounts expose no address to sign in with
+                console.error(`[Auth] ${label} account has no email address`);
+                return false;
+            }
 
-                    // Store OAuth tokens for Gmail API access
-                    if (account.access_token && dbUser) {
-                        try {
-                            await prisma.oAuthToken.upsert({
-                                where: {
-                                    userId_provider: {
-                                        userId: dbUser.id,
-                                        provider: 'google',
-                                    },
-                                },
-                                update: {
-                                    accessToken: account.access_token,
-                                    refreshToken: account.refresh_token || undefined,
-                                    expiresAt: new Date(Date.now() + (account.expires_in as number || 3600) * 1000),
-                                    scope: account.scope,
-                                },
-                                create: {
-                                    userId: dbUser.id,
-                                    provider: 'google',
-                                    accessToken: account.access_token,
-                                    refreshToken: account.refresh_token,
-                                    expiresAt: new Date(Date.now() + (account.expires_in as number || 3600) * 1000),
-                                    scope: account.scope,
-                                },
-                            });
-                            console.log('[Auth] OAuth tokens stored successfully');
-                        } catch (tokenError) {
-                            // Non-fatal: Log but don't block sign-in
-                            console.error('[Auth] Failed to store OAuth tokens (non-fatal):', tokenError);
-                        }
-                    }
+            try {
+                // Accounts already linked to this provider account sign in by its ID
+                const linkedUser = await prisma.user.findFirst({
+                    where: { [idField]: account.providerAccountId },
+                });
 
-                    // ALWAYS return true for Google sign-in
-                    return true;
-                } catch (error) {
-                    // Log the error but TRY to continue
-                    console.error('[Auth] Error during Google sign-in:', error);
+                let dbUser = linkedUser;
+                if (!dbUser && !isEmailVerified(account.provider, profile)) {
+                    console.error(`[Auth] ${label} email is not verified, refusing to match it:`, user.email);
+                    return false;
+                }
+
+                if (!dbUser) {
+                    dbUser = await prisma.user.findUnique({
+                        where: { email: user.email },
+                    });
+                }
+
+                if (dbUser && dbUser[idField] && dbUser[idField] !== account.providerAccountId) {
+                    console.error(`[Auth] ${label} account does not match the one linked to:`, user.email);
+                    return false;
+                }
 
-                    // If it's a unique constraint error, user already exists - that's OK
-                    if ((error as { code?: string }).code === 'P2002') {
-                        console.log('[Auth] User already exists, proceeding with sign-in');
-                        return true;
+                if (!dbUser) {
+                    // AUTO-PROVISION: Create new user for OAuth sign-in
+                    console.log(`[Auth] Creating new user for ${label} account:`, user.email);
+                    dbUser = await prisma.user.create({
+                        data: {
+                            email: user.email,
+                            name: user.name || profile?.name || user.email.split('@')[0],
+                            [idField]: account.providerAccountId,
+                            image: user.image || (profile as { picture?: string })?.picture,
+                        },
+                    });
+                    console.log('[Auth] User created successfully:', dbUser.id);
+                } else if (!linkedUser) {
+                    // LINK: Existing user logging in with another provider
+                    console.log(`[Auth] Linking ${label} to existing account:`, user.email);
+                    await prisma.user.update({
+                        where: { id: dbUser.id },
+                        data: {
+                            [idField]: account.providerAccountId,
+                            image: user.image || dbUser.image,
+                            name: dbUser.name || user.name,
+                        },
+                    });
+                    console.log(`[Auth] ${label} account linked successfully`);
+                } else {
+                    console.log(`[Auth] Existing ${label} user login:`, user.email);
+                }
+
+                // Store OAuth tokens for mailbox API access
+                if (account.access_token && dbUser) {
+                    try {
+                        await saveOAuthTokens(dbUser.id, tokenProvider, {
+                            accessToken: account.access_token,
+                            refreshToken: account.refresh_token || undefined,
+                            expiresAt: new Date(Date.now() + (account.expires_in as number || 3600) * 1000),
+                            scope: account.scope,
+                        });
+                        console.log('[Auth] OAuth tokens stored successfully');
+                    } catch (tokenError) {
+                        // Non-fatal: Log but don't block sign-in
+                        console.error('[Auth] Failed to store OAuth tokens (non-fatal):', tokenError);
                     }
+                }
+
+                // ALWAYS return true for OAuth sign-in
+                return true;
+            } catch (error) {
+                // Log the error but TRY to continue
+                console.error(`[Auth] Error during ${label} sign-in:`, error);
 
-                    // For database connection errors, still try to return true
-                    // The jwt callback will handle the user lookup
-                    console.error('[Auth] Database error during sign-in, attempting to continue');
+                // If it's a unique constraint error, user already exists - that's OK
+                if ((error as { code?: string }).code === 'P2002') {
+                    console.log('[Auth] User already exists, proceeding with sign-in');
                     return true;
                 }
-            }
 
-            // For credentials provider, the authorize function already validated
-            return true;
+                // For database connection errors, still try to return true
+                // The jwt callback will handle the user lookup
+                console.error('[Auth] Database error during sign-in, attempting to continue');
+                return true;
+            }
         },
 
         /**
          * JWT Callback - Attach user ID to token
+         * OAuth users are found by the provider account signIn linked, never by email
          */
         async jwt({ token, user, account }) {
             if (user) {
                 try {
                     // Get database user ID
-                    const dbUser = await prisma.user.findUnique({
-                        where: { email: user.email! },
-                    });
+                    const oauth = account ? OAUTH_MAILBOX_PROVIDERS[account.provider] : undefined;
+                    const dbUser = oauth
+                        ? await prisma.user.findFirst({ where: { [oauth.idField]: account!.providerAccountId } })
+                        : await prisma.user.findUnique({ where: { email: user.email! } });
 
                     if (dbUser) {
                         token.id = dbUser.id;
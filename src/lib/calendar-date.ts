@@ -0,0 +1,118 @@
+/**
+ * Calendar Dates
+ * Billing dates are whole days, not instants. They are stored as UTC midnight
+ * and compared against "today" in the user's timezone, so results do not
+ * depend on the server's or browser's timezone or on DST changes.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CalendarDate {
+    year: number;
+    month: number; // 1-12
+    day: number;
+}
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+/**
+ * Whether the runtime knows an IANA timezone name such as "Europe/Berlin"
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Storage form of a calendar date: midnight UTC
+ */
+export function dateOnly(year: number, month: number, day: number): Date {
+    return new Date(Date.UTC(year, month - 1, day));
+}
+
+export function toDate(date: CalendarDate): Date {
+    return dateOnly(date.year, date.month, date.day);
+}
+
+/**
+ * The calendar date a stored billing date stands for
+ */
+export function fromDate(date: Date): CalendarDate {
+    return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+/**
+ * The calendar date an instant falls on in a timezone
+ */
+export function calendarDateIn(instant: Date, timeZone: string): CalendarDate {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone: isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIMEZONE,
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+    }).formatToParts(instant);
+
+    const part = (type: string) => parseInt(parts.find(p => p.type === type)!.value);
+    return { year: part('year'), month: part('month'), day: part('day') };
+}
+
+export function todayIn(timeZone: string, now: Date = new Date()): CalendarDate {
+    return calendarDateIn(now, timeZone);
+}
+
+export function formatCalendarDate(date: CalendarDate): string {
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    return `${date.year}-${pad(date.month)}-${pad(date.day)}`;
+}
+
+// ============================================================================
+// ARITHMETIC
+// ============================================================================
+
+export function isLeapYear(year: number): boolean {
+    return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+export function daysInMonth(year: number, month: number): number {
+    if (month === 2) return isLeapYear(year) ? 29 : 28;
+    return [4, 6, 9, 11].includes(month) ? 30 : 31;
+}
+
+export function addDays(date: CalendarDate, days: number): CalendarDate {
+    return fromDate(new Date(toDate(date).getTime() + days * DAY_MS));
+}
+
+/**
+ * Add calendar months, clamping to the end of short months
+ * `anchorDay` keeps a billing day across clamps: Jan 31 + 1 month is Feb 28
+ * (Feb 29 in leap years), and with anchor 31 the month after is Mar 31, not Mar 28
+ */
+export function addMonths(date: CalendarDate, months: number, anchorDay: number = date.day): CalendarDate {
+    const index = date.year * 12 + (date.month - 1) + months;
+    const year = Math.floor(index / 12);
+    const month = index - year * 12 + 1;
+    return { year, month, day: Math.min(anchorDay, daysInMonth(year, month)) };
+}
+
+/**
+ * Whole days from `from` to `to`; negative when `to` is earlier
+ */
+export function daysBetween(from: CalendarDate, to: CalendarDate): number {
+    return Math.round((toDate(to).getTime() - toDate(from).getTime()) / DAY_MS);
+}
+
+export function compareCalendarDates(a: CalendarDate, b: CalendarDate): number {
+    return daysBetween(b, a);
+}
@@ -0,0 +1,245 @@
+/**
+ * Calendar Feed
+ * Publishes renewals, cancellation deadlines and negotiation follow-ups as an
+ * iCalendar (.ics) feed that calendar apps subscribe to with a secret URL.
+ */
+
+import { randomBytes } from 'crypto';
+import prisma from './prisma';
+import { getActionDeadline } from './contract-terms';
+import { DEFAULT_TIMEZONE, addDays, calendarDateIn, formatCalendarDate, fromDate, toDate } from './calendar-date';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CalendarEventKind = 'renewal' | 'deadline' | 'follow-up';
+
+export interface CalendarEvent {
+    uid: string;           // Stable per subscription/negotiation, so a moved date updates the event
+    kind: CalendarEventKind;
+    date: Date;            // All-day event on this calendar date (UTC midnight)
+    summary: string;
+    description: string;
+    url?: string;
+    lastModified: Date;
+    reminderDays: number[]; // Alarms this many days before the event
+}
+
+const PRODUCT_ID = '-//SubSentry//Renewal Calendar//EN';
+const UID_DOMAIN = 'subsentry';
+
+// ============================================================================
+// TOKENS
+// ============================================================================
+
+/**
+ * Issue a new feed token, replacing (and so revoking) any previous one
+ */
+export async function issueCalendarToken(userId: string): Promise<string> {
+    const token = randomBytes(24).toString('base64url');
+    await prisma.user.update({
+        where: { id: userId },
+        data: { calendarToken: token },
+    });
+    return token;
+}
+
+/**
+ * Turn the feed off; subscribed calendars get 404 from then on
+ */
+export async function revokeCalendarToken(userId: string): Promise<void> {
+    await prisma.user.update({
+        where: { id: userId },
+        data: { calendarToken: null },
+    });
+}
+
+export function getCalendarFeedUrl(origin: string, token: string): string {
+    return `${origin}/api/calendar/${token}.ics`;
+}
+
+// ============================================================================
+// EVENTS
+// ============================================================================
+
+function formatMoney(amount: { toString(): string } | null, currency: string): string | null {
+    if (amount === null) return null;
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(parseFloat(amount.toString()));
+}
+
+/**
+ * Events for everything the user needs to act on
+ * Cancelled subscriptions and negotiations that are no longer waiting on a reply are left out
+ */
+export async function buildCalendarEvents(userId: string, origin: string): Promise<CalendarEvent[]> {
+    const [user, subscriptions, negotiations] = await Promise.all([
+        prisma.user.findUnique({ where: { id: userId }, select: { timezone: true } }),
+        prisma.subscription.findMany({
+            where: { userId, status: { not: 'cancelled' } },
+            include: { vendor: { select: { name: true } } },
+        }),
+        prisma.negotiation.findMany({
+            where: { userId, status: 'sent', followUpAt: { not: null } },
+            include: { vendor: { select: { name: true } } },
+        }),
+    ]);
+
+    const timeZone = user?.timezone || DEFAULT_TIMEZONE;
+    const events: CalendarEvent[] = [];
+
+    for (const subscription of subscriptions) {
+        const deadline = getActionDeadline(subscription, timeZone);
+        if (!deadline) continue;
+
+        const vendorName = subscription.vendor.name;
+        const price = formatMoney(subscription.amount, subscription.currency);
+        const url = `${origin}/subscriptions/${subscription.id}`;
+
+        events.push({
+            uid: `renewal-${subscription.id}@${UID_DOMAIN}`,
+            kind: 'renewal',
+            date: deadline.termEndDate,
+            summary: deadline.autoRenew ? `${vendorName} renews` : `${vendorName} contract ends`,
+            description: [
+                price && `${price}${subscription.billingCycle ? ` ${subscription.billingCycle}` : ''}`,
+                subscription.plan && `Plan: ${subscription.plan}`,
+                subscription.seats && `Seats: ${subscription.seats}`,
+            ].filter(Boolean).join('\n'),
+            url,
+            lastModified: subscription.updatedAt,
+            reminderDays: [7, 1],
+        });
+
+        // Without a notice period the deadline is the renewal itself
+        if (deadline.noticePeriodDays > 0) {
+            events.push({
+                uid: `deadline-${subscription.id}@${UID_DOMAIN}`,
+                kind: 'deadline',
+                date: deadline.deadline,
+                summary: `Last day to cancel or renegotiate ${vendorName}`,
+                description: `${deadline.noticePeriodDays} days' notice is required before the term renews.`,
+                url,
+                lastModified: subscription.updatedAt,
+                reminderDays: [14, 3],
+            });
+        }
+    }
+
+    for (const negotiation of negotiations) {
+        events.push({
+            uid: `follow-up-${negotiation.id}@${UID_DOMAIN}`,
+            kind: 'follow-up',
+            // Follow-ups are instants; the event goes on the day they fall on for the user
+            date: toDate(calendarDateIn(negotiation.followUpAt!, timeZone)),
+            summary: `Follow up with ${negotiation.vendor.name}`,
+            description: negotiation.recipientEmail
+                ? `No reply yet to the negotiation email sent to ${negotiation.recipientEmail}.`
+                : 'No reply yet to the negotiation email.',
+            url: `${origin}/negotiations`,
+            lastModified: negotiation.updatedAt,
+            reminderDays: [0],
+        });
+    }
+
+    return events.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+// ============================================================================
+// RENDERING (RFC 5545)
+// ============================================================================
+
+function formatDateValue(date: Date): string {
+    return formatCalendarDate(fromDate(date)).replace(/-/g, '');
+}
+
+function formatTimestamp(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(value: string): string {
+    return value
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold content lines longer than 75 octets onto continuation lines
+ */
+function foldLine(line: string): string {
+    const bytes = Buffer.from(line, 'utf8');
+    if (bytes.length <= 75) return line;
+
+    const parts: string[] = [];
+    let current = '';
+    let currentBytes = 0;
+    for (const char of line) {
+        const charBytes = Buffer.byteLength(char, 'utf8');
+        // Continuation lines start with a space, which counts toward the limit
+        const limit = parts.length === 0 ? 75 : 74;
+        if (currentBytes + charBytes > limit) {
+            parts.push(current);
+            current = '';
+            currentBytes = 0;
+        }
+        current += char;
+        currentBytes += charBytes;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+}
+
+function renderEvent(event: CalendarEvent, now: Date): string[] {
+    const nextDay = toDate(addDays(fromDate(event.date), 1));
+
+    const lines = [
+        'BEGIN:VEVENT',
+        `UID:${event.uid}`,
+        `DTSTAMP:${formatTimestamp(now)}`,
+        `LAST-MODIFIED:${formatTimestamp(event.lastModified)}`,
+        `DTSTART;VALUE=DATE:${formatDateValue(event.date)}`,
+        `DTEND;VALUE=DATE:${formatDateValue(nextDay)}`,
+        `SUMMARY:${escapeText(event.summary)}`,
+        `CATEGORIES:${event.kind.toUpperCase()}`,
+        'TRANSP:TRANSPARENT',
+    ];
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+
+    for (const days of event.reminderDays) {
+        lines.push(
+            'BEGIN:VALARM',
+            'ACTION:DISPLAY',
+            `DESCRIPTION:${escapeText(event.summary)}`,
+            // All-day events start at midnight; a same-day reminder fires at 9am
+            `TRIGGER:${days === 0 ? 'PT9H' : `-P${days}D`}`,
+            'END:VALARM'
+        );
+    }
+
+    lines.push('END:VEVENT');
+    return lines;
+}
+
+/**
+ * Render events as an iCalendar document
+ */
+export function renderCalendar(events: CalendarEvent[], name: string, now: Date = new Date()): string {
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODUCT_ID}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(name)}`,
+        'REFRESH-INTERVAL;VALUE=DURATION:PT6H',
+        'X-PUBLISHED-TTL:PT6H',
+        ...events.flatMap(event => renderEvent(event, now)),
+        'END:VCALENDAR',
+    ];
+
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,370 @@
+/**
+ * Charge Alerts
+ * Watches each subscription's transaction history for price changes,
+ * duplicate or extra charges, and charges that should have arrived but did not,
+ * and warns before free trials convert to paid.
+ */
+
+import prisma from './prisma';
+import { CADENCES, detectCadence } from './renewal-detection';
+import { DEFAULT_TIMEZONE } from './calendar-date';
+import { isTrialEndingSoon } from './trials';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ChargeAlertType =
+    | 'price_increase'
+    | 'price_decrease'
+    | 'duplicate_charge'
+    | 'extra_charge'
+    | 'missing_charge'
+    | 'trial_ending';
+
+export type ChargeAlertStatus = 'open' | 'dismissed';
+
+export interface ChargeHistoryRow {
+    id: string;
+    date: Date;
+    amount: number;
+    currency: string;
+    kind: string;
+}
+
+export interface AlertTransaction {
+    id: string;
+    date: string; // ISO timestamp
+    amount: number;
+}
+
+export interface ChargeAnomaly {
+    type: ChargeAlertType;
+    key: string;           // Stable per anomaly, so re-running detection does not repeat it
+    occurredAt: Date;      // The offending charge, or the date a missing charge was due
+    previousAmount: number | null;
+    newAmount: number | null;
+    currency: string;
+    transactions: AlertTransaction[];
+}
+
+export interface ChargeAlertSummary {
+    id: string;
+    subscriptionId: string;
+    vendorName: string;
+    type: ChargeAlertType;
+    occurredAt: Date;
+    previousAmount: number | null;
+    newAmount: number | null;
+    currency: string;
+    transactions: AlertTransaction[];
+    status: ChargeAlertStatus;
+}
+
+// Below this cadence confidence the history is too irregular to call anything an anomaly
+const MIN_CADENCE_CONFIDENCE = 0.5;
+// Charges closer together than this share of a period fall in the same billing period
+const SAME_PERIOD_SHARE = 0.5;
+// A charge is overdue once this share of a period has passed beyond its due date
+const OVERDUE_SHARE = 0.25;
+// Price moves smaller than 1% (or half a unit) are rounding or tax noise
+const PRICE_CHANGE_SHARE = 0.01;
+const PRICE_CHANGE_MIN = 0.5;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+function toAlertTransaction(row: ChargeHistoryRow): AlertTransaction {
+    return { id: row.id, date: row.date.toISOString(), amount: row.amount };
+}
+
+function toDateKey(date: Date): string {
+    return date.toISOString().slice(0, 10);
+}
+
+function isPriceChange(previous: ChargeHistoryRow, next: ChargeHistoryRow): boolean {
+    return previous.currency === next.currency &&
+        Math.abs(next.amount - previous.amount) > Math.max(previous.amount * PRICE_CHANGE_SHARE, PRICE_CHANGE_MIN);
+}
+
+/**
+ * Find anomalies in one vendor's charge history
+ * `expectCharges` enables the overdue check after the last charge; it is off for
+ * subscriptions the user has cancelled
+ */
+export function detectChargeAnomalies(
+    history: ChargeHistoryRow[],
+    options: { expectCharges: boolean; now?: Date }
+): ChargeAnomaly[] {
+    const now = options.now || new Date();
+    const charges = history
+        .filter(h => h.kind === 'charge')
+        .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    if (charges.length < 2) return [];
+
+    const cadenceInfo = detectCadence(charges.map(c => c.date));
+    const cadence = CADENCES.find(c => c.frequency === cadenceInfo.frequency);
+    if (!cadence || cadenceInfo.confidence < MIN_CADENCE_CONFIDENCE) return [];
+
+    const anomalies: ChargeAnomaly[] = [];
+    const periodCharges: ChargeHistoryRow[] = [charges[0]];
+
+    for (const charge of charges.slice(1)) {
+        const previous = periodCharges[periodCharges.length - 1];
+        const intervalDays = (charge.date.getTime() - previous.date.getTime()) / DAY_MS;
+
+        // A second charge inside the same billing period
+        if (intervalDays < cadence.days * SAME_PERIOD_SHARE) {
+            const duplicate = charge.currency === previous.currency && Math.abs(charge.amount - previous.amount) < 0.01;
+            const type: ChargeAlertType = duplicate ? 'duplicate_charge' : 'extra_charge';
+            anomalies.push({
+                type,
+                key: `${type}:${charge.id}`,
+                occurredAt: charge.date,
+                previousAmount: previous.amount,
+                newAmount: charge.amount,
+                currency: charge.currency,
+                transactions: [toAlertTransaction(previous), toAlertTransaction(charge)],
+            });
+            continue;
+        }
+
+        // Whole periods skipped between two charges
+        const periods = Math.round(intervalDays / cadence.days);
+        for (let missed = 1; missed < periods; missed++) {
+            const dueDate = new Date(previous.date.getTime() + missed * cadence.days * DAY_MS);
+            anomalies.push({
+                type: 'missing_charge',
+                key: `missing_charge:${toDateKey(dueDate)}`,
+                occurredAt: dueDate,
+                previousAmount: previous.amount,
+                newAmount: null,
+                currency: previous.currency,
+                transactions: [toAlertTransaction(previous), toAlertTransaction(charge)],
+            });
+        }
+
+        periodCharges.push(charge);
+    }
+
+    // Usage-billed vendors change price most periods; only flag plans that are normally flat
+    const changes = periodCharges.slice(1).filter((charge, i) => isPriceChange(periodCharges[i], charge));
+    const flatPriced = periodCharges.length < 4 || changes.length / (periodCharges.length - 1) <= 0.5;
+
+    if (flatPriced) {
+        for (let i = 1; i < periodCharges.length; i++) {
+            const previous = periodCharges[i - 1];
+            const charge = periodCharges[i];
+            if (!isPriceChange(previous, charge)) continue;
+
+            const type: ChargeAlertType = charge.amount > previous.amount ? 'price_increase' : 'price_decrease';
+            anomalies.push({
+                type,
+                key: `${type}:${charge.id}`,
+                occurredAt: charge.date,
+                previousAmount: previous.amount,
+                newAmount: charge.amount,
+                currency: charge.currency,
+                transactions: [toAlertTransaction(previous), toAlertTransaction(charge)],
+            });
+        }
+    }
+
+    // The next charge is overdue
+    const last = periodCharges[periodCharges.length - 1];
+    const dueDate = new Date(last.date.getTime() + cadence.days * DAY_MS);
+    if (options.expectCharges && now.getTime() - dueDate.getTime() > cadence.days * OVERDUE_SHARE * DAY_MS) {
+        anomalies.push({
+            type: 'missing_charge',
+            key: `missing_charge:${toDateKey(dueDate)}`,
+            occurredAt: dueDate,
+            previousAmount: last.amount,
+            newAmount: null,
+            currency: last.currency,
+            transactions: [toAlertTransaction(last)],
+        });
+    }
+
+    return anomalies;
+}
+
+/**
+ * Alert for a trial about to convert; the new amount is the price it converts at
+ */
+export function detectTrialEnding(
+    subscription: {
+        status: string;
+        trialStartedAt: Date | null;
+        trialEndsAt: Date | null;
+        amount: number | null;
+        currency: string;
+    },
+    timeZone: string = DEFAULT_TIMEZONE,
+    now: Date = new Date()
+): ChargeAnomaly | null {
+    if (!isTrialEndingSoon(subscription, timeZone, now)) return null;
+
+    const endsAt = subscription.trialEndsAt!;
+    return {
+        type: 'trial_ending',
+        key: `trial_ending:${toDateKey(endsAt)}`,
+        occurredAt: endsAt,
+        previousAmount: null,
+        newAmount: subscription.amount,
+        currency: subscription.currency,
+        transactions: [],
+    };
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+function toSummary(alert: {
+    id: string;
+    subscriptionId: string;
+    type: string;
+    occurredAt: Date;
+    previousAmount: { toString(): string } | null;
+    newAmount: { toString(): string } | null;
+    currency: string;
+    transactions: string;
+    status: string;
+    subscription: { vendor: { name: string } };
+}): ChargeAlertSummary {
+    return {
+        id: alert.id,
+        subscriptionId: alert.subscriptionId,
+        vendorName: alert.subscription.vendor.name,
+        type: alert.type as ChargeAlertType,
+        occurredAt: alert.occurredAt,
+        previousAmount: alert.previousAmount !== null ? parseFloat(alert.previousAmount.toString()) : null,
+        newAmount: alert.newAmount !== null ? parseFloat(alert.newAmount.toString()) : null,
+        currency: alert.currency,
+        transactions: JSON.parse(alert.transactions) as AlertTransaction[],
+        status: alert.status as ChargeAlertStatus,
+    };
+}
+
+/**
+ * Re-run detection for all of a user's subscriptions
+ * New anomalies are added, open alerts that no longer apply (a late charge
+ * arrived, an import was rolled back, a trial converted) are removed,
+ * dismissed alerts are kept
+ */
+export async function refreshChargeAlerts(userId: string): Promise<number> {
+    const [user, subscriptions] = await Promise.all([
+        prisma.user.findUnique({ where: { id: userId }, select: { timezone: true } }),
+        prisma.subscription.findMany({
+            where: { userId },
+            select: {
+                id: true,
+                vendorId: true,
+                source: true,
+                status: true,
+                trialStartedAt: true,
+                trialEndsAt: true,
+                amount: true,
+                currency: true,
+            },
+            orderBy: { createdAt: 'asc' },
+        }),
+    ]);
+
+    // One subscription per vendor carries the alerts; statement subscriptions come first
+    const byVendor = new Map<string, (typeof subscriptions)[number]>();
+    for (const subscription of subscriptions) {
+        const current = byVendor.get(subscription.vendorId);
+        if (!current || (subscription.source === 'csv' && current.source !== 'csv')) {
+            byVendor.set(subscription.vendorId, subscription);
+        }
+    }
+
+    const transactions = await prisma.transaction.findMany({
+        where: { userId, vendorId: { in: Array.from(byVendor.keys()) } },
+        select: { id: true, vendorId: true, date: true, amount: true, currency: true, kind: true },
+    });
+
+    const existing = await prisma.chargeAlert.findMany({
+        where: { userId },
+        select: { id: true, subscriptionId: true, key: true, status: true },
+    });
+
+    const detected = new Set<string>();
+    const toCreate: Array<ChargeAnomaly & { subscriptionId: string }> = [];
+
+    for (const [vendorId, subscription] of byVendor) {
+        const history = transactions
+            .filter(t => t.vendorId === vendorId)
+            .map(t => ({ ...t, amount: parseFloat(t.amount.toString()) }));
+
+        const anomalies = detectChargeAnomalies(history, {
+            expectCharges: subscription.status === 'active',
+        });
+
+        for (const anomaly of anomalies) {
+            detected.add(`${subscription.id}|${anomaly.key}`);
+            toCreate.push({ ...anomaly, subscriptionId: subscription.id });
+        }
+    }
+
+    // Trials are warned about per subscription, whichever source found them
+    const timeZone = user?.timezone || DEFAULT_TIMEZONE;
+    for (const subscription of subscriptions) {
+        const trialEnding = detectTrialEnding({
+            ...subscription,
+            amount: subscription.amount !== null ? parseFloat(subscription.amount.toString()) : null,
+        }, timeZone);
+        if (!trialEnding) continue;
+
+        detected.add(`${subscription.id}|${trialEnding.key}`);
+        toCreate.push({ ...trialEnding, subscriptionId: subscription.id });
+    }
+
+    const stale = existing.filter(a => a.status === 'open' && !detected.has(`${a.subscriptionId}|${a.key}`));
+
+    await prisma.$transaction([
+        prisma.chargeAlert.deleteMany({ where: { id: { in: stale.map(a => a.id) } } }),
+        prisma.chargeAlert.createMany({
+            data: toCreate.map(a => ({
+                userId,
+                subscriptionId: a.subscriptionId,
+                type: a.type,
+                key: a.key,
+                occurredAt: a.occurredAt,
+                previousAmount: a.previousAmount,
+                newAmount: a.newAmount,
+                currency: a.currency,
+                transactions: JSON.stringify(a.transactions),
+            })),
+            skipDuplicates: true,
+        }),
+    ]);
+
+    const known = new Set(existing.map(a => `${a.subscriptionId}|${a.key}`));
+    return toCreate.filter(a => !known.has(`${a.subscriptionId}|${a.key}`)).length;
+}
+
+/**
+ * Open alerts, newest first, optionally for one subscription
+ */
+export async function listChargeAlerts(
+    userId: string,
+    options: { subscriptionId?: string; includeDismissed?: boolean } = {}
+): Promise<ChargeAlertSummary[]> {
+    const alerts = await prisma.chargeAlert.findMany({
+        where: {
+            userId,
+            ...(options.subscriptionId ? { subscriptionId: options.subscriptionId } : {}),
+            ...(options.includeDismissed ? {} : { status: 'open' }),
+        },
+        include: { subscription: { include: { vendor: { select: { name: true } } } } },
+        orderBy: { occurredAt: 'desc' },
+    });
+
+    return alerts.map(toSummary);
+}
@@ -0,0 +1,119 @@
+/**
+ * Contract Terms
+ * Works out when a subscription's current term ends and the last day to
+ * cancel or renegotiate before an auto-renewal notice period closes.
+ */
+
+import {
+    CalendarDate,
+    DEFAULT_TIMEZONE,
+    addDays,
+    addMonths,
+    compareCalendarDates,
+    daysBetween,
+    fromDate,
+    toDate,
+    todayIn,
+} from './calendar-date';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ContractTerms {
+    renewalDate: Date | null;
+    contractStartDate: Date | null;
+    contractEndDate: Date | null;
+    termMonths: number | null;
+    autoRenew: boolean;
+    noticePeriodDays: number | null;
+}
+
+export interface ActionDeadline {
+    termEndDate: Date;         // The current term renews (or lapses) on this date
+    deadline: Date;            // Last day to cancel or renegotiate
+    daysUntilDeadline: number;
+    daysUntilTermEnd: number;
+    noticePeriodDays: number;
+    autoRenew: boolean;
+}
+
+// "Renewing soon" means the last day to act falls within this many days
+export const UPCOMING_WINDOW_DAYS = 30;
+
+// ============================================================================
+// TERM DATES
+// ============================================================================
+
+/**
+ * End of the term in force on `today`
+ * Auto-renewing contracts roll forward one term at a time past a stored end
+ * date; without contract dates the detected renewal date is the term end
+ */
+export function getCurrentTermEnd(
+    terms: ContractTerms,
+    today: CalendarDate = todayIn(DEFAULT_TIMEZONE)
+): Date | null {
+    const { contractStartDate, contractEndDate, termMonths, autoRenew } = terms;
+
+    // Terms are counted from the start date when there is one, so clamping in short months does not drift
+    let anchor: CalendarDate;
+    let offset: number;
+    if (contractEndDate) {
+        anchor = fromDate(contractEndDate);
+        offset = 0;
+    } else if (contractStartDate && termMonths) {
+        anchor = fromDate(contractStartDate);
+        offset = termMonths;
+    } else {
+        return terms.renewalDate;
+    }
+
+    let termEnd = addMonths(anchor, offset);
+    if (!autoRenew || !termMonths) return toDate(termEnd);
+
+    let periods = 0;
+    while (compareCalendarDates(termEnd, today) < 0) {
+        periods++;
+        termEnd = addMonths(anchor, offset + termMonths * periods);
+    }
+
+    return toDate(termEnd);
+}
+
+/**
+ * Last day to cancel or renegotiate the current term
+ * Days are counted from today in `timeZone`, the user's setting; returns null
+ * when there is no known term end or renewal date
+ */
+export function getActionDeadline(
+    terms: ContractTerms,
+    timeZone: string = DEFAULT_TIMEZONE,
+    now: Date = new Date()
+): ActionDeadline | null {
+    const today = todayIn(timeZone, now);
+    const termEndDate = getCurrentTermEnd(terms, today);
+    if (!termEndDate) return null;
+
+    // Notice only matters when the contract would otherwise renew itself
+    const noticePeriodDays = terms.autoRenew ? terms.noticePeriodDays || 0 : 0;
+    const termEnd = fromDate(termEndDate);
+    const deadline = addDays(termEnd, -noticePeriodDays);
+
+    return {
+        termEndDate,
+        deadline: toDate(deadline),
+        daysUntilDeadline: daysBetween(today, deadline),
+        daysUntilTermEnd: daysBetween(today, termEnd),
+        noticePeriodDays,
+        autoRenew: terms.autoRenew,
+    };
+}
+
+/**
+ * Whether a subscription belongs in "renewing soon" lists: the last day to act is
+ * within the window, or has passed while the term is still running
+ */
+export function isUpcomingDeadline(deadline: ActionDeadline | null, windowDays: number = UPCOMING_WINDOW_DAYS): boolean {
+    return !!deadline && deadline.daysUntilDeadline <= windowDays && deadline.daysUntilTermEnd >= 0;
+}
@@ -4,7 +4,10 @@
  */
 
 import Papa from 'papaparse';
+import { createHash } from 'crypto';
 import { detectSaaSVendor, isSaaSSubscription, normalizeVendorName } from './saas-vendors';
+import { normalizeDescriptor } from './merchant-normalization';
+import { dateOnly } from './calendar-date';
 
 export interface RawTransaction {
     date: string;
@@ -14,14 +17,28 @@ export interface RawTransaction {
     category?: string;
 }
 
+// What a statement row means for the vendor relationship
+// - charge: a regular billing-period payment
+// - proration: a mid-period plan change charge, not a new billing period
+// - refund / credit / chargeback: money back, netted against the vendor's charges
+export type TransactionKind = 'charge' | 'proration' | 'refund' | 'credit' | 'chargeback';
+
+// Which way money moved on a statement row
+// - charge: money out
+// - reversal: a negative row in a file where every row is a charge
+// - deposit: money in (salary, card payments, and unlabelled refunds)
+export type AmountDirection = 'charge' | 'reversal' | 'deposit';
+
 export interface ParsedTransaction {
     date: Date;
     vendorName: string;
     normalizedVendorName: string;
-    amount: number;
+    amount: number; // Always positive; `kind` gives the direction
+    kind: TransactionKind;
     rawDescription: string;
     isSaaS: boolean;
     category: string | null;
+    currency: string | null; // ISO code when the statement states it; null means the account currency
 }
 
 export interface CSVParseResult {
@@ -29,14 +46,64 @@ export interface CSVParseResult {
     errors: string[];
     totalRows: number;
     saasCount: number;
+    ambiguousRows: number[]; // Row numbers skipped because they read differently per locale
+    depositRows: number; // Money in without refund or credit wording (deposits, card payments), skipped
+}
+
+// How a single signed amount column encodes money out
+// - absolute: every row is a charge; negative rows are refunds of earlier charges
+// - negative_is_charge: bank style, charges are negative and deposits positive
+// - positive_is_charge: card style, charges are positive and payments/credits negative
+export type AmountSignConvention = 'absolute' | 'negative_is_charge' | 'positive_is_charge';
+
+// Locale conventions of a file; 'auto' detects them from the column values
+export type DateOrder = 'auto' | 'month_first' | 'day_first';
+export type DecimalSeparator = 'auto' | 'dot' | 'comma';
+
+export interface CSVLocale {
+    dateOrder: Exclude<DateOrder, 'auto'> | null;            // null when the file does not settle it
+    decimalSeparator: Exclude<DecimalSeparator, 'auto'> | null;
+}
+
+export interface ColumnMapping {
+    date: string;
+    description: string | null;
+    amount: string | null;   // Single amount column
+    debit: string | null;    // Separate money-out column (used instead of amount)
+    credit: string | null;   // Separate money-in column; rows with only a credit are skipped
+    vendor: string | null;
+    category: string | null;
+    amountSign: AmountSignConvention;
+    dateOrder?: DateOrder;               // Missing on profiles saved before locale support
+    decimalSeparator?: DecimalSeparator;
 }
 
+export type MappableField = 'date' | 'description' | 'amount' | 'vendor' | 'category';
+
+export interface CSVPreview {
+    headers: string[];
+    sampleRows: Record<string, string>[];
+    headerSignature: string;
+    detectedMapping: Omit<ColumnMapping, 'date'> & { date: string | null };
+    detectedLocale: CSVLocale;
+    missingFields: MappableField[];
+}
+
+// Outcome of reading a locale-dependent cell
+type LocaleParse<T> =
+    | { ok: true; value: T }
+    | { ok: false; ambiguous: boolean };
+
 // Common column name mappings
 const DATE_COLUMNS = ['date', 'transaction date', 'trans date', 'posted date', 'txn date'];
 const DESCRIPTION_COLUMNS = ['description', 'memo', 'name', 'payee', 'merchant', 'trans description'];
 const AMOUNT_COLUMNS = ['amount', 'debit', 'withdrawal', 'payment', 'charge'];
 const VENDOR_COLUMNS = ['vendor', 'payee', 'merchant', 'name'];
 const CATEGORY_COLUMNS = ['category', 'type', 'class'];
+const DEBIT_COLUMNS = ['debit', 'debit amount', 'withdrawal', 'withdrawals', 'money out', 'paid out'];
+const CREDIT_COLUMNS = ['credit', 'credit amount', 'deposit', 'deposits', 'money in', 'paid in'];
+
+const PREVIEW_SAMPLE_ROWS = 5;
 
 /**
  * Find the best matching column from CSV headers
@@ -62,59 +129,302 @@ function findColumn(headers: string[], candidates: string[]): string | null {
     return null;
 }
 
+// Descriptor patterns for money coming back and for plan changes
+const CHARGEBACK_PATTERN = /charge\s*-?\s*back|\bdispute/i;
+const REFUND_PATTERN = /\brefund|\breversal|\breversed|\breturn(ed)?\b/i;
+const CREDIT_PATTERN = /\bcredit\b(?!\s*card)|\bcr\s*adj|\bunused time\b/i;
+const PRORATION_PATTERN = /\bprorat|\bpro[\s-]rat|\bpartial (month|period)\b|\bremaining time\b|\bplan change\b/i;
+
+const CREDIT_KINDS: TransactionKind[] = ['refund', 'credit', 'chargeback'];
+
+// Symbols that identify a single currency; $ is shared by too many to count
+const CURRENCY_SYMBOLS: Record<string, string> = { '€': 'EUR', '£': 'GBP', '₹': 'INR', '¥': 'JPY' };
+
+const INVALID = { ok: false, ambiguous: false } as const;
+const AMBIGUOUS = { ok: false, ambiguous: true } as const;
+
+/**
+ * Strip currency codes, symbols and sign markers from an amount cell
+ * Handles $1,234.56, (1234.56), -1234.56, 1.234,56-, EUR 12,50, 1 234,56 kr
+ */
+function splitAmount(value: string): { digits: string; negative: boolean } | null {
+    let cleaned = value.trim().replace(/[^\d.,()+\-]/g, '');
+    let negative = false;
+
+    // Parentheses for negative numbers (accounting format)
+    if (cleaned.startsWith('(') && cleaned.endsWith(')')) {
+        cleaned = cleaned.slice(1, -1);
+        negative = true;
+    }
+
+    // Leading or trailing minus (trailing is common in European exports)
+    if (cleaned.startsWith('-')) {
+        cleaned = cleaned.slice(1);
+        negative = !negative;
+    } else if (cleaned.endsWith('-')) {
+        cleaned = cleaned.slice(0, -1);
+        negative = !negative;
+    } else if (cleaned.startsWith('+')) {
+        cleaned = cleaned.slice(1);
+    }
+
+    if (!/^\d[\d.,]*$/.test(cleaned) && !/^[.,]\d+$/.test(cleaned)) return null;
+
+    return { digits: cleaned, negative };
+}
+
+/**
+ * Work out which separator a single amount uses as its decimal point
+ * A lone separator followed by exactly three digits (1,234 or 1.234) could be either
+ */
+function inferDecimalSeparator(digits: string): 'dot' | 'comma' | 'none' | 'ambiguous' {
+    const lastDot = digits.lastIndexOf('.');
+    const lastComma = digits.lastIndexOf(',');
+
+    if (lastDot === -1 && lastComma === -1) return 'none';
+    if (lastDot !== -1 && lastComma !== -1) return lastDot > lastComma ? 'dot' : 'comma';
+
+    const separator = lastDot !== -1 ? '.' : ',';
+    const kind = separator === '.' ? 'dot' : 'comma';
+    const occurrences = digits.split(separator).length - 1;
+
+    // 1.234.567 - repeated separators are always thousands grouping
+    if (occurrences > 1) return kind === 'dot' ? 'comma' : 'dot';
+
+    const [whole, fraction] = digits.split(separator);
+    if (fraction.length !== 3 || whole === '' || whole === '0') return kind;
+
+    return 'ambiguous';
+}
+
+/**
+ * Read the currency stated in an amount cell ("EUR 12,50", "12.50 USD", "£9.99")
+ */
+function detectCurrencyCode(value: string | undefined): string | null {
+    if (!value) return null;
+
+    const code = value.match(/(?:^|[^A-Za-z])([A-Z]{3})(?![A-Za-z])/);
+    if (code) return code[1];
+
+    for (const [symbol, currency] of Object.entries(CURRENCY_SYMBOLS)) {
+        if (value.includes(symbol)) return currency;
+    }
+    return null;
+}
+
 /**
- * Parse amount string to number
- * Handles various formats: $1,234.56, (1234.56), -1234.56
+ * Parse an amount cell to a signed number using the file's decimal separator
+ * With an unknown separator, values like 1,234 are reported as ambiguous
  */
-function parseAmount(value: string | number): number {
+function parseAmount(
+    value: string | number | undefined,
+    decimalSeparator: CSVLocale['decimalSeparator']
+): LocaleParse<number> {
     if (typeof value === 'number') {
-        return Math.abs(value);
+        return { ok: true, value };
+    }
+    // Blank and placeholder cells ("", "-", "n/a") carry no amount
+    if (!value || !/\d/.test(value)) {
+        return { ok: true, value: 0 };
     }
 
-    // Remove currency symbols and whitespace
-    let cleaned = value.replace(/[$€£¥,\s]/g, '');
+    const parts = splitAmount(value);
+    if (!parts) return INVALID;
 
-    // Handle parentheses for negative numbers (accounting format)
-    if (cleaned.startsWith('(') && cleaned.endsWith(')')) {
-        cleaned = cleaned.slice(1, -1);
+    let decimal = decimalSeparator;
+    if (!decimal) {
+        const inferred = inferDecimalSeparator(parts.digits);
+        if (inferred === 'ambiguous') return AMBIGUOUS;
+        decimal = inferred === 'comma' ? 'comma' : 'dot';
     }
 
-    // Remove negative sign (we only care about absolute value for spending)
-    cleaned = cleaned.replace(/^-/, '');
+    // Drop thousands separators, then normalize the decimal point
+    const normalized = decimal === 'comma'
+        ? parts.digits.replace(/\./g, '').replace(',', '.')
+        : parts.digits.replace(/,/g, '');
+
+    if (!/^\d*\.?\d*$/.test(normalized)) return INVALID;
+
+    const amount = parseFloat(normalized);
+    if (isNaN(amount)) return INVALID;
+
+    return { ok: true, value: parts.negative ? -amount : amount };
+}
+
+/**
+ * Resolve a row's amount and money direction according to the column mapping
+ * Returns 0 for blank rows
+ */
+function resolveRowAmount(
+    row: Record<string, string>,
+    mapping: ColumnMapping,
+    decimalSeparator: CSVLocale['decimalSeparator']
+): LocaleParse<{ amount: number; direction: AmountDirection }> {
+    if (mapping.debit) {
+        const debit = parseAmount(row[mapping.debit], decimalSeparator);
+        if (!debit.ok) return debit;
+        if (debit.value !== 0 || !mapping.credit) {
+            return { ok: true, value: { amount: Math.abs(debit.value), direction: 'charge' } };
+        }
+
+        const credit = parseAmount(row[mapping.credit], decimalSeparator);
+        if (!credit.ok) return credit;
+        return { ok: true, value: { amount: Math.abs(credit.value), direction: 'deposit' } };
+    }
+
+    const parsed = parseAmount(mapping.amount ? row[mapping.amount] : undefined, decimalSeparator);
+    if (!parsed.ok) return parsed;
+
+    const amount = parsed.value;
+    let direction: AmountDirection;
+
+    switch (mapping.amountSign) {
+        case 'negative_is_charge':
+            direction = amount < 0 ? 'charge' : 'deposit';
+            break;
+        case 'positive_is_charge':
+            direction = amount > 0 ? 'charge' : 'deposit';
+            break;
+        case 'absolute':
+        default:
+            direction = amount < 0 ? 'reversal' : 'charge';
+    }
+
+    return { ok: true, value: { amount: Math.abs(amount), direction } };
+}
+
+/**
+ * Split a numeric date (12/31/2025, 31.12.2025, 31-12-25) into its parts
+ * Year-first ISO dates are not matched here; they are never ambiguous
+ */
+function matchNumericDate(value: string): { first: number; second: number; year: number; separator: string } | null {
+    const match = value.match(/^(\d{1,2})([/.\-])(\d{1,2})\2(\d{4}|\d{2})$/);
+    if (!match) return null;
+
+    const year = parseInt(match[4]);
+    return {
+        first: parseInt(match[1]),
+        second: parseInt(match[3]),
+        year: match[4].length === 2 ? 2000 + year : year,
+        separator: match[2],
+    };
+}
+
+/**
+ * Build a calendar date (UTC midnight), rejecting impossible days such as 02/30
+ */
+function buildDate(year: number, month: number, day: number): Date | null {
+    if (month < 1 || month > 12 || day < 1) return null;
 
-    const amount = parseFloat(cleaned);
-    return isNaN(amount) ? 0 : amount;
+    const date = dateOnly(year, month, day);
+    return date.getUTCMonth() === month - 1 ? date : null;
 }
 
 /**
  * Parse date string to Date object
- * Handles various formats: MM/DD/YYYY, YYYY-MM-DD, DD/MM/YYYY
+ * Handles YYYY-MM-DD, MM/DD/YYYY, DD/MM/YYYY, DD.MM.YYYY and textual dates.
+ * When the file's date order is unknown, a date valid both ways (03/04/2025) is ambiguous.
  */
-function parseDate(value: string): Date | null {
-    if (!value) return null;
+function parseDate(value: string, dateOrder: CSVLocale['dateOrder']): LocaleParse<Date> {
+    const trimmed = value?.trim();
+    if (!trimmed) return INVALID;
+
+    const parts = matchNumericDate(trimmed);
+    if (parts) {
+        const monthFirst = buildDate(parts.year, parts.first, parts.second);
+        const dayFirst = buildDate(parts.year, parts.second, parts.first);
+
+        if (dateOrder === 'month_first') return monthFirst ? { ok: true, value: monthFirst } : INVALID;
+        if (dateOrder === 'day_first') return dayFirst ? { ok: true, value: dayFirst } : INVALID;
+
+        if (monthFirst && dayFirst && parts.first !== parts.second) return AMBIGUOUS;
 
-    // Try ISO format first
-    const isoDate = new Date(value);
-    if (!isNaN(isoDate.getTime())) {
-        return isoDate;
+        const date = monthFirst || dayFirst;
+        return date ? { ok: true, value: date } : INVALID;
     }
 
-    // Try MM/DD/YYYY
-    const usMatch = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
-    if (usMatch) {
-        return new Date(parseInt(usMatch[3]), parseInt(usMatch[1]) - 1, parseInt(usMatch[2]));
+    // ISO and textual dates (2025-12-31, Dec 31 2025); only the calendar date is kept
+    const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (iso) {
+        const date = buildDate(parseInt(iso[1]), parseInt(iso[2]), parseInt(iso[3]));
+        return date ? { ok: true, value: date } : INVALID;
     }
 
-    // Try DD/MM/YYYY 
-    const euMatch = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
-    if (euMatch) {
-        // Prefer US format, but this handles edge cases
-        return new Date(parseInt(euMatch[3]), parseInt(euMatch[1]) - 1, parseInt(euMatch[2]));
+    const date = new Date(trimmed);
+    return isNaN(date.getTime())
+        ? INVALID
+        : { ok: true, value: dateOnly(date.getFullYear(), date.getMonth() + 1, date.getDate()) };
+}
+
+/**
+ * Detect the date order from a column's values
+ * A day above 12 settles it; dotted dates (31.12.2025) are day-first by convention
+ */
+function detectDateOrder(values: string[]): CSVLocale['dateOrder'] {
+    let dayFirst = false;
+    let monthFirst = false;
+    let dotted = false;
+
+    for (const value of values) {
+        const parts = value ? matchNumericDate(value.trim()) : null;
+        if (!parts) continue;
+
+        if (parts.first > 12 && parts.second <= 12) dayFirst = true;
+        if (parts.second > 12 && parts.first <= 12) monthFirst = true;
+        if (parts.separator === '.') dotted = true;
+    }
+
+    if (dayFirst !== monthFirst) return dayFirst ? 'day_first' : 'month_first';
+    if (!dayFirst && dotted) return 'day_first';
+    return null;
+}
+
+/**
+ * Detect the decimal separator from the amount columns' values
+ * Conflicting or missing evidence leaves it unresolved
+ */
+function detectDecimalSeparator(values: string[]): CSVLocale['decimalSeparator'] {
+    let dot = 0;
+    let comma = 0;
+
+    for (const value of values) {
+        const parts = value && /\d/.test(value) ? splitAmount(value) : null;
+        if (!parts) continue;
+
+        const inferred = inferDecimalSeparator(parts.digits);
+        if (inferred === 'dot') dot++;
+        if (inferred === 'comma') comma++;
     }
 
+    if (dot > 0 && comma === 0) return 'dot';
+    if (comma > 0 && dot === 0) return 'comma';
     return null;
 }
 
+/**
+ * Resolve the locale for a file: explicit mapping choices win, 'auto' is detected from the rows
+ */
+export function detectCSVLocale(
+    rows: Record<string, string>[],
+    mapping: Pick<ColumnMapping, 'amount' | 'debit' | 'credit' | 'dateOrder' | 'decimalSeparator'> & { date: string | null }
+): CSVLocale {
+    const columnValues = (column: string | null) => column ? rows.map(row => row[column]) : [];
+
+    const dateOrder = mapping.dateOrder && mapping.dateOrder !== 'auto'
+        ? mapping.dateOrder
+        : detectDateOrder(columnValues(mapping.date));
+
+    const decimalSeparator = mapping.decimalSeparator && mapping.decimalSeparator !== 'auto'
+        ? mapping.decimalSeparator
+        : detectDecimalSeparator([
+            ...columnValues(mapping.amount),
+            ...columnValues(mapping.debit),
+            ...columnValues(mapping.credit),
+        ]);
+
+    return { dateOrder, decimalSeparator };
+}
+
 /**
  * Extract vendor name from description
  */
@@ -124,37 +434,202 @@ function extractVendorName(description: string, explicitVendor?: string): string
         return explicitVendor.trim();
     }
 
-    // Check for known SaaS vendor
-    const saasVendor = detectSaaSVendor(description);
-    if (saasVendor) {
-        return saasVendor.name;
+    // Strip processor prefixes, reference numbers and locations from the card descriptor
+    return normalizeDescriptor(description).canonicalName;
+}
+
+/**
+ * Classify a statement row from its descriptor and money direction
+ * Returns null for money in that is not a refund (deposits, card payments)
+ */
+export function classifyTransaction(description: string, direction: AmountDirection): TransactionKind | null {
+    if (CHARGEBACK_PATTERN.test(description)) return 'chargeback';
+    if (REFUND_PATTERN.test(description)) return 'refund';
+    if (CREDIT_PATTERN.test(description)) return 'credit';
+
+    if (direction === 'reversal') return 'refund';
+    if (direction === 'deposit') return null;
+
+    return PRORATION_PATTERN.test(description) ? 'proration' : 'charge';
+}
+
+/**
+ * Whether a transaction gives money back (refund, credit or chargeback)
+ */
+export function isCreditKind(kind: string): boolean {
+    return CREDIT_KINDS.includes(kind as TransactionKind);
+}
+
+/**
+ * Amount with money back counted negative, for netting spend
+ */
+export function signedAmount(tx: { amount: number; kind: string }): number {
+    return isCreditKind(tx.kind) ? -tx.amount : tx.amount;
+}
+
+/**
+ * Build a ParsedTransaction from already-typed statement fields
+ * Shared by the CSV, OFX and QIF parsers so vendor detection stays identical
+ */
+export function createParsedTransaction(fields: {
+    date: Date;
+    description: string;
+    amount: number;
+    explicitVendor?: string;
+    category?: string | null;
+    currency?: string | null;
+    kind?: TransactionKind;
+}): ParsedTransaction {
+    const { date, description, amount, explicitVendor, category, currency, kind = 'charge' } = fields;
+
+    const vendorName = extractVendorName(description, explicitVendor);
+    const normalizedVendorName = normalizeVendorName(vendorName);
+
+    // Match on the merchant, not the processor it was paid through (PAYPAL *EBAY is not PayPal)
+    const { merchant } = normalizeDescriptor(description);
+    const isSaaS = isSaaSSubscription(merchant) || isSaaSSubscription(vendorName);
+
+    const saasVendor = detectSaaSVendor(merchant) || detectSaaSVendor(vendorName);
+
+    return {
+        date,
+        vendorName,
+        normalizedVendorName,
+        amount,
+        kind,
+        rawDescription: description,
+        isSaaS,
+        category: saasVendor?.category || category || null,
+        currency: currency || null,
+    };
+}
+
+/**
+ * Assemble the parse result returned by every statement parser
+ */
+export function buildParseResult(
+    transactions: ParsedTransaction[],
+    errors: string[],
+    totalRows: number,
+    ambiguousRows: number[] = [],
+    depositRows: number = 0
+): CSVParseResult {
+    const saasCount = transactions.filter(t => t.isSaaS).length;
+
+    return {
+        transactions,
+        errors: errors.slice(0, 10), // Limit error messages
+        totalRows,
+        saasCount,
+        ambiguousRows,
+        depositRows,
+    };
+}
+
+/**
+ * Stable signature of a CSV header row, used to auto-apply saved mapping profiles
+ */
+export function getHeaderSignature(headers: string[]): string {
+    const normalized = headers.map(h => h.toLowerCase().trim()).join('|');
+    return createHash('sha256').update(normalized).digest('hex');
+}
+
+/**
+ * Guess the column mapping from header names
+ */
+export function detectColumnMapping(headers: string[]): CSVPreview['detectedMapping'] {
+    const debit = findColumn(headers, DEBIT_COLUMNS);
+    const credit = findColumn(headers, CREDIT_COLUMNS);
+    // Separate debit/credit columns only make sense as a pair
+    const hasSplitAmounts = !!debit && !!credit && debit !== credit;
+
+    return {
+        date: findColumn(headers, DATE_COLUMNS),
+        description: findColumn(headers, DESCRIPTION_COLUMNS),
+        amount: hasSplitAmounts ? null : findColumn(headers, AMOUNT_COLUMNS),
+        debit: hasSplitAmounts ? debit : null,
+        credit: hasSplitAmounts ? credit : null,
+        vendor: findColumn(headers, VENDOR_COLUMNS),
+        category: findColumn(headers, CATEGORY_COLUMNS),
+        amountSign: 'absolute',
+        dateOrder: 'auto',
+        decimalSeparator: 'auto',
+    };
+}
+
+/**
+ * List the required fields a mapping does not cover
+ */
+function findMissingFields(mapping: CSVPreview['detectedMapping']): MappableField[] {
+    const missing: MappableField[] = [];
+    if (!mapping.date) missing.push('date');
+    if (!mapping.description && !mapping.vendor) missing.push('description');
+    if (!mapping.amount && !mapping.debit) missing.push('amount');
+    return missing;
+}
+
+/**
+ * Validate a user-supplied mapping against the file's headers
+ * Returns a list of problems; empty when the mapping is usable
+ */
+export function validateColumnMapping(mapping: ColumnMapping, headers: string[]): string[] {
+    const errors: string[] = [];
+    const missing = findMissingFields(mapping);
+
+    if (missing.includes('date')) errors.push('A date column is required');
+    if (missing.includes('description')) errors.push('A description or vendor column is required');
+    if (missing.includes('amount')) errors.push('An amount or debit column is required');
+
+    const mapped = [mapping.date, mapping.description, mapping.amount, mapping.debit, mapping.credit, mapping.vendor, mapping.category];
+    for (const column of mapped) {
+        if (column && !headers.includes(column)) {
+            errors.push(`Column "${column}" does not exist in this file`);
+        }
     }
 
-    // Extract vendor from description
-    // Remove common prefixes and suffixes
-    let vendor = description
-        .replace(/^(purchase|payment|debit|withdrawal|ach|wire|eft)\s*/i, '')
-        .replace(/\s*(recurring|subscription|monthly|annual|payment).*$/i, '')
-        .replace(/\s*\d{2}\/\d{2}.*$/, '') // Remove trailing dates
-        .replace(/\s*#\d+.*$/, '') // Remove reference numbers
-        .replace(/\s*\*+\d+.*$/, '') // Remove card numbers
-        .trim();
+    return errors;
+}
+
+/**
+ * Read headers and a few sample rows so the user can confirm the column mapping
+ * Locale detection looks at every row, since a single 31/12 settles the date order
+ */
+export function previewCSV(csvContent: string, mapping?: ColumnMapping): CSVPreview {
+    const result = Papa.parse<Record<string, string>>(csvContent.replace(/^\uFEFF/, ''), {
+        header: true,
+        skipEmptyLines: true,
+        transformHeader: (header) => header.trim(),
+    });
 
-    // Capitalize words
-    vendor = vendor
-        .split(' ')
-        .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
-        .join(' ');
+    const headers = result.meta.fields || [];
+    const baseMapping = mapping || detectColumnMapping(headers);
+    const detectedLocale = detectCSVLocale(result.data, baseMapping);
+    const detectedMapping: CSVPreview['detectedMapping'] = {
+        ...baseMapping,
+        dateOrder: detectedLocale.dateOrder || 'auto',
+        decimalSeparator: detectedLocale.decimalSeparator || 'auto',
+    };
 
-    return vendor || 'Unknown Vendor';
+    return {
+        headers,
+        sampleRows: result.data.slice(0, PREVIEW_SAMPLE_ROWS),
+        headerSignature: getHeaderSignature(headers),
+        detectedMapping,
+        detectedLocale,
+        missingFields: findMissingFields(detectedMapping),
+    };
 }
 
 /**
  * Parse CSV file content
+ * Uses the given column mapping, or falls back to guessing from header names.
+ * Rows whose date or amount reads differently per locale are reported, not guessed.
  */
-export function parseCSV(csvContent: string): CSVParseResult {
+export function parseCSV(csvContent: string, mapping?: ColumnMapping): CSVParseResult {
     const errors: string[] = [];
     const transactions: ParsedTransaction[] = [];
+    const ambiguousRows: number[] = [];
+    let depositRows = 0;
 
     // Parse CSV with Papa Parse
     const result = Papa.parse<Record<string, string>>(csvContent, {
@@ -170,77 +645,85 @@ export function parseCSV(csvContent: string): CSVParseResult {
     const headers = result.meta.fields || [];
 
     // Find column mappings
-    const dateCol = findColumn(headers, DATE_COLUMNS);
-    const descCol = findColumn(headers, DESCRIPTION_COLUMNS);
-    const amountCol = findColumn(headers, AMOUNT_COLUMNS);
-    const vendorCol = findColumn(headers, VENDOR_COLUMNS);
-    const categoryCol = findColumn(headers, CATEGORY_COLUMNS);
+    const columns = mapping || detectColumnMapping(headers);
 
-    if (!dateCol) {
+    if (!columns.date) {
         errors.push('Could not find date column');
-        return { transactions: [], errors, totalRows: result.data.length, saasCount: 0 };
+        return { transactions: [], errors, totalRows: result.data.length, saasCount: 0, ambiguousRows, depositRows };
     }
 
-    if (!descCol && !vendorCol) {
+    if (!columns.description && !columns.vendor) {
         errors.push('Could not find description or vendor column');
-        return { transactions: [], errors, totalRows: result.data.length, saasCount: 0 };
+        return { transactions: [], errors, totalRows: result.data.length, saasCount: 0, ambiguousRows, depositRows };
     }
 
-    if (!amountCol) {
+    if (!columns.amount && !columns.debit) {
         errors.push('Could not find amount column');
-        return { transactions: [], errors, totalRows: result.data.length, saasCount: 0 };
+        return { transactions: [], errors, totalRows: result.data.length, saasCount: 0, ambiguousRows, depositRows };
     }
 
+    const resolvedColumns = columns as ColumnMapping;
+    const locale = detectCSVLocale(result.data, resolvedColumns);
+
     // Process each row
     for (let i = 0; i < result.data.length; i++) {
         const row = result.data[i];
 
         try {
-            const dateStr = row[dateCol!];
-            const description = descCol ? row[descCol] || '' : '';
-            const amountStr = row[amountCol!];
-            const explicitVendor = vendorCol ? row[vendorCol] : undefined;
-            const category = categoryCol ? row[categoryCol] : null;
-
-            const date = parseDate(dateStr);
-            if (!date) {
-                errors.push(`Row ${i + 2}: Invalid date "${dateStr}"`);
+            const dateStr = row[resolvedColumns.date];
+            const description = resolvedColumns.description ? row[resolvedColumns.description] || '' : '';
+            const explicitVendor = resolvedColumns.vendor ? row[resolvedColumns.vendor] : undefined;
+            const category = resolvedColumns.category ? row[resolvedColumns.category] : null;
+
+            const date = parseDate(dateStr, locale.dateOrder);
+            if (!date.ok) {
+                if (date.ambiguous) {
+                    ambiguousRows.push(i + 2);
+                    errors.push(`Row ${i + 2}: Ambiguous date "${dateStr}" (day-first or month-first)`);
+                } else {
+                    errors.push(`Row ${i + 2}: Invalid date "${dateStr}"`);
+                }
                 continue;
             }
 
-            const amount = parseAmount(amountStr);
-            if (amount === 0) {
-                continue; // Skip zero amount transactions
+            const amount = resolveRowAmount(row, resolvedColumns, locale.decimalSeparator);
+            if (!amount.ok) {
+                if (amount.ambiguous) {
+                    ambiguousRows.push(i + 2);
+                    errors.push(`Row ${i + 2}: Ambiguous amount (decimal point or thousands separator)`);
+                } else {
+                    errors.push(`Row ${i + 2}: Invalid amount`);
+                }
+                continue;
+            }
+            if (amount.value.amount === 0) {
+                continue; // Skip zero amount rows
+            }
+
+            const rowDescription = description || explicitVendor || '';
+            const kind = classifyTransaction(rowDescription, amount.value.direction);
+            if (!kind) {
+                depositRows++; // Deposits and payments that are not refunds
+                continue;
             }
 
-            const vendorName = extractVendorName(description, explicitVendor);
-            const normalizedVendorName = normalizeVendorName(vendorName);
-            const isSaaS = isSaaSSubscription(description) || isSaaSSubscription(vendorName);
-
-            const saasVendor = detectSaaSVendor(description) || detectSaaSVendor(vendorName);
-
-            transactions.push({
-                date,
-                vendorName,
-                normalizedVendorName,
-                amount,
-                rawDescription: description,
-                isSaaS,
-                category: saasVendor?.category || category,
-            });
+            const amountColumn = resolvedColumns.debit || resolvedColumns.amount;
+
+            transactions.push(createParsedTransaction({
+                date: date.value,
+                description: rowDescription,
+                amount: amount.value.amount,
+                kind,
+                explicitVendor,
+                category,
+                currency: detectCurrencyCode(amountColumn ? row[amountColumn] : undefined),
+            }));
         } catch (err) {
             errors.push(`Row ${i + 2}: ${err instanceof Error ? err.message : 'Unknown error'}`);
         }
     }
 
-    const saasCount = transactions.filter(t => t.isSaaS).length;
-
-    return {
-        transactions,
-        errors: errors.slice(0, 10), // Limit error messages
-        totalRows: result.data.length,
-        saasCount,
-    };
+    return buildParseResult(transactions, errors, result.data.length, ambiguousRows, depositRows);
 }
 
 /**
@@ -265,11 +748,14 @@ export function groupByVendor(transactions: ParsedTransaction[]): Map<string, Pa
 export interface VendorSummary {
     vendorName: string;
     normalizedName: string;
-    totalAmount: number;
+    totalAmount: number;     // Net spend: charges and prorations less money back
+    refundedAmount: number;  // Refunds, credits and chargebacks netted out of totalAmount
     transactionCount: number;
+    chargeCount: number;     // Regular billing-period charges
+    prorationCount: number;  // Plan-change charges
     firstDate: Date;
     lastDate: Date;
-    averageAmount: number;
+    averageAmount: number;   // Average regular charge
     isSaaS: boolean;
     category: string | null;
 }
@@ -280,16 +766,24 @@ export function calculateVendorSummaries(transactions: ParsedTransaction[]): Ven
 
     for (const [normalizedName, txs] of groups) {
         const sortedTxs = [...txs].sort((a, b) => a.date.getTime() - b.date.getTime());
-        const totalAmount = txs.reduce((sum: number, tx: ParsedTransaction) => sum + tx.amount, 0);
+        const charges = txs.filter(tx => tx.kind === 'charge');
+        const totalAmount = txs.reduce((sum: number, tx: ParsedTransaction) => sum + signedAmount(tx), 0);
+        const refundedAmount = txs
+            .filter(tx => isCreditKind(tx.kind))
+            .reduce((sum: number, tx: ParsedTransaction) => sum + tx.amount, 0);
+        const chargeTotal = charges.reduce((sum: number, tx: ParsedTransaction) => sum + tx.amount, 0);
 
         summaries.push({
             vendorName: txs[0].vendorName,
             normalizedName,
             totalAmount,
+            refundedAmount,
             transactionCount: txs.length,
+            chargeCount: charges.length,
+            prorationCount: txs.filter(tx => tx.kind === 'proration').length,
             firstDate: sortedTxs[0].date,
             lastDate: sortedTxs[sortedTxs.length - 1].date,
-            averageAmount: totalAmount / txs.length,
+            averageAmount: charges.length > 0 ? chargeTotal / charges.length : 0,
             isSaaS: txs.some((tx: ParsedTransaction) => tx.isSaaS),
             category: txs.find((tx: ParsedTransaction) => tx.category)?.category || null,
         });
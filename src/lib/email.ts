@@ -1,11 +1,12 @@
 /**
  * Email Service
- * Primary: Gmail API (for authenticated users)
+ * Primary: Gmail API, then Microsoft Graph (for authenticated users)
  * Fallback: SMTP via Nodemailer
  */
 
 import nodemailer from 'nodemailer';
 import { sendGmailEmail, hasGmailConnected, GmailSendResult } from './gmail';
+import { sendOutlookEmail, hasOutlookConnected, OutlookSendResult } from './outlook';
 
 export interface EmailOptions {
     to: string;
@@ -18,7 +19,7 @@ export interface EmailResult {
     success: boolean;
     messageId?: string;
     error?: string;
-    method?: 'gmail' | 'smtp';
+    method?: 'gmail' | 'outlook' | 'smtp';
 }
 
 /**
@@ -77,9 +78,9 @@ async function sendViaSMTP(options: EmailOptions): Promise<EmailResult> {
 }
 
 /**
- * Send email - tries Gmail API first, falls back to SMTP
+ * Send email - tries Gmail API first, then Outlook via Graph, falls back to SMTP
  * @param options Email options (to, subject, body, from)
- * @param userId Optional user ID for Gmail API authentication
+ * @param userId Optional user ID for Gmail / Graph authentication
  */
 export async function sendEmail(options: EmailOptions, userId?: string): Promise<EmailResult> {
     // Try Gmail API first if user is authenticated
@@ -94,7 +95,20 @@ export async function sendEmail(options: EmailOptions, userId?: string): Promise
                     method: 'gmail',
                 };
             }
-            console.warn('Gmail send failed, falling back to SMTP:', gmailResult.error);
+            console.warn('Gmail send failed, trying the next method:', gmailResult.error);
+        }
+
+        const hasOutlook = await hasOutlookConnected(userId);
+        if (hasOutlook) {
+            const outlookResult: OutlookSendResult = await sendOutlookEmail(userId, options);
+            if (outlookResult.success) {
+                return {
+                    success: true,
+                    messageId: outlookResult.messageId,
+                    method: 'outlook',
+                };
+            }
+            console.warn('Outlook send failed, falling back to SMTP:', outlookResult.error);
         }
     }
 
@@ -105,7 +119,7 @@ export async function sendEmail(options: EmailOptions, userId?: string): Promise
 
     return {
         success: false,
-        error: 'No email method available. Configure Gmail OAuth or SMTP.',
+        error: 'No email method available. Connect Gmail or Outlook, or configure SMTP.',
     };
 }
 
@@ -131,6 +145,8 @@ export async function isAnyEmailMethodAvailable(userId?: string): Promise<boolea
     if (userId) {
         const hasGmail = await hasGmailConnected(userId);
         if (hasGmail) return true;
+        const hasOutlook = await hasOutlookConnected(userId);
+        if (hasOutlook) return true;
     }
     return isEmailConfigured();
 }
@@ -0,0 +1,341 @@
+/**
+ * Encryption at Rest
+ * Envelope encryption for OAuth tokens, IMAP passwords, stored email bodies,
+ * invoice attachment text and the extracted fields held for review.
+ * Every value gets its own random data key (AES-256-GCM), and the data key is
+ * wrapped with a key-encryption key from DATA_ENCRYPTION_KEYS. Rows record which
+ * key wrapped their values, so a new key can be added and old rows re-wrapped
+ * with reencryptStoredSecrets() without touching the ciphertext.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import prisma from './prisma';
+
+// ============================================================================
+// LOGGING
+// ============================================================================
+const LOG_PREFIX = '[Encryption]';
+
+function log(message: string, data?: Record<string, unknown>) {
+    const timestamp = new Date().toISOString();
+    if (data) {
+        console.log(`${timestamp} ${LOG_PREFIX} ${message}`, JSON.stringify(data, null, 2));
+    } else {
+        console.log(`${timestamp} ${LOG_PREFIX} ${message}`);
+    }
+}
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const FORMAT_VERSION = 'v1';
+
+interface KeyRing {
+    keys: Map<string, Buffer>;
+    activeKeyId: string | null;
+}
+
+let keyRing: KeyRing | null = null;
+let warnedUnencrypted = false;
+
+/**
+ * Parse DATA_ENCRYPTION_KEYS ("keyId:base64Key,...") once
+ * New values are wrapped with DATA_ENCRYPTION_KEY_ID, or the first key listed;
+ * the others stay available for reading rows that have not been re-wrapped yet
+ */
+function getKeyRing(): KeyRing {
+    if (keyRing) return keyRing;
+
+    const keys = new Map<string, Buffer>();
+    for (const entry of (process.env.DATA_ENCRYPTION_KEYS || '').split(',')) {
+        const trimmed = entry.trim();
+        if (!trimmed) continue;
+
+        const separator = trimmed.indexOf(':');
+        const keyId = trimmed.slice(0, separator);
+        const key = Buffer.from(trimmed.slice(separator + 1), 'base64');
+        if (separator <= 0 || key.length !== KEY_BYTES) {
+            throw new Error(`DATA_ENCRYPTION_KEYS entries must be "keyId:base64" with a ${KEY_BYTES}-byte key`);
+        }
+        keys.set(keyId, key);
+    }
+
+    const activeKeyId = process.env.DATA_ENCRYPTION_KEY_ID || keys.keys().next().value || null;
+    if (activeKeyId && !keys.has(activeKeyId)) {
+        throw new Error(`DATA_ENCRYPTION_KEY_ID "${activeKeyId}" is not in DATA_ENCRYPTION_KEYS`);
+    }
+
+    keyRing = { keys, activeKeyId };
+    return keyRing;
+}
+
+function getKey(keyId: string): Buffer {
+    const key = getKeyRing().keys.get(keyId);
+    if (!key) {
+        throw new Error(`Encryption key "${keyId}" is not configured in DATA_ENCRYPTION_KEYS`);
+    }
+    return key;
+}
+
+/**
+ * Key new values are encrypted with; null when encryption is not configured
+ */
+export function getActiveKeyId(): string | null {
+    return getKeyRing().activeKeyId;
+}
+
+// ============================================================================
+// ENVELOPES
+// ============================================================================
+
+function seal(key: Buffer, plaintext: Buffer): { iv: Buffer; tag: Buffer; ciphertext: Buffer } {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv(ALGORITHM, key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+function unseal(key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer): Buffer {
+    const decipher = createDecipheriv(ALGORITHM, key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+/**
+ * An envelope is "v1.<wrap iv>.<wrap tag>.<wrapped data key>.<iv>.<tag>.<ciphertext>", base64 parts
+ */
+function parseEnvelope(value: string) {
+    const parts = value.split('.');
+    if (parts.length !== 7 || parts[0] !== FORMAT_VERSION) {
+        throw new Error('Stored value is not an encryption envelope');
+    }
+    const [wrapIv, wrapTag, wrappedKey, iv, tag, ciphertext] = parts.slice(1).map(part => Buffer.from(part, 'base64'));
+    return { wrapIv, wrapTag, wrappedKey, iv, tag, ciphertext };
+}
+
+function formatEnvelope(parts: Buffer[]): string {
+    return [FORMAT_VERSION, ...parts.map(part => part.toString('base64'))].join('.');
+}
+
+function encryptValue(plaintext: string, keyId: string): string {
+    const dataKey = randomBytes(KEY_BYTES);
+    const wrapped = seal(getKey(keyId), dataKey);
+    const sealed = seal(dataKey, Buffer.from(plaintext, 'utf-8'));
+    return formatEnvelope([wrapped.iv, wrapped.tag, wrapped.ciphertext, sealed.iv, sealed.tag, sealed.ciphertext]);
+}
+
+function unwrapDataKey(envelope: ReturnType<typeof parseEnvelope>, keyId: string): Buffer {
+    return unseal(getKey(keyId), envelope.wrapIv, envelope.wrapTag, envelope.wrappedKey);
+}
+
+/**
+ * Move a value to another key-encryption key; only the data key is re-wrapped
+ */
+function rewrapValue(value: string, fromKeyId: string, toKeyId: string): string {
+    const envelope = parseEnvelope(value);
+    const wrapped = seal(getKey(toKeyId), unwrapDataKey(envelope, fromKeyId));
+    return formatEnvelope([wrapped.iv, wrapped.tag, wrapped.ciphertext, envelope.iv, envelope.tag, envelope.ciphertext]);
+}
+
+/**
+ * Storing plaintext is a development opt-in (ALLOW_UNENCRYPTED_STORAGE=true) and
+ * never allowed in production, so a deploy missing its keys fails loudly
+ */
+function allowsUnencryptedStorage(): boolean {
+    return process.env.NODE_ENV !== 'production' && process.env.ALLOW_UNENCRYPTED_STORAGE === 'true';
+}
+
+/**
+ * Encrypt the given columns of one row with the active key
+ * Returns them with the row's encryptionKeyId; every encrypted column of a row
+ * must be written together so they share that key. Without configured keys this
+ * throws, unless unencrypted storage is allowed: then the values are stored as
+ * they are and encryptionKeyId is null
+ */
+export function encryptFields<T extends Record<string, string | null | undefined>>(
+    fields: T
+): T & { encryptionKeyId: string | null } {
+    const keyId = getActiveKeyId();
+    if (!keyId) {
+        if (!allowsUnencryptedStorage()) {
+            throw new Error('DATA_ENCRYPTION_KEYS is not set; refusing to store secrets and email bodies unencrypted');
+        }
+        if (!warnedUnencrypted) {
+            console.warn(`${LOG_PREFIX} ALLOW_UNENCRYPTED_STORAGE is set; secrets and email bodies are stored unencrypted`);
+            warnedUnencrypted = true;
+        }
+        return { ...fields, encryptionKeyId: null };
+    }
+
+    const encrypted: Record<string, string | null | undefined> = {};
+    for (const [name, value] of Object.entries(fields)) {
+        encrypted[name] = typeof value === 'string' ? encryptValue(value, keyId) : value;
+    }
+    return { ...(encrypted as T), encryptionKeyId: keyId };
+}
+
+/**
+ * Read a column written by encryptFields; rows without a key ID predate encryption
+ */
+export function decryptField(value: string, keyId: string | null): string;
+export function decryptField(value: string | null, keyId: string | null): string | null;
+export function decryptField(value: string | null, keyId: string | null): string | null {
+    if (value === null || !keyId) return value;
+
+    const envelope = parseEnvelope(value);
+    return unseal(unwrapDataKey(envelope, keyId), envelope.iv, envelope.tag, envelope.ciphertext).toString('utf-8');
+}
+
+// ============================================================================
+// RE-ENCRYPTION
+// ============================================================================
+
+export interface ReencryptionResult {
+    activeKeyId: string;
+    oauthTokens: number;
+    imapAccounts: number;
+    gmailMessages: number;
+    gmailAttachments: number;
+    extractionReviews: number;
+    reprocessProposals: number;
+    remaining: number; // Rows still on an older key or unencrypted; run again until 0
+}
+
+/**
+ * Encrypt rows stored before encryption was turned on and re-wrap rows whose
+ * key is not the active one. Works in batches until `deadline` so it fits in a
+ * request; each row is updated only if its key has not changed meanwhile
+ */
+export async function reencryptStoredSecrets(options: { deadline: number; batchSize?: number }): Promise<ReencryptionResult> {
+    const { deadline, batchSize = 200 } = options;
+    const activeKeyId = getActiveKeyId();
+    if (!activeKeyId) {
+        throw new Error('DATA_ENCRYPTION_KEYS is not set; there is no key to encrypt with');
+    }
+
+    const outdated = { OR: [{ encryptionKeyId: null }, { encryptionKeyId: { not: activeKeyId } }] };
+    const move = (value: string | null, keyId: string | null) => {
+        if (value === null) return null;
+        return keyId ? rewrapValue(value, keyId, activeKeyId) : encryptValue(value, activeKeyId);
+    };
+
+    const result: ReencryptionResult = {
+        activeKeyId,
+        oauthTokens: 0,
+        imapAccounts: 0,
+        gmailMessages: 0,
+        gmailAttachments: 0,
+        extractionReviews: 0,
+        reprocessProposals: 0,
+        remaining: 0,
+    };
+
+    while (Date.now() < deadline) {
+        const tokens = await prisma.oAuthToken.findMany({
+            where: outdated,
+            select: { id: true, accessToken: true, refreshToken: true, encryptionKeyId: true },
+            take: batchSize,
+        });
+        for (const token of tokens) {
+            const { count } = await prisma.oAuthToken.updateMany({
+                where: { id: token.id, encryptionKeyId: token.encryptionKeyId },
+                data: {
+                    accessToken: move(token.accessToken, token.encryptionKeyId)!,
+                    refreshToken: move(token.refreshToken, token.encryptionKeyId),
+                    encryptionKeyId: activeKeyId,
+                },
+            });
+            result.oauthTokens += count;
+        }
+
+        const accounts = await prisma.imapAccount.findMany({
+            where: outdated,
+            select: { id: true, password: true, encryptionKeyId: true },
+            take: batchSize,
+        });
+        for (const account of accounts) {
+            const { count } = await prisma.imapAccount.updateMany({
+                where: { id: account.id, encryptionKeyId: account.encryptionKeyId },
+                data: { password: move(account.password, account.encryptionKeyId)!, encryptionKeyId: activeKeyId },
+            });
+            result.imapAccounts += count;
+        }
+
+        const messages = await prisma.gmailMessage.findMany({
+            where: outdated,
+            select: { id: true, body: true, encryptionKeyId: true },
+            take: batchSize,
+        });
+        for (const message of messages) {
+            const { count } = await prisma.gmailMessage.updateMany({
+                where: { id: message.id, encryptionKeyId: message.encryptionKeyId },
+                data: { body: move(message.body, message.encryptionKeyId), encryptionKeyId: activeKeyId },
+            });
+            result.gmailMessages += count;
+        }
+
+        const attachments = await prisma.gmailAttachment.findMany({
+            where: outdated,
+            select: { id: true, text: true, encryptionKeyId: true },
+            take: batchSize,
+        });
+        for (const attachment of attachments) {
+            const { count } = await prisma.gmailAttachment.updateMany({
+                where: { id: attachment.id, encryptionKeyId: attachment.encryptionKeyId },
+                data: { text: move(attachment.text, attachment.encryptionKeyId), encryptionKeyId: activeKeyId },
+            });
+            result.gmailAttachments += count;
+        }
+
+        const reviews = await prisma.extractionReview.findMany({
+            where: outdated,
+            select: { id: true, fields: true, encryptionKeyId: true },
+            take: batchSize,
+        });
+        for (const review of reviews) {
+            const { count } = await prisma.extractionReview.updateMany({
+                where: { id: review.id, encryptionKeyId: review.encryptionKeyId },
+                data: { fields: move(review.fields, review.encryptionKeyId)!, encryptionKeyId: activeKeyId },
+            });
+            result.extractionReviews += count;
+        }
+
+        const proposals = await prisma.reprocessProposal.findMany({
+            where: outdated,
+            select: { id: true, fields: true, changes: true, encryptionKeyId: true },
+            take: batchSize,
+        });
+        for (const proposal of proposals) {
+            const { count } = await prisma.reprocessProposal.updateMany({
+                where: { id: proposal.id, encryptionKeyId: proposal.encryptionKeyId },
+                data: {
+                    fields: move(proposal.fields, proposal.encryptionKeyId)!,
+                    changes: move(proposal.changes, proposal.encryptionKeyId)!,
+                    encryptionKeyId: activeKeyId,
+                },
+            });
+            result.reprocessProposals += count;
+        }
+
+        const batchRows = tokens.length + accounts.length + messages.length +
+            attachments.length + reviews.length + proposals.length;
+        if (batchRows === 0) break;
+    }
+
+    const counts = await Promise.all([
+        prisma.oAuthToken.count({ where: outdated }),
+        prisma.imapAccount.count({ where: outdated }),
+        prisma.gmailMessage.count({ where: outdated }),
+        prisma.gmailAttachment.count({ where: outdated }),
+        prisma.extractionReview.count({ where: outdated }),
+        prisma.reprocessProposal.count({ where: outdated }),
+    ]);
+    result.remaining = counts.reduce((sum, count) => sum + count, 0);
+
+    log(`Re-encryption pass finished`, { ...result });
+    return result;
+}
@@ -0,0 +1,212 @@
+/**
+ * Extraction Review Queue
+ * Low and medium confidence email extractions wait here instead of becoming
+ * subscriptions. A reviewer accepts them (optionally after editing the fields)
+ * or rejects them; rejecting labels the message "not a subscription" and can
+ * block its sender so later mail from it is never sent for extraction.
+ */
+
+import prisma from './prisma';
+import { decryptField, encryptFields } from './encryption';
+import { refreshChargeAlerts } from './charge-alerts';
+import { applyEmailExtraction, EmailExtraction, MailboxKind } from './mailbox';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ExtractionReviewStatus = 'pending' | 'accepted' | 'rejected';
+
+export type ExtractionReviewResult<T> =
+    | { success: true; data: T }
+    | { success: false; error: string; status: number };
+
+/**
+ * A queued extraction with the email it came from
+ */
+export interface ExtractionReviewItem {
+    id: string;
+    confidence: string;
+    fields: EmailExtraction;
+    source: string;
+    createdAt: Date;
+    message: {
+        subject: string | null;
+        sender: string | null;
+        senderDomain: string | null;
+        snippet: string | null;
+        date: Date | null;
+    };
+}
+
+// Fields a reviewer may correct before accepting
+export type ExtractionEdits = Partial<Pick<EmailExtraction,
+    'vendorName' | 'amount' | 'currency' | 'billingCycle' | 'plan' | 'seats' | 'renewalDate' | 'trialEndDate'
+>>;
+
+// ============================================================================
+// QUEUE
+// ============================================================================
+
+export async function listPendingReviews(userId: string): Promise<ExtractionReviewItem[]> {
+    const reviews = await prisma.extractionReview.findMany({
+        where: { userId, status: 'pending' },
+        include: {
+            message: {
+                select: { subject: true, sender: true, senderDomain: true, snippet: true, date: true },
+            },
+        },
+        orderBy: { createdAt: 'desc' },
+    });
+
+    return reviews.map(review => ({
+        id: review.id,
+        confidence: review.confidence,
+        fields: JSON.parse(decryptField(review.fields, review.encryptionKeyId)) as EmailExtraction,
+        source: review.source,
+        createdAt: review.createdAt,
+        message: review.message,
+    }));
+}
+
+export async function countPendingReviews(userId: string): Promise<number> {
+    return prisma.extractionReview.count({ where: { userId, status: 'pending' } });
+}
+
+async function findPendingReview(userId: string, reviewId: string) {
+    return prisma.extractionReview.findFirst({
+        where: { id: reviewId, userId, status: 'pending' },
+        include: { message: { select: { senderDomain: true, date: true } } },
+    });
+}
+
+// ============================================================================
+// DECISIONS
+// ============================================================================
+
+/**
+ * Accept an extraction, with the reviewer's corrections, as a subscription
+ */
+export async function acceptExtractionReview(
+    userId: string,
+    reviewId: string,
+    edits: ExtractionEdits = {}
+): Promise<ExtractionReviewResult<{ subscriptionId: string | null; vendorCreated: boolean }>> {
+    const review = await findPendingReview(userId, reviewId);
+    if (!review) {
+        return { success: false, error: 'Review item not found', status: 404 };
+    }
+
+    const proposed = JSON.parse(decryptField(review.fields, review.encryptionKeyId)) as EmailExtraction;
+    // A person has checked the fields, so they are as good as a high confidence read
+    const fields: EmailExtraction = { ...proposed, ...edits, confidence: 'high' };
+
+    // Claim the item first so a double submit cannot create the subscription twice
+    const claimed = await prisma.extractionReview.updateMany({
+        where: { id: review.id, status: 'pending' },
+        data: { status: 'accepting' },
+    });
+    if (claimed.count === 0) {
+        return { success: false, error: 'Review item was already handled', status: 409 };
+    }
+
+    let applied: { subscriptionId: string | null; vendorCreated: boolean };
+    try {
+        applied = await applyEmailExtraction(fields, {
+            userId,
+            messageId: review.gmailId,
+            senderDomain: review.message.senderDomain || '',
+            receivedAt: review.message.date || review.createdAt,
+            source: review.source as MailboxKind,
+            invoiceAttachmentId: review.invoiceAttachmentId,
+        });
+    } catch (error) {
+        await prisma.extractionReview.update({ where: { id: review.id }, data: { status: 'pending' } });
+        throw error;
+    }
+
+    await prisma.extractionReview.update({
+        where: { id: review.id },
+        data: {
+            status: 'accepted',
+            ...encryptFields({ fields: JSON.stringify(fields) }),
+            subscriptionId: applied.subscriptionId,
+            reviewedAt: new Date(),
+        },
+    });
+
+    if (applied.subscriptionId) {
+        await refreshChargeAlerts(userId);
+    }
+
+    return { success: true, data: applied };
+}
+
+/**
+ * Reject an extraction and label its message "not a subscription"
+ * With blockSender, the sender's domain is blocked and its other pending
+ * items are rejected too
+ */
+export async function rejectExtractionReview(
+    userId: string,
+    reviewId: string,
+    options: { blockSender?: boolean } = {}
+): Promise<ExtractionReviewResult<{ rejected: number; blockedDomain: string | null }>> {
+    const review = await findPendingReview(userId, reviewId);
+    if (!review) {
+        return { success: false, error: 'Review item not found', status: 404 };
+    }
+
+    const blockedDomain = options.blockSender ? review.message.senderDomain : null;
+
+    const rejected = await prisma.$transaction(async (tx) => {
+        const pending = await tx.extractionReview.findMany({
+            where: blockedDomain
+                ? { userId, status: 'pending', message: { senderDomain: blockedDomain } }
+                : { id: review.id },
+            select: { id: true, gmailId: true },
+        });
+
+        await tx.extractionReview.updateMany({
+            where: { id: { in: pending.map(p => p.id) }, status: 'pending' },
+            data: { status: 'rejected', reviewedAt: new Date() },
+        });
+        await tx.gmailMessage.updateMany({
+            where: { gmailId: { in: pending.map(p => p.gmailId) } },
+            data: { notSubscription: true },
+        });
+
+        if (blockedDomain) {
+            await tx.blockedSenderDomain.upsert({
+                where: { userId_domain: { userId, domain: blockedDomain } },
+                update: {},
+                create: { userId, domain: blockedDomain },
+            });
+        }
+
+        return pending.length;
+    });
+
+    return { success: true, data: { rejected, blockedDomain } };
+}
+
+// ============================================================================
+// BLOCKED SENDERS
+// ============================================================================
+
+export async function listBlockedSenderDomains(userId: string): Promise<string[]> {
+    const blocked = await prisma.blockedSenderDomain.findMany({
+        where: { userId },
+        orderBy: { domain: 'asc' },
+        select: { domain: true },
+    });
+    return blocked.map(b => b.domain);
+}
+
+/**
+ * Let a blocked sender's new mail through again; messages already stored stay as they are
+ */
+export async function unblockSenderDomain(userId: string, domain: string): Promise<boolean> {
+    const { count } = await prisma.blockedSenderDomain.deleteMany({ where: { userId, domain } });
+    return count > 0;
+}
@@ -0,0 +1,361 @@
+/**
+ * Currency Normalization
+ * Converts amounts into the user's reporting currency using locally imported
+ * daily FX rates. No live rate service is involved.
+ */
+
+import Papa from 'papaparse';
+import prisma from './prisma';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MoneyTotal {
+    normalized: number;                // Sum in the reporting currency
+    original: Record<string, number>;  // Sums per original currency
+    unconverted: number;               // Items left out of `normalized` for lack of a rate
+}
+
+export interface MoneyItem {
+    amount: number;
+    currency: string;
+    date: Date; // Transaction or renewal date the rate is taken at
+}
+
+export interface FxConverter {
+    reportingCurrency: string;
+    convert(amount: number, currency: string, date: Date): number | null;
+}
+
+export interface FxRateRow {
+    date: Date;
+    base: string;
+    quote: string;
+    rate: number;
+}
+
+export interface FxRatesParseResult {
+    rates: FxRateRow[];
+    errors: string[];
+}
+
+export interface FxRateSummary {
+    count: number;
+    pairs: string[];
+    firstDate: Date | null;
+    lastDate: Date | null;
+}
+
+interface RatePoint {
+    time: number;
+    rate: number;
+}
+
+export const DEFAULT_REPORTING_CURRENCY = 'USD';
+
+const CURRENCY_CODE_REGEX = /^[A-Z]{3}$/;
+const INSERT_CHUNK_SIZE = 5000;
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+/**
+ * Rate on the given day, or the closest earlier one
+ * Dates before the first known rate use the first rate
+ */
+function rateAt(series: RatePoint[], time: number): number {
+    let low = 0;
+    let high = series.length - 1;
+    let found = 0;
+
+    while (low <= high) {
+        const mid = (low + high) >> 1;
+        if (series[mid].time <= time) {
+            found = mid;
+            low = mid + 1;
+        } else {
+            high = mid - 1;
+        }
+    }
+
+    return series[found].rate;
+}
+
+/**
+ * Build a converter from rate rows
+ * Tries the direct pair, its inverse, then a cross rate through any shared currency
+ */
+export function buildFxConverter(reportingCurrency: string, rates: FxRateRow[]): FxConverter {
+    const seriesByPair = new Map<string, RatePoint[]>();
+    const currencies = new Set<string>();
+
+    for (const row of rates) {
+        const key = `${row.base}/${row.quote}`;
+        const series = seriesByPair.get(key) || [];
+        series.push({ time: row.date.getTime(), rate: row.rate });
+        seriesByPair.set(key, series);
+        currencies.add(row.base);
+        currencies.add(row.quote);
+    }
+
+    for (const series of seriesByPair.values()) {
+        series.sort((a, b) => a.time - b.time);
+    }
+
+    const directRate = (from: string, to: string, time: number): number | null => {
+        if (from === to) return 1;
+
+        const direct = seriesByPair.get(`${from}/${to}`);
+        if (direct) return rateAt(direct, time);
+
+        const inverse = seriesByPair.get(`${to}/${from}`);
+        if (inverse) {
+            const rate = rateAt(inverse, time);
+            return rate > 0 ? 1 / rate : null;
+        }
+
+        return null;
+    };
+
+    return {
+        reportingCurrency,
+        convert(amount, currency, date) {
+            const from = currency.toUpperCase();
+            const time = date.getTime();
+
+            const direct = directRate(from, reportingCurrency, time);
+            if (direct !== null) return amount * direct;
+
+            for (const pivot of currencies) {
+                const toPivot = directRate(from, pivot, time);
+                const fromPivot = toPivot !== null ? directRate(pivot, reportingCurrency, time) : null;
+                if (toPivot !== null && fromPivot !== null) {
+                    return amount * toPivot * fromPivot;
+                }
+            }
+
+            return null;
+        },
+    };
+}
+
+/**
+ * Load the user's reporting currency and the rates needed for the given currencies
+ */
+export async function getFxConverter(userId: string, currencies: string[]): Promise<FxConverter> {
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { reportingCurrency: true },
+    });
+    const reportingCurrency = user?.reportingCurrency || DEFAULT_REPORTING_CURRENCY;
+
+    const needed = Array.from(new Set([...currencies.map(c => c.toUpperCase()), reportingCurrency]));
+    if (needed.length === 1) {
+        return buildFxConverter(reportingCurrency, []);
+    }
+
+    // Any pair touching a needed currency covers direct, inverse and cross rates
+    const rows = await prisma.fxRate.findMany({
+        where: {
+            userId,
+            OR: [{ base: { in: needed } }, { quote: { in: needed } }],
+        },
+        select: { date: true, base: true, quote: true, rate: true },
+    });
+
+    return buildFxConverter(
+        reportingCurrency,
+        rows.map(r => ({ ...r, rate: parseFloat(r.rate.toString()) }))
+    );
+}
+
+/**
+ * Sum amounts per original currency and in the reporting currency
+ */
+export function sumMoney(items: MoneyItem[], converter: FxConverter): MoneyTotal {
+    const total: MoneyTotal = { normalized: 0, original: {}, unconverted: 0 };
+
+    for (const item of items) {
+        const currency = item.currency.toUpperCase();
+        total.original[currency] = (total.original[currency] || 0) + item.amount;
+
+        const converted = converter.convert(item.amount, currency, item.date);
+        if (converted === null) {
+            total.unconverted++;
+        } else {
+            total.normalized += converted;
+        }
+    }
+
+    total.normalized = Math.round(total.normalized * 100) / 100;
+    return total;
+}
+
+/**
+ * Convert a single amount, rounded to cents; null when no rate is available
+ */
+export function normalizeAmount(
+    converter: FxConverter,
+    amount: number | null,
+    currency: string,
+    date: Date
+): number | null {
+    if (amount === null) return null;
+
+    const converted = converter.convert(amount, currency, date);
+    return converted === null ? null : Math.round(converted * 100) / 100;
+}
+
+// ============================================================================
+// RATE IMPORT
+// ============================================================================
+
+function parseRateDate(value: string | undefined): Date | null {
+    const match = value?.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!match) return null;
+
+    const date = new Date(Date.UTC(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3])));
+    return isNaN(date.getTime()) ? null : date;
+}
+
+function parseRate(value: string | undefined): number | null {
+    const rate = parseFloat((value || '').trim());
+    return isNaN(rate) || rate <= 0 ? null : rate;
+}
+
+/**
+ * Parse a CSV of daily rates
+ * Long format: date, base, quote, rate (base column optional, defaults to `defaultBase`)
+ * Wide format: date plus one column per quote currency, e.g. an ECB export
+ */
+export function parseFxRatesCSV(content: string, defaultBase: string): FxRatesParseResult {
+    const errors: string[] = [];
+    const rates: FxRateRow[] = [];
+
+    const result = Papa.parse<Record<string, string>>(content.replace(/^\uFEFF/, ''), {
+        header: true,
+        skipEmptyLines: true,
+        transformHeader: (header) => header.trim(),
+    });
+
+    const headers = result.meta.fields || [];
+    const lower = headers.map(h => h.toLowerCase());
+    const column = (...names: string[]) => {
+        const index = lower.findIndex(h => names.includes(h));
+        return index === -1 ? null : headers[index];
+    };
+
+    const dateColumn = column('date', 'day', 'time_period');
+    if (!dateColumn) {
+        return { rates, errors: ['Could not find date column'] };
+    }
+
+    const rateColumn = column('rate', 'fx_rate', 'exchange rate');
+    const quoteColumn = column('quote', 'currency', 'to', 'target');
+    const baseColumn = column('base', 'from', 'source');
+
+    result.data.forEach((row, i) => {
+        const date = parseRateDate(row[dateColumn]);
+        if (!date) {
+            errors.push(`Row ${i + 2}: Invalid date "${row[dateColumn] || ''}" (expected YYYY-MM-DD)`);
+            return;
+        }
+
+        if (rateColumn && quoteColumn) {
+            const base = (baseColumn ? row[baseColumn] : defaultBase)?.trim().toUpperCase();
+            const quote = row[quoteColumn]?.trim().toUpperCase();
+            const rate = parseRate(row[rateColumn]);
+
+            if (!base || !CURRENCY_CODE_REGEX.test(base) || !quote || !CURRENCY_CODE_REGEX.test(quote)) {
+                errors.push(`Row ${i + 2}: Invalid currency pair`);
+                return;
+            }
+            if (rate === null) {
+                errors.push(`Row ${i + 2}: Invalid rate "${row[rateColumn] || ''}"`);
+                return;
+            }
+
+            rates.push({ date, base, quote, rate });
+            return;
+        }
+
+        // Wide format: blank or N/A cells are days without a fixing
+        for (const header of headers) {
+            const quote = header.toUpperCase();
+            if (header === dateColumn || !CURRENCY_CODE_REGEX.test(quote) || quote === defaultBase) continue;
+
+            const rate = parseRate(row[header]);
+            if (rate !== null) {
+                rates.push({ date, base: defaultBase, quote, rate });
+            }
+        }
+    });
+
+    if (rates.length === 0 && errors.length === 0) {
+        errors.push('No rates found; expected date/base/quote/rate columns or one column per currency');
+    }
+
+    return { rates, errors: errors.slice(0, 10) };
+}
+
+/**
+ * Store imported rates; a re-imported day replaces the stored rate for that pair
+ */
+export async function saveFxRates(userId: string, rates: FxRateRow[]): Promise<number> {
+    const byPair = new Map<string, FxRateRow[]>();
+    for (const rate of rates) {
+        const key = `${rate.base}/${rate.quote}`;
+        const pairRates = byPair.get(key) || [];
+        pairRates.push(rate);
+        byPair.set(key, pairRates);
+    }
+
+    await prisma.$transaction(async (tx) => {
+        for (const pairRates of byPair.values()) {
+            await tx.fxRate.deleteMany({
+                where: {
+                    userId,
+                    base: pairRates[0].base,
+                    quote: pairRates[0].quote,
+                    date: { in: pairRates.map(r => r.date) },
+                },
+            });
+        }
+
+        for (let i = 0; i < rates.length; i += INSERT_CHUNK_SIZE) {
+            await tx.fxRate.createMany({
+                data: rates.slice(i, i + INSERT_CHUNK_SIZE).map(r => ({ userId, ...r })),
+                skipDuplicates: true,
+            });
+        }
+    }, { timeout: 60000 });
+
+    return rates.length;
+}
+
+/**
+ * Describe the stored rate table for the settings panel
+ */
+export async function getFxRateSummary(userId: string): Promise<FxRateSummary> {
+    const [pairs, range] = await Promise.all([
+        prisma.fxRate.groupBy({
+            by: ['base', 'quote'],
+            where: { userId },
+            _count: true,
+        }),
+        prisma.fxRate.aggregate({
+            where: { userId },
+            _min: { date: true },
+            _max: { date: true },
+        }),
+    ]);
+
+    return {
+        count: pairs.reduce((sum, p) => sum + p._count, 0),
+        pairs: pairs.map(p => `${p.base}/${p.quote}`).sort(),
+        firstDate: range._min.date,
+        lastDate: range._max.date,
+    };
+}
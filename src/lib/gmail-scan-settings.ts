@@ -0,0 +1,222 @@
+/**
+ * Gmail Scan Settings
+ * Per-user rules for which Gmail messages a scan lists: extra keywords and
+ * sender domains, labels or aliases searched instead of the inbox, a backfill
+ * date range and exclusions. They compile into a single Gmail search query.
+ */
+
+import prisma from './prisma';
+import { formatCalendarDate, fromDate } from './calendar-date';
+
+// ============================================================================
+// SUBSCRIPTION DETECTION KEYWORDS
+// ============================================================================
+export const SUBSCRIPTION_KEYWORDS = [
+    'renewal',
+    'auto-renew',
+    'auto renew',
+    'subscription',
+    'invoice',
+    'payment',
+    'billing',
+    'upcoming charge',
+    'annual renewal',
+    'monthly renewal',
+    'your plan',
+    'payment due',
+    'receipt',
+    'charge',
+    'free trial',
+    'trial ends',
+    'trial period',
+];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Rules that decide whether a listed message looks subscription-related
+ */
+export interface SubscriptionMatchRules {
+    keywords: string[];
+    senderDomains: string[];
+    excludeSenderDomains: string[];
+    excludeKeywords: string[];
+}
+
+export interface GmailScanSettings extends SubscriptionMatchRules {
+    labels: string[];
+    aliases: string[];
+    backfillAfter: Date | null;
+    backfillBefore: Date | null;
+}
+
+export const DEFAULT_GMAIL_SCAN_SETTINGS: GmailScanSettings = {
+    keywords: [],
+    senderDomains: [],
+    labels: [],
+    aliases: [],
+    backfillAfter: null,
+    backfillBefore: null,
+    excludeSenderDomains: [],
+    excludeKeywords: [],
+};
+
+const LIST_FIELDS = ['keywords', 'senderDomains', 'labels', 'aliases', 'excludeSenderDomains', 'excludeKeywords'] as const;
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+function toSettings(row: {
+    keywords: string;
+    senderDomains: string;
+    labels: string;
+    aliases: string;
+    backfillAfter: Date | null;
+    backfillBefore: Date | null;
+    excludeSenderDomains: string;
+    excludeKeywords: string;
+}): GmailScanSettings {
+    return {
+        keywords: JSON.parse(row.keywords) as string[],
+        senderDomains: JSON.parse(row.senderDomains) as string[],
+        labels: JSON.parse(row.labels) as string[],
+        aliases: JSON.parse(row.aliases) as string[],
+        backfillAfter: row.backfillAfter,
+        backfillBefore: row.backfillBefore,
+        excludeSenderDomains: JSON.parse(row.excludeSenderDomains) as string[],
+        excludeKeywords: JSON.parse(row.excludeKeywords) as string[],
+    };
+}
+
+export async function getGmailScanSettings(userId: string): Promise<GmailScanSettings> {
+    const row = await prisma.gmailScanSettings.findUnique({ where: { userId } });
+    return row ? toSettings(row) : DEFAULT_GMAIL_SCAN_SETTINGS;
+}
+
+/**
+ * Merge changes into the stored settings; fields left out keep their value
+ * When the search query changes the Gmail checkpoint is dropped, so the next
+ * scan backfills with the new query instead of following the old one
+ */
+export async function saveGmailScanSettings(
+    userId: string,
+    changes: Partial<GmailScanSettings>
+): Promise<{ settings: GmailScanSettings; queryChanged: boolean }> {
+    const current = await getGmailScanSettings(userId);
+    const settings: GmailScanSettings = { ...current };
+    for (const field of LIST_FIELDS) {
+        const value = changes[field];
+        if (value !== undefined) settings[field] = Array.from(new Set(value));
+    }
+    if (changes.backfillAfter !== undefined) settings.backfillAfter = changes.backfillAfter;
+    if (changes.backfillBefore !== undefined) settings.backfillBefore = changes.backfillBefore;
+
+    const data = {
+        keywords: JSON.stringify(settings.keywords),
+        senderDomains: JSON.stringify(settings.senderDomains),
+        labels: JSON.stringify(settings.labels),
+        aliases: JSON.stringify(settings.aliases),
+        backfillAfter: settings.backfillAfter,
+        backfillBefore: settings.backfillBefore,
+        excludeSenderDomains: JSON.stringify(settings.excludeSenderDomains),
+        excludeKeywords: JSON.stringify(settings.excludeKeywords),
+    };
+
+    await prisma.gmailScanSettings.upsert({
+        where: { userId },
+        update: data,
+        create: { userId, ...data },
+    });
+
+    const queryChanged = buildGmailSearchQuery(current, { backfill: true }) !==
+        buildGmailSearchQuery(settings, { backfill: true });
+    if (queryChanged) {
+        await prisma.oAuthToken.updateMany({
+            where: { userId, provider: 'google' },
+            data: { syncCheckpoint: null },
+        });
+    }
+
+    return { settings, queryChanged };
+}
+
+// ============================================================================
+// QUERY
+// ============================================================================
+
+function phrase(term: string): string {
+    return `"${term.replace(/"/g, '')}"`;
+}
+
+// Gmail search spells label names in lower case with dashes for spaces and slashes
+function labelTerm(name: string): string {
+    return `label:${name.trim().toLowerCase().replace(/[\s/]+/g, '-')}`;
+}
+
+function gmailDate(date: Date): string {
+    return formatCalendarDate(fromDate(date)).replace(/-/g, '/');
+}
+
+/**
+ * Compile settings into a Gmail search query
+ * Where to look (inbox, or the chosen labels and aliases) AND what looks like a
+ * subscription (any keyword or watched sender) AND NOT any exclusion. The
+ * backfill date range only applies to backfills; incremental syncs add their own
+ */
+export function buildGmailSearchQuery(settings: GmailScanSettings, options: { backfill: boolean }): string {
+    const targets = [
+        ...settings.labels.map(labelTerm),
+        ...settings.aliases.map(alias => `deliveredto:${alias}`),
+    ];
+    const matches = [
+        ...Array.from(new Set([...SUBSCRIPTION_KEYWORDS, ...settings.keywords.map(k => k.toLowerCase())])).map(phrase),
+        ...settings.senderDomains.map(domain => `from:${domain}`),
+    ];
+
+    const terms = [
+        targets.length > 0 ? `{${targets.join(' ')}}` : 'in:inbox',
+        `{${matches.join(' ')}}`,
+    ];
+
+    if (options.backfill && settings.backfillAfter) terms.push(`after:${gmailDate(settings.backfillAfter)}`);
+    if (options.backfill && settings.backfillBefore) terms.push(`before:${gmailDate(settings.backfillBefore)}`);
+
+    terms.push(...settings.excludeSenderDomains.map(domain => `-from:${domain}`));
+    terms.push(...settings.excludeKeywords.map(keyword => `-${phrase(keyword)}`));
+
+    return terms.join(' ');
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+function domainMatches(senderDomain: string, domain: string): boolean {
+    return senderDomain === domain || senderDomain.endsWith(`.${domain}`);
+}
+
+/**
+ * Why a message looks subscription-related: the keywords it contains and the
+ * watched sender it came from. Empty when nothing matched or an exclusion applies
+ */
+export function matchSubscriptionRules(
+    text: string,
+    senderDomain: string | null,
+    rules: SubscriptionMatchRules = DEFAULT_GMAIL_SCAN_SETTINGS
+): string[] {
+    const lowerText = text.toLowerCase();
+
+    if (senderDomain && rules.excludeSenderDomains.some(d => domainMatches(senderDomain, d))) return [];
+    if (rules.excludeKeywords.some(k => lowerText.includes(k.toLowerCase()))) return [];
+
+    const keywords = Array.from(new Set([...SUBSCRIPTION_KEYWORDS, ...rules.keywords.map(k => k.toLowerCase())]));
+    const matched = keywords.filter(k => lowerText.includes(k));
+
+    const watched = senderDomain ? rules.senderDomains.find(d => domainMatches(senderDomain, d)) : undefined;
+    if (watched) matched.push(`from:${watched}`);
+
+    return matched;
+}
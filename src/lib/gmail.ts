@@ -1,11 +1,20 @@
 /**
- * Gmail API Integration with Top-10 Scan
- * Fetches latest 10 emails, detects subscriptions, creates proper records
+ * Gmail API Integration with Incremental Sync
+ * Mailbox provider that backfills the inbox on first connect, then follows the
+ * History API from the stored checkpoint; also sends mail as the user
  */
 
 import { google, gmail_v1 } from 'googleapis';
 import prisma from './prisma';
-import { extractSubscriptionFromEmail, resolveVendorName, getVendorCategory } from './subscription-extraction';
+import { findOAuthToken, saveOAuthTokens } from './oauth-tokens';
+import { buildGmailSearchQuery, getGmailScanSettings } from './gmail-scan-settings';
+import type {
+    MailboxAttachmentPart,
+    MailboxListing,
+    MailboxMessage,
+    MailboxProvider,
+    MailboxSyncMode,
+} from './mailbox';
 
 // ============================================================================
 // LOGGING
@@ -48,34 +57,6 @@ export interface GmailSendResult {
     error?: string;
 }
 
-export interface GmailScanResult {
-    messagesScanned: number;
-    newMessages: number;
-    subscriptionsCreated: number;
-    vendorsCreated: number;
-    skippedCount: number;
-}
-
-// ============================================================================
-// SUBSCRIPTION DETECTION KEYWORDS
-// ============================================================================
-const SUBSCRIPTION_KEYWORDS = [
-    'renewal',
-    'auto-renew',
-    'auto renew',
-    'subscription',
-    'invoice',
-    'payment',
-    'billing',
-    'upcoming charge',
-    'annual renewal',
-    'monthly renewal',
-    'your plan',
-    'payment due',
-    'receipt',
-    'charge',
-];
-
 // Known SaaS domains for better vendor matching
 const KNOWN_SAAS_DOMAINS: Record<string, { name: string; category: string }> = {
     'slack.com': { name: 'Slack', category: 'Communication' },
@@ -129,9 +110,7 @@ const DATE_PATTERNS = [
 export async function getGmailClient(userId: string): Promise<GmailClient | null> {
     log(`Getting Gmail client for user: ${userId}`);
 
-    const token = await prisma.oAuthToken.findUnique({
-        where: { userId_provider: { userId, provider: 'google' } },
-    });
+    const token = await findOAuthToken(userId, 'google');
 
     if (!token) {
         log(`No OAuth token found for user: ${userId}`);
@@ -160,9 +139,7 @@ export async function getGmailClient(userId: string): Promise<GmailClient | null
         process.env.GOOGLE_REDIRECT_URI
     );
 
-    const freshToken = await prisma.oAuthToken.findUnique({
-        where: { userId_provider: { userId, provider: 'google' } },
-    });
+    const freshToken = await findOAuthToken(userId, 'google');
 
     if (!freshToken) return null;
 
@@ -187,12 +164,10 @@ async function refreshAccessToken(userId: string, refreshToken: string | null):
         oauth2Client.setCredentials({ refresh_token: refreshToken });
         const { credentials } = await oauth2Client.refreshAccessToken();
 
-        await prisma.oAuthToken.update({
-            where: { userId_provider: { userId, provider: 'google' } },
-            data: {
-                accessToken: credentials.access_token!,
-                expiresAt: new Date(credentials.expiry_date!),
-            },
+        await saveOAuthTokens(userId, 'google', {
+            accessToken: credentials.access_token!,
+            refreshToken,
+            expiresAt: new Date(credentials.expiry_date!),
         });
 
         return true;
@@ -210,190 +185,215 @@ export async function hasGmailConnected(userId: string): Promise<boolean> {
 }
 
 // ============================================================================
-// TOP-10 SCAN
+// INCREMENTAL SYNC
 // ============================================================================
 
+// Gmail caps messages.list pages at 500; smaller pages keep each call fast
+const LIST_PAGE_SIZE = 100;
+
+// Messages arriving late can carry a date before the last sync; search this far back
+const INCREMENTAL_QUERY_SLACK_MS = 2 * 24 * 60 * 60 * 1000;
+const MAX_INCREMENTAL_MATCHES = 1000;
+
+/**
+ * Gmail answers history.list with 404 once the start history ID is too old
+ * (roughly a week) or otherwise invalid - the only remedy is a full resync
+ */
+function isHistoryExpiredError(error: unknown): boolean {
+    const err = error as { code?: number | string; response?: { status?: number } };
+    return err?.code === 404 || err?.code === '404' || err?.response?.status === 404;
+}
+
 /**
- * Scan the latest N emails from inbox (top-10 approach)
- * Does NOT rely on page load or historyId - always checks latest emails
+ * Current mailbox history ID - the checkpoint to resume from after a backfill
  */
-export async function scanInbox(userId: string, maxResults: number = 10): Promise<GmailScanResult> {
-    log(`=== Starting TOP-${maxResults} inbox scan for user: ${userId} ===`);
+async function getCurrentHistoryId(client: GmailClient): Promise<string | null> {
+    const profile = await client.gmail.users.getProfile({ userId: 'me' });
+    return profile.data.historyId || null;
+}
 
-    const client = await getGmailClient(userId);
-    if (!client) {
-        log(`Cannot scan inbox - no Gmail client`);
-        return { messagesScanned: 0, newMessages: 0, subscriptionsCreated: 0, vendorsCreated: 0, skippedCount: 0 };
-    }
+/**
+ * List up to `limit` of the newest message IDs matching a search query, following page tokens
+ */
+async function listQueryMessageIds(client: GmailClient, query: string, limit: number): Promise<string[]> {
+    const messageIds: string[] = [];
+    let pageToken: string | undefined;
 
-    try {
-        // Fetch latest N messages from inbox (no keyword filter)
-        log(`Fetching latest ${maxResults} messages from inbox...`);
+    do {
         const listResponse = await client.gmail.users.messages.list({
             userId: 'me',
-            maxResults,
-            labelIds: ['INBOX'],
+            maxResults: Math.min(LIST_PAGE_SIZE, limit - messageIds.length),
+            q: query,
+            pageToken,
         });
 
-        const messageRefs = listResponse.data.messages || [];
-        log(`Gmail API returned ${messageRefs.length} message references`);
+        for (const msgRef of listResponse.data.messages || []) {
+            if (msgRef.id) messageIds.push(msgRef.id);
+        }
 
-        let newMessages = 0;
-        let subscriptionsCreated = 0;
-        let vendorsCreated = 0;
-        let skippedCount = 0;
+        pageToken = listResponse.data.nextPageToken || undefined;
+    } while (pageToken && messageIds.length < limit);
 
-        for (const msgRef of messageRefs) {
-            if (!msgRef.id) continue;
+    return messageIds;
+}
 
-            // Check if already processed
-            const existing = await prisma.gmailMessage.findUnique({
-                where: { gmailId: msgRef.id },
-            });
+/**
+ * List messages added since `startHistoryId` via the History API, optionally to one label
+ * Returns the de-duplicated message IDs and the history ID to resume from next time
+ */
+async function listHistoryMessageIds(
+    client: GmailClient,
+    startHistoryId: string,
+    labelId?: string
+): Promise<{ messageIds: string[]; historyId: string }> {
+    const messageIds = new Set<string>();
+    let latestHistoryId = startHistoryId;
+    let pageToken: string | undefined;
+
+    do {
+        const historyResponse = await client.gmail.users.history.list({
+            userId: 'me',
+            startHistoryId,
+            historyTypes: ['messageAdded'],
+            labelId,
+            pageToken,
+        });
 
-            if (existing) {
-                log(`Skipping already processed: ${msgRef.id}`);
-                skippedCount++;
-                continue;
+        for (const record of historyResponse.data.history || []) {
+            for (const added of record.messagesAdded || []) {
+                if (added.message?.id) messageIds.add(added.message.id);
             }
-
-            // Get full message
-            const result = await processNewMessage(client, userId, msgRef.id);
-            newMessages++;
-
-            if (result.subscriptionCreated) subscriptionsCreated++;
-            if (result.vendorCreated) vendorsCreated++;
         }
 
-        // Update last scan timestamp
-        await prisma.oAuthToken.update({
-            where: { userId_provider: { userId, provider: 'google' } },
-            data: { lastGmailSyncAt: new Date() },
-        });
-
-        log(`=== Scan complete ===`, {
-            messagesScanned: messageRefs.length,
-            newMessages,
-            subscriptionsCreated,
-            vendorsCreated,
-            skippedCount,
-        });
+        if (historyResponse.data.historyId) {
+            latestHistoryId = historyResponse.data.historyId;
+        }
+        pageToken = historyResponse.data.nextPageToken || undefined;
+    } while (pageToken);
 
-        return {
-            messagesScanned: messageRefs.length,
-            newMessages,
-            subscriptionsCreated,
-            vendorsCreated,
-            skippedCount,
-        };
-    } catch (error) {
-        logError('Gmail scan error', error);
-        return { messagesScanned: 0, newMessages: 0, subscriptionsCreated: 0, vendorsCreated: 0, skippedCount: 0 };
-    }
+    return { messageIds: Array.from(messageIds), historyId: latestHistoryId };
 }
 
 /**
- * Process a single message and detect subscriptions
- * Stage 1: Fetch full email content and store
- * Stage 2: Run LLM extraction for subscription data
+ * Gmail as a mailbox provider, listing only messages that match the user's scan settings
+ * - backfill: no checkpoint yet, list up to `backfillLimit` newest matching messages
+ * - incremental: messages added since the stored syncCheckpoint that also match the query
+ * - full_resync: the stored checkpoint expired, fall back to a bounded backfill
  */
-async function processNewMessage(
-    client: GmailClient,
-    userId: string,
-    messageId: string
-): Promise<{ subscriptionCreated: boolean; vendorCreated: boolean }> {
-    try {
-        log(`Processing message: ${messageId}`);
+export async function openGmailMailbox(userId: string): Promise<MailboxProvider | null> {
+    const client = await getGmailClient(userId);
+    if (!client) return null;
 
-        // Stage 1: Fetch FULL message (including body)
-        const fullMessage = await client.gmail.users.messages.get({
-            userId: 'me',
-            id: messageId,
-            format: 'full',
-        });
+    const where = { userId_provider: { userId, provider: 'google' } };
+    const settings = await getGmailScanSettings(userId);
+    const searchesInbox = settings.labels.length === 0 && settings.aliases.length === 0;
 
-        const headers = fullMessage.data.payload?.headers || [];
-        const subject = headers.find(h => h.name === 'Subject')?.value || null;
-        const from = headers.find(h => h.name === 'From')?.value || null;
-        const dateStr = headers.find(h => h.name === 'Date')?.value;
-        const date = dateStr ? new Date(dateStr) : null;
-        const snippet = fullMessage.data.snippet || null;
-
-        // Extract full email body
-        const body = extractEmailBody(fullMessage.data.payload);
-
-        // Extract sender domain
-        let senderDomain: string | null = null;
-        if (from) {
-            const emailMatch = from.match(/@([a-zA-Z0-9.-]+)/);
-            senderDomain = emailMatch ? emailMatch[1].toLowerCase() : null;
-        }
+    return {
+        kind: 'gmail',
+        matchRules: settings,
 
-        const hasAttachment = fullMessage.data.payload?.parts?.some(
-            p => p.filename && p.filename.length > 0
-        ) || false;
-
-        // Detect if subscription-related
-        const textToCheck = `${subject || ''} ${snippet || ''} ${body || ''}`.toLowerCase();
-        const matchedKeywords = SUBSCRIPTION_KEYWORDS.filter(k => textToCheck.includes(k.toLowerCase()));
-        const isSubscription = matchedKeywords.length > 0;
-
-        log(`Message analysis`, {
-            id: messageId,
-            subject: subject?.substring(0, 60),
-            from,
-            senderDomain,
-            isSubscription,
-            matchedKeywords,
-            bodyLength: body?.length || 0,
-        });
+        async listMessageIds(backfillLimit: number): Promise<MailboxListing> {
+            const token = await prisma.oAuthToken.findUnique({
+                where,
+                select: { syncCheckpoint: true, lastSyncAt: true },
+            });
 
-        // Stage 1: Store in GmailMessage table with full body
-        await prisma.gmailMessage.create({
-            data: {
-                userId,
-                gmailId: messageId,
-                threadId: fullMessage.data.threadId,
-                subject,
-                sender: from,
-                senderDomain,
-                snippet,
-                body, // NEW: Store full body for LLM extraction
-                date,
-                hasAttachment,
-                isRenewal: isSubscription,
-                isProcessed: false, // Will be set to true after LLM extraction
-            },
-        });
+            if (token?.syncCheckpoint) {
+                try {
+                    log(`Fetching history since checkpoint ${token.syncCheckpoint}...`);
+                    const { messageIds, historyId } = await listHistoryMessageIds(
+                        client,
+                        token.syncCheckpoint,
+                        searchesInbox ? 'INBOX' : undefined
+                    );
+                    if (messageIds.length === 0) {
+                        return { syncMode: 'incremental', messageIds, checkpoint: historyId };
+                    }
+
+                    // History cannot be searched, so keep only the new messages the query also finds
+                    let query = buildGmailSearchQuery(settings, { backfill: false });
+                    if (token.lastSyncAt) {
+                        const since = token.lastSyncAt.getTime() - INCREMENTAL_QUERY_SLACK_MS;
+                        query += ` after:${Math.floor(since / 1000)}`;
+                    }
+                    const matching = new Set(await listQueryMessageIds(client, query, MAX_INCREMENTAL_MATCHES));
+                    log(`History returned ${messageIds.length} messages, ${matching.size} recent messages match the scan query`);
+
+                    return {
+                        syncMode: 'incremental',
+                        messageIds: messageIds.filter(id => matching.has(id)),
+                        checkpoint: historyId,
+                    };
+                } catch (error) {
+                    if (!isHistoryExpiredError(error)) throw error;
+                    log(`History checkpoint ${token.syncCheckpoint} expired, falling back to full resync`);
+                }
+            }
 
-        let subscriptionCreated = false;
-        let vendorCreated = false;
-
-        // Stage 2: If subscription detected, run LLM extraction
-        if (isSubscription && senderDomain) {
-            const result = await createSubscriptionFromEmail({
-                userId,
-                messageId,
-                senderDomain,
-                from,
-                subject,
-                body,
-            });
-            subscriptionCreated = result.subscriptionCreated;
-            vendorCreated = result.vendorCreated;
+            const syncMode: MailboxSyncMode = token?.syncCheckpoint ? 'full_resync' : 'backfill';
+
+            // Capture the checkpoint before listing so mail that arrives
+            // mid-backfill is still picked up by the next incremental sync
+            const historyId = await getCurrentHistoryId(client);
+            const query = buildGmailSearchQuery(settings, { backfill: true });
+            log(`Backfilling up to ${backfillLimit} messages matching: ${query}`);
+            const messageIds = await listQueryMessageIds(client, query, backfillLimit);
+
+            return { syncMode, messageIds, checkpoint: historyId };
+        },
+
+        fetchMessage: (messageId: string) => fetchGmailMessage(client, messageId),
 
-            // Mark as processed
-            await prisma.gmailMessage.update({
-                where: { gmailId: messageId },
-                data: { isProcessed: true },
+        async saveCheckpoint(checkpoint: string | null): Promise<void> {
+            await prisma.oAuthToken.update({
+                where,
+                data: {
+                    lastSyncAt: new Date(),
+                    syncCheckpoint: checkpoint ?? undefined,
+                },
             });
-        }
+        },
 
-        return { subscriptionCreated, vendorCreated };
-    } catch (error) {
-        logError(`Failed to process message: ${messageId}`, error);
-        return { subscriptionCreated: false, vendorCreated: false };
-    }
+        async close(): Promise<void> {
+            // Stateless HTTP client, nothing to release
+        },
+    };
+}
+
+// ============================================================================
+// MESSAGES
+// ============================================================================
+
+/**
+ * Fetch a FULL message (including body) in the provider-neutral shape
+ */
+async function fetchGmailMessage(client: GmailClient, messageId: string): Promise<MailboxMessage> {
+    const fullMessage = await client.gmail.users.messages.get({
+        userId: 'me',
+        id: messageId,
+        format: 'full',
+    });
+
+    const payload = fullMessage.data.payload || undefined;
+    const headers = payload?.headers || [];
+    const dateStr = headers.find(h => h.name === 'Date')?.value;
+
+    return {
+        id: messageId,
+        threadId: fullMessage.data.threadId || null,
+        subject: headers.find(h => h.name === 'Subject')?.value || null,
+        from: headers.find(h => h.name === 'From')?.value || null,
+        date: dateStr ? new Date(dateStr) : null,
+        snippet: fullMessage.data.snippet || null,
+        body: extractEmailBody(payload),
+        attachments: listAttachmentParts(payload).map((part, index) => ({
+            partId: part.partId || String(index),
+            filename: part.filename!,
+            mimeType: part.mimeType || null,
+            size: part.body?.size || 0,
+            download: () => downloadPart(client, messageId, part),
+        } satisfies MailboxAttachmentPart)),
+    };
 }
 
 /**
@@ -437,168 +437,31 @@ function extractEmailBody(payload: gmail_v1.Schema$MessagePart | undefined): str
 }
 
 /**
- * Create or update Subscription and Vendor records from email using LLM extraction
- * This is Stage 2 of the two-stage extraction pipeline
+ * Parts of a message that are files (they have a filename), depth first
  */
-async function createSubscriptionFromEmail(params: {
-    userId: string;
-    messageId: string;
-    senderDomain: string;
-    from: string | null;
-    subject: string | null;
-    body: string | null;
-}): Promise<{ subscriptionCreated: boolean; vendorCreated: boolean }> {
-    const { userId, messageId, senderDomain, from, subject, body } = params;
-
-    let vendorCreated = false;
-
-    // Stage 2: Run LLM extraction
-    log(`Running LLM extraction for message: ${messageId}`);
-    const extracted = await extractSubscriptionFromEmail(subject, body, from);
-
-    // Resolve vendor name using LLM extraction result (NOT sender display name)
-    const { name: vendorName, category: extractedCategory } = resolveVendorName(
-        extracted?.vendor_name || null,
-        senderDomain,
-        subject
-    );
-
-    log(`Resolved vendor`, {
-        vendorName,
-        llmVendorName: extracted?.vendor_name,
-        senderDomain,
-        category: extractedCategory
-    });
-
-    // Generic email domains that shouldn't be used for vendor matching
-    const GENERIC_EMAIL_DOMAINS = [
-        'gmail.com', 'yahoo.com', 'hotmail.com', 'outlook.com',
-        'aol.com', 'icloud.com', 'mail.com', 'protonmail.com'
-    ];
-    const isGenericDomain = GENERIC_EMAIL_DOMAINS.includes(senderDomain?.toLowerCase() || '');
-
-    // Find or create vendor - prioritize by extracted name, only use domain for company domains
-    let vendor = await prisma.vendor.findFirst({
-        where: {
-            // Match by normalized vendor name (primary)
-            normalizedName: vendorName.toLowerCase().replace(/\s+/g, ''),
-        },
-    });
-
-    // If not found by name and we have a real company domain, try matching by domain
-    if (!vendor && senderDomain && !isGenericDomain) {
-        vendor = await prisma.vendor.findFirst({
-            where: { domain: senderDomain },
-        });
-    }
-
-    if (!vendor) {
-        const category = extractedCategory || getVendorCategory(senderDomain) || 'Uncategorized';
-
-        // For generic domains, use the vendor's actual domain if extracted, otherwise use vendor name
-        const vendorDomain = extracted?.vendor_domain ||
-            (isGenericDomain ? `${vendorName.toLowerCase().replace(/\s+/g, '')}.com` : senderDomain);
-
-        vendor = await prisma.vendor.create({
-            data: {
-                name: vendorName,
-                normalizedName: vendorName.toLowerCase().replace(/\s+/g, ''),
-                domain: vendorDomain,
-                category,
-                isSaaS: true,
-            },
-        });
-
-        log(`Created new vendor`, { id: vendor.id, name: vendor.name, domain: vendor.domain });
-        vendorCreated = true;
-    } else {
-        log(`Found existing vendor`, { id: vendor.id, name: vendor.name });
-    }
-
-    // Parse renewal date from LLM extraction
-    let renewalDate: Date | null = null;
-    if (extracted?.renewal_date) {
-        const parsed = new Date(extracted.renewal_date);
-        if (!isNaN(parsed.getTime())) {
-            renewalDate = parsed;
-        }
-    }
-
-    // Get values from LLM extraction
-    const amount = extracted?.amount || null;
-    const billingCycle = extracted?.billing_cycle || null;
-    const plan = extracted?.plan || null;
-    const seats = extracted?.seats || null;
-    const currency = extracted?.currency || 'USD';
-    const confidence = extracted?.confidence || 'low';
-
-    log(`Extracted subscription data`, {
-        vendorName: vendor.name,
-        amount,
-        billingCycle,
-        plan,
-        seats,
-        renewalDate: renewalDate?.toISOString(),
-        confidence,
-    });
+function listAttachmentParts(payload: gmail_v1.Schema$MessagePart | undefined): gmail_v1.Schema$MessagePart[] {
+    if (!payload) return [];
+    const own = payload.filename ? [payload] : [];
+    return [...own, ...(payload.parts || []).flatMap(listAttachmentParts)];
+}
 
-    // VALIDATION: Skip creating subscription if no meaningful data extracted
-    // At minimum, we need amount OR renewalDate OR plan to consider it a valid subscription
-    if (!amount && !renewalDate && !plan) {
-        log(`Skipping subscription creation - no meaningful data extracted`, {
-            vendorName: vendor.name,
-            messageId,
-        });
-        return { subscriptionCreated: false, vendorCreated };
+async function downloadPart(
+    client: GmailClient,
+    messageId: string,
+    part: gmail_v1.Schema$MessagePart
+): Promise<Buffer | null> {
+    // Small attachments come inline with the message, larger ones by ID
+    if (part.body?.data) {
+        return Buffer.from(part.body.data, 'base64');
     }
+    if (!part.body?.attachmentId) return null;
 
-    // Create or update subscription with LLM-extracted data
-    const subscription = await prisma.subscription.upsert({
-        where: {
-            userId_vendorId_source: {
-                userId,
-                vendorId: vendor.id,
-                source: 'gmail',
-            },
-        },
-        update: {
-            lastDetectedAt: new Date(),
-            renewalDate: renewalDate || undefined,
-            amount: amount || undefined,
-            billingCycle: billingCycle || undefined,
-            plan: plan || undefined,
-            seats: seats || undefined,
-            currency,
-            confidenceScore: confidence,
-            gmailMessageId: messageId,
-        },
-        create: {
-            userId,
-            vendorId: vendor.id,
-            source: 'gmail',
-            renewalDate,
-            amount,
-            billingCycle,
-            plan,
-            seats,
-            currency,
-            confidenceScore: confidence,
-            gmailMessageId: messageId,
-        },
+    const response = await client.gmail.users.messages.attachments.get({
+        userId: 'me',
+        messageId,
+        id: part.body.attachmentId,
     });
-
-    log(`Created/updated subscription`, {
-        id: subscription.id,
-        vendorId: vendor.id,
-        vendorName: vendor.name,
-        amount,
-        plan,
-        seats,
-        renewalDate: renewalDate?.toISOString(),
-        confidence,
-    });
-
-    return { subscriptionCreated: true, vendorCreated };
+    return response.data.data ? Buffer.from(response.data.data, 'base64') : null;
 }
 
 // ============================================================================
@@ -674,7 +537,21 @@ export async function getGmailStatus(userId: string): Promise<{
     return {
         connected: true,
         email: user?.email,
-        lastScan: token.lastGmailSyncAt || undefined,
+        lastScan: token.lastSyncAt || undefined,
         tokenExpiry: token.expiresAt,
     };
 }
+
+/**
+ * Names of the user's own Gmail labels, for choosing which ones to scan
+ */
+export async function listGmailLabels(userId: string): Promise<string[]> {
+    const client = await getGmailClient(userId);
+    if (!client) return [];
+
+    const response = await client.gmail.users.labels.list({ userId: 'me' });
+    return (response.data.labels || [])
+        .filter(label => label.type === 'user' && label.name)
+        .map(label => label.name!)
+        .sort((a, b) => a.localeCompare(b));
+}
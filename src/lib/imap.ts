@@ -0,0 +1,334 @@
+/**
+ * IMAP Mailbox Provider
+ * Scans one folder of a non-Google mailbox over IMAP. The first sync backfills
+ * the newest messages, later syncs fetch only UIDs above the stored checkpoint;
+ * a UIDVALIDITY change means the UIDs were reassigned and triggers a resync.
+ */
+
+import { ImapFlow } from 'imapflow';
+import { simpleParser } from 'mailparser';
+import prisma from './prisma';
+import { decryptField, encryptFields } from './encryption';
+import { htmlToText } from './invoice-text';
+import type { MailboxListing, MailboxMessage, MailboxProvider } from './mailbox';
+
+// ============================================================================
+// LOGGING
+// ============================================================================
+const LOG_PREFIX = '[IMAP]';
+
+function log(message: string, data?: Record<string, unknown>) {
+    const timestamp = new Date().toISOString();
+    if (data) {
+        console.log(`${timestamp} ${LOG_PREFIX} ${message}`, JSON.stringify(data, null, 2));
+    } else {
+        console.log(`${timestamp} ${LOG_PREFIX} ${message}`);
+    }
+}
+
+function logError(message: string, error: unknown) {
+    const timestamp = new Date().toISOString();
+    console.error(`${timestamp} ${LOG_PREFIX} ERROR: ${message}`, error);
+}
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ImapSettings {
+    host: string;
+    port: number;
+    secure: boolean;
+    username: string;
+    password: string;
+    folder: string;
+}
+
+export interface ImapStatus {
+    connected: boolean;
+    host?: string;
+    port?: number;
+    secure?: boolean;
+    username?: string;
+    folder?: string;
+    lastScan?: Date;
+}
+
+export type ImapResult<T> =
+    | { success: true; data: T }
+    | { success: false; error: string; status: number };
+
+const CONNECTION_TIMEOUT_MS = 15000;
+const SNIPPET_LENGTH = 200;
+
+// ============================================================================
+// CONNECTION
+// ============================================================================
+
+function createClient(settings: ImapSettings): ImapFlow {
+    return new ImapFlow({
+        host: settings.host,
+        port: settings.port,
+        secure: settings.secure,
+        auth: { user: settings.username, pass: settings.password },
+        connectionTimeout: CONNECTION_TIMEOUT_MS,
+        greetingTimeout: CONNECTION_TIMEOUT_MS,
+        logger: false,
+    });
+}
+
+async function listFolders(client: ImapFlow): Promise<string[]> {
+    const folders = await client.list();
+    return folders
+        .filter(folder => !folder.flags.has('\\Noselect'))
+        .map(folder => folder.path)
+        .sort((a, b) => (a === 'INBOX' ? -1 : b === 'INBOX' ? 1 : a.localeCompare(b)));
+}
+
+/**
+ * Log in with the given settings and list the folders that can be scanned
+ */
+export async function testImapConnection(settings: ImapSettings): Promise<ImapResult<{ folders: string[] }>> {
+    const client = createClient(settings);
+    try {
+        await client.connect();
+        const folders = await listFolders(client);
+        await client.logout();
+
+        if (!folders.includes(settings.folder)) {
+            return { success: false, error: `Folder "${settings.folder}" not found`, status: 400 };
+        }
+        return { success: true, data: { folders } };
+    } catch (error) {
+        client.close();
+        logError(`Connection test failed for ${settings.host}`, error);
+        const reason = (error as { authenticationFailed?: boolean }).authenticationFailed
+            ? 'Login failed - check the username and password'
+            : 'Could not connect to the IMAP server';
+        return { success: false, error: reason, status: 400 };
+    }
+}
+
+// ============================================================================
+// ACCOUNT
+// ============================================================================
+
+/**
+ * The saved account with its password decrypted
+ */
+async function findImapAccount(userId: string) {
+    const account = await prisma.imapAccount.findUnique({ where: { userId } });
+    return account && { ...account, password: decryptField(account.password, account.encryptionKeyId) };
+}
+
+/**
+ * Save a user's IMAP settings after checking they work
+ * An omitted password keeps the stored one; pointing at another server,
+ * account or folder starts the sync over
+ */
+export async function saveImapAccount(
+    userId: string,
+    input: Omit<ImapSettings, 'password'> & { password?: string | null }
+): Promise<ImapResult<{ folders: string[] }>> {
+    const existing = await findImapAccount(userId);
+
+    const password = input.password || existing?.password;
+    if (!password) {
+        return { success: false, error: 'Password is required', status: 400 };
+    }
+
+    const settings: ImapSettings = { ...input, password };
+    const test = await testImapConnection(settings);
+    if (!test.success) return test;
+
+    const sameMailbox = !!existing &&
+        existing.host === settings.host &&
+        existing.username === settings.username &&
+        existing.folder === settings.folder;
+
+    const encrypted = encryptFields({ password });
+    await prisma.imapAccount.upsert({
+        where: { userId },
+        update: {
+            ...settings,
+            ...encrypted,
+            ...(sameMailbox ? {} : { uidValidity: null, lastUid: null, lastSyncAt: null }),
+        },
+        create: { userId, ...settings, ...encrypted },
+    });
+
+    log(`Saved IMAP account`, { userId, host: settings.host, folder: settings.folder, resetCheckpoint: !sameMailbox });
+    return test;
+}
+
+export async function deleteImapAccount(userId: string): Promise<void> {
+    await prisma.imapAccount.deleteMany({ where: { userId } });
+}
+
+/**
+ * Folders of the saved account, for picking which one to scan
+ */
+export async function listImapFolders(userId: string): Promise<ImapResult<{ folders: string[] }>> {
+    const account = await findImapAccount(userId);
+    if (!account) {
+        return { success: false, error: 'No IMAP account connected', status: 404 };
+    }
+
+    const result = await testImapConnection(account);
+    // The saved folder may have been renamed on the server; still offer the others
+    if (!result.success && result.error.startsWith('Folder')) {
+        const client = createClient(account);
+        try {
+            await client.connect();
+            const folders = await listFolders(client);
+            await client.logout();
+            return { success: true, data: { folders } };
+        } catch {
+            client.close();
+        }
+    }
+    return result;
+}
+
+export async function getImapStatus(userId: string): Promise<ImapStatus> {
+    const account = await prisma.imapAccount.findUnique({ where: { userId } });
+    if (!account) return { connected: false };
+
+    return {
+        connected: true,
+        host: account.host,
+        port: account.port,
+        secure: account.secure,
+        username: account.username,
+        folder: account.folder,
+        lastScan: account.lastSyncAt || undefined,
+    };
+}
+
+// ============================================================================
+// MAILBOX PROVIDER
+// ============================================================================
+
+function toMessageId(accountId: string, uidValidity: string, uid: number): string {
+    return `imap:${accountId}:${uidValidity}:${uid}`;
+}
+
+function parseMessageId(messageId: string): { accountId: string; uidValidity: string; uid: number } | null {
+    const match = messageId.match(/^imap:([^:]+):(\d+):(\d+)$/);
+    return match ? { accountId: match[1], uidValidity: match[2], uid: parseInt(match[3], 10) } : null;
+}
+
+/**
+ * Open the user's IMAP folder as a mailbox provider; null when no account is
+ * saved, throws when the server cannot be reached. The folder stays selected until close()
+ */
+export async function openImapMailbox(userId: string): Promise<MailboxProvider | null> {
+    const account = await findImapAccount(userId);
+    if (!account) return null;
+
+    const client = createClient(account);
+    let release: () => void;
+    let uidValidity: string;
+    let uidNext: number;
+
+    try {
+        await client.connect();
+        const lock = await client.getMailboxLock(account.folder);
+        release = () => lock.release();
+
+        const mailbox = client.mailbox;
+        if (!mailbox) throw new Error(`Folder ${account.folder} could not be selected`);
+        uidValidity = mailbox.uidValidity.toString();
+        uidNext = mailbox.uidNext;
+    } catch (error) {
+        client.close();
+        logError(`Failed to open ${account.folder} on ${account.host}`, error);
+        throw error;
+    }
+
+    return {
+        kind: 'imap',
+
+        async listMessageIds(backfillLimit: number): Promise<MailboxListing> {
+            const resumable = account.uidValidity === uidValidity && account.lastUid !== null;
+
+            if (resumable) {
+                const lastUid = account.lastUid!;
+                log(`Fetching UIDs above checkpoint ${lastUid}...`);
+                // "n:*" always matches the newest message, even when its UID is below n
+                const uids = ((await client.search({ uid: `${lastUid + 1}:*` }, { uid: true })) || [])
+                    .filter(uid => uid > lastUid)
+                    .sort((a, b) => a - b);
+
+                return {
+                    syncMode: 'incremental',
+                    messageIds: uids.map(uid => toMessageId(account.id, uidValidity, uid)),
+                    checkpoint: `${uidValidity}:${uids[uids.length - 1] ?? lastUid}`,
+                };
+            }
+
+            if (account.uidValidity) {
+                log(`UIDVALIDITY changed from ${account.uidValidity} to ${uidValidity}, falling back to full resync`);
+            }
+            log(`Backfilling up to ${backfillLimit} messages from ${account.folder}...`);
+
+            const all = ((await client.search({ all: true }, { uid: true })) || []).sort((a, b) => a - b);
+            const uids = all.slice(-backfillLimit);
+
+            return {
+                syncMode: account.uidValidity ? 'full_resync' : 'backfill',
+                messageIds: uids.map(uid => toMessageId(account.id, uidValidity, uid)),
+                checkpoint: `${uidValidity}:${Math.max(uidNext - 1, all[all.length - 1] ?? 0)}`,
+            };
+        },
+
+        async fetchMessage(messageId: string): Promise<MailboxMessage | null> {
+            const ref = parseMessageId(messageId);
+            // UIDs from an older UIDVALIDITY point at different messages now
+            if (!ref || ref.accountId !== account.id || ref.uidValidity !== uidValidity) return null;
+
+            const fetched = await client.fetchOne(String(ref.uid), { source: true }, { uid: true });
+            if (!fetched || !fetched.source) return null;
+
+            const parsed = await simpleParser(fetched.source);
+            const body = parsed.text?.trim() || (parsed.html ? htmlToText(parsed.html) : null) || null;
+
+            return {
+                id: messageId,
+                threadId: parsed.inReplyTo || parsed.messageId || null,
+                subject: parsed.subject || null,
+                from: parsed.from?.text || null,
+                date: parsed.date || null,
+                snippet: body ? body.replace(/\s+/g, ' ').slice(0, SNIPPET_LENGTH) : null,
+                body,
+                // Index among all parsed attachments is stable: IMAP messages never change
+                attachments: parsed.attachments
+                    .map((attachment, index) => ({ attachment, index }))
+                    .filter(({ attachment }) => attachment.filename && !attachment.related)
+                    .map(({ attachment, index }) => ({
+                        partId: String(index),
+                        filename: attachment.filename!,
+                        mimeType: attachment.contentType || null,
+                        size: attachment.size,
+                        download: async () => attachment.content,
+                    })),
+            };
+        },
+
+        async saveCheckpoint(checkpoint: string | null): Promise<void> {
+            const [validity, lastUid] = checkpoint ? checkpoint.split(':') : [];
+            await prisma.imapAccount.update({
+                where: { id: account.id },
+                data: {
+                    lastSyncAt: new Date(),
+                    ...(validity && lastUid ? { uidValidity: validity, lastUid: parseInt(lastUid, 10) } : {}),
+                },
+            });
+        },
+
+        async close(): Promise<void> {
+            release();
+            await client.logout().catch(() => client.close());
+        },
+    };
+}
@@ -0,0 +1,617 @@
+/**
+ * Statement Import Batches
+ * Every upload is staged as a dry-run preview first, committed only on
+ * confirmation, and can be rolled back as a unit afterwards.
+ */
+
+import { createHash } from 'crypto';
+import prisma from './prisma';
+import { ParsedTransaction, TransactionKind, calculateVendorSummaries, isCreditKind } from './csv-parser';
+import { StatementParseResult } from './statement-parser';
+import { formatCalendarDate, fromDate } from './calendar-date';
+import { BILLING_CYCLE_BY_FREQUENCY, detectFrequency, getRenewalInfo } from './renewal-detection';
+import { DEFAULT_REPORTING_CURRENCY } from './fx';
+import { applyMerchantMappings, recordMerchantMappings } from './merchant-mappings';
+import { getConfirmedRecurringVendorIds } from './recurring-detection';
+import { refreshChargeAlerts } from './charge-alerts';
+import { convertTrialsFromTransactions } from './trials';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ImportBatchStatus = 'preview' | 'committing' | 'committed' | 'rolled_back';
+export type StagedRowStatus = 'new' | 'duplicate' | 'non_saas';
+
+interface StagedRow {
+    date: string; // ISO timestamp
+    vendorName: string;
+    normalizedVendorName: string;
+    amount: number;
+    kind: TransactionKind;
+    rawDescription: string;
+    isSaaS: boolean;
+    category: string | null;
+    currency: string;
+    fingerprint: string;
+    status: StagedRowStatus;
+}
+
+// Trial conversions only change status, amount and currency, so they leave the other fields out
+interface SubscriptionSnapshot {
+    id: string;
+    amount: string | null;
+    currency: string;
+    billingCycle?: string | null;
+    renewalDate?: string | null;
+    status?: string;
+    lastDetectedAt: string;
+}
+
+// Vendors are shared, so an import that reclassifies one keeps its previous values for rollback
+interface VendorSnapshot {
+    id: string;
+    category: string | null;
+    isSaaS: boolean;
+}
+
+export interface ImportPreview {
+    batchId: string;
+    fileName: string | null;
+    format: string;
+    profileName: string | null;
+    totals: {
+        rows: number;
+        new: number;
+        duplicate: number;
+        nonSaaS: number;
+        ambiguous: number;
+        deposits: number;
+        refunds: number;
+    };
+    vendorsToCreate: string[];
+    subscriptionsToCreate: string[];
+    subscriptionsToUpdate: string[];
+    errors: string[];
+}
+
+export interface ImportCommitResult {
+    batchId: string;
+    transactionsCreated: number;
+    duplicatesSkipped: number;
+    vendorsCreated: number;
+    subscriptionsCreated: number;
+    subscriptionsUpdated: number;
+    trialsConverted: number;
+    alertsCreated: number;
+    vendors: Array<{
+        name: string;
+        totalSpend: number;
+        transactionCount: number;
+        isSaaS: boolean;
+        category: string | null;
+    }>;
+}
+
+export interface ImportRollbackResult {
+    batchId: string;
+    transactionsDeleted: number;
+    subscriptionsDeleted: number;
+    subscriptionsRestored: number;
+    vendorsRestored: number;
+    vendorsDeleted: number;
+}
+
+export type ImportBatchResult<T> =
+    | { success: true; data: T }
+    | { success: false; error: string; status: number };
+
+// ============================================================================
+// FINGERPRINTS
+// ============================================================================
+
+function toDateKey(date: Date): string {
+    return formatCalendarDate(fromDate(date));
+}
+
+/**
+ * Assign each transaction a stable fingerprint
+ * Identical rows within one file (two equal charges on the same day) get an
+ * occurrence suffix, so they stay distinct while overlapping exports still match
+ */
+export function fingerprintTransactions(transactions: ParsedTransaction[]): string[] {
+    const occurrences = new Map<string, number>();
+
+    return transactions.map(tx => {
+        const descriptor = tx.rawDescription.toLowerCase().replace(/\s+/g, ' ').trim();
+        // Plain charges keep the original key so earlier imports still match
+        const kindSuffix = tx.kind === 'charge' ? '' : `|${tx.kind}`;
+        const key = `${toDateKey(tx.date)}|${tx.amount.toFixed(2)}|${descriptor}${kindSuffix}`;
+        const occurrence = occurrences.get(key) || 0;
+        occurrences.set(key, occurrence + 1);
+
+        return createHash('sha256').update(`${key}#${occurrence}`).digest('hex');
+    });
+}
+
+function toParsedTransaction(row: StagedRow): ParsedTransaction {
+    return {
+        date: new Date(row.date),
+        vendorName: row.vendorName,
+        normalizedVendorName: row.normalizedVendorName,
+        amount: row.amount,
+        kind: row.kind,
+        rawDescription: row.rawDescription,
+        isSaaS: row.isSaaS,
+        category: row.category,
+        currency: row.currency,
+    };
+}
+
+// ============================================================================
+// PREVIEW
+// ============================================================================
+
+/**
+ * Classify parsed rows against what the user already has and stage them as a preview batch
+ * Nothing but the ImportBatch row is written until commitImportBatch is called
+ */
+export async function stageImportBatch(params: {
+    userId: string;
+    fileName: string | null;
+    profileName: string | null;
+    parseResult: StatementParseResult;
+}): Promise<ImportPreview> {
+    const { userId, fileName, profileName, parseResult } = params;
+
+    // Descriptors the user has corrected before are filed under their chosen vendor
+    const transactions = await applyMerchantMappings(userId, parseResult.transactions);
+
+    const fingerprints = fingerprintTransactions(transactions);
+    const existing = await prisma.transaction.findMany({
+        where: { userId, fingerprint: { in: fingerprints } },
+        select: { fingerprint: true },
+    });
+    const existingFingerprints = new Set(existing.map(t => t.fingerprint));
+
+    // Statements that do not state a currency are assumed to be in the user's own
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { reportingCurrency: true },
+    });
+    const defaultCurrency = user?.reportingCurrency || DEFAULT_REPORTING_CURRENCY;
+
+    const rows: StagedRow[] = transactions.map((tx, i) => ({
+        date: tx.date.toISOString(),
+        vendorName: tx.vendorName,
+        normalizedVendorName: tx.normalizedVendorName,
+        amount: tx.amount,
+        kind: tx.kind,
+        rawDescription: tx.rawDescription,
+        isSaaS: tx.isSaaS,
+        category: tx.category,
+        currency: tx.currency || defaultCurrency,
+        fingerprint: fingerprints[i],
+        status: existingFingerprints.has(fingerprints[i]) ? 'duplicate' : tx.isSaaS ? 'new' : 'non_saas',
+    }));
+
+    const importable = rows.filter(r => r.status !== 'duplicate').map(toParsedTransaction);
+    const summaries = calculateVendorSummaries(importable);
+
+    const existingVendors = await prisma.vendor.findMany({
+        where: { name: { in: summaries.map(s => s.vendorName) } },
+        select: { id: true, name: true },
+    });
+    const vendorIdByName = new Map(existingVendors.map(v => [v.name, v.id]));
+
+    const existingSubscriptions = await prisma.subscription.findMany({
+        where: { userId, source: 'csv', vendorId: { in: existingVendors.map(v => v.id) } },
+        select: { vendorId: true },
+    });
+    const subscribedVendorIds = new Set(existingSubscriptions.map(s => s.vendorId));
+
+    // Vendors outside the catalog that the user confirmed as recurring are tracked like SaaS
+    const confirmedVendorIds = await getConfirmedRecurringVendorIds(prisma, userId);
+
+    const priorCharges = await prisma.transaction.findMany({
+        where: { userId, vendorId: { in: existingVendors.map(v => v.id) } },
+        select: { vendorId: true, date: true, kind: true },
+    });
+
+    const vendorsToCreate: string[] = [];
+    const subscriptionsToCreate: string[] = [];
+    const subscriptionsToUpdate: string[] = [];
+
+    for (const summary of summaries) {
+        const vendorId = vendorIdByName.get(summary.vendorName);
+        if (!vendorId) vendorsToCreate.push(summary.vendorName);
+
+        if (!summary.isSaaS && !(vendorId && confirmedVendorIds.has(vendorId))) continue;
+
+        // Mirror the commit: one-off charges never become a subscription
+        const history = [
+            ...priorCharges.filter(c => c.vendorId === vendorId),
+            ...importable.filter(t => t.normalizedVendorName === summary.normalizedName),
+        ];
+        if (!BILLING_CYCLE_BY_FREQUENCY[detectFrequency(history)]) continue;
+
+        if (vendorId && subscribedVendorIds.has(vendorId)) {
+            subscriptionsToUpdate.push(summary.vendorName);
+        } else {
+            subscriptionsToCreate.push(summary.vendorName);
+        }
+    }
+
+    const totals = {
+        rows: parseResult.totalRows,
+        new: rows.filter(r => r.status === 'new').length,
+        duplicate: rows.filter(r => r.status === 'duplicate').length,
+        nonSaaS: rows.filter(r => r.status === 'non_saas').length,
+        ambiguous: parseResult.ambiguousRows.length,
+        deposits: parseResult.depositRows,
+        refunds: rows.filter(r => r.status !== 'duplicate' && isCreditKind(r.kind)).length,
+    };
+
+    const batch = await prisma.importBatch.create({
+        data: {
+            userId,
+            fileName,
+            format: parseResult.format,
+            profileName,
+            status: 'preview',
+            totalRows: totals.rows,
+            newCount: totals.new,
+            duplicateCount: totals.duplicate,
+            nonSaasCount: totals.nonSaaS,
+            stagedData: JSON.stringify(rows),
+            errors: JSON.stringify(parseResult.errors),
+        },
+    });
+
+    return {
+        batchId: batch.id,
+        fileName,
+        format: parseResult.format,
+        profileName,
+        totals,
+        vendorsToCreate,
+        subscriptionsToCreate,
+        subscriptionsToUpdate,
+        errors: parseResult.errors,
+    };
+}
+
+// ============================================================================
+// COMMIT
+// ============================================================================
+
+/**
+ * Write a previewed batch: vendors, non-duplicate transactions and CSV subscriptions
+ * Runs in a single database transaction so a failure leaves no partial import
+ */
+export async function commitImportBatch(
+    userId: string,
+    batchId: string
+): Promise<ImportBatchResult<ImportCommitResult>> {
+    const batch = await prisma.importBatch.findFirst({
+        where: { id: batchId, userId },
+    });
+
+    if (!batch) return { success: false, error: 'Import batch not found', status: 404 };
+    if (batch.status !== 'preview' || !batch.stagedData) {
+        return { success: false, error: `Import batch is already ${batch.status.replace('_', ' ')}`, status: 409 };
+    }
+
+    const rows = JSON.parse(batch.stagedData) as StagedRow[];
+
+    const data = await prisma.$transaction(async (tx) => {
+        // Claim the preview so a concurrent confirm of the same batch finds nothing to commit;
+        // "committing" is replaced before the transaction ends and is never seen outside it
+        const claimed = await tx.importBatch.updateMany({
+            where: { id: batch.id, userId, status: 'preview' },
+            data: { status: 'committing' },
+        });
+        if (claimed.count === 0) return null;
+
+        // Another upload may have committed the same rows since the preview
+        const alreadyImported = await tx.transaction.findMany({
+            where: { userId, fingerprint: { in: rows.map(r => r.fingerprint) } },
+            select: { fingerprint: true },
+        });
+        const importedFingerprints = new Set(alreadyImported.map(t => t.fingerprint));
+        const toImport = rows.filter(r => !importedFingerprints.has(r.fingerprint));
+
+        const summaries = calculateVendorSummaries(toImport.map(toParsedTransaction));
+        const confirmedVendorIds = await getConfirmedRecurringVendorIds(tx, userId);
+        const snapshots: SubscriptionSnapshot[] = [];
+        const vendorSnapshots: VendorSnapshot[] = [];
+        let transactionsCreated = 0;
+        let vendorsCreated = 0;
+        let subscriptionsCreated = 0;
+        let subscriptionsUpdated = 0;
+
+        for (const summary of summaries) {
+            let vendor = await tx.vendor.findUnique({ where: { name: summary.vendorName } });
+
+            if (vendor) {
+                if (vendor.category !== summary.category || vendor.isSaaS !== summary.isSaaS) {
+                    vendorSnapshots.push({ id: vendor.id, category: vendor.category, isSaaS: vendor.isSaaS });
+                    vendor = await tx.vendor.update({
+                        where: { id: vendor.id },
+                        data: { category: summary.category, isSaaS: summary.isSaaS },
+                    });
+                }
+            } else {
+                vendor = await tx.vendor.create({
+                    data: {
+                        name: summary.vendorName,
+                        normalizedName: summary.normalizedName,
+                        category: summary.category,
+                        isSaaS: summary.isSaaS,
+                        importBatchId: batch.id,
+                    },
+                });
+                vendorsCreated++;
+            }
+
+            const vendorRows = toImport.filter(r => r.normalizedVendorName === summary.normalizedName);
+            const frequency = detectFrequency(vendorRows.map(r => ({ date: new Date(r.date), kind: r.kind })));
+
+            const created = await tx.transaction.createMany({
+                data: vendorRows.map(r => ({
+                    userId,
+                    vendorId: vendor!.id,
+                    amount: r.amount,
+                    currency: r.currency,
+                    kind: r.kind,
+                    date: new Date(r.date),
+                    frequency,
+                    rawDescription: r.rawDescription,
+                    fingerprint: r.fingerprint,
+                    importBatchId: batch.id,
+                })),
+                skipDuplicates: true,
+            });
+            transactionsCreated += created.count;
+
+            if (!summary.isSaaS && !confirmedVendorIds.has(vendor.id)) continue;
+
+            // Derive the subscription from the vendor's full charge history, not just this file
+            const history = await tx.transaction.findMany({
+                where: { userId, vendorId: vendor.id },
+                select: { date: true, amount: true, currency: true, kind: true },
+                orderBy: { date: 'asc' },
+            });
+            const renewal = getRenewalInfo(history);
+            const billingCycle = BILLING_CYCLE_BY_FREQUENCY[renewal.frequency];
+            if (!billingCycle) continue;
+
+            // The plan price is the latest regular charge, not a proration or refund
+            const regularCharges = history.filter(h => h.kind === 'charge');
+            if (regularCharges.length === 0) continue;
+            const latest = regularCharges[regularCharges.length - 1];
+            const existing = await tx.subscription.findUnique({
+                where: { userId_vendorId_source: { userId, vendorId: vendor.id, source: 'csv' } },
+            });
+
+            if (existing) {
+                snapshots.push({
+                    id: existing.id,
+                    amount: existing.amount?.toString() ?? null,
+                    currency: existing.currency,
+                    billingCycle: existing.billingCycle,
+                    renewalDate: existing.renewalDate?.toISOString() ?? null,
+                    lastDetectedAt: existing.lastDetectedAt.toISOString(),
+                });
+                await tx.subscription.update({
+                    where: { id: existing.id },
+                    data: {
+                        amount: latest.amount,
+                        currency: latest.currency,
+                        billingCycle,
+                        renewalDate: renewal.renewalDate,
+                        lastDetectedAt: new Date(),
+                    },
+                });
+                subscriptionsUpdated++;
+            } else {
+                await tx.subscription.create({
+                    data: {
+                        userId,
+                        vendorId: vendor.id,
+                        source: 'csv',
+                        amount: latest.amount,
+                        currency: latest.currency,
+                        billingCycle,
+                        renewalDate: renewal.renewalDate,
+                        confidenceScore: regularCharges.length >= 3 ? 'high' : 'medium',
+                        importBatchId: batch.id,
+                    },
+                });
+                subscriptionsCreated++;
+            }
+        }
+
+        await recordMerchantMappings(tx, userId, toImport);
+
+        // A first paid charge ends a free trial; rollback restores the trial from its snapshot
+        const trialsConverted = await convertTrialsFromTransactions(tx, userId);
+        for (const trial of trialsConverted) {
+            snapshots.push({
+                id: trial.id,
+                amount: trial.amount,
+                currency: trial.currency,
+                status: trial.status,
+                lastDetectedAt: trial.lastDetectedAt.toISOString(),
+            });
+        }
+
+        await tx.importBatch.update({
+            where: { id: batch.id },
+            data: {
+                status: 'committed',
+                committedAt: new Date(),
+                stagedData: null,
+                newCount: toImport.filter(r => r.isSaaS).length,
+                nonSaasCount: toImport.filter(r => !r.isSaaS).length,
+                duplicateCount: rows.length - toImport.length,
+                subscriptionSnapshots: JSON.stringify(snapshots),
+                vendorSnapshots: JSON.stringify(vendorSnapshots),
+            },
+        });
+
+        return {
+            batchId: batch.id,
+            transactionsCreated,
+            duplicatesSkipped: rows.length - transactionsCreated,
+            vendorsCreated,
+            subscriptionsCreated,
+            subscriptionsUpdated,
+            trialsConverted: trialsConverted.length,
+            vendors: summaries.slice(0, 10).map(v => ({
+                name: v.vendorName,
+                totalSpend: v.totalAmount,
+                transactionCount: v.transactionCount,
+                isSaaS: v.isSaaS,
+                category: v.category,
+            })),
+        };
+    }, { timeout: 60000 });
+
+    if (!data) return alreadyHandled(batch.id);
+
+    // Price changes and billing anomalies are judged on the full history, once the import has landed;
+    // converted trials also drop their "trial ending" alert
+    const alertsCreated = await refreshChargeAlerts(userId);
+
+    return { success: true, data: { ...data, alertsCreated } };
+}
+
+// ============================================================================
+// ROLLBACK / DISCARD
+// ============================================================================
+
+/**
+ * Undo a committed batch: its transactions, the subscriptions and vendors it
+ * created, and the previous values of subscriptions and vendors it updated
+ */
+export async function rollbackImportBatch(
+    userId: string,
+    batchId: string
+): Promise<ImportBatchResult<ImportRollbackResult>> {
+    const batch = await prisma.importBatch.findFirst({
+        where: { id: batchId, userId },
+    });
+
+    if (!batch) return { success: false, error: 'Import batch not found', status: 404 };
+    if (batch.status !== 'committed') {
+        return { success: false, error: 'Only committed imports can be rolled back', status: 409 };
+    }
+
+    const snapshots = batch.subscriptionSnapshots
+        ? JSON.parse(batch.subscriptionSnapshots) as SubscriptionSnapshot[]
+        : [];
+    const vendorSnapshots = batch.vendorSnapshots
+        ? JSON.parse(batch.vendorSnapshots) as VendorSnapshot[]
+        : [];
+
+    const data = await prisma.$transaction(async (tx) => {
+        // Claim the batch first so two concurrent rollbacks cannot both restore snapshots
+        const claimed = await tx.importBatch.updateMany({
+            where: { id: batch.id, userId, status: 'committed' },
+            data: { status: 'rolled_back', rolledBackAt: new Date() },
+        });
+        if (claimed.count === 0) return null;
+
+        const deletedTransactions = await tx.transaction.deleteMany({
+            where: { userId, importBatchId: batch.id },
+        });
+
+        // Newest first, so a subscription updated and then converted ends up with its pre-import values
+        let subscriptionsRestored = 0;
+        for (const snapshot of [...snapshots].reverse()) {
+            const restored = await tx.subscription.updateMany({
+                where: { id: snapshot.id, userId },
+                data: {
+                    amount: snapshot.amount,
+                    currency: snapshot.currency,
+                    billingCycle: snapshot.billingCycle,
+                    renewalDate: snapshot.renewalDate === undefined
+                        ? undefined
+                        : snapshot.renewalDate ? new Date(snapshot.renewalDate) : null,
+                    status: snapshot.status,
+                    lastDetectedAt: new Date(snapshot.lastDetectedAt),
+                },
+            });
+            subscriptionsRestored += restored.count;
+        }
+
+        const deletedSubscriptions = await tx.subscription.deleteMany({
+            where: { userId, importBatchId: batch.id },
+        });
+
+        let vendorsRestored = 0;
+        for (const snapshot of vendorSnapshots) {
+            const restored = await tx.vendor.updateMany({
+                where: { id: snapshot.id },
+                data: { category: snapshot.category, isSaaS: snapshot.isSaaS },
+            });
+            vendorsRestored += restored.count;
+        }
+
+        // Only drop vendors nothing else has come to depend on since the import
+        const deletedVendors = await tx.vendor.deleteMany({
+            where: {
+                importBatchId: batch.id,
+                transactions: { none: {} },
+                subscriptions: { none: {} },
+                negotiations: { none: {} },
+            },
+        });
+
+        return {
+            batchId: batch.id,
+            transactionsDeleted: deletedTransactions.count,
+            subscriptionsDeleted: deletedSubscriptions.count,
+            subscriptionsRestored,
+            vendorsRestored,
+            vendorsDeleted: deletedVendors.count,
+        };
+    }, { timeout: 60000 });
+
+    if (!data) return alreadyHandled(batch.id);
+
+    // Drop alerts that pointed at the removed transactions
+    await refreshChargeAlerts(userId);
+
+    return { success: true, data };
+}
+
+/**
+ * Conflict response for a batch another request claimed between our check and our transaction
+ */
+async function alreadyHandled<T>(batchId: string): Promise<ImportBatchResult<T>> {
+    const current = await prisma.importBatch.findUnique({ where: { id: batchId }, select: { status: true } });
+    if (!current) return { success: false, error: 'Import batch not found', status: 404 };
+    return { success: false, error: `Import batch is already ${current.status.replace('_', ' ')}`, status: 409 };
+}
+
+/**
+ * Throw away a preview that the user did not confirm
+ */
+export async function discardImportBatch(userId: string, batchId: string): Promise<ImportBatchResult<null>> {
+    const batch = await prisma.importBatch.findFirst({
+        where: { id: batchId, userId },
+    });
+
+    if (!batch) return { success: false, error: 'Import batch not found', status: 404 };
+    if (batch.status !== 'preview') {
+        return { success: false, error: 'Only previews can be discarded; roll back committed imports instead', status: 409 };
+    }
+
+    // A confirm running at the same time has already moved the batch out of preview
+    const deleted = await prisma.importBatch.deleteMany({ where: { id: batch.id, status: 'preview' } });
+    if (deleted.count === 0) return alreadyHandled(batch.id);
+
+    return { success: true, data: null };
+}
@@ -0,0 +1,101 @@
+/**
+ * CSV Import Profiles
+ * Named per-user column mappings, matched to uploads by header signature
+ */
+
+import prisma from './prisma';
+import { ColumnMapping } from './csv-parser';
+
+export interface ImportProfileSummary {
+    id: string;
+    name: string;
+    headers: string[];
+    mapping: ColumnMapping;
+    lastUsedAt: Date | null;
+    createdAt: Date;
+}
+
+function toSummary(profile: {
+    id: string;
+    name: string;
+    headers: string;
+    mapping: string;
+    lastUsedAt: Date | null;
+    createdAt: Date;
+}): ImportProfileSummary {
+    return {
+        id: profile.id,
+        name: profile.name,
+        headers: JSON.parse(profile.headers) as string[],
+        mapping: JSON.parse(profile.mapping) as ColumnMapping,
+        lastUsedAt: profile.lastUsedAt,
+        createdAt: profile.createdAt,
+    };
+}
+
+/**
+ * Find the most recently used profile for a header signature and mark it used
+ */
+export async function findImportProfile(
+    userId: string,
+    headerSignature: string
+): Promise<ImportProfileSummary | null> {
+    const profile = await prisma.importProfile.findFirst({
+        where: { userId, headerSignature },
+        orderBy: [{ lastUsedAt: 'desc' }, { updatedAt: 'desc' }],
+    });
+
+    if (!profile) return null;
+
+    const used = await prisma.importProfile.update({
+        where: { id: profile.id },
+        data: { lastUsedAt: new Date() },
+    });
+
+    return toSummary(used);
+}
+
+/**
+ * Create or overwrite a named profile for the given header row
+ */
+export async function saveImportProfile(params: {
+    userId: string;
+    name: string;
+    headerSignature: string;
+    headers: string[];
+    mapping: ColumnMapping;
+}): Promise<ImportProfileSummary> {
+    const { userId, name, headerSignature, headers, mapping } = params;
+
+    const profile = await prisma.importProfile.upsert({
+        where: { userId_name: { userId, name } },
+        update: {
+            headerSignature,
+            headers: JSON.stringify(headers),
+            mapping: JSON.stringify(mapping),
+            lastUsedAt: new Date(),
+        },
+        create: {
+            userId,
+            name,
+            headerSignature,
+            headers: JSON.stringify(headers),
+            mapping: JSON.stringify(mapping),
+            lastUsedAt: new Date(),
+        },
+    });
+
+    return toSummary(profile);
+}
+
+/**
+ * List a user's saved profiles, most recently used first
+ */
+export async function listImportProfiles(userId: string): Promise<ImportProfileSummary[]> {
+    const profiles = await prisma.importProfile.findMany({
+        where: { userId },
+        orderBy: [{ lastUsedAt: 'desc' }, { name: 'asc' }],
+    });
+
+    return profiles.map(toSummary);
+}
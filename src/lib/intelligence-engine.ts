@@ -398,8 +398,26 @@ Best regards`;
 // INTELLIGENCE SNAPSHOT MANAGEMENT
 // ============================================================================
 
+/**
+ * Cached intelligence snapshot for a subscription, without generating one
+ */
+export async function getIntelligenceSnapshot(subscriptionId: string): Promise<IntelligenceSnapshot | null> {
+    const existing = await prisma.subscriptionIntelligence.findUnique({
+        where: { subscriptionId },
+    });
+    if (!existing) return null;
+
+    return {
+        ...existing,
+        vendorType: existing.vendorType as VendorType,
+        assumptions: JSON.parse(existing.assumptions || '[]'),
+        alternatives: JSON.parse(existing.alternatives),
+    };
+}
+
 /**
  * Get or create intelligence snapshot for a subscription
+ * Generation makes several LLM calls; routes run it as a background job
  */
 export async function getOrCreateIntelligence(
     subscriptionId: string,
@@ -407,18 +425,8 @@ export async function getOrCreateIntelligence(
 ): Promise<IntelligenceSnapshot | null> {
     // Try to get existing snapshot
     if (!forceRegenerate) {
-        const existing = await prisma.subscriptionIntelligence.findUnique({
-            where: { subscriptionId },
-        });
-
-        if (existing) {
-            return {
-                ...existing,
-                vendorType: existing.vendorType as VendorType,
-                assumptions: JSON.parse(existing.assumptions || '[]'),
-                alternatives: JSON.parse(existing.alternatives),
-            };
-        }
+        const existing = await getIntelligenceSnapshot(subscriptionId);
+        if (existing) return existing;
     }
 
     // Get subscription with vendor
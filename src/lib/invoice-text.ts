@@ -0,0 +1,432 @@
+/**
+ * Invoice Text Extraction
+ * Pulls readable text out of PDF and HTML invoice attachments locally, so
+ * amounts, seats and plans that only appear in the invoice reach the LLM.
+ *
+ * The PDF reader handles the text layer of generated invoices (Flate-compressed
+ * content streams, ToUnicode maps). Scanned or image-only PDFs yield no text.
+ */
+
+import { inflateSync } from 'zlib';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type InvoiceFormat = 'pdf' | 'html';
+
+// Extracted text beyond this is cut; invoice totals are near the top
+export const MAX_INVOICE_TEXT_LENGTH = 20000;
+
+// ============================================================================
+// FORMAT DETECTION
+// ============================================================================
+
+/**
+ * Which reader applies to an attachment, by MIME type then file extension
+ * Returns null for attachments that are not invoices we can read
+ */
+export function detectInvoiceFormat(mimeType: string | null, filename: string | null): InvoiceFormat | null {
+    const type = (mimeType || '').toLowerCase();
+    const name = (filename || '').toLowerCase();
+
+    if (type === 'application/pdf' || name.endsWith('.pdf')) return 'pdf';
+    if (type === 'text/html' || name.endsWith('.html') || name.endsWith('.htm')) return 'html';
+    return null;
+}
+
+/**
+ * Text of an invoice attachment, or null when nothing readable was found
+ */
+export function extractInvoiceText(data: Buffer, format: InvoiceFormat): string | null {
+    let text: string;
+    try {
+        text = format === 'pdf' ? extractPdfText(data) : htmlToText(data.toString('utf-8'));
+    } catch (error) {
+        console.error('[Invoice] Failed to read attachment:', error);
+        return null;
+    }
+
+    text = text.trim();
+    if (!text) return null;
+    return text.length > MAX_INVOICE_TEXT_LENGTH ? text.slice(0, MAX_INVOICE_TEXT_LENGTH) : text;
+}
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' ',
+    euro: '€',
+    pound: '£',
+    yen: '¥',
+    copy: '©',
+    reg: '®',
+    ndash: '–',
+    mdash: '—',
+};
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+        if (entity[0] === '#') {
+            const code = entity[1] === 'x' || entity[1] === 'X'
+                ? parseInt(entity.slice(2), 16)
+                : parseInt(entity.slice(1), 10);
+            return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+        }
+        return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    });
+}
+
+/**
+ * Plain text of an HTML document, keeping table rows and paragraphs on their own lines
+ */
+export function htmlToText(html: string): string {
+    const text = html
+        .replace(/<!--[\s\S]*?-->/g, ' ')
+        .replace(/<(script|style|head)\b[\s\S]*?<\/\1>/gi, ' ')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(p|div|tr|li|h[1-6]|table|section)>/gi, '\n')
+        .replace(/<\/(td|th)>/gi, '\t')
+        .replace(/<[^>]*>/g, ' ');
+
+    return decodeEntities(text)
+        .split('\n')
+        .map(line => line.replace(/[ \t ]+/g, ' ').trim())
+        .filter(line => line.length > 0)
+        .join('\n');
+}
+
+// ============================================================================
+// PDF
+// ============================================================================
+
+interface PdfStream {
+    dictionary: string;
+    data: Buffer;
+}
+
+// Inflate limits; a small compressed stream can expand to gigabytes
+const MAX_INFLATED_STREAM_BYTES = 4 * 1024 * 1024;
+const MAX_INFLATED_TOTAL_BYTES = 16 * 1024 * 1024;
+
+interface UnicodeMaps {
+    oneByte: Map<number, string>;
+    twoByte: Map<number, string>;
+}
+
+/**
+ * Every stream in the file with its dictionary, Flate streams inflated
+ * Streams with other filters (images, fonts) are skipped, as are streams that
+ * inflate past the per-stream or per-file limit
+ */
+function readStreams(pdf: Buffer): PdfStream[] {
+    const raw = pdf.toString('latin1');
+    const streams: PdfStream[] = [];
+    const keyword = /stream\r?\n/g;
+    let inflatedBytes = 0;
+
+    let match: RegExpExecArray | null;
+    while ((match = keyword.exec(raw)) !== null) {
+        // A stream keyword follows its dictionary; this also skips "endstream"
+        if (!/>>\s*$/.test(raw.slice(Math.max(0, match.index - 20), match.index))) continue;
+
+        const dictEnd = raw.lastIndexOf('>>', match.index);
+        const dictStart = findDictionaryStart(raw, dictEnd + 1);
+        if (dictStart < 0) continue;
+        const dictionary = raw.slice(dictStart, dictEnd + 2);
+
+        const start = match.index + match[0].length;
+        const end = raw.indexOf('endstream', start);
+        if (end < 0) break;
+        keyword.lastIndex = end + 'endstream'.length;
+
+        const filters = dictionary.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1] || '';
+        if (filters && filters.replace(/\/FlateDecode/g, '').replace(/[\[\]\s]/g, '') !== '') continue;
+
+        let data = Buffer.from(raw.slice(start, end).replace(/\r?\n$/, ''), 'latin1');
+        if (filters) {
+            const maxOutputLength = Math.min(MAX_INFLATED_STREAM_BYTES, MAX_INFLATED_TOTAL_BYTES - inflatedBytes);
+            if (maxOutputLength <= 0) break;
+            try {
+                data = inflateSync(data, { maxOutputLength });
+            } catch (error) {
+                // Oversized streams still count, so many of them cannot add up to unbounded work
+                if ((error as { code?: string }).code === 'ERR_BUFFER_TOO_LARGE') inflatedBytes += maxOutputLength;
+                continue;
+            }
+            inflatedBytes += data.length;
+        }
+        streams.push({ dictionary, data });
+    }
+
+    return streams;
+}
+
+function findDictionaryStart(raw: string, dictEnd: number): number {
+    let depth = 0;
+    for (let i = dictEnd; i > 0; i--) {
+        if (raw[i] === '>' && raw[i - 1] === '>') {
+            depth++;
+            i--;
+        } else if (raw[i] === '<' && raw[i - 1] === '<') {
+            depth--;
+            i--;
+            if (depth === 0) return i;
+        }
+    }
+    return -1;
+}
+
+function hexToString(hex: string): string {
+    const codes: number[] = [];
+    for (let i = 0; i < hex.length; i += 4) {
+        codes.push(parseInt(hex.slice(i, i + 4).padEnd(4, '0'), 16));
+    }
+    return String.fromCharCode(...codes);
+}
+
+/**
+ * Merge every ToUnicode CMap in the file
+ * Maps are not tied back to their fonts; invoices rarely reuse codes across fonts
+ */
+function readUnicodeMaps(streams: PdfStream[]): UnicodeMaps {
+    const maps: UnicodeMaps = { oneByte: new Map(), twoByte: new Map() };
+
+    const add = (source: string, code: number, value: string) => {
+        (source.length <= 2 ? maps.oneByte : maps.twoByte).set(code, value);
+    };
+
+    for (const stream of streams) {
+        const text = stream.data.toString('latin1');
+        if (!text.includes('begincmap')) continue;
+
+        for (const block of text.match(/beginbfchar[\s\S]*?endbfchar/g) || []) {
+            for (const [, source, target] of Array.from(block.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>/g))) {
+                add(source, parseInt(source, 16), hexToString(target));
+            }
+        }
+
+        for (const block of text.match(/beginbfrange[\s\S]*?endbfrange/g) || []) {
+            const ranges = block.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]+>|\[[^\]]*\])/g);
+            for (const [, low, high, target] of Array.from(ranges)) {
+                const first = parseInt(low, 16);
+                const last = parseInt(high, 16);
+                if (last - first > 0xffff) continue;
+
+                if (target.startsWith('[')) {
+                    const values = Array.from(target.matchAll(/<([0-9a-fA-F]+)>/g)).map(m => hexToString(m[1]));
+                    values.forEach((value, i) => add(low, first + i, value));
+                } else {
+                    const base = hexToString(target.slice(1, -1));
+                    const lastChar = base.charCodeAt(base.length - 1);
+                    for (let code = first; code <= last; code++) {
+                        add(low, code, base.slice(0, -1) + String.fromCharCode(lastChar + code - first));
+                    }
+                }
+            }
+        }
+    }
+
+    return maps;
+}
+
+/**
+ * Decode a shown string: two-byte codes when every pair is in a Type0 font map,
+ * otherwise one byte per character through the simple font map or Latin-1
+ */
+function decodeShownString(bytes: number[], maps: UnicodeMaps): string {
+    if (maps.twoByte.size > 0 && bytes.length % 2 === 0) {
+        const codes: number[] = [];
+        for (let i = 0; i < bytes.length; i += 2) codes.push((bytes[i] << 8) | bytes[i + 1]);
+        if (codes.every(code => maps.twoByte.has(code))) {
+            return codes.map(code => maps.twoByte.get(code)).join('');
+        }
+    }
+    return bytes.map(byte => maps.oneByte.get(byte) ?? String.fromCharCode(byte)).join('');
+}
+
+type Operand = { kind: 'string'; bytes: number[] } | { kind: 'number'; value: number } | { kind: 'array'; items: Operand[] } | { kind: 'other' };
+
+const LITERAL_ESCAPES: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12 };
+
+/**
+ * Read the text-showing operators of one content stream
+ * Text runs on the same baseline are joined with spaces, a new baseline starts a new line
+ */
+function readContentText(content: string, maps: UnicodeMaps): string {
+    let out = '';
+    let stack: Operand[] = [];
+    let arrays: Operand[][] = [];
+    let i = 0;
+
+    let textY = 0;
+    let lastY: number | null = null;
+    let moved = false;
+    let nextLine = false;
+
+    const push = (operand: Operand) => {
+        if (arrays.length > 0) arrays[arrays.length - 1].push(operand);
+        else stack.push(operand);
+    };
+    const number = (index: number) => {
+        const operand = stack[stack.length - index];
+        return operand?.kind === 'number' ? operand.value : 0;
+    };
+    const show = (operand: Operand | undefined) => {
+        if (operand?.kind !== 'string') return;
+        if (lastY !== null && (nextLine || Math.abs(textY - lastY) > 1)) {
+            if (!out.endsWith('\n')) out += '\n';
+        } else if (moved && out && !/\s$/.test(out)) {
+            out += ' ';
+        }
+        out += decodeShownString(operand.bytes, maps);
+        lastY = textY;
+        moved = false;
+        nextLine = false;
+    };
+
+    while (i < content.length) {
+        const char = content[i];
+
+        if (/\s/.test(char)) {
+            i++;
+        } else if (char === '%') {
+            while (i < content.length && content[i] !== '\n' && content[i] !== '\r') i++;
+        } else if (char === '(') {
+            const bytes: number[] = [];
+            let depth = 1;
+            i++;
+            while (i < content.length && depth > 0) {
+                const c = content[i];
+                if (c === '\\') {
+                    const next = content[i + 1];
+                    if (next in LITERAL_ESCAPES) {
+                        bytes.push(LITERAL_ESCAPES[next]);
+                        i += 2;
+                    } else if (/[0-7]/.test(next)) {
+                        const octal = content.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)![0];
+                        bytes.push(parseInt(octal, 8) & 0xff);
+                        i += 1 + octal.length;
+                    } else if (next === '\r' || next === '\n') {
+                        i += next === '\r' && content[i + 2] === '\n' ? 3 : 2;
+                    } else {
+                        bytes.push(next.charCodeAt(0));
+                        i += 2;
+                    }
+                    continue;
+                }
+                if (c === '(') depth++;
+                if (c === ')') depth--;
+                if (depth > 0) bytes.push(c.charCodeAt(0));
+                i++;
+            }
+            push({ kind: 'string', bytes });
+        } else if (char === '<' && content[i + 1] !== '<') {
+            const end = content.indexOf('>', i);
+            const hex = content.slice(i + 1, end < 0 ? content.length : end).replace(/\s/g, '');
+            const bytes: number[] = [];
+            for (let j = 0; j < hex.length; j += 2) bytes.push(parseInt(hex.slice(j, j + 2).padEnd(2, '0'), 16));
+            push({ kind: 'string', bytes });
+            i = end < 0 ? content.length : end + 1;
+        } else if (char === '[') {
+            arrays.push([]);
+            i++;
+        } else if (char === ']') {
+            const items = arrays.pop() || [];
+            push({ kind: 'array', items });
+            i++;
+        } else if (/[-+.\d]/.test(char)) {
+            const number = content.slice(i).match(/^[-+]?(\d+\.?\d*|\.\d+)/);
+            if (number) {
+                push({ kind: 'number', value: parseFloat(number[0]) });
+                i += number[0].length;
+            } else {
+                i++;
+            }
+        } else if (char === '/' || char === '<' || char === '>' || char === '{' || char === '}') {
+            // Names and inline dictionaries are operands no text operator needs
+            const token = content.slice(i).match(/^(\/[^\s/[\]()<>{}%]*|<<|>>|[{}])/);
+            push({ kind: 'other' });
+            i += token ? token[0].length : 1;
+        } else {
+            const operator = content.slice(i).match(/^[A-Za-z'"*]+\d?\*?/)?.[0] || char;
+            i += operator.length;
+
+            // Inline images carry binary data up to "EI"
+            if (operator === 'ID') {
+                const end = content.indexOf('EI', i);
+                i = end < 0 ? content.length : end + 2;
+            }
+
+            switch (operator) {
+                case 'BT':
+                    textY = 0;
+                    moved = true;
+                    break;
+                case 'Td':
+                case 'TD':
+                    textY += number(1);
+                    moved = true;
+                    break;
+                case 'Tm':
+                    textY = number(1);
+                    moved = true;
+                    break;
+                case 'T*':
+                    nextLine = true;
+                    break;
+                case 'Tj':
+                    show(stack[stack.length - 1]);
+                    break;
+                case "'":
+                case '"':
+                    nextLine = true;
+                    show(stack[stack.length - 1]);
+                    break;
+                case 'TJ': {
+                    const array = stack[stack.length - 1];
+                    if (array?.kind !== 'array') break;
+                    for (const item of array.items) {
+                        // Large negative kerning is a word gap
+                        if (item.kind === 'number' && item.value < -200) moved = true;
+                        else show(item);
+                    }
+                    break;
+                }
+            }
+
+            stack = [];
+            arrays = [];
+        }
+    }
+
+    return out;
+}
+
+/**
+ * Text layer of a PDF, one line per text line where the layout allows
+ */
+export function extractPdfText(pdf: Buffer): string {
+    const streams = readStreams(pdf);
+    const maps = readUnicodeMaps(streams);
+
+    const pages = streams
+        .filter(stream => !/\/Subtype\s*\/(Image|Type1C|CIDFontType0C|OpenType)/.test(stream.dictionary))
+        .map(stream => stream.data.toString('latin1'))
+        .filter(content => /\bBT\b/.test(content) && /T[jJ]\b|['"]/.test(content))
+        .map(content => readContentText(content, maps));
+
+    return pages
+        .join('\n')
+        .split('\n')
+        .map(line => line.replace(/\s+/g, ' ').trim())
+        .filter(line => line.length > 0)
+        .join('\n');
+}
@@ -0,0 +1,90 @@
+/**
+ * Job Polling
+ * Browser-side helper for routes that answer 202 with a background job:
+ * follows the job's event stream, or polls /api/jobs/[id] where streaming
+ * is unavailable, until the job succeeds, fails or is cancelled.
+ */
+
+export interface PolledJob<T = unknown> {
+    id: string;
+    type: string;
+    status: 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+    progress: number;
+    progressTotal: number | null;
+    progressMessage: string | null;
+    stats: Record<string, number> | null;
+    cancelRequested: boolean;
+    result: T | null;
+    error: string | null;
+}
+
+const POLL_INTERVAL_MS = 1500;
+
+export function isJobFinished(job: PolledJob<unknown>): boolean {
+    return job.status === 'succeeded' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+/**
+ * Follow the event stream until the job finishes; resolves null if the stream
+ * breaks first so the caller can fall back to polling
+ */
+function streamJob<T>(jobId: string, onUpdate?: (job: PolledJob<T>) => void): Promise<PolledJob<T> | null> {
+    return new Promise(resolve => {
+        const source = new EventSource(`/api/jobs/${jobId}/events`);
+        let lastSeen: PolledJob<T> | null = null;
+
+        source.onmessage = (event) => {
+            const job: PolledJob<T> = JSON.parse(event.data);
+            lastSeen = job;
+            onUpdate?.(job);
+            if (isJobFinished(job)) {
+                source.close();
+                resolve(job);
+            }
+        };
+
+        // The server ends long streams and EventSource reconnects on its own;
+        // only give up once the browser has stopped retrying
+        source.onerror = () => {
+            if (source.readyState === EventSource.CLOSED) {
+                resolve(lastSeen && isJobFinished(lastSeen) ? lastSeen : null);
+            }
+        };
+    });
+}
+
+/**
+ * Resolve with the finished job; `onUpdate` sees every change so callers can show progress
+ */
+export async function waitForJob<T = unknown>(
+    jobId: string,
+    onUpdate?: (job: PolledJob<T>) => void
+): Promise<PolledJob<T>> {
+    if (typeof EventSource !== 'undefined') {
+        const streamed = await streamJob(jobId, onUpdate);
+        if (streamed) return streamed;
+    }
+
+    for (;;) {
+        const res = await fetch(`/api/jobs/${jobId}`, { cache: 'no-store' });
+        if (!res.ok) {
+            throw new Error(`Failed to fetch job status (${res.status})`);
+        }
+
+        const job: PolledJob<T> = await res.json();
+        onUpdate?.(job);
+        if (isJobFinished(job)) return job;
+
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+}
+
+/**
+ * Ask a job to stop; scans finish the message they are on and keep what they found
+ */
+export async function requestJobCancel(jobId: string): Promise<void> {
+    const res = await fetch(`/api/jobs/${jobId}/cancel`, { method: 'POST' });
+    if (!res.ok && res.status !== 409) {
+        throw new Error(`Failed to cancel job (${res.status})`);
+    }
+}
@@ -0,0 +1,110 @@
+/**
+ * Job Handlers
+ * What each background job type does. Results are stored as JSON on the job
+ * and returned by the status endpoint in the shape the synchronous routes used to.
+ */
+
+import type { JobContext, JobHandlers, StatementUploadPayload } from './jobs';
+import { describeScanResult, scanMailbox, MailboxKind } from './mailbox';
+import { previewCSV } from './csv-parser';
+import { parseStatement } from './statement-parser';
+import { stageImportBatch } from './import-batches';
+import { getOrCreateIntelligence } from './intelligence-engine';
+import { proposeExtractionChanges } from './reprocess';
+
+async function runMailboxScan(kind: MailboxKind, maxResults: number, context: JobContext) {
+    const result = await scanMailbox(context.userId, kind, {
+        backfillLimit: maxResults,
+        onProgress: stats => context.reportProgress({
+            progress: stats.messagesChecked,
+            total: stats.messagesListed,
+            message: `Checked ${stats.messagesChecked} of ${stats.messagesListed} emails`,
+            stats: { ...stats },
+        }),
+        shouldStop: context.isCancelRequested,
+    });
+
+    return {
+        success: true,
+        cancelled: result.cancelled,
+        syncMode: result.syncMode,
+        ...(kind === 'gmail' ? { historyId: result.checkpoint } : {}),
+        messagesScanned: result.messagesScanned,
+        newMessages: result.newMessages,
+        messagesFetched: result.messagesFetched,
+        messagesClassified: result.messagesClassified,
+        extractionCalls: result.extractionCalls,
+        subscriptionsCreated: result.subscriptionsCreated,
+        vendorsCreated: result.vendorsCreated,
+        reviewsQueued: result.reviewsQueued,
+        skippedCount: result.skippedCount,
+        message: describeScanResult(result),
+    };
+}
+
+/**
+ * Parse a statement and stage it as a dry-run import batch
+ */
+async function stageStatementUpload(payload: StatementUploadPayload, context: JobContext) {
+    const { content, mapping, mappingConfirmed, profileName } = payload;
+
+    await context.reportProgress({ progress: 0, total: null, message: 'Parsing statement' });
+    const parseResult = parseStatement(content, { mapping: mapping ?? undefined });
+
+    // A saved profile whose locale is still 'auto' may not settle this file's
+    // dates or amounts; ask the user instead of dropping the ambiguous rows
+    if (parseResult.format === 'csv' && mapping && !mappingConfirmed && parseResult.ambiguousRows.length > 0) {
+        return {
+            success: false,
+            needsMapping: true,
+            preview: previewCSV(content, mapping),
+            profileName,
+            ambiguousRows: parseResult.ambiguousRows.length,
+        };
+    }
+
+    if (parseResult.transactions.length === 0) {
+        const firstError = parseResult.errors[0];
+        throw new Error(firstError ? `No valid transactions found: ${firstError}` : 'No valid transactions found');
+    }
+
+    await context.reportProgress({
+        progress: 0,
+        total: parseResult.transactions.length,
+        message: 'Matching vendors',
+        stats: {
+            rowsRead: parseResult.totalRows,
+            transactionsParsed: parseResult.transactions.length,
+        },
+    });
+
+    // Stage a dry-run preview; nothing is written until the batch is committed
+    const preview = await stageImportBatch({
+        userId: context.userId,
+        fileName: payload.fileName,
+        profileName,
+        parseResult,
+    });
+
+    return { success: true, preview };
+}
+
+export const JOB_HANDLERS: JobHandlers = {
+    gmail_scan: (payload, context) => runMailboxScan('gmail', payload.maxResults, context),
+
+    imap_scan: (payload, context) => runMailboxScan('imap', payload.maxResults, context),
+
+    outlook_scan: (payload, context) => runMailboxScan('outlook', payload.maxResults, context),
+
+    statement_upload: stageStatementUpload,
+
+    async intelligence(payload) {
+        const intelligence = await getOrCreateIntelligence(payload.subscriptionId, payload.forceRegenerate);
+        if (!intelligence) {
+            throw new Error('Subscription not found');
+        }
+        return { ...intelligence, regenerated: payload.forceRegenerate };
+    },
+
+    reprocess_extraction: proposeExtractionChanges,
+};
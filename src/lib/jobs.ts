@@ -0,0 +1,502 @@
+/**
+ * Background Job Queue
+ * Postgres-backed queue for work too slow for a request: mailbox scans,
+ * statement staging and intelligence generation. Routes enqueue a job and
+ * return its ID; workers claim queued jobs, retry transient failures with
+ * withRetry and record status, progress and the handler's result.
+ */
+
+import { randomUUID } from 'crypto';
+import type { Job } from '@prisma/client';
+import prisma from './prisma';
+import { withRetry } from './retry';
+import { JOB_HANDLERS } from './job-handlers';
+import type { ColumnMapping } from './csv-parser';
+import type { ReprocessSelection } from './reprocess';
+
+// ============================================================================
+// LOGGING
+// ============================================================================
+const LOG_PREFIX = '[Jobs]';
+
+function log(message: string, data?: Record<string, unknown>) {
+    const timestamp = new Date().toISOString();
+    if (data) {
+        console.log(`${timestamp} ${LOG_PREFIX} ${message}`, JSON.stringify(data, null, 2));
+    } else {
+        console.log(`${timestamp} ${LOG_PREFIX} ${message}`);
+    }
+}
+
+function logError(message: string, error: unknown) {
+    const timestamp = new Date().toISOString();
+    console.error(`${timestamp} ${LOG_PREFIX} ERROR: ${message}`, error);
+}
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StatementUploadPayload {
+    content: string;
+    fileName: string | null;
+    mapping: ColumnMapping | null;
+    mappingConfirmed: boolean;
+    profileName: string | null;
+}
+
+/**
+ * Handler input for each job type
+ */
+export interface JobPayloads {
+    gmail_scan: { maxResults: number };
+    imap_scan: { maxResults: number };
+    outlook_scan: { maxResults: number };
+    statement_upload: StatementUploadPayload;
+    intelligence: { subscriptionId: string; forceRegenerate: boolean };
+    reprocess_extraction: ReprocessSelection;
+}
+
+export type JobType = keyof JobPayloads;
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+// Counters a handler reports alongside its progress, e.g. messages fetched
+export type JobStats = Record<string, number>;
+
+export interface JobProgressUpdate {
+    progress: number;
+    total?: number | null;
+    message?: string | null;
+    stats?: JobStats;
+}
+
+export interface JobContext {
+    jobId: string;
+    userId: string;
+    attempt: number;
+    reportProgress(update: JobProgressUpdate): Promise<void>;
+    // Handlers that can stop part-way ask this between units of work
+    isCancelRequested(): Promise<boolean>;
+}
+
+export type JobResult<T> =
+    | { success: true; data: T }
+    | { success: false; error: string; status: number };
+
+export type JobHandlers = {
+    [T in JobType]: (payload: JobPayloads[T], context: JobContext) => Promise<unknown>;
+};
+
+/**
+ * What the status endpoint returns; the payload is never exposed
+ */
+export interface JobView {
+    id: string;
+    type: JobType;
+    status: JobStatus;
+    progress: number;
+    progressTotal: number | null;
+    progressMessage: string | null;
+    stats: JobStats | null;
+    cancelRequested: boolean;
+    attempts: number;
+    maxAttempts: number;
+    result: unknown;
+    error: string | null;
+    createdAt: Date;
+    startedAt: Date | null;
+    finishedAt: Date | null;
+}
+
+const POLL_INTERVAL_MS = 2000;
+// Running jobs that stop reporting for this long are assumed lost with their worker
+const STALE_LOCK_MS = 10 * 60 * 1000;
+// Progress writes are throttled; a scan can skip hundreds of known messages a second
+const PROGRESS_WRITE_INTERVAL_MS = 1000;
+const FINISHED_JOB_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export function toJobView(job: Job): JobView {
+    return {
+        id: job.id,
+        type: job.type as JobType,
+        status: job.status as JobStatus,
+        progress: job.progress,
+        progressTotal: job.progressTotal,
+        progressMessage: job.progressMessage,
+        stats: job.stats ? JSON.parse(job.stats) as JobStats : null,
+        cancelRequested: job.cancelRequestedAt !== null,
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        result: job.result ? JSON.parse(job.result) : null,
+        error: job.error,
+        createdAt: job.createdAt,
+        startedAt: job.startedAt,
+        finishedAt: job.finishedAt,
+    };
+}
+
+// ============================================================================
+// ENQUEUE & STATUS
+// ============================================================================
+
+function isUniqueViolation(error: unknown): boolean {
+    return (error as { code?: string })?.code === 'P2002';
+}
+
+/**
+ * Queue a job for the user
+ * With a key, enqueuing again while a job with the same type and key is still
+ * queued or running returns that job instead of adding a second one
+ */
+export async function enqueueJob<T extends JobType>(params: {
+    userId: string;
+    type: T;
+    payload: JobPayloads[T];
+    key?: string;
+    maxAttempts?: number;
+}): Promise<JobView> {
+    const { userId, type, payload, key } = params;
+    const activeKey = key ? `${userId}:${type}:${key}` : null;
+
+    if (activeKey) {
+        const active = await prisma.job.findUnique({ where: { activeKey } });
+        if (active) return toJobView(active);
+    }
+
+    try {
+        const job = await prisma.job.create({
+            data: {
+                userId,
+                type,
+                key: key ?? null,
+                activeKey,
+                payload: JSON.stringify(payload),
+                maxAttempts: params.maxAttempts ?? 3,
+            },
+        });
+        log(`Queued ${type} job ${job.id}`, { userId, key });
+
+        wakeJobWorker();
+        return toJobView(job);
+    } catch (error) {
+        // Lost a race with an identical enqueue
+        if (activeKey && isUniqueViolation(error)) {
+            const active = await prisma.job.findUnique({ where: { activeKey } });
+            if (active) return toJobView(active);
+        }
+        throw error;
+    }
+}
+
+export async function getJob(userId: string, jobId: string): Promise<JobView | null> {
+    const job = await prisma.job.findFirst({ where: { id: jobId, userId } });
+    return job ? toJobView(job) : null;
+}
+
+const FINISHED_STATUSES: JobStatus[] = ['succeeded', 'failed', 'cancelled'];
+
+export function isJobFinished(job: { status: string }): boolean {
+    return FINISHED_STATUSES.includes(job.status as JobStatus);
+}
+
+/**
+ * Cancel a job: queued jobs never start, running jobs stop at their next
+ * checkpoint (a scan finishes the message it is on) and keep what they did
+ */
+export async function cancelJob(userId: string, jobId: string): Promise<JobResult<JobView>> {
+    const job = await prisma.job.findFirst({ where: { id: jobId, userId } });
+    if (!job) {
+        return { success: false, error: 'Job not found', status: 404 };
+    }
+    if (isJobFinished(job)) {
+        return { success: false, error: 'Job has already finished', status: 409 };
+    }
+
+    const now = new Date();
+    const dequeued = await prisma.job.updateMany({
+        where: { id: jobId, status: 'queued' },
+        data: {
+            status: 'cancelled',
+            cancelRequestedAt: now,
+            payload: '{}',
+            activeKey: null,
+            finishedAt: now,
+        },
+    });
+    if (dequeued.count === 0) {
+        await prisma.job.update({ where: { id: jobId }, data: { cancelRequestedAt: now } });
+    }
+
+    log(`Cancel requested for ${job.type} job ${jobId}`, { wasRunning: dequeued.count === 0 });
+    const updated = await prisma.job.findUniqueOrThrow({ where: { id: jobId } });
+    return { success: true, data: toJobView(updated) };
+}
+
+export async function listJobs(
+    userId: string,
+    options: { type?: JobType; activeOnly?: boolean; limit?: number } = {}
+): Promise<JobView[]> {
+    const jobs = await prisma.job.findMany({
+        where: {
+            userId,
+            ...(options.type ? { type: options.type } : {}),
+            ...(options.activeOnly ? { status: { in: ['queued', 'running'] } } : {}),
+        },
+        orderBy: { createdAt: 'desc' },
+        take: options.limit ?? 20,
+    });
+    return jobs.map(toJobView);
+}
+
+// ============================================================================
+// EXECUTION
+// ============================================================================
+
+/**
+ * Claim the oldest queued job; the conditional update makes sure only one
+ * worker wins when several poll at once
+ */
+async function claimNextJob(workerId: string): Promise<Job | null> {
+    for (let tries = 0; tries < 3; tries++) {
+        const candidate = await prisma.job.findFirst({
+            where: { status: 'queued' },
+            orderBy: { createdAt: 'asc' },
+            select: { id: true },
+        });
+        if (!candidate) return null;
+
+        const now = new Date();
+        const claimed = await prisma.job.updateMany({
+            where: { id: candidate.id, status: 'queued' },
+            data: { status: 'running', lockedBy: workerId, lockedAt: now, startedAt: now },
+        });
+        if (claimed.count === 1) {
+            return prisma.job.findUnique({ where: { id: candidate.id } });
+        }
+    }
+    return null;
+}
+
+async function finishJob(
+    jobId: string,
+    outcome:
+        | { status: 'succeeded' | 'cancelled'; result: unknown }
+        | { status: 'failed' | 'cancelled'; error: string }
+): Promise<void> {
+    await prisma.job.update({
+        where: { id: jobId },
+        data: {
+            status: outcome.status,
+            result: 'result' in outcome ? JSON.stringify(outcome.result ?? null) : undefined,
+            error: 'error' in outcome ? outcome.error : null,
+            // Statements can be large and hold account data; keep only the result
+            payload: '{}',
+            activeKey: null,
+            lockedBy: null,
+            lockedAt: null,
+            finishedAt: new Date(),
+        },
+    });
+}
+
+/**
+ * Run a claimed job to completion
+ * Transient errors (network, rate limits, 5xx) are retried with backoff until
+ * the job's attempts are used up; anything else fails the job straight away
+ */
+async function runJob(job: Job): Promise<void> {
+    const handler = JOB_HANDLERS[job.type as JobType] as
+        | ((payload: unknown, context: JobContext) => Promise<unknown>)
+        | undefined;
+    if (!handler) {
+        await finishJob(job.id, { status: 'failed', error: `Unknown job type: ${job.type}` });
+        return;
+    }
+
+    const payload: unknown = JSON.parse(job.payload);
+    let lastProgressWrite = 0;
+
+    const isCancelRequested = async () => {
+        const current = await prisma.job.findUnique({
+            where: { id: job.id },
+            select: { cancelRequestedAt: true },
+        });
+        return !!current?.cancelRequestedAt;
+    };
+
+    log(`Running ${job.type} job ${job.id}`, { attempts: job.attempts, maxAttempts: job.maxAttempts });
+
+    try {
+        const result = await withRetry(async () => {
+            const { attempts } = await prisma.job.update({
+                where: { id: job.id },
+                data: { attempts: { increment: 1 }, lockedAt: new Date() },
+                select: { attempts: true },
+            });
+
+            return handler(payload, {
+                jobId: job.id,
+                userId: job.userId,
+                attempt: attempts,
+                async reportProgress({ progress, total, message, stats }) {
+                    const now = Date.now();
+                    if (now - lastProgressWrite < PROGRESS_WRITE_INTERVAL_MS && progress !== total) return;
+                    lastProgressWrite = now;
+
+                    await prisma.job.update({
+                        where: { id: job.id },
+                        data: {
+                            progress,
+                            ...(total !== undefined ? { progressTotal: total } : {}),
+                            ...(message !== undefined ? { progressMessage: message } : {}),
+                            ...(stats !== undefined ? { stats: JSON.stringify(stats) } : {}),
+                            lockedAt: new Date(),
+                        },
+                    });
+                },
+                isCancelRequested,
+            });
+        }, { maxAttempts: Math.max(1, job.maxAttempts - job.attempts) });
+
+        // Handlers that honour cancellation return what they finished before stopping
+        const cancelled = await isCancelRequested();
+        await finishJob(job.id, { status: cancelled ? 'cancelled' : 'succeeded', result });
+        log(`Job ${job.id} ${cancelled ? 'cancelled' : 'succeeded'}`);
+    } catch (error) {
+        const cancelled = await isCancelRequested().catch(() => false);
+        logError(`Job ${job.id} failed`, error);
+        await finishJob(job.id, {
+            status: cancelled ? 'cancelled' : 'failed',
+            error: error instanceof Error ? error.message : 'Job failed',
+        });
+    }
+}
+
+/**
+ * Put jobs whose worker stopped reporting back in the queue, or fail them
+ * once they have used up their attempts
+ */
+async function recoverStaleJobs(): Promise<void> {
+    const staleBefore = new Date(Date.now() - STALE_LOCK_MS);
+    const stale = await prisma.job.findMany({
+        where: { status: 'running', lockedAt: { lt: staleBefore } },
+        select: { id: true, attempts: true, maxAttempts: true, cancelRequestedAt: true },
+    });
+
+    for (const job of stale) {
+        if (job.cancelRequestedAt) {
+            await finishJob(job.id, { status: 'cancelled', error: 'Worker stopped responding' });
+        } else if (job.attempts >= job.maxAttempts) {
+            await finishJob(job.id, { status: 'failed', error: 'Worker stopped responding' });
+        } else {
+            await prisma.job.updateMany({
+                where: { id: job.id, status: 'running', lockedAt: { lt: staleBefore } },
+                data: { status: 'queued', lockedBy: null, lockedAt: null },
+            });
+        }
+        log(`Recovered stale job ${job.id}`, { attempts: job.attempts });
+    }
+}
+
+async function pruneFinishedJobs(): Promise<void> {
+    const { count } = await prisma.job.deleteMany({
+        where: {
+            status: { in: FINISHED_STATUSES },
+            finishedAt: { lt: new Date(Date.now() - FINISHED_JOB_RETENTION_MS) },
+        },
+    });
+    if (count > 0) log(`Pruned ${count} finished jobs`);
+}
+
+/**
+ * Run queued jobs until none are left or the deadline passes, one at a time
+ * Used where no long-lived worker exists, e.g. from a scheduled request
+ */
+export async function drainJobs(deadline: number): Promise<number> {
+    const workerId = `drain-${randomUUID()}`;
+    await recoverStaleJobs();
+
+    let ran = 0;
+    while (Date.now() < deadline) {
+        const job = await claimNextJob(workerId);
+        if (!job) break;
+        await runJob(job);
+        ran++;
+    }
+    return ran;
+}
+
+// ============================================================================
+// WORKER
+// ============================================================================
+
+interface WorkerState {
+    id: string;
+    concurrency: number;
+    running: number;
+    polling: boolean;
+    lastPruneAt: number;
+    timer: ReturnType<typeof setInterval>;
+}
+
+// Kept on globalThis so route bundles and the instrumentation hook share one worker
+const globalForJobs = globalThis as unknown as { jobWorker: WorkerState | undefined };
+
+async function poll(state: WorkerState): Promise<void> {
+    if (state.polling) return;
+    state.polling = true;
+
+    try {
+        if (Date.now() - state.lastPruneAt > PRUNE_INTERVAL_MS) {
+            state.lastPruneAt = Date.now();
+            await pruneFinishedJobs();
+        }
+        await recoverStaleJobs();
+
+        while (state.running < state.concurrency) {
+            const job = await claimNextJob(state.id);
+            if (!job) break;
+
+            state.running++;
+            runJob(job).finally(() => {
+                state.running--;
+                void poll(state);
+            });
+        }
+    } catch (error) {
+        logError('Worker poll failed', error);
+    } finally {
+        state.polling = false;
+    }
+}
+
+/**
+ * Start polling for jobs in this process; safe to call more than once
+ */
+export function startJobWorker(): void {
+    if (globalForJobs.jobWorker) return;
+
+    const concurrency = Math.max(1, parseInt(process.env.JOB_WORKER_CONCURRENCY || '2', 10) || 2);
+    const state: WorkerState = {
+        id: `worker-${randomUUID()}`,
+        concurrency,
+        running: 0,
+        polling: false,
+        lastPruneAt: 0,
+        timer: setInterval(() => void poll(state), POLL_INTERVAL_MS),
+    };
+    globalForJobs.jobWorker = state;
+
+    log(`Started worker ${state.id}`, { concurrency });
+    void poll(state);
+}
+
+/**
+ * Check for work now instead of waiting for the next poll
+ */
+export function wakeJobWorker(): void {
+    const state = globalForJobs.jobWorker;
+    if (state) void poll(state);
+}
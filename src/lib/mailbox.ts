@@ -0,0 +1,837 @@
+/**
+ * Mailbox Ingestion
+ * Provider-neutral email pipeline: each connected mailbox (Gmail API, Microsoft Graph or IMAP)
+ * lists new messages from its own checkpoint, and every message goes through
+ * the same storage, invoice reading and LLM extraction stages.
+ */
+
+import prisma from './prisma';
+import {
+    extractSubscriptionFromEmail,
+    resolveVendorName,
+    getVendorCategory,
+    ExtractedEmailType,
+    ExtractedSubscription,
+    EXTRACTION_VERSION,
+} from './subscription-extraction';
+import { findConversionCharge } from './trials';
+import { refreshChargeAlerts } from './charge-alerts';
+import { DEFAULT_GMAIL_SCAN_SETTINGS, matchSubscriptionRules, SubscriptionMatchRules } from './gmail-scan-settings';
+import { detectInvoiceFormat, extractInvoiceText } from './invoice-text';
+import { encryptFields } from './encryption';
+import { openGmailMailbox } from './gmail';
+import { openImapMailbox } from './imap';
+import { openOutlookMailbox } from './outlook';
+
+// ============================================================================
+// LOGGING
+// ============================================================================
+const LOG_PREFIX = '[Mailbox]';
+
+function log(message: string, data?: Record<string, unknown>) {
+    const timestamp = new Date().toISOString();
+    if (data) {
+        console.log(`${timestamp} ${LOG_PREFIX} ${message}`, JSON.stringify(data, null, 2));
+    } else {
+        console.log(`${timestamp} ${LOG_PREFIX} ${message}`);
+    }
+}
+
+function logError(message: string, error: unknown) {
+    const timestamp = new Date().toISOString();
+    console.error(`${timestamp} ${LOG_PREFIX} ERROR: ${message}`, error);
+}
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type MailboxKind = 'gmail' | 'imap' | 'outlook';
+
+export type MailboxSyncMode = 'backfill' | 'incremental' | 'full_resync';
+
+export interface MailboxAttachmentPart {
+    partId: string;        // Stable within the message, used to fetch the file again later
+    filename: string;
+    mimeType: string | null;
+    size: number;
+    download: () => Promise<Buffer | null>;
+}
+
+export interface MailboxMessage {
+    id: string;            // Stored as GmailMessage.gmailId, unique across providers
+    threadId: string | null;
+    subject: string | null;
+    from: string | null;
+    date: Date | null;
+    snippet: string | null;
+    body: string | null;   // Plain text
+    attachments: MailboxAttachmentPart[];
+}
+
+export interface MailboxListing {
+    syncMode: MailboxSyncMode;
+    messageIds: string[];
+    checkpoint: string | null; // Saved once every listed message has been handled
+}
+
+/**
+ * A connected mailbox; providers own their checkpoint format and storage
+ */
+export interface MailboxProvider {
+    kind: MailboxKind;
+    // User-configured keywords, watched senders and exclusions; built-in keywords otherwise
+    matchRules?: SubscriptionMatchRules;
+    listMessageIds(backfillLimit: number): Promise<MailboxListing>;
+    fetchMessage(messageId: string): Promise<MailboxMessage | null>;
+    saveCheckpoint(checkpoint: string | null): Promise<void>;
+    close(): Promise<void>;
+}
+
+/**
+ * Running counts of a scan, reported after every listed message
+ */
+export interface MailboxScanStats {
+    messagesListed: number;
+    messagesChecked: number; // Listed messages handled so far, including already-stored ones
+    messagesFetched: number;
+    messagesClassified: number; // Stored and checked against the subscription keywords
+    extractionCalls: number;
+    subscriptionsCreated: number;
+    vendorsCreated: number;
+    reviewsQueued: number; // Low or medium confidence extractions waiting for a person
+    skippedCount: number; // Already stored by an earlier scan
+}
+
+export interface MailboxScanResult extends MailboxScanStats {
+    provider: MailboxKind;
+    syncMode: MailboxSyncMode;
+    checkpoint: string | null;
+    messagesScanned: number;
+    newMessages: number;
+    cancelled: boolean;
+}
+
+export interface MailboxScanOptions {
+    backfillLimit?: number;
+    onProgress?: (stats: MailboxScanStats) => Promise<void> | void;
+    // Asked before each message; once true the scan stops without advancing the checkpoint
+    shouldStop?: () => Promise<boolean>;
+}
+
+// Upper bound on messages pulled when there is no usable checkpoint
+export const DEFAULT_BACKFILL_LIMIT = 100;
+
+// ============================================================================
+// SCAN
+// ============================================================================
+
+function emptyScanStats(): MailboxScanStats {
+    return {
+        messagesListed: 0,
+        messagesChecked: 0,
+        messagesFetched: 0,
+        messagesClassified: 0,
+        extractionCalls: 0,
+        subscriptionsCreated: 0,
+        vendorsCreated: 0,
+        reviewsQueued: 0,
+        skippedCount: 0,
+    };
+}
+
+function emptyScanResult(provider: MailboxKind, syncMode: MailboxSyncMode): MailboxScanResult {
+    return {
+        ...emptyScanStats(),
+        provider,
+        syncMode,
+        checkpoint: null,
+        messagesScanned: 0,
+        newMessages: 0,
+        cancelled: false,
+    };
+}
+
+/**
+ * Open a user's mailbox for one provider; null when it is not connected
+ */
+export async function openMailbox(userId: string, kind: MailboxKind): Promise<MailboxProvider | null> {
+    switch (kind) {
+        case 'imap':
+            return openImapMailbox(userId);
+        case 'outlook':
+            return openOutlookMailbox(userId);
+        default:
+            return openGmailMailbox(userId);
+    }
+}
+
+/**
+ * Sync a mailbox and detect subscriptions in new messages
+ * The provider decides between a bounded backfill and an incremental sync from
+ * its checkpoint; the checkpoint only advances after every message is handled,
+ * so a cancelled scan resumes where it stopped
+ */
+export async function scanMailbox(
+    userId: string,
+    kind: MailboxKind,
+    options: MailboxScanOptions = {}
+): Promise<MailboxScanResult> {
+    const { backfillLimit = DEFAULT_BACKFILL_LIMIT, onProgress, shouldStop } = options;
+    log(`=== Starting ${kind} sync for user: ${userId} ===`);
+
+    const mailbox = await openMailbox(userId, kind);
+    if (!mailbox) {
+        log(`Cannot scan - ${kind} mailbox not connected`);
+        return emptyScanResult(kind, 'backfill');
+    }
+
+    try {
+        const { syncMode, messageIds, checkpoint } = await mailbox.listMessageIds(backfillLimit);
+        log(`Mailbox returned ${messageIds.length} message references`, { syncMode });
+
+        const rules = await withBlockedSenders(userId, mailbox.matchRules);
+        const stats: MailboxScanStats = { ...emptyScanStats(), messagesListed: messageIds.length };
+        let newMessages = 0;
+        let cancelled = false;
+
+        await onProgress?.({ ...stats });
+
+        for (const messageId of messageIds) {
+            if (await shouldStop?.()) {
+                log(`Scan cancelled after ${stats.messagesChecked} of ${messageIds.length} messages`);
+                cancelled = true;
+                break;
+            }
+
+            // Check if already processed
+            const existing = await prisma.gmailMessage.findUnique({
+                where: { gmailId: messageId },
+            });
+
+            if (existing) {
+                log(`Skipping already processed: ${messageId}`);
+                stats.skippedCount++;
+            } else {
+                const result = await processNewMessage(mailbox, userId, messageId, rules);
+                newMessages++;
+
+                if (result.fetched) stats.messagesFetched++;
+                if (result.classified) stats.messagesClassified++;
+                if (result.extracted) stats.extractionCalls++;
+                if (result.subscriptionCreated) stats.subscriptionsCreated++;
+                if (result.vendorCreated) stats.vendorsCreated++;
+                if (result.queuedForReview) stats.reviewsQueued++;
+            }
+
+            stats.messagesChecked++;
+            await onProgress?.({ ...stats });
+        }
+
+        // New trials may need a "trial ending" warning
+        if (stats.subscriptionsCreated > 0) {
+            await refreshChargeAlerts(userId);
+        }
+
+        // Advance the checkpoint only after every message has been handled
+        if (!cancelled) {
+            await mailbox.saveCheckpoint(checkpoint);
+        }
+
+        const result: MailboxScanResult = {
+            ...stats,
+            provider: kind,
+            syncMode,
+            checkpoint: cancelled ? null : checkpoint,
+            messagesScanned: stats.messagesChecked,
+            newMessages,
+            cancelled,
+        };
+
+        log(`=== Sync ${cancelled ? 'cancelled' : 'complete'} ===`, { ...result });
+
+        return result;
+    } catch (error) {
+        // The checkpoint was not advanced, so a retry picks up where this left off
+        logError(`${kind} scan error`, error);
+        throw error;
+    } finally {
+        await mailbox.close();
+    }
+}
+
+/**
+ * One-line summary of a scan for the UI
+ */
+export function describeScanResult(result: MailboxScanResult): string {
+    if (result.cancelled) {
+        return `Scan stopped after ${result.messagesScanned} of ${result.messagesListed} emails, created ${result.subscriptionsCreated} subscriptions. The next scan continues from there.`;
+    }
+    return result.newMessages === 0
+        ? `Checked ${result.messagesScanned} emails, no new messages to process`
+        : `Processed ${result.newMessages} new emails, created ${result.subscriptionsCreated} subscriptions${result.vendorsCreated > 0 ? ` and ${result.vendorsCreated} new vendors` : ''}${result.reviewsQueued > 0 ? `; ${result.reviewsQueued} need review` : ''}`;
+}
+
+/**
+ * Add the user's blocked senders to the provider's match rules, so their mail
+ * is stored but never classified as subscription-related
+ */
+async function withBlockedSenders(
+    userId: string,
+    rules: SubscriptionMatchRules = DEFAULT_GMAIL_SCAN_SETTINGS
+): Promise<SubscriptionMatchRules> {
+    const blocked = await prisma.blockedSenderDomain.findMany({
+        where: { userId },
+        select: { domain: true },
+    });
+    if (blocked.length === 0) return rules;
+
+    return {
+        ...rules,
+        excludeSenderDomains: [...rules.excludeSenderDomains, ...blocked.map(b => b.domain)],
+    };
+}
+
+interface ProcessedMessage {
+    fetched: boolean;
+    classified: boolean;
+    extracted: boolean; // An LLM extraction call was made
+    subscriptionCreated: boolean;
+    vendorCreated: boolean;
+    queuedForReview: boolean;
+}
+
+/**
+ * Process a single message and detect subscriptions
+ * Stage 1: Fetch full email content and store
+ * Stage 2: Run LLM extraction for subscription data
+ */
+async function processNewMessage(
+    mailbox: MailboxProvider,
+    userId: string,
+    messageId: string,
+    rules: SubscriptionMatchRules
+): Promise<ProcessedMessage> {
+    const outcome: ProcessedMessage = {
+        fetched: false,
+        classified: false,
+        extracted: false,
+        subscriptionCreated: false,
+        vendorCreated: false,
+        queuedForReview: false,
+    };
+
+    try {
+        log(`Processing message: ${messageId}`);
+
+        // Stage 1: Fetch FULL message (including body)
+        const message = await mailbox.fetchMessage(messageId);
+        if (!message) {
+            log(`Message no longer available: ${messageId}`);
+            return outcome;
+        }
+        outcome.fetched = true;
+
+        const { subject, from, date, snippet, body } = message;
+
+        // Extract sender domain
+        let senderDomain: string | null = null;
+        if (from) {
+            const emailMatch = from.match(/@([a-zA-Z0-9.-]+)/);
+            senderDomain = emailMatch ? emailMatch[1].toLowerCase() : null;
+        }
+
+        const hasAttachment = message.attachments.length > 0;
+
+        // Detect if subscription-related
+        const textToCheck = `${subject || ''} ${snippet || ''} ${body || ''}`;
+        const matchedKeywords = matchSubscriptionRules(textToCheck, senderDomain, rules);
+        const isSubscription = matchedKeywords.length > 0;
+
+        log(`Message analysis`, {
+            id: messageId,
+            provider: mailbox.kind,
+            subject: subject?.substring(0, 60),
+            from,
+            senderDomain,
+            isSubscription,
+            matchedKeywords,
+            bodyLength: body?.length || 0,
+        });
+
+        // Stage 1: Store in GmailMessage table with full body
+        await prisma.gmailMessage.create({
+            data: {
+                userId,
+                provider: mailbox.kind,
+                gmailId: messageId,
+                threadId: message.threadId,
+                subject,
+                sender: from,
+                senderDomain,
+                snippet,
+                ...encryptFields({ body }), // Full body for LLM extraction, encrypted at rest
+                date,
+                hasAttachment,
+                isRenewal: isSubscription,
+                isProcessed: false, // Will be set to true after LLM extraction
+            },
+        });
+        outcome.classified = true;
+
+        // Stage 2: If subscription detected, run LLM extraction
+        if (isSubscription && senderDomain) {
+            // Invoice attachments often carry the only copy of amounts, seats and plan
+            const attachments = hasAttachment
+                ? await readInvoiceAttachments(userId, message)
+                : [];
+
+            outcome.extracted = true;
+            const result = await createSubscriptionFromEmail({
+                userId,
+                messageId,
+                senderDomain,
+                from,
+                subject,
+                body,
+                date,
+                attachments,
+                source: mailbox.kind,
+            });
+            outcome.subscriptionCreated = result.subscriptionCreated;
+            outcome.vendorCreated = result.vendorCreated;
+            outcome.queuedForReview = result.queuedForReview;
+
+            // Mark as processed by this version of the extractor
+            await prisma.gmailMessage.update({
+                where: { gmailId: messageId },
+                data: { isProcessed: true, extractionVersion: EXTRACTION_VERSION },
+            });
+        }
+
+        return outcome;
+    } catch (error) {
+        logError(`Failed to process message: ${messageId}`, error);
+        return outcome;
+    }
+}
+
+// ============================================================================
+// INVOICE ATTACHMENTS
+// ============================================================================
+
+// Larger attachments are skipped; invoices are small and the LLM only sees the text
+const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+const MAX_INVOICE_ATTACHMENTS = 3;
+
+interface InvoiceAttachment {
+    id: string;
+    filename: string;
+    text: string | null;
+}
+
+/**
+ * Download PDF and HTML invoice attachments, extract their text and record them
+ */
+async function readInvoiceAttachments(userId: string, message: MailboxMessage): Promise<InvoiceAttachment[]> {
+    const parts = message.attachments
+        .filter(part => detectInvoiceFormat(part.mimeType, part.filename))
+        .slice(0, MAX_INVOICE_ATTACHMENTS);
+
+    const attachments: InvoiceAttachment[] = [];
+    for (const part of parts) {
+        const { filename, size } = part;
+        if (size > MAX_ATTACHMENT_BYTES) {
+            log(`Skipping large attachment`, { messageId: message.id, filename, size });
+            continue;
+        }
+
+        try {
+            const data = await part.download();
+            if (!data) continue;
+            // The size a provider lists for a part is not always the size it serves
+            if (data.length > MAX_ATTACHMENT_BYTES) {
+                log(`Skipping large attachment`, { messageId: message.id, filename, size: data.length });
+                continue;
+            }
+
+            const format = detectInvoiceFormat(part.mimeType, filename)!;
+            const text = extractInvoiceText(data, format);
+
+            const attachment = await prisma.gmailAttachment.create({
+                data: {
+                    userId,
+                    gmailId: message.id,
+                    partId: part.partId,
+                    filename,
+                    mimeType: part.mimeType || (format === 'pdf' ? 'application/pdf' : 'text/html'),
+                    size: size || data.length,
+                    ...encryptFields({ text }), // Invoice text is as sensitive as the body
+                },
+            });
+
+            log(`Read invoice attachment`, { messageId: message.id, filename, format, textLength: text?.length || 0 });
+            attachments.push({ id: attachment.id, filename, text });
+        } catch (error) {
+            logError(`Failed to read attachment ${filename} of message ${message.id}`, error);
+        }
+    }
+
+    return attachments;
+}
+
+/**
+ * Fetch an attachment recorded during extraction back from its mailbox
+ */
+export async function downloadMailboxAttachment(
+    userId: string,
+    attachmentId: string
+): Promise<{ filename: string; mimeType: string; data: Buffer } | null> {
+    const attachment = await prisma.gmailAttachment.findFirst({
+        where: { id: attachmentId, userId },
+        include: { message: { select: { provider: true } } },
+    });
+    if (!attachment) return null;
+
+    const mailbox = await openMailbox(userId, attachment.message.provider as MailboxKind);
+    if (!mailbox) return null;
+
+    try {
+        const message = await mailbox.fetchMessage(attachment.gmailId);
+        const part = message?.attachments.find(
+            p => p.partId === attachment.partId && p.filename === attachment.filename
+        );
+        if (!part) return null;
+
+        const data = await part.download();
+        if (!data) return null;
+
+        return { filename: attachment.filename, mimeType: attachment.mimeType, data };
+    } finally {
+        await mailbox.close();
+    }
+}
+
+// ============================================================================
+// EXTRACTION
+// ============================================================================
+
+/**
+ * Subscription fields read from one email; what a reviewer sees and may edit
+ */
+export interface EmailExtraction {
+    vendorName: string;
+    vendorDomain: string | null; // The vendor's own domain when the LLM found one
+    category: string | null;
+    emailType: ExtractedEmailType | null;
+    amount: number | null;
+    currency: string;
+    billingCycle: 'monthly' | 'yearly' | null;
+    plan: string | null;
+    seats: number | null;
+    renewalDate: string | null;  // YYYY-MM-DD
+    trialEndDate: string | null; // YYYY-MM-DD
+    confidence: ExtractedSubscription['confidence'];
+}
+
+/**
+ * The stored message an extraction was read from
+ */
+export interface EmailExtractionSource {
+    userId: string;
+    messageId: string;
+    senderDomain: string;
+    receivedAt: Date;
+    source: MailboxKind;
+    invoiceAttachmentId: string | null;
+}
+
+// Generic email domains that shouldn't be used for vendor matching
+const GENERIC_EMAIL_DOMAINS = [
+    'gmail.com', 'yahoo.com', 'hotmail.com', 'outlook.com',
+    'aol.com', 'icloud.com', 'mail.com', 'protonmail.com'
+];
+
+export function parseExtractedDate(value: string | null): Date | null {
+    if (!value) return null;
+    const parsed = new Date(value);
+    return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+/**
+ * At minimum we need an amount, renewal date or plan (or a trial) to consider
+ * an email a subscription
+ */
+export function hasSubscriptionData(fields: EmailExtraction): boolean {
+    const isTrialEmail = fields.emailType === 'trial_started' || fields.emailType === 'trial_ending';
+    return !!fields.amount || !!parseExtractedDate(fields.renewalDate) || !!fields.plan || isTrialEmail;
+}
+
+/**
+ * Run LLM extraction over an email and its invoice text; writes nothing
+ * Null when the extractor could not read the email at all
+ */
+export async function readEmailExtraction(params: {
+    senderDomain: string;
+    from: string | null;
+    subject: string | null;
+    body: string | null;
+    attachments: { filename: string; text: string | null }[];
+}): Promise<EmailExtraction | null> {
+    const { senderDomain, from, subject, body } = params;
+
+    // The LLM reads invoice text after the email body
+    const content = [
+        body,
+        ...params.attachments
+            .filter(a => a.text)
+            .map(a => `--- Attached invoice: ${a.filename} ---\n${a.text}`),
+    ].filter(Boolean).join('\n\n') || null;
+
+    const extracted = await extractSubscriptionFromEmail(subject, content, from);
+    if (!extracted) return null;
+
+    // Resolve vendor name using LLM extraction result (NOT sender display name)
+    const { name: vendorName, category } = resolveVendorName(extracted.vendor_name || null, senderDomain, subject);
+
+    log(`Resolved vendor`, {
+        vendorName,
+        llmVendorName: extracted.vendor_name,
+        senderDomain,
+        category
+    });
+
+    return {
+        vendorName,
+        vendorDomain: extracted.vendor_domain || null,
+        category,
+        emailType: extracted.email_type || null,
+        amount: extracted.amount || null,
+        currency: extracted.currency || 'USD',
+        billingCycle: extracted.billing_cycle || null,
+        plan: extracted.plan || null,
+        seats: extracted.seats || null,
+        renewalDate: extracted.renewal_date || null,
+        trialEndDate: extracted.trial_end_date || null,
+        confidence: extracted.confidence || 'low',
+    };
+}
+
+/**
+ * Run LLM extraction on an email and record the result
+ * This is Stage 2 of the two-stage extraction pipeline. High confidence results
+ * become subscriptions straight away; low and medium confidence ones wait in
+ * the review queue so newsletters do not turn into vendors
+ */
+async function createSubscriptionFromEmail(params: {
+    userId: string;
+    messageId: string;
+    senderDomain: string;
+    from: string | null;
+    subject: string | null;
+    body: string | null;
+    date: Date | null;
+    attachments: InvoiceAttachment[];
+    source: MailboxKind;
+}): Promise<{ subscriptionCreated: boolean; vendorCreated: boolean; queuedForReview: boolean }> {
+    const { userId, messageId, senderDomain, source } = params;
+
+    // Stage 2: Run LLM extraction
+    log(`Running LLM extraction for message: ${messageId}`);
+    const fields = await readEmailExtraction(params);
+
+    if (fields) {
+        log(`Extracted subscription data`, { ...fields });
+    }
+
+    // VALIDATION: Skip emails with no meaningful subscription data
+    if (!fields || !hasSubscriptionData(fields)) {
+        log(`Skipping subscription creation - no meaningful data extracted`, { vendorName: fields?.vendorName, messageId });
+        return { subscriptionCreated: false, vendorCreated: false, queuedForReview: false };
+    }
+
+    const invoices = params.attachments.filter(a => a.text);
+    const emailSource: EmailExtractionSource = {
+        userId,
+        messageId,
+        senderDomain,
+        receivedAt: params.date || new Date(),
+        source,
+        invoiceAttachmentId: invoices[0]?.id || null,
+    };
+
+    if (fields.confidence !== 'high') {
+        await prisma.extractionReview.upsert({
+            where: { gmailId: messageId },
+            update: {
+                confidence: fields.confidence,
+                ...encryptFields({ fields: JSON.stringify(fields) }),
+                invoiceAttachmentId: emailSource.invoiceAttachmentId,
+                status: 'pending',
+                reviewedAt: null,
+            },
+            create: {
+                userId,
+                gmailId: messageId,
+                source,
+                confidence: fields.confidence,
+                ...encryptFields({ fields: JSON.stringify(fields) }),
+                invoiceAttachmentId: emailSource.invoiceAttachmentId,
+            },
+        });
+
+        log(`Queued extraction for review`, { vendorName: fields.vendorName, messageId, confidence: fields.confidence });
+        return { subscriptionCreated: false, vendorCreated: false, queuedForReview: true };
+    }
+
+    const applied = await applyEmailExtraction(fields, emailSource);
+    return {
+        subscriptionCreated: applied.subscriptionId !== null,
+        vendorCreated: applied.vendorCreated,
+        queuedForReview: false,
+    };
+}
+
+/**
+ * Find the vendor an email belongs to - prioritize by extracted name, only use
+ * the sender's domain for company domains
+ */
+export async function findEmailVendor(vendorName: string, senderDomain: string) {
+    // Match by normalized vendor name (primary)
+    const vendor = await prisma.vendor.findFirst({
+        where: { normalizedName: vendorName.toLowerCase().replace(/\s+/g, '') },
+    });
+    if (vendor) return vendor;
+
+    // If not found by name and we have a real company domain, try matching by domain
+    const isGenericDomain = GENERIC_EMAIL_DOMAINS.includes(senderDomain?.toLowerCase() || '');
+    if (senderDomain && !isGenericDomain) {
+        return prisma.vendor.findFirst({ where: { domain: senderDomain } });
+    }
+    return null;
+}
+
+/**
+ * Create or update Vendor and Subscription records from extracted email fields
+ * Used for high confidence extractions and for ones a reviewer accepted
+ */
+export async function applyEmailExtraction(
+    fields: EmailExtraction,
+    emailSource: EmailExtractionSource
+): Promise<{ subscriptionId: string | null; vendorCreated: boolean }> {
+    const { userId, messageId, senderDomain, receivedAt, source, invoiceAttachmentId } = emailSource;
+    const { vendorName, emailType, amount, currency, billingCycle, plan, seats, confidence } = fields;
+
+    let vendorCreated = false;
+    const isGenericDomain = GENERIC_EMAIL_DOMAINS.includes(senderDomain?.toLowerCase() || '');
+
+    let vendor = await findEmailVendor(vendorName, senderDomain);
+
+    if (!vendor) {
+        const category = fields.category || getVendorCategory(senderDomain) || 'Uncategorized';
+
+        // For generic domains, use the vendor's actual domain if extracted, otherwise use vendor name
+        const vendorDomain = fields.vendorDomain ||
+            (isGenericDomain ? `${vendorName.toLowerCase().replace(/\s+/g, '')}.com` : senderDomain);
+
+        vendor = await prisma.vendor.create({
+            data: {
+                name: vendorName,
+                normalizedName: vendorName.toLowerCase().replace(/\s+/g, ''),
+                domain: vendorDomain,
+                category,
+                isSaaS: true,
+            },
+        });
+
+        log(`Created new vendor`, { id: vendor.id, name: vendor.name, domain: vendor.domain });
+        vendorCreated = true;
+    } else {
+        log(`Found existing vendor`, { id: vendor.id, name: vendor.name });
+    }
+
+    let renewalDate = parseExtractedDate(fields.renewalDate);
+    const trialEndsAt = parseExtractedDate(fields.trialEndDate);
+    const isTrialEmail = emailType === 'trial_started' || emailType === 'trial_ending';
+
+    const existing = await prisma.subscription.findUnique({
+        where: { userId_vendorId_source: { userId, vendorId: vendor.id, source } },
+        select: { status: true, trialStartedAt: true, trialEndsAt: true, createdAt: true },
+    });
+
+    // Trial emails for a plan the user already pays for (add-ons, upgrade offers) are not trials of this subscription
+    if (isTrialEmail && existing?.status === 'active') {
+        log(`Ignoring trial email for an active subscription`, { vendorName: vendor.name, messageId });
+        return { subscriptionId: null, vendorCreated };
+    }
+
+    // A receipt after the trial started is the first real charge: the trial converted at this price
+    const converted = emailType === 'receipt' && !!existing && !!amount &&
+        !!findConversionCharge(existing, [{ date: receivedAt, amount, currency, kind: 'charge' }]);
+
+    let trialFields: { status?: string; trialStartedAt?: Date; trialEndsAt?: Date | null } = {};
+    if (isTrialEmail) {
+        trialFields = {
+            status: 'trial',
+            trialStartedAt: existing?.status === 'trial' && existing.trialStartedAt ? existing.trialStartedAt : receivedAt,
+            trialEndsAt: trialEndsAt || existing?.trialEndsAt || null,
+        };
+        // Until it converts, the next charge is the end of the trial
+        renewalDate = renewalDate || trialEndsAt;
+    } else if (converted) {
+        trialFields = { status: 'active' };
+        log(`Trial converted to paid`, { vendorName: vendor.name, amount, currency });
+    }
+
+    // Create or update subscription with LLM-extracted data
+    const subscription = await prisma.subscription.upsert({
+        where: {
+            userId_vendorId_source: {
+                userId,
+                vendorId: vendor.id,
+                source,
+            },
+        },
+        update: {
+            lastDetectedAt: new Date(),
+            renewalDate: renewalDate || undefined,
+            amount: amount || undefined,
+            billingCycle: billingCycle || undefined,
+            plan: plan || undefined,
+            seats: seats || undefined,
+            currency,
+            confidenceScore: confidence,
+            gmailMessageId: messageId,
+            invoiceAttachmentId: invoiceAttachmentId || undefined,
+            ...trialFields,
+        },
+        create: {
+            userId,
+            vendorId: vendor.id,
+            source,
+            renewalDate,
+            amount,
+            billingCycle,
+            plan,
+            seats,
+            currency,
+            confidenceScore: confidence,
+            gmailMessageId: messageId,
+            invoiceAttachmentId,
+            ...trialFields,
+        },
+    });
+
+    log(`Created/updated subscription`, {
+        id: subscription.id,
+        vendorId: vendor.id,
+        vendorName: vendor.name,
+        amount,
+        plan,
+        seats,
+        renewalDate: renewalDate?.toISOString(),
+        confidence,
+    });
+
+    return { subscriptionId: subscription.id, vendorCreated };
+}
@@ -0,0 +1,129 @@
+/**
+ * Merchant Mappings
+ * Per-user record of which vendor each statement descriptor was filed under.
+ * Corrected mappings override the normalization engine on later imports.
+ */
+
+import prisma from './prisma';
+import { ParsedTransaction } from './csv-parser';
+import { descriptorKey } from './merchant-normalization';
+import { detectSaaSVendor, isSaaSSubscription, normalizeVendorName } from './saas-vendors';
+
+export type MerchantMappingSource = 'auto' | 'user';
+
+export interface MerchantMappingSummary {
+    id: string;
+    descriptor: string;
+    canonicalName: string;
+    source: MerchantMappingSource;
+    updatedAt: Date;
+}
+
+function toSummary(mapping: {
+    id: string;
+    descriptor: string;
+    canonicalName: string;
+    source: string;
+    updatedAt: Date;
+}): MerchantMappingSummary {
+    return {
+        id: mapping.id,
+        descriptor: mapping.descriptor,
+        canonicalName: mapping.canonicalName,
+        source: mapping.source as MerchantMappingSource,
+        updatedAt: mapping.updatedAt,
+    };
+}
+
+/**
+ * Re-file parsed transactions under the user's corrected vendor names
+ */
+export async function applyMerchantMappings(
+    userId: string,
+    transactions: ParsedTransaction[]
+): Promise<ParsedTransaction[]> {
+    const keys = Array.from(new Set(transactions.map(tx => descriptorKey(tx.rawDescription))));
+    if (keys.length === 0) return transactions;
+
+    const corrections = await prisma.merchantMapping.findMany({
+        where: { userId, source: 'user', descriptor: { in: keys } },
+        select: { descriptor: true, canonicalName: true },
+    });
+    if (corrections.length === 0) return transactions;
+
+    const nameByKey = new Map(corrections.map(c => [c.descriptor, c.canonicalName]));
+
+    return transactions.map(tx => {
+        const canonicalName = nameByKey.get(descriptorKey(tx.rawDescription));
+        if (!canonicalName || canonicalName === tx.vendorName) return tx;
+
+        const saasVendor = detectSaaSVendor(canonicalName);
+        return {
+            ...tx,
+            vendorName: canonicalName,
+            normalizedVendorName: normalizeVendorName(canonicalName),
+            isSaaS: tx.isSaaS || isSaaSSubscription(canonicalName),
+            category: saasVendor?.category || tx.category,
+        };
+    });
+}
+
+/**
+ * Remember which vendor each descriptor was filed under
+ * Existing mappings, corrected or not, are never overwritten here
+ */
+export async function recordMerchantMappings(
+    client: Pick<typeof prisma, 'merchantMapping'>,
+    userId: string,
+    rows: Array<{ rawDescription: string; vendorName: string }>
+): Promise<void> {
+    const byKey = new Map<string, string>();
+    for (const row of rows) {
+        const key = descriptorKey(row.rawDescription);
+        if (key && !byKey.has(key)) byKey.set(key, row.vendorName);
+    }
+    if (byKey.size === 0) return;
+
+    await client.merchantMapping.createMany({
+        data: Array.from(byKey, ([descriptor, canonicalName]) => ({
+            userId,
+            descriptor,
+            canonicalName,
+            source: 'auto',
+        })),
+        skipDuplicates: true,
+    });
+}
+
+/**
+ * List a user's descriptor mappings, corrections first
+ */
+export async function listMerchantMappings(userId: string): Promise<MerchantMappingSummary[]> {
+    const mappings = await prisma.merchantMapping.findMany({
+        where: { userId },
+        orderBy: [{ source: 'desc' }, { descriptor: 'asc' }],
+    });
+
+    return mappings.map(toSummary);
+}
+
+/**
+ * Correct the vendor a descriptor is filed under for future imports
+ */
+export async function correctMerchantMapping(
+    userId: string,
+    id: string,
+    canonicalName: string
+): Promise<MerchantMappingSummary | null> {
+    const mapping = await prisma.merchantMapping.findFirst({
+        where: { id, userId },
+    });
+    if (!mapping) return null;
+
+    const updated = await prisma.merchantMapping.update({
+        where: { id },
+        data: { canonicalName, source: 'user' },
+    });
+
+    return toSummary(updated);
+}
@@ -0,0 +1,216 @@
+/**
+ * Merchant Descriptor Normalization
+ * Turns card statement descriptors (SQ *FIGMA, PAYPAL *NOTIONLABS, AMZN Mktp)
+ * into canonical vendor names
+ */
+
+import { detectSaaSVendor } from './saas-vendors';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface NormalizedDescriptor {
+    descriptor: string;        // Descriptor with reference numbers, phones and locations removed
+    merchant: string;          // Merchant part after any payment processor prefix
+    processor: string | null;  // Payment processor or marketplace the charge went through
+    canonicalName: string;     // Vendor name to file the charge under
+}
+
+interface ProcessorPrefix {
+    pattern: RegExp;
+    processor: string;
+}
+
+interface AggregatorPrefix {
+    pattern: RegExp;
+    name: string;
+}
+
+// ============================================================================
+// DESCRIPTOR RULES
+// ============================================================================
+
+// Processors that put the real merchant after the prefix
+const PROCESSOR_PREFIXES: ProcessorPrefix[] = [
+    { pattern: /^(sq|squ|square)\s*\*\s*/i, processor: 'Square' },
+    { pattern: /^(paypal|pp)\s*\*\s*/i, processor: 'PayPal' },
+    { pattern: /^google\s*\*\s*/i, processor: 'Google' },
+    { pattern: /^(msft|microsoft)\s*\*\s*/i, processor: 'Microsoft' },
+    { pattern: /^tst\s*\*\s*/i, processor: 'Toast' },
+    { pattern: /^sp\s*\*\s*/i, processor: 'Shopify' },
+    { pattern: /^paddle(\.net)?\s*\*\s*/i, processor: 'Paddle' },
+    { pattern: /^fs\s*\*\s*/i, processor: 'FastSpring' },
+    { pattern: /^2co(\.com)?\s*\*\s*/i, processor: '2Checkout' },
+    { pattern: /^stripe\s*\*\s*/i, processor: 'Stripe' },
+    { pattern: /^cko\s*\*\s*/i, processor: 'Checkout.com' },
+    { pattern: /^(in|intuit)\s*\*\s*/i, processor: 'Intuit' },
+    { pattern: /^(wpy|wepay)\s*\*\s*/i, processor: 'WePay' },
+    { pattern: /^(pos|pos purchase|pos debit|checkcard|visa purchase|debit card purchase)\s+/i, processor: 'Card' },
+];
+
+// Marketplaces whose descriptor names the marketplace rather than a merchant
+const AGGREGATOR_PREFIXES: AggregatorPrefix[] = [
+    { pattern: /^(amzn|amazon)\s*(mktp|mktpl|marketplace)/i, name: 'Amazon Marketplace' },
+    { pattern: /^(amzn|amazon)\s*(digital|digi)/i, name: 'Amazon Digital' },
+    { pattern: /^(amzn|amazon)\s*prime|^prime\s*video/i, name: 'Amazon Prime' },
+    { pattern: /^(aws|amazon\s*web\s*services)/i, name: 'AWS' },
+    { pattern: /^(amzn|amazon)(\.com|\s|\*|$)/i, name: 'Amazon' },
+    { pattern: /^(apple\.com\/bill|apple\.com\s*bill|apl\*\s*itunes|itunes\.com)/i, name: 'Apple' },
+    { pattern: /^google\s*\*?\s*(play|youtube)/i, name: 'Google Play' },
+];
+
+// Trailing noise, removed repeatedly until nothing more matches
+const TRAILING_NOISE: RegExp[] = [
+    /\s+(https?:\/\/)?[a-z0-9.-]+\.(com|net|io|co)\/[^\s]*$/i,    // Billing help URLs (g.co/helppay#)
+    /\s+\+?\d?[\s.-]?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{3,4}$/,    // Phone numbers
+    /\s+\d{3}[.-]\d{3,4}$/,                                        // Truncated phone numbers (650-253)
+    /\s*#\s*[a-z0-9-]+$/i,                                       // Labelled references (#12345)
+    /\s+(ref|id|no)[.:]?\s*(?=[a-z-]*\d)[a-z0-9-]+$/i,            // Labelled references (REF 12345)
+    /\s*\*+\s*(?=(?:[a-z]*\d){3})[a-z0-9]+$/i,                    // Order numbers after * (AMZN Mktp US*2K4RT1)
+    /\s+(?=(?:[a-z-]*\d){3})[a-z0-9-]{4,}$/i,                      // Reference numbers and zip codes
+    /\s+\d{1,2}\/\d{1,2}(\/\d{2,4})?$/,                            // Transaction dates
+    /\s+(usa|us|gbr|gb|irl|ie|nld|nl|deu|de|can)$/i,              // Country codes
+];
+
+const US_STATES = new Set([
+    'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'DC', 'FL', 'GA', 'HI', 'ID', 'IL', 'IN', 'IA',
+    'KS', 'KY', 'LA', 'ME', 'MD', 'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE', 'NV', 'NH', 'NJ', 'NM',
+    'NY', 'NC', 'ND', 'OH', 'OK', 'OR', 'PA', 'RI', 'SC', 'SD', 'TN', 'TX', 'UT', 'VT', 'VA', 'WA',
+    'WV', 'WI', 'WY',
+]);
+
+// Cities that show up after SaaS merchant names; unknown cities stay unless
+// the descriptor separates them with padding
+const KNOWN_CITIES = [
+    'san francisco', 'south san francisco', 'san jose', 'san mateo', 'palo alto', 'mountain view',
+    'menlo park', 'sunnyvale', 'redwood city', 'santa clara', 'los angeles', 'seattle', 'bellevue',
+    'redmond', 'new york', 'brooklyn', 'boston', 'cambridge', 'austin', 'denver', 'chicago',
+    'atlanta', 'miami', 'portland', 'salt lake city', 'lehi', 'dublin', 'london', 'amsterdam',
+    'toronto', 'internet', 'online', 'www',
+];
+
+// Words that describe the payment rather than the merchant
+const LEADING_WORDS = /^(purchase|payment|debit|withdrawal|ach|wire|eft|recurring)\s+/i;
+const TRAILING_WORDS = /\s+(recurring|subscription|monthly|annual|payment|billing|bill|charge|purchase)(\s.*)?$/i;
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+function titleCase(value: string): string {
+    return value
+        .split(' ')
+        .filter(Boolean)
+        .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+        .join(' ');
+}
+
+function stripTrailingNoise(value: string): string {
+    let result = value;
+    let changed = true;
+
+    while (changed) {
+        changed = false;
+        for (const pattern of TRAILING_NOISE) {
+            const next = result.replace(pattern, '').trim();
+            // Never strip the descriptor down to nothing
+            if (next !== result && next.length > 0) {
+                result = next;
+                changed = true;
+            }
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Drop a trailing "CITY ST" suffix
+ * The state code is only removed with a known city, or when fixed-width padding
+ * separates it from the merchant
+ */
+function stripLocation(value: string): string {
+    // Fixed-width descriptors pad the merchant field: "FIGMA           SAN FRANCISCO CA"
+    const padded = value.split(/\s{3,}/);
+    if (padded.length > 1 && padded[0].trim().length > 0) {
+        return padded[0].trim();
+    }
+
+    const words = value.split(' ');
+    const last = words[words.length - 1];
+    const hasState = words.length > 1 && US_STATES.has(last.toUpperCase()) && last === last.toUpperCase();
+    const withoutState = hasState ? words.slice(0, -1).join(' ') : value;
+
+    const lower = withoutState.toLowerCase();
+    for (const city of KNOWN_CITIES) {
+        if (lower.endsWith(` ${city}`)) {
+            return withoutState.slice(0, withoutState.length - city.length - 1).trim();
+        }
+    }
+
+    // A bare state code is only stripped when something sits between it and the merchant
+    return hasState && words.length > 2 ? withoutState : value;
+}
+
+/**
+ * Descriptor with reference numbers, phone numbers and locations removed
+ * Equal keys for the same merchant across statements, used for stored mappings
+ */
+export function cleanDescriptor(description: string): string {
+    const collapsed = description.replace(/\s+$/, '').replace(/^\s+/, '');
+    const withoutLocation = stripLocation(stripTrailingNoise(collapsed));
+    return stripTrailingNoise(withoutLocation).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Key a descriptor is stored under in merchant mappings
+ */
+export function descriptorKey(description: string): string {
+    return cleanDescriptor(description).toUpperCase();
+}
+
+/**
+ * Normalize a statement descriptor into a canonical vendor name
+ */
+export function normalizeDescriptor(description: string): NormalizedDescriptor {
+    const descriptor = cleanDescriptor(description);
+
+    const aggregator = AGGREGATOR_PREFIXES.find(a => a.pattern.test(descriptor));
+
+    let merchant = descriptor;
+    let processor: string | null = null;
+    for (const prefix of PROCESSOR_PREFIXES) {
+        if (prefix.pattern.test(merchant)) {
+            merchant = merchant.replace(prefix.pattern, '');
+            processor = prefix.processor;
+            break;
+        }
+    }
+    merchant = stripTrailingNoise(merchant.replace(/_/g, ' ').replace(/\s+/g, ' ').trim());
+
+    // A known SaaS product wins over the marketplace it was bought through
+    const saasVendor = detectSaaSVendor(merchant);
+    if (saasVendor) {
+        return { descriptor, merchant, processor, canonicalName: saasVendor.name };
+    }
+
+    if (aggregator) {
+        return { descriptor, merchant, processor: aggregator.name, canonicalName: aggregator.name };
+    }
+
+    const name = merchant
+        .replace(LEADING_WORDS, '')
+        .replace(/\s*\d{2}\/\d{2}.*$/, '') // Dates and whatever the bank appended after them
+        .replace(TRAILING_WORDS, '')
+        .replace(/\.(com|io|net|co|app|ai)$/i, '')
+        .replace(/[*#]+/g, ' ')
+        .trim();
+
+    return {
+        descriptor,
+        merchant,
+        processor,
+        canonicalName: titleCase(name) || processor || 'Unknown Vendor',
+    };
+}
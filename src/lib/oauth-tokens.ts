@@ -0,0 +1,54 @@
+/**
+ * OAuth Token Storage
+ * Reads and writes the mailbox OAuth tokens, which are encrypted at rest;
+ * everything that needs the token values goes through here
+ */
+
+import type { OAuthToken } from '@prisma/client';
+import prisma from './prisma';
+import { decryptField, encryptFields } from './encryption';
+
+export type OAuthTokenProvider = 'google' | 'microsoft';
+
+/**
+ * The user's token row for a provider with the tokens decrypted
+ */
+export async function findOAuthToken(userId: string, provider: OAuthTokenProvider): Promise<OAuthToken | null> {
+    const token = await prisma.oAuthToken.findUnique({
+        where: { userId_provider: { userId, provider } },
+    });
+    if (!token) return null;
+
+    return {
+        ...token,
+        accessToken: decryptField(token.accessToken, token.encryptionKeyId),
+        refreshToken: decryptField(token.refreshToken, token.encryptionKeyId),
+    };
+}
+
+/**
+ * Store fresh tokens; an omitted refresh token keeps the stored one
+ * Both tokens are written on every save so they share the row's key
+ */
+export async function saveOAuthTokens(
+    userId: string,
+    provider: OAuthTokenProvider,
+    tokens: { accessToken: string; refreshToken?: string | null; expiresAt: Date; scope?: string | null }
+): Promise<void> {
+    const refreshToken = tokens.refreshToken === undefined
+        ? (await findOAuthToken(userId, provider))?.refreshToken ?? null
+        : tokens.refreshToken;
+
+    const encrypted = encryptFields({ accessToken: tokens.accessToken, refreshToken });
+    const data = {
+        ...encrypted,
+        expiresAt: tokens.expiresAt,
+        ...(tokens.scope !== undefined ? { scope: tokens.scope } : {}),
+    };
+
+    await prisma.oAuthToken.upsert({
+        where: { userId_provider: { userId, provider } },
+        update: data,
+        create: { userId, provider, ...data },
+    });
+}
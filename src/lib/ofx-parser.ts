@@ -0,0 +1,116 @@
+/**
+ * OFX / QFX Statement Parser
+ * Handles both SGML (OFX 1.x, unclosed leaf tags) and XML (OFX 2.x) exports.
+ * QFX is Quicken's branded OFX and parses identically.
+ */
+
+import { CSVParseResult, ParsedTransaction, buildParseResult, classifyTransaction, createParsedTransaction } from './csv-parser';
+import { dateOnly } from './calendar-date';
+
+// Aggregates are closed even in SGML OFX, only leaf elements are not
+const TRANSACTION_BLOCK_REGEX = /<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi;
+
+/**
+ * Read a leaf element value from an OFX aggregate
+ * SGML leaves have no closing tag, so stop at the next tag or line break
+ */
+function readTag(block: string, tag: string): string | null {
+    const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+    if (!match) return null;
+
+    const value = decodeEntities(match[1].trim());
+    return value.length > 0 ? value : null;
+}
+
+function decodeEntities(value: string): string {
+    return value
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&amp;/g, '&');
+}
+
+/**
+ * Parse OFX date: YYYYMMDD[HHMMSS[.XXX]][[+-]TZ[:NAME]]
+ * Only the calendar date matters for billing analysis, so the time and zone are dropped
+ */
+function parseOFXDate(value: string | null): Date | null {
+    if (!value) return null;
+
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (!match) return null;
+
+    const date = dateOnly(parseInt(match[1]), parseInt(match[2]), parseInt(match[3]));
+    return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Check whether content looks like an OFX/QFX document
+ */
+export function isOFXContent(content: string): boolean {
+    const head = content.slice(0, 2000);
+    return /OFXHEADER\s*:/i.test(head) || /<\?OFX\b/i.test(head) || /<OFX>/i.test(content);
+}
+
+/**
+ * Parse OFX/QFX file content
+ */
+export function parseOFX(content: string): CSVParseResult {
+    const errors: string[] = [];
+    const transactions: ParsedTransaction[] = [];
+    let depositRows = 0;
+
+    const blocks = Array.from(content.matchAll(TRANSACTION_BLOCK_REGEX)).map(m => m[1]);
+
+    if (blocks.length === 0) {
+        errors.push('No <STMTTRN> transactions found in OFX file');
+        return buildParseResult([], errors, 0);
+    }
+
+    // Statement-level default currency applies to every transaction
+    const currency = readTag(content, 'CURDEF')?.toUpperCase() || null;
+
+    blocks.forEach((block, i) => {
+        const fitId = readTag(block, 'FITID');
+        const label = `Transaction ${fitId || i + 1}`;
+
+        try {
+            const dateStr = readTag(block, 'DTPOSTED') || readTag(block, 'DTUSER');
+            const date = parseOFXDate(dateStr);
+            if (!date) {
+                errors.push(`${label}: Invalid date "${dateStr || ''}"`);
+                return;
+            }
+
+            // TRNAMT is signed from the account holder's side: negative is money out
+            const amountStr = readTag(block, 'TRNAMT');
+            const signed = amountStr ? parseFloat(amountStr.replace(',', '.')) : NaN;
+            const amount = Math.abs(signed);
+            if (isNaN(amount)) {
+                errors.push(`${label}: Invalid amount "${amountStr || ''}"`);
+                return;
+            }
+            if (amount === 0) {
+                return; // Skip zero amount transactions
+            }
+
+            // NAME carries the merchant descriptor; MEMO is only a fallback since
+            // banks often fill it with reference numbers
+            const description = readTag(block, 'NAME') || readTag(block, 'MEMO') || '';
+
+            const kind = classifyTransaction(description, signed < 0 ? 'charge' : 'deposit');
+            if (!kind) {
+                depositRows++; // Deposits and payments that are not refunds
+                return;
+            }
+
+            transactions.push(createParsedTransaction({ date, description, amount, currency, kind }));
+        } catch (err) {
+            errors.push(`${label}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        }
+    });
+
+    return buildParseResult(transactions, errors, blocks.length, [], depositRows);
+}
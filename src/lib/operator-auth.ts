@@ -0,0 +1,17 @@
+/**
+ * Operator Requests
+ * Endpoints meant for schedulers and operators rather than signed-in users
+ * authenticate with "Authorization: Bearer $JOB_RUNNER_SECRET"
+ */
+
+import { timingSafeEqual } from 'crypto';
+import type { NextRequest } from 'next/server';
+
+export function isOperatorRequest(request: NextRequest): boolean {
+    const secret = process.env.JOB_RUNNER_SECRET;
+    if (!secret) return false;
+
+    const expected = Buffer.from(`Bearer ${secret}`);
+    const given = Buffer.from(request.headers.get('authorization') || '');
+    return given.length === expected.length && timingSafeEqual(given, expected);
+}
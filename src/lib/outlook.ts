@@ -0,0 +1,519 @@
+/**
+ * Microsoft 365 / Outlook Integration via Microsoft Graph
+ * Mailbox provider that backfills the inbox on first connect, then follows a
+ * Graph delta query from the stored delta link; also sends mail as the user.
+ * MICROSOFT_GRAPH_URL and MICROSOFT_LOGIN_URL point it at a mock server in development.
+ */
+
+import prisma from './prisma';
+import { findOAuthToken, saveOAuthTokens } from './oauth-tokens';
+import { withRetry } from './retry';
+import type {
+    MailboxAttachmentPart,
+    MailboxListing,
+    MailboxMessage,
+    MailboxProvider,
+    MailboxSyncMode,
+} from './mailbox';
+
+// ============================================================================
+// LOGGING
+// ============================================================================
+const LOG_PREFIX = '[Outlook]';
+
+function log(message: string, data?: Record<string, unknown>) {
+    const timestamp = new Date().toISOString();
+    if (data) {
+        console.log(`${timestamp} ${LOG_PREFIX} ${message}`, JSON.stringify(data, null, 2));
+    } else {
+        console.log(`${timestamp} ${LOG_PREFIX} ${message}`);
+    }
+}
+
+function logError(message: string, error: unknown) {
+    const timestamp = new Date().toISOString();
+    console.error(`${timestamp} ${LOG_PREFIX} ERROR: ${message}`, error);
+}
+
+// ============================================================================
+// TYPES
+// ============================================================================
+export interface OutlookClient {
+    accessToken: string;
+    userId: string;
+}
+
+export interface OutlookSendOptions {
+    to: string;
+    subject: string;
+    body: string;
+    from?: string;
+}
+
+export interface OutlookSendResult {
+    success: boolean;
+    messageId?: string;
+    error?: string;
+}
+
+interface GraphEmailAddress {
+    emailAddress?: { name?: string; address?: string };
+}
+
+interface GraphMessage {
+    id: string;
+    conversationId?: string;
+    subject?: string | null;
+    from?: GraphEmailAddress | null;
+    receivedDateTime?: string | null;
+    bodyPreview?: string | null;
+    body?: { contentType?: string; content?: string } | null;
+    hasAttachments?: boolean;
+    '@removed'?: { reason: string };
+}
+
+interface GraphAttachment {
+    '@odata.type'?: string;
+    id: string;
+    name?: string | null;
+    contentType?: string | null;
+    size?: number;
+    isInline?: boolean;
+}
+
+interface GraphPage<T> {
+    value: T[];
+    '@odata.nextLink'?: string;
+    '@odata.deltaLink'?: string;
+}
+
+type GraphError = Error & { status: number };
+
+// Token row for Microsoft accounts; Google tokens use provider "google"
+const TOKEN_PROVIDER = 'microsoft';
+
+const GRAPH_URL = (process.env.MICROSOFT_GRAPH_URL || 'https://graph.microsoft.com/v1.0').replace(/\/$/, '');
+const LOGIN_URL = (process.env.MICROSOFT_LOGIN_URL || 'https://login.microsoftonline.com').replace(/\/$/, '');
+
+export const MICROSOFT_SCOPES = 'openid email profile offline_access User.Read Mail.Read Mail.Send';
+
+// ============================================================================
+// OAUTH & CLIENT
+// ============================================================================
+export async function getOutlookClient(userId: string): Promise<OutlookClient | null> {
+    const token = await findOAuthToken(userId, TOKEN_PROVIDER);
+
+    if (!token) {
+        log(`No Microsoft token found for user: ${userId}`);
+        return null;
+    }
+
+    if (token.expiresAt > new Date()) {
+        return { accessToken: token.accessToken, userId };
+    }
+
+    log(`Token expired, refreshing...`);
+    const accessToken = await refreshAccessToken(userId, token.refreshToken);
+    if (!accessToken) {
+        logError(`Failed to refresh token`, { userId });
+        return null;
+    }
+
+    return { accessToken, userId };
+}
+
+/**
+ * Redeem the refresh token at the Microsoft identity platform
+ * Microsoft rotates refresh tokens, so the new one replaces the stored one
+ */
+async function refreshAccessToken(userId: string, refreshToken: string | null): Promise<string | null> {
+    if (!refreshToken) return null;
+
+    try {
+        const tenant = process.env.AZURE_AD_TENANT_ID || 'common';
+        const response = await fetch(`${LOGIN_URL}/${tenant}/oauth2/v2.0/token`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body: new URLSearchParams({
+                client_id: process.env.AZURE_AD_CLIENT_ID || '',
+                client_secret: process.env.AZURE_AD_CLIENT_SECRET || '',
+                grant_type: 'refresh_token',
+                refresh_token: refreshToken,
+                scope: MICROSOFT_SCOPES,
+            }),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Token endpoint returned ${response.status}: ${await response.text()}`);
+        }
+
+        const credentials = await response.json() as {
+            access_token: string;
+            refresh_token?: string;
+            expires_in?: number;
+        };
+
+        await saveOAuthTokens(userId, TOKEN_PROVIDER, {
+            accessToken: credentials.access_token,
+            refreshToken: credentials.refresh_token || refreshToken,
+            expiresAt: new Date(Date.now() + (credentials.expires_in || 3600) * 1000),
+        });
+
+        return credentials.access_token;
+    } catch (error) {
+        logError('Failed to refresh access token', error);
+        return null;
+    }
+}
+
+export async function hasOutlookConnected(userId: string): Promise<boolean> {
+    const token = await prisma.oAuthToken.findUnique({
+        where: { userId_provider: { userId, provider: TOKEN_PROVIDER } },
+    });
+    return !!token;
+}
+
+/**
+ * Disconnect the Microsoft mailbox; the user can still sign in with Microsoft
+ * and reconnects by doing so
+ */
+export async function deleteOutlookToken(userId: string): Promise<void> {
+    await prisma.oAuthToken.deleteMany({ where: { userId, provider: TOKEN_PROVIDER } });
+}
+
+// ============================================================================
+// GRAPH REQUESTS
+// ============================================================================
+
+function isGraphError(error: unknown, ...statuses: number[]): boolean {
+    return statuses.includes((error as Partial<GraphError>)?.status ?? 0);
+}
+
+/**
+ * Call Graph with the user's token; `path` is relative to the Graph URL or a
+ * full nextLink/deltaLink. Throttling and server errors are retried
+ * Immutable IDs keep message IDs stable when the user moves mail between folders
+ */
+async function graphFetch(
+    client: OutlookClient,
+    path: string,
+    init: { method?: string; body?: unknown; prefer?: string[] } = {}
+): Promise<Response> {
+    const url = path.startsWith('http') ? path : `${GRAPH_URL}${path}`;
+    const prefer = ['IdType="ImmutableId"', ...(init.prefer || [])].join(', ');
+
+    return withRetry(async () => {
+        const response = await fetch(url, {
+            method: init.method || 'GET',
+            headers: {
+                Authorization: `Bearer ${client.accessToken}`,
+                Prefer: prefer,
+                ...(init.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+            },
+            body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+        });
+
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            const error = new Error(`Graph API ${response.status}: ${detail.slice(0, 300)}`) as GraphError;
+            error.status = response.status;
+            throw error;
+        }
+        return response;
+    }, {
+        maxAttempts: 3,
+        initialDelayMs: 500,
+        maxDelayMs: 5000,
+        retryableErrors: (error) => isGraphError(error, 429, 500, 502, 503, 504),
+    });
+}
+
+async function graphJson<T>(client: OutlookClient, path: string, prefer?: string[]): Promise<T> {
+    const response = await graphFetch(client, path, { prefer });
+    return response.json() as Promise<T>;
+}
+
+// ============================================================================
+// INCREMENTAL SYNC
+// ============================================================================
+
+const INBOX_MESSAGES = '/me/mailFolders/inbox/messages';
+
+// Graph caps message pages at 1000; smaller pages keep each call fast
+const LIST_PAGE_SIZE = 100;
+
+/**
+ * Stored as GmailMessage.gmailId, so Graph IDs get a prefix to stay unique across providers
+ */
+function toMessageId(graphId: string): string {
+    return `outlook:${graphId}`;
+}
+
+function parseMessageId(messageId: string): string | null {
+    return messageId.startsWith('outlook:') ? messageId.slice('outlook:'.length) : null;
+}
+
+/**
+ * Start a delta round covering mail received from now on and return its delta link
+ * The checkpoint to resume from after a backfill
+ */
+async function getCurrentDeltaLink(client: OutlookClient): Promise<string | null> {
+    const since = encodeURIComponent(new Date().toISOString());
+    let link: string | undefined = `${INBOX_MESSAGES}/delta?$select=id&$filter=receivedDateTime+ge+${since}`;
+
+    while (link) {
+        const page: GraphPage<GraphMessage> = await graphJson(client, link, [`odata.maxpagesize=${LIST_PAGE_SIZE}`]);
+        if (page['@odata.deltaLink']) return page['@odata.deltaLink'];
+        link = page['@odata.nextLink'];
+    }
+    return null;
+}
+
+/**
+ * List up to `limit` of the newest inbox message IDs, following next links
+ */
+async function listNewestMessageIds(client: OutlookClient, limit: number): Promise<string[]> {
+    const messageIds: string[] = [];
+    let link: string | undefined =
+        `${INBOX_MESSAGES}?$select=id&$orderby=receivedDateTime+desc&$top=${Math.min(LIST_PAGE_SIZE, limit)}`;
+
+    while (link && messageIds.length < limit) {
+        const page: GraphPage<GraphMessage> = await graphJson(client, link);
+        for (const message of page.value) {
+            messageIds.push(toMessageId(message.id));
+        }
+        link = page['@odata.nextLink'];
+    }
+
+    return messageIds.slice(0, limit);
+}
+
+/**
+ * Follow a delta link to the end of the round
+ * Returns the messages added or changed since it was issued and the link for next time;
+ * changed messages that are already stored are skipped by the scan
+ */
+async function listDeltaMessageIds(
+    client: OutlookClient,
+    deltaLink: string
+): Promise<{ messageIds: string[]; deltaLink: string }> {
+    const messageIds = new Set<string>();
+    let link: string | undefined = deltaLink;
+    let nextDeltaLink = deltaLink;
+
+    while (link) {
+        const page: GraphPage<GraphMessage> = await graphJson(client, link, [`odata.maxpagesize=${LIST_PAGE_SIZE}`]);
+        for (const message of page.value) {
+            if (!message['@removed']) messageIds.add(toMessageId(message.id));
+        }
+
+        if (page['@odata.deltaLink']) {
+            nextDeltaLink = page['@odata.deltaLink'];
+        }
+        link = page['@odata.nextLink'];
+    }
+
+    return { messageIds: Array.from(messageIds), deltaLink: nextDeltaLink };
+}
+
+/**
+ * Outlook inbox as a mailbox provider
+ * - backfill: no checkpoint yet, list up to `backfillLimit` newest inbox messages
+ * - incremental: messages added since the stored delta link
+ * - full_resync: Graph answered 410 because the delta link expired, fall back to a bounded backfill
+ */
+export async function openOutlookMailbox(userId: string): Promise<MailboxProvider | null> {
+    const client = await getOutlookClient(userId);
+    if (!client) return null;
+
+    const where = { userId_provider: { userId, provider: TOKEN_PROVIDER } };
+
+    return {
+        kind: 'outlook',
+
+        async listMessageIds(backfillLimit: number): Promise<MailboxListing> {
+            const token = await prisma.oAuthToken.findUnique({
+                where,
+                select: { syncCheckpoint: true },
+            });
+
+            if (token?.syncCheckpoint) {
+                try {
+                    log(`Following delta link from the last sync...`);
+                    const { messageIds, deltaLink } = await listDeltaMessageIds(client, token.syncCheckpoint);
+                    return { syncMode: 'incremental', messageIds, checkpoint: deltaLink };
+                } catch (error) {
+                    if (!isGraphError(error, 410)) throw error;
+                    log(`Delta link expired, falling back to full resync`);
+                }
+            }
+
+            const syncMode: MailboxSyncMode = token?.syncCheckpoint ? 'full_resync' : 'backfill';
+
+            // Capture the checkpoint before listing so mail that arrives
+            // mid-backfill is still picked up by the next incremental sync
+            const deltaLink = await getCurrentDeltaLink(client);
+            log(`Backfilling up to ${backfillLimit} inbox messages`);
+            const messageIds = await listNewestMessageIds(client, backfillLimit);
+
+            return { syncMode, messageIds, checkpoint: deltaLink };
+        },
+
+        fetchMessage: (messageId: string) => fetchOutlookMessage(client, messageId),
+
+        async saveCheckpoint(checkpoint: string | null): Promise<void> {
+            await prisma.oAuthToken.update({
+                where,
+                data: {
+                    lastSyncAt: new Date(),
+                    syncCheckpoint: checkpoint ?? undefined,
+                },
+            });
+        },
+
+        async close(): Promise<void> {
+            // Stateless HTTP client, nothing to release
+        },
+    };
+}
+
+// ============================================================================
+// MESSAGES
+// ============================================================================
+
+function formatAddress(from: GraphEmailAddress | null | undefined): string | null {
+    const address = from?.emailAddress?.address;
+    if (!address) return null;
+    const name = from?.emailAddress?.name;
+    return name && name !== address ? `${name} <${address}>` : address;
+}
+
+/**
+ * Fetch a message with its plain text body in the provider-neutral shape; null once it is deleted
+ */
+async function fetchOutlookMessage(client: OutlookClient, messageId: string): Promise<MailboxMessage | null> {
+    const graphId = parseMessageId(messageId);
+    if (!graphId) return null;
+
+    const path = `/me/messages/${encodeURIComponent(graphId)}`;
+    let message: GraphMessage;
+    try {
+        message = await graphJson<GraphMessage>(
+            client,
+            `${path}?$select=id,conversationId,subject,from,receivedDateTime,bodyPreview,body,hasAttachments`,
+            ['outlook.body-content-type="text"']
+        );
+    } catch (error) {
+        if (isGraphError(error, 404)) return null;
+        throw error;
+    }
+
+    const attachments = message.hasAttachments
+        ? await listFileAttachments(client, path)
+        : [];
+
+    return {
+        id: messageId,
+        threadId: message.conversationId || null,
+        subject: message.subject || null,
+        from: formatAddress(message.from),
+        date: message.receivedDateTime ? new Date(message.receivedDateTime) : null,
+        snippet: message.bodyPreview || null,
+        body: message.body?.content?.trim() || null,
+        attachments: attachments.map(attachment => ({
+            partId: attachment.id,
+            filename: attachment.name!,
+            mimeType: attachment.contentType || null,
+            size: attachment.size || 0,
+            download: () => downloadAttachment(client, path, attachment.id),
+        } satisfies MailboxAttachmentPart)),
+    };
+}
+
+/**
+ * File attachments of a message; inline images and attached items are left out
+ */
+async function listFileAttachments(client: OutlookClient, messagePath: string): Promise<GraphAttachment[]> {
+    const page = await graphJson<GraphPage<GraphAttachment>>(
+        client,
+        `${messagePath}/attachments?$select=id,name,contentType,size,isInline`
+    );
+    return page.value.filter(attachment =>
+        attachment['@odata.type'] === '#microsoft.graph.fileAttachment' && attachment.name && !attachment.isInline
+    );
+}
+
+async function downloadAttachment(client: OutlookClient, messagePath: string, attachmentId: string): Promise<Buffer | null> {
+    try {
+        const response = await graphFetch(client, `${messagePath}/attachments/${encodeURIComponent(attachmentId)}/$value`);
+        return Buffer.from(await response.arrayBuffer());
+    } catch (error) {
+        if (isGraphError(error, 404)) return null;
+        throw error;
+    }
+}
+
+// ============================================================================
+// SEND EMAIL
+// ============================================================================
+export async function sendOutlookEmail(userId: string, options: OutlookSendOptions): Promise<OutlookSendResult> {
+    try {
+        log(`Sending email`, { to: options.to, subject: options.subject });
+
+        const client = await getOutlookClient(userId);
+        if (!client) {
+            return { success: false, error: 'Outlook not connected' };
+        }
+
+        // sendMail answers 202 with no body, so there is no message ID to return
+        await graphFetch(client, '/me/sendMail', {
+            method: 'POST',
+            body: {
+                message: {
+                    subject: options.subject,
+                    body: { contentType: 'HTML', content: options.body.replace(/\n/g, '<br>') },
+                    toRecipients: [{ emailAddress: { address: options.to } }],
+                    ...(options.from ? { from: { emailAddress: { address: options.from } } } : {}),
+                },
+                saveToSentItems: true,
+            },
+        });
+
+        log(`Email sent`, { to: options.to });
+        return { success: true };
+    } catch (error) {
+        logError('Outlook send error', error);
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Failed to send email',
+        };
+    }
+}
+
+// ============================================================================
+// STATUS
+// ============================================================================
+export async function getOutlookStatus(userId: string): Promise<{
+    connected: boolean;
+    email?: string;
+    lastScan?: Date;
+    tokenExpiry?: Date;
+}> {
+    const token = await prisma.oAuthToken.findUnique({
+        where: { userId_provider: { userId, provider: TOKEN_PROVIDER } },
+    });
+
+    if (!token) return { connected: false };
+
+    const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { email: true },
+    });
+
+    return {
+        connected: true,
+        email: user?.email,
+        lastScan: token.lastSyncAt || undefined,
+        tokenExpiry: token.expiresAt,
+    };
+}
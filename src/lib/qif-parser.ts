@@ -0,0 +1,158 @@
+/**
+ * QIF Statement Parser
+ * Handles Quicken Interchange Format bank and credit card exports
+ * Each record is a block of single-letter fields terminated by a "^" line
+ */
+
+import { CSVParseResult, ParsedTransaction, buildParseResult, classifyTransaction, createParsedTransaction } from './csv-parser';
+import { dateOnly } from './calendar-date';
+
+// Account types whose records are transactions (investment and list sections are ignored)
+const TRANSACTION_TYPES = ['bank', 'ccard', 'cash', 'oth a', 'oth l'];
+
+interface QIFRecord {
+    date?: string;
+    amount?: string;
+    payee?: string;
+    memo?: string;
+    category?: string;
+}
+
+/**
+ * Parse QIF date
+ * Quicken writes month-first dates with an apostrophe before 2000+ years: 1/15'25, 01/15/2025, 1-15-25
+ */
+function parseQIFDate(value: string | undefined): Date | null {
+    if (!value) return null;
+
+    const match = value.trim().match(/^(\d{1,2})[\/\-.](\s?\d{1,2})['\/\-.]\s?(\d{2,4})$/);
+    if (!match) {
+        // Some exporters write ISO dates
+        const iso = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+        return iso ? dateOnly(parseInt(iso[1]), parseInt(iso[2]), parseInt(iso[3])) : null;
+    }
+
+    const month = parseInt(match[1]);
+    const day = parseInt(match[2]);
+    let year = parseInt(match[3]);
+    if (match[3].length === 2) {
+        year += value.includes("'") || year < 70 ? 2000 : 1900;
+    }
+
+    const date = dateOnly(year, month, day);
+    return isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 ? null : date;
+}
+
+/**
+ * Check whether content looks like a QIF document
+ */
+export function isQIFContent(content: string): boolean {
+    const firstLine = content.trimStart().split(/\r?\n/, 1)[0] || '';
+    return /^!(Type|Account|Option|Clear)/i.test(firstLine);
+}
+
+/**
+ * Parse QIF file content
+ */
+export function parseQIF(content: string): CSVParseResult {
+    const errors: string[] = [];
+    const transactions: ParsedTransaction[] = [];
+    let depositRows = 0;
+    const records: QIFRecord[] = [];
+
+    let inTransactionSection = false;
+    let current: QIFRecord = {};
+
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.trimEnd();
+        if (!line) continue;
+
+        if (line.startsWith('!')) {
+            const typeMatch = line.match(/^!Type:(.+)$/i);
+            if (typeMatch) {
+                inTransactionSection = TRANSACTION_TYPES.includes(typeMatch[1].trim().toLowerCase());
+            }
+            current = {};
+            continue;
+        }
+
+        if (!inTransactionSection) continue;
+
+        const field = line[0];
+        const value = line.slice(1).trim();
+
+        switch (field) {
+            case 'D':
+                current.date = value;
+                break;
+            case 'T':
+            case 'U':
+                current.amount = current.amount ?? value;
+                break;
+            case 'P':
+                current.payee = value;
+                break;
+            case 'M':
+                current.memo = value;
+                break;
+            case 'L':
+                // Transfers are written as [Account Name]; they carry no category
+                current.category = value.startsWith('[') ? undefined : value;
+                break;
+            case '^':
+                records.push(current);
+                current = {};
+                break;
+            default:
+                // Check numbers, cleared status, splits and addresses are not needed
+                break;
+        }
+    }
+
+    if (records.length === 0) {
+        errors.push('No bank or credit card transactions found in QIF file');
+        return buildParseResult([], errors, 0);
+    }
+
+    records.forEach((record, i) => {
+        const label = `Record ${i + 1}`;
+
+        try {
+            const date = parseQIFDate(record.date);
+            if (!date) {
+                errors.push(`${label}: Invalid date "${record.date || ''}"`);
+                return;
+            }
+
+            // Negative amounts are payments out, positive ones deposits
+            const signed = record.amount ? parseFloat(record.amount.replace(/,/g, '')) : NaN;
+            const amount = Math.abs(signed);
+            if (isNaN(amount)) {
+                errors.push(`${label}: Invalid amount "${record.amount || ''}"`);
+                return;
+            }
+            if (amount === 0) {
+                return; // Skip zero amount transactions
+            }
+
+            const description = record.payee || record.memo || '';
+            const kind = classifyTransaction(description, signed < 0 ? 'charge' : 'deposit');
+            if (!kind) {
+                depositRows++; // Deposits and payments that are not refunds
+                return;
+            }
+
+            transactions.push(createParsedTransaction({
+                date,
+                description,
+                amount,
+                category: record.category || null,
+                kind,
+            }));
+        } catch (err) {
+            errors.push(`${label}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        }
+    });
+
+    return buildParseResult(transactions, errors, records.length, [], depositRows);
+}
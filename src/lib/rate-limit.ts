@@ -34,10 +34,18 @@ export const RATE_LIMITS = {
     negotiate: { windowMs: 60000, maxRequests: 10 },      // 10 per minute
     intelligence: { windowMs: 60000, maxRequests: 20 },   // 20 per minute
     research: { windowMs: 60000, maxRequests: 15 },       // 15 per minute
+    reprocess: { windowMs: 300000, maxRequests: 3 },      // 3 per 5 minutes, each re-reads up to 500 emails
     
     // Gmail endpoints - API quota sensitive
     gmailScan: { windowMs: 60000, maxRequests: 5 },       // 5 per minute
     gmailCompose: { windowMs: 60000, maxRequests: 10 },   // 10 per minute
+
+    // IMAP endpoints - each request logs in to the user's mail server
+    imapScan: { windowMs: 60000, maxRequests: 5 },        // 5 per minute
+    imapConnect: { windowMs: 300000, maxRequests: 10 },   // 10 per 5 minutes
+
+    // Outlook endpoints - Graph throttles per mailbox
+    outlookScan: { windowMs: 60000, maxRequests: 5 },     // 5 per minute
     
     // Standard API endpoints
     standard: { windowMs: 60000, maxRequests: 60 },       // 60 per minute
@@ -0,0 +1,315 @@
+/**
+ * Recurring Charge Detection
+ * Finds vendors outside the SaaS catalog whose transaction history looks like
+ * a subscription: regular intervals, stable amounts and one descriptor.
+ */
+
+import prisma from './prisma';
+import { descriptorKey } from './merchant-normalization';
+import { refreshChargeAlerts } from './charge-alerts';
+import { BILLING_CYCLE_BY_FREQUENCY, CADENCES, Frequency, detectCadence, getRenewalInfo } from './renewal-detection';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RecurringChargeInput {
+    date: Date;
+    amount: number;
+    kind: string;
+    rawDescription: string | null;
+}
+
+export interface RecurringSignal {
+    frequency: Frequency;
+    medianIntervalDays: number;
+    typicalAmount: number;   // Median regular charge
+    occurrences: number;     // Regular charges analyzed
+    lastChargeDate: Date;
+    confidence: number;      // 0-1
+    reasons: string[];
+}
+
+export interface RecurringCandidate extends RecurringSignal {
+    vendorId: string;
+    vendorName: string;
+    currency: string;
+    nextExpectedDate: Date;
+}
+
+export type RecurringReviewDecision = 'confirmed' | 'dismissed';
+
+export type RecurringReviewResult<T> =
+    | { success: true; data: T }
+    | { success: false; error: string; status: number };
+
+const MIN_CONFIDENCE = 0.5;
+const AMOUNT_TOLERANCE = 0.05;   // Charges within 5% of the median count as the same price
+const LAPSE_PERIODS = 2.5;       // No charge for this many periods means it was cancelled
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function share(values: number[], predicate: (value: number) => boolean): number {
+    return values.length === 0 ? 0 : values.filter(predicate).length / values.length;
+}
+
+/**
+ * Score how much a vendor's charge history looks like a subscription
+ * Returns null when there is no regular cadence, too few charges, or the
+ * charges stopped more than two and a half billing periods ago
+ */
+export function analyzeRecurringCharges(
+    history: RecurringChargeInput[],
+    now: Date = new Date()
+): RecurringSignal | null {
+    const charges = history
+        .filter(h => h.kind === 'charge')
+        .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    if (charges.length < 2) return null;
+
+    const cadenceInfo = detectCadence(charges.map(c => c.date));
+    const cadence = CADENCES.find(c => c.frequency === cadenceInfo.frequency);
+    if (!cadence) return null;
+
+    // Two charges only establish a yearly or longer pattern; shorter cadences need three
+    if (charges.length < 3 && cadence.months < 12) return null;
+
+    const lastChargeDate = charges[charges.length - 1].date;
+    if ((now.getTime() - lastChargeDate.getTime()) / DAY_MS > cadence.days * LAPSE_PERIODS) {
+        return null;
+    }
+
+    const amounts = charges.map(c => c.amount);
+    const typicalAmount = median(amounts);
+
+    const intervalScore = cadenceInfo.confidence;
+    const amountScore = share(amounts, a => Math.abs(a - typicalAmount) <= typicalAmount * AMOUNT_TOLERANCE);
+
+    const keyCounts = new Map<string, number>();
+    for (const charge of charges) {
+        const key = descriptorKey(charge.rawDescription || '');
+        keyCounts.set(key, (keyCounts.get(key) || 0) + 1);
+    }
+    const descriptorScore = Math.max(...Array.from(keyCounts.values())) / charges.length;
+
+    // More periods observed means less chance the pattern is coincidence
+    const historyScore = Math.min(1, (charges.length - 1) / 5);
+
+    const confidence = Math.round(
+        (intervalScore * 0.35 + amountScore * 0.3 + descriptorScore * 0.15 + historyScore * 0.2) * 100
+    ) / 100;
+
+    if (confidence < MIN_CONFIDENCE) return null;
+
+    const reasons: string[] = [
+        `${charges.length} charges about every ${cadenceInfo.medianIntervalDays} days`,
+    ];
+    if (cadenceInfo.missedPeriods > 0) {
+        reasons.push(`${cadenceInfo.missedPeriods} skipped billing period${cadenceInfo.missedPeriods === 1 ? '' : 's'}`);
+    }
+    if (amountScore === 1) {
+        reasons.push('Same amount every time');
+    } else if (amountScore >= 0.6) {
+        reasons.push(`Amount stable in ${Math.round(amountScore * 100)}% of charges`);
+    }
+    if (descriptorScore === 1) {
+        reasons.push('Identical statement descriptor');
+    }
+
+    return {
+        frequency: cadence.frequency,
+        medianIntervalDays: cadenceInfo.medianIntervalDays!,
+        typicalAmount,
+        occurrences: charges.length,
+        lastChargeDate,
+        confidence,
+        reasons,
+    };
+}
+
+/**
+ * Map a detector confidence onto Subscription.confidenceScore
+ */
+function toConfidenceLabel(confidence: number): string {
+    if (confidence >= 0.8) return 'high';
+    if (confidence >= 0.6) return 'medium';
+    return 'low';
+}
+
+// ============================================================================
+// CANDIDATES
+// ============================================================================
+
+async function loadVendorHistory(userId: string, vendorIds?: string[]) {
+    return prisma.transaction.findMany({
+        where: {
+            userId,
+            vendor: { isSaaS: false },
+            ...(vendorIds ? { vendorId: { in: vendorIds } } : {}),
+        },
+        select: {
+            vendorId: true,
+            date: true,
+            amount: true,
+            currency: true,
+            kind: true,
+            rawDescription: true,
+            vendor: { select: { name: true } },
+        },
+        orderBy: { date: 'asc' },
+    });
+}
+
+function buildCandidate(
+    vendorId: string,
+    rows: Awaited<ReturnType<typeof loadVendorHistory>>
+): RecurringCandidate | null {
+    const signal = analyzeRecurringCharges(rows.map(r => ({
+        date: r.date,
+        amount: parseFloat(r.amount.toString()),
+        kind: r.kind,
+        rawDescription: r.rawDescription,
+    })));
+    if (!signal) return null;
+
+    const latest = rows.filter(r => r.kind === 'charge').pop()!;
+
+    return {
+        ...signal,
+        vendorId,
+        vendorName: latest.vendor.name,
+        currency: latest.currency,
+        nextExpectedDate: getRenewalInfo(rows, signal.frequency).renewalDate,
+    };
+}
+
+/**
+ * Vendors outside the catalog that bill like a subscription
+ * Skips vendors the user already tracks or has reviewed, highest confidence first
+ */
+export async function findRecurringCandidates(userId: string): Promise<RecurringCandidate[]> {
+    const [history, subscriptions, reviews] = await Promise.all([
+        loadVendorHistory(userId),
+        prisma.subscription.findMany({ where: { userId }, select: { vendorId: true } }),
+        prisma.recurringVendorReview.findMany({ where: { userId }, select: { vendorId: true } }),
+    ]);
+
+    const skip = new Set([...subscriptions.map(s => s.vendorId), ...reviews.map(r => r.vendorId)]);
+
+    const byVendor = new Map<string, typeof history>();
+    for (const row of history) {
+        if (skip.has(row.vendorId)) continue;
+        const rows = byVendor.get(row.vendorId) || [];
+        rows.push(row);
+        byVendor.set(row.vendorId, rows);
+    }
+
+    const candidates: RecurringCandidate[] = [];
+    for (const [vendorId, rows] of byVendor) {
+        const candidate = buildCandidate(vendorId, rows);
+        if (candidate) candidates.push(candidate);
+    }
+
+    return candidates.sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Vendors the user confirmed as subscriptions, kept up to date by later imports
+ */
+export async function getConfirmedRecurringVendorIds(
+    client: Pick<typeof prisma, 'recurringVendorReview'>,
+    userId: string
+): Promise<Set<string>> {
+    const reviews = await client.recurringVendorReview.findMany({
+        where: { userId, decision: 'confirmed' },
+        select: { vendorId: true },
+    });
+
+    return new Set(reviews.map(r => r.vendorId));
+}
+
+/**
+ * Confirm a candidate: create its statement subscription and remember the decision
+ */
+export async function confirmRecurringCandidate(
+    userId: string,
+    vendorId: string
+): Promise<RecurringReviewResult<{ subscriptionId: string }>> {
+    const rows = await loadVendorHistory(userId, [vendorId]);
+    const candidate = rows.length > 0 ? buildCandidate(vendorId, rows) : null;
+    if (!candidate) {
+        return { success: false, error: 'No recurring pattern found for this vendor', status: 404 };
+    }
+
+    const billingCycle = BILLING_CYCLE_BY_FREQUENCY[candidate.frequency];
+    const latest = rows.filter(r => r.kind === 'charge').pop()!;
+
+    const subscriptionId = await prisma.$transaction(async (tx) => {
+        const subscription = await tx.subscription.upsert({
+            where: { userId_vendorId_source: { userId, vendorId, source: 'csv' } },
+            update: {
+                amount: latest.amount,
+                currency: latest.currency,
+                billingCycle,
+                renewalDate: candidate.nextExpectedDate,
+                lastDetectedAt: new Date(),
+            },
+            create: {
+                userId,
+                vendorId,
+                source: 'csv',
+                amount: latest.amount,
+                currency: latest.currency,
+                billingCycle,
+                renewalDate: candidate.nextExpectedDate,
+                confidenceScore: toConfidenceLabel(candidate.confidence),
+            },
+        });
+
+        await tx.recurringVendorReview.upsert({
+            where: { userId_vendorId: { userId, vendorId } },
+            update: { decision: 'confirmed', confidence: candidate.confidence },
+            create: { userId, vendorId, decision: 'confirmed', confidence: candidate.confidence },
+        });
+
+        return subscription.id;
+    });
+
+    await refreshChargeAlerts(userId);
+
+    return { success: true, data: { subscriptionId } };
+}
+
+/**
+ * Dismiss a candidate so it is never suggested again
+ */
+export async function dismissRecurringCandidate(
+    userId: string,
+    vendorId: string
+): Promise<RecurringReviewResult<{ vendorId: string }>> {
+    const transaction = await prisma.transaction.findFirst({
+        where: { userId, vendorId },
+        select: { id: true },
+    });
+    if (!transaction) {
+        return { success: false, error: 'Vendor not found', status: 404 };
+    }
+
+    await prisma.recurringVendorReview.upsert({
+        where: { userId_vendorId: { userId, vendorId } },
+        update: { decision: 'dismissed' },
+        create: { userId, vendorId, decision: 'dismissed' },
+    });
+
+    return { success: true, data: { vendorId } };
+}
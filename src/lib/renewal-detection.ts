@@ -3,137 +3,304 @@
  * Rule-based estimation of renewal dates from transaction history
  */
 
-export type Frequency = 'monthly' | 'annual' | 'quarterly' | 'one-time';
+import {
+    CalendarDate,
+    DEFAULT_TIMEZONE,
+    addDays,
+    addMonths,
+    compareCalendarDates,
+    daysBetween,
+    fromDate,
+    toDate,
+    todayIn,
+} from './calendar-date';
+
+export type Frequency =
+    | 'weekly'
+    | 'monthly'
+    | 'quarterly'
+    | 'semiannual'
+    | 'annual'
+    | 'biennial'
+    | 'triennial'
+    | 'one-time';
+
+// A charge date, or a dated transaction whose kind decides whether it starts a billing period
+export type BillingEvent = Date | { date: Date; kind?: string | null };
+
+// Map detected transaction cadence onto Subscription.billingCycle
+export const BILLING_CYCLE_BY_FREQUENCY: Partial<Record<Frequency, string>> = {
+    weekly: 'weekly',
+    monthly: 'monthly',
+    quarterly: 'quarterly',
+    semiannual: 'semiannual',
+    annual: 'yearly',
+    biennial: 'biennial',
+    triennial: 'triennial',
+};
+
+export interface Cadence {
+    frequency: Exclude<Frequency, 'one-time'>;
+    days: number;    // Nominal interval
+    months: number;  // Calendar months per period; 0 for day-based cadences
+}
+
+export interface CadenceInfo {
+    frequency: Frequency;
+    confidence: number;          // 0-1: how consistently the charges follow the cadence
+    medianIntervalDays: number | null;
+    missedPeriods: number;       // Billing periods skipped between observed charges
+}
 
 export interface RenewalInfo {
     frequency: Frequency;
     renewalDate: Date;
     daysUntilRenewal: number;
     isUrgent: boolean; // Within 30 days
+    confidence: number; // 0-1, see CadenceInfo
+    missedPeriods: number;
 }
 
+export const CADENCES: Cadence[] = [
+    { frequency: 'weekly', days: 7, months: 0 },
+    { frequency: 'monthly', days: 30.44, months: 1 },
+    { frequency: 'quarterly', days: 91.31, months: 3 },
+    { frequency: 'semiannual', days: 182.62, months: 6 },
+    { frequency: 'annual', days: 365.25, months: 12 },
+    { frequency: 'biennial', days: 730.5, months: 24 },
+    { frequency: 'triennial', days: 1095.75, months: 36 },
+];
+
+// How far an interval may drift from the cadence and still count as on schedule
+const INTERVAL_TOLERANCE = 0.15;
+// Intervals up to this many periods long are read as skipped periods, not a different cadence
+const MAX_GAP_PERIODS = 3;
+const DAY_MS = 1000 * 60 * 60 * 24;
+
 /**
- * Detect frequency from transaction dates
- * Requires at least 2 transactions to determine pattern
+ * Dates of regular charges only
+ * Refunds, credits, chargebacks and proration charges are not billing periods
  */
-export function detectFrequency(dates: Date[]): Frequency {
+export function getBillingDates(events: BillingEvent[]): Date[] {
+    const dates: Date[] = [];
+
+    for (const event of events) {
+        if (event instanceof Date) {
+            dates.push(event);
+        } else if (!event.kind || event.kind === 'charge') {
+            dates.push(event.date);
+        }
+    }
+
+    return dates;
+}
+
+function sortedIntervals(dates: Date[]): number[] {
+    const sorted = [...dates].sort((a, b) => a.getTime() - b.getTime());
+    const intervals: number[] = [];
+    for (let i = 1; i < sorted.length; i++) {
+        intervals.push((sorted[i].getTime() - sorted[i - 1].getTime()) / DAY_MS);
+    }
+    return intervals;
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * How well a set of intervals fits one cadence
+ * An interval of two or three whole periods is a skipped period, which lowers
+ * confidence a little but does not break the pattern
+ */
+function scoreCadence(intervals: number[], cadence: Cadence): { confidence: number; missedPeriods: number } {
+    if (intervals.length === 0) return { confidence: 0, missedPeriods: 0 };
+
+    let fit = 0;
+    let missedPeriods = 0;
+
+    for (const interval of intervals) {
+        const periods = Math.max(1, Math.round(interval / cadence.days));
+        const onSchedule = Math.abs(interval - periods * cadence.days) <= cadence.days * INTERVAL_TOLERANCE;
+        if (!onSchedule || periods > MAX_GAP_PERIODS) continue;
+
+        if (periods === 1) {
+            fit += 1;
+        } else {
+            fit += 0.75;
+            missedPeriods += periods - 1;
+        }
+    }
+
+    // Few intervals prove little even when they all fit
+    const sample = Math.min(1, intervals.length / 3);
+    const confidence = (fit / intervals.length) * (0.5 + 0.5 * sample);
+
+    return { confidence: Math.round(confidence * 100) / 100, missedPeriods };
+}
+
+/**
+ * Detect the billing cadence from the median interval between regular charges
+ * The median ignores a skipped month or a one-off extra charge that would skew an average
+ */
+export function detectCadence(events: BillingEvent[]): CadenceInfo {
+    const dates = getBillingDates(events);
+
     if (dates.length < 2) {
-        // Single transaction - assume monthly for SaaS
-        return 'monthly';
+        // Single transaction - assume monthly for SaaS, with no evidence either way
+        return { frequency: 'monthly', confidence: 0, medianIntervalDays: null, missedPeriods: 0 };
     }
 
-    // Sort dates chronologically
-    const sortedDates = [...dates].sort((a, b) => a.getTime() - b.getTime());
+    const intervals = sortedIntervals(dates);
+    const medianInterval = median(intervals);
 
-    // Calculate average days between transactions
-    let totalDays = 0;
-    for (let i = 1; i < sortedDates.length; i++) {
-        const diffMs = sortedDates[i].getTime() - sortedDates[i - 1].getTime();
-        totalDays += diffMs / (1000 * 60 * 60 * 24);
+    // Nearest cadence on a log scale, so 45 days is as far from monthly as 22 days
+    let nearest = CADENCES[0];
+    for (const cadence of CADENCES) {
+        const distance = Math.abs(Math.log(medianInterval / cadence.days));
+        if (distance < Math.abs(Math.log(medianInterval / nearest.days))) {
+            nearest = cadence;
+        }
     }
-    const avgDays = totalDays / (sortedDates.length - 1);
-
-    // Classify based on average interval
-    if (avgDays <= 45) {
-        return 'monthly';
-    } else if (avgDays <= 120) {
-        return 'quarterly';
-    } else if (avgDays <= 400) {
-        return 'annual';
+
+    // Beyond half a period off any cadence, or longer than the longest term, it is not recurring
+    const ratio = medianInterval / nearest.days;
+    if (ratio < 0.5 || ratio > 1.5) {
+        return { frequency: 'one-time', confidence: 0, medianIntervalDays: Math.round(medianInterval), missedPeriods: 0 };
     }
 
-    return 'one-time';
+    return {
+        frequency: nearest.frequency,
+        medianIntervalDays: Math.round(medianInterval),
+        ...scoreCadence(intervals, nearest),
+    };
+}
+
+/**
+ * Detect frequency from transaction dates
+ * Requires at least 2 regular charges to determine pattern
+ */
+export function detectFrequency(events: BillingEvent[]): Frequency {
+    return detectCadence(events).frequency;
 }
 
 /**
  * Calculate next renewal date based on frequency and last transaction
+ * Works on calendar dates (see calendar-date.ts): the result is the first billing
+ * date on or after `today`, returned as UTC midnight. Month-based cadences keep
+ * the billing anchor day (taken from `anchorDate`, e.g. the first charge) instead
+ * of drifting with each charge's posting date, clamped in short months
  */
 export function calculateRenewalDate(
     lastTransactionDate: Date,
     frequency: Frequency,
-    firstTransactionDate?: Date
+    anchorDate?: Date,
+    today: CalendarDate = todayIn(DEFAULT_TIMEZONE)
 ): Date {
-    const now = new Date();
-    let renewalDate: Date;
-
-    switch (frequency) {
-        case 'monthly':
-            // Next month from last transaction
-            renewalDate = new Date(lastTransactionDate);
-            renewalDate.setMonth(renewalDate.getMonth() + 1);
-
-            // If renewal is in the past, calculate next occurrence
-            while (renewalDate < now) {
-                renewalDate.setMonth(renewalDate.getMonth() + 1);
-            }
-            break;
-
-        case 'quarterly':
-            renewalDate = new Date(lastTransactionDate);
-            renewalDate.setMonth(renewalDate.getMonth() + 3);
-
-            while (renewalDate < now) {
-                renewalDate.setMonth(renewalDate.getMonth() + 3);
-            }
-            break;
-
-        case 'annual':
-            // For annual, use 11 months from first payment as per spec
-            // This gives time to negotiate before renewal
-            if (firstTransactionDate) {
-                renewalDate = new Date(firstTransactionDate);
-                renewalDate.setMonth(renewalDate.getMonth() + 11);
-
-                // Find the next upcoming renewal window
-                while (renewalDate < now) {
-                    renewalDate.setFullYear(renewalDate.getFullYear() + 1);
-                }
-            } else {
-                // Fall back to 11 months from last transaction
-                renewalDate = new Date(lastTransactionDate);
-                renewalDate.setMonth(renewalDate.getMonth() + 11);
-
-                while (renewalDate < now) {
-                    renewalDate.setFullYear(renewalDate.getFullYear() + 1);
-                }
-            }
-            break;
-
-        default:
-            // One-time - no renewal
-            renewalDate = new Date(lastTransactionDate);
+    const last = fromDate(lastTransactionDate);
+    const cadence = CADENCES.find(c => c.frequency === frequency);
+
+    if (!cadence) {
+        // One-time - no renewal
+        return toDate(last);
+    }
+
+    if (cadence.months === 0) {
+        let renewal = last;
+        do {
+            renewal = addDays(renewal, cadence.days);
+        } while (compareCalendarDates(renewal, today) < 0);
+        return toDate(renewal);
+    }
+
+    const anchorDay = fromDate(anchorDate || lastTransactionDate).day;
+
+    // The billing date the last charge belongs to: a charge on the 2nd for an
+    // anchor on the 31st settled the previous month's period
+    let periodStart = addMonths(last, 0, anchorDay);
+    for (const offset of [-1, 1]) {
+        const candidate = addMonths(last, offset, anchorDay);
+        if (Math.abs(daysBetween(last, candidate)) < Math.abs(daysBetween(last, periodStart))) {
+            periodStart = candidate;
+        }
+    }
+
+    let periods = 1;
+    let renewal = addMonths(periodStart, cadence.months, anchorDay);
+
+    // If renewal is in the past, calculate next occurrence
+    while (compareCalendarDates(renewal, today) < 0) {
+        periods++;
+        renewal = addMonths(periodStart, cadence.months * periods, anchorDay);
     }
 
-    return renewalDate;
+    return toDate(renewal);
+}
+
+/**
+ * Most common day of month among the charges; ties go to the most recent
+ * A posting delayed by a weekend does not move the anchor
+ */
+function billingAnchor(sortedDates: Date[]): Date {
+    const counts = new Map<number, number>();
+    for (const date of sortedDates) {
+        counts.set(date.getUTCDate(), (counts.get(date.getUTCDate()) || 0) + 1);
+    }
+
+    let anchor = sortedDates[sortedDates.length - 1];
+    for (let i = sortedDates.length - 1; i >= 0; i--) {
+        if (counts.get(sortedDates[i].getUTCDate())! > counts.get(anchor.getUTCDate())!) {
+            anchor = sortedDates[i];
+        }
+    }
+
+    return anchor;
 }
 
 /**
  * Get complete renewal information for a vendor
+ * Days are counted from today in `timeZone`, the user's setting
  */
 export function getRenewalInfo(
-    transactionDates: Date[],
-    frequency?: Frequency
+    transactions: BillingEvent[],
+    frequency?: Frequency,
+    timeZone: string = DEFAULT_TIMEZONE
 ): RenewalInfo {
-    if (transactionDates.length === 0) {
+    if (transactions.length === 0) {
         throw new Error('At least one transaction date is required');
     }
 
+    // Project from regular charges; a history of only refunds or prorations falls back to all dates
+    const billingDates = getBillingDates(transactions);
+    const transactionDates = billingDates.length > 0
+        ? billingDates
+        : transactions.map(t => (t instanceof Date ? t : t.date));
+
     const sortedDates = [...transactionDates].sort((a, b) => a.getTime() - b.getTime());
-    const firstDate = sortedDates[0];
     const lastDate = sortedDates[sortedDates.length - 1];
 
-    const detectedFrequency = frequency || detectFrequency(sortedDates);
-    const renewalDate = calculateRenewalDate(lastDate, detectedFrequency, firstDate);
+    const detected = detectCadence(sortedDates);
+    const detectedFrequency = frequency || detected.frequency;
+
+    // A caller-supplied frequency is scored against the history rather than trusted blindly
+    const cadence = CADENCES.find(c => c.frequency === detectedFrequency);
+    const fit = detectedFrequency === detected.frequency || !cadence
+        ? { confidence: detected.confidence, missedPeriods: detected.missedPeriods }
+        : scoreCadence(sortedIntervals(sortedDates), cadence);
 
-    const now = new Date();
-    const diffMs = renewalDate.getTime() - now.getTime();
-    const daysUntilRenewal = Math.ceil(diffMs / (1000 * 60 * 60 * 24));
+    const today = todayIn(timeZone);
+    const renewalDate = calculateRenewalDate(lastDate, detectedFrequency, billingAnchor(sortedDates), today);
+    const daysUntilRenewal = daysBetween(today, fromDate(renewalDate));
 
     return {
         frequency: detectedFrequency,
         renewalDate,
         daysUntilRenewal,
-        isUrgent: daysUntilRenewal <= 30 && daysUntilRenewal > 0,
+        isUrgent: daysUntilRenewal <= 30 && daysUntilRenewal >= 0,
+        confidence: fit.confidence,
+        missedPeriods: fit.missedPeriods,
     };
 }
 
@@ -145,18 +312,23 @@ export function formatRenewalDate(date: Date): string {
         month: 'short',
         day: 'numeric',
         year: 'numeric',
+        timeZone: 'UTC', // Stored as a calendar date at UTC midnight
     });
 }
 
 /**
  * Get urgency label for UI
+ * Pass the days until the last day to act (see getActionDeadline), which is
+ * the renewal date only when there is no notice period
  */
 export function getUrgencyLabel(daysUntilRenewal: number): {
     label: string;
     color: 'red' | 'orange' | 'yellow' | 'green' | 'gray';
 } {
-    if (daysUntilRenewal <= 0) {
+    if (daysUntilRenewal < 0) {
         return { label: 'Overdue', color: 'gray' };
+    } else if (daysUntilRenewal === 0) {
+        return { label: 'Today', color: 'red' };
     } else if (daysUntilRenewal <= 7) {
         return { label: `${daysUntilRenewal} days`, color: 'red' };
     } else if (daysUntilRenewal <= 14) {
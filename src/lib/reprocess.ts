@@ -0,0 +1,520 @@
+/**
+ * Extraction Reprocessing
+ * Re-runs the extractor over stored emails after it improves. Each new read is
+ * compared with the subscription the email is linked to and saved as a
+ * proposal; nothing changes until the user approves some or all of its fields.
+ */
+
+import type { Subscription } from '@prisma/client';
+import prisma from './prisma';
+import type { JobContext } from './jobs';
+import { refreshChargeAlerts } from './charge-alerts';
+import { formatCalendarDate, fromDate } from './calendar-date';
+import { EXTRACTION_VERSION } from './subscription-extraction';
+import { decryptField, encryptFields } from './encryption';
+import {
+    applyEmailExtraction,
+    EmailExtraction,
+    findEmailVendor,
+    hasSubscriptionData,
+    MailboxKind,
+    parseExtractedDate,
+    readEmailExtraction,
+} from './mailbox';
+
+// ============================================================================
+// LOGGING
+// ============================================================================
+const LOG_PREFIX = '[Reprocess]';
+
+function log(message: string, data?: Record<string, unknown>) {
+    const timestamp = new Date().toISOString();
+    if (data) {
+        console.log(`${timestamp} ${LOG_PREFIX} ${message}`, JSON.stringify(data, null, 2));
+    } else {
+        console.log(`${timestamp} ${LOG_PREFIX} ${message}`);
+    }
+}
+
+function logError(message: string, error: unknown) {
+    const timestamp = new Date().toISOString();
+    console.error(`${timestamp} ${LOG_PREFIX} ERROR: ${message}`, error);
+}
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const REPROCESS_FIELDS = ['amount', 'currency', 'billingCycle', 'plan', 'seats', 'renewalDate', 'trialEndsAt'] as const;
+
+export type ReprocessField = typeof REPROCESS_FIELDS[number];
+
+type FieldValue = string | number | null;
+
+export interface ReprocessFieldChange {
+    field: ReprocessField;
+    current: FieldValue;
+    proposed: FieldValue;
+}
+
+export interface ReprocessSelection {
+    messageIds: string[] | null; // null re-reads every stored subscription email
+    outdatedOnly: boolean;       // Skip emails already read by the current extractor
+}
+
+export interface ReprocessProposalView {
+    id: string;
+    subscriptionId: string | null;
+    vendorName: string;
+    confidence: string;
+    changes: ReprocessFieldChange[];
+    createdAt: Date;
+    message: {
+        gmailId: string;
+        subject: string | null;
+        sender: string | null;
+        date: Date | null;
+    };
+}
+
+export type ReprocessResult<T> =
+    | { success: true; data: T }
+    | { success: false; error: string; status: number };
+
+// Every re-read is an LLM call
+export const MAX_REPROCESS_MESSAGES = 500;
+
+// ============================================================================
+// SELECTION
+// ============================================================================
+
+function outdatedFilter() {
+    return { OR: [{ extractionVersion: null }, { extractionVersion: { lt: EXTRACTION_VERSION } }] };
+}
+
+/**
+ * Stored emails that can be re-read: subscription-related, not rejected by a
+ * reviewer and not waiting in the review queue
+ */
+function reprocessableWhere(userId: string, selection: ReprocessSelection) {
+    return {
+        userId,
+        isRenewal: true,
+        notSubscription: false,
+        senderDomain: { not: null },
+        OR: [{ review: null }, { review: { status: { not: 'pending' } } }],
+        ...(selection.messageIds ? { gmailId: { in: selection.messageIds } } : {}),
+        ...(selection.outdatedOnly ? { AND: [outdatedFilter()] } : {}),
+    };
+}
+
+export async function getReprocessSummary(userId: string) {
+    const [storedMessages, outdatedMessages, pendingProposals] = await Promise.all([
+        prisma.gmailMessage.count({ where: reprocessableWhere(userId, { messageIds: null, outdatedOnly: false }) }),
+        prisma.gmailMessage.count({ where: reprocessableWhere(userId, { messageIds: null, outdatedOnly: true }) }),
+        prisma.reprocessProposal.count({ where: { userId, status: 'pending' } }),
+    ]);
+
+    return { extractionVersion: EXTRACTION_VERSION, storedMessages, outdatedMessages, pendingProposals };
+}
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+function calendarDay(value: Date | string | null): string | null {
+    const date = typeof value === 'string' ? parseExtractedDate(value) : value;
+    return date ? formatCalendarDate(fromDate(date)) : null;
+}
+
+function proposedValues(fields: EmailExtraction): Record<ReprocessField, FieldValue> {
+    return {
+        amount: fields.amount,
+        // The extractor falls back to USD; a currency only means something next to an amount
+        currency: fields.amount !== null ? fields.currency : null,
+        billingCycle: fields.billingCycle,
+        plan: fields.plan,
+        seats: fields.seats,
+        renewalDate: calendarDay(fields.renewalDate),
+        trialEndsAt: calendarDay(fields.trialEndDate),
+    };
+}
+
+function storedValues(subscription: Subscription): Record<ReprocessField, FieldValue> {
+    return {
+        amount: subscription.amount !== null ? Number(subscription.amount) : null,
+        currency: subscription.currency,
+        billingCycle: subscription.billingCycle,
+        plan: subscription.plan,
+        seats: subscription.seats,
+        renewalDate: calendarDay(subscription.renewalDate),
+        trialEndsAt: calendarDay(subscription.trialEndsAt),
+    };
+}
+
+/**
+ * Fields the new read would change; like a scan, a value the extractor no
+ * longer finds never clears what is stored
+ */
+function diffFields(
+    current: Record<ReprocessField, FieldValue>,
+    fields: EmailExtraction
+): ReprocessFieldChange[] {
+    const proposed = proposedValues(fields);
+    return REPROCESS_FIELDS
+        .filter(field => proposed[field] !== null && proposed[field] !== current[field])
+        .map(field => ({ field, current: current[field], proposed: proposed[field] }));
+}
+
+// ============================================================================
+// PROPOSE
+// ============================================================================
+
+async function markRead(gmailId: string) {
+    await prisma.gmailMessage.update({
+        where: { gmailId },
+        data: { isProcessed: true, extractionVersion: EXTRACTION_VERSION },
+    });
+}
+
+/**
+ * Re-read the selected emails and record what would change
+ * Runs as a background job; emails whose new read changes nothing are marked
+ * as read by the current extractor straight away
+ */
+export async function proposeExtractionChanges(selection: ReprocessSelection, context: JobContext) {
+    const { userId, jobId } = context;
+
+    const messages = await prisma.gmailMessage.findMany({
+        where: reprocessableWhere(userId, selection),
+        select: {
+            gmailId: true,
+            provider: true,
+            subject: true,
+            sender: true,
+            senderDomain: true,
+            body: true,
+            encryptionKeyId: true,
+            attachments: { select: { filename: true, text: true, encryptionKeyId: true }, orderBy: { createdAt: 'asc' } },
+        },
+        orderBy: { date: 'desc' },
+        take: MAX_REPROCESS_MESSAGES,
+    });
+
+    const stats = { messagesListed: messages.length, messagesRead: 0, proposals: 0, unchanged: 0, failed: 0 };
+    let cancelled = false;
+    log(`Re-reading ${messages.length} emails`, { userId, jobId, outdatedOnly: selection.outdatedOnly });
+
+    for (const message of messages) {
+        if (await context.isCancelRequested()) {
+            cancelled = true;
+            break;
+        }
+
+        try {
+            const fields = await readEmailExtraction({
+                senderDomain: message.senderDomain!,
+                from: message.sender,
+                subject: message.subject,
+                body: decryptField(message.body, message.encryptionKeyId),
+                attachments: message.attachments.map(a => ({
+                    filename: a.filename,
+                    text: decryptField(a.text, a.encryptionKeyId),
+                })),
+            });
+
+            if (!fields) {
+                stats.failed++;
+            } else {
+                const proposal = await buildProposal(userId, message, fields);
+                if (proposal) {
+                    await prisma.$transaction([
+                        prisma.reprocessProposal.deleteMany({ where: { gmailId: message.gmailId, status: 'pending' } }),
+                        prisma.reprocessProposal.create({
+                            data: {
+                                userId,
+                                jobId,
+                                gmailId: message.gmailId,
+                                subscriptionId: proposal.subscriptionId,
+                                extractionVersion: EXTRACTION_VERSION,
+                                ...encryptFields({
+                                    fields: JSON.stringify(fields),
+                                    changes: JSON.stringify(proposal.changes),
+                                }),
+                            },
+                        }),
+                    ]);
+                    stats.proposals++;
+                } else {
+                    await markRead(message.gmailId);
+                    stats.unchanged++;
+                }
+            }
+        } catch (error) {
+            logError(`Failed to re-read ${message.gmailId}`, error);
+            stats.failed++;
+        }
+
+        stats.messagesRead++;
+        await context.reportProgress({
+            progress: stats.messagesRead,
+            total: messages.length,
+            message: `Re-read ${stats.messagesRead} of ${messages.length} emails`,
+            stats,
+        });
+    }
+
+    log(`Re-read ${cancelled ? 'cancelled' : 'complete'}`, { ...stats });
+
+    return {
+        success: true,
+        cancelled,
+        ...stats,
+        message: `Re-read ${stats.messagesRead} emails: ${stats.proposals} with changes to review, ${stats.unchanged} unchanged${stats.failed > 0 ? `, ${stats.failed} could not be read` : ''}`,
+    };
+}
+
+/**
+ * Compare a new read with the email's subscription; null when nothing would change
+ */
+async function buildProposal(
+    userId: string,
+    message: { gmailId: string; provider: string; senderDomain: string | null },
+    fields: EmailExtraction
+): Promise<{ subscriptionId: string | null; changes: ReprocessFieldChange[] } | null> {
+    const linked = await prisma.subscription.findFirst({
+        where: { userId, gmailMessageId: message.gmailId },
+    });
+
+    if (linked) {
+        const changes = diffFields(storedValues(linked), fields);
+        return changes.length > 0 ? { subscriptionId: linked.id, changes } : null;
+    }
+
+    if (!hasSubscriptionData(fields)) return null;
+
+    // A later email already owns this vendor's subscription; an older read must not overwrite it
+    const vendor = await findEmailVendor(fields.vendorName, message.senderDomain!);
+    if (vendor) {
+        const owned = await prisma.subscription.findUnique({
+            where: { userId_vendorId_source: { userId, vendorId: vendor.id, source: message.provider } },
+            select: { id: true },
+        });
+        if (owned) return null;
+    }
+
+    const empty = Object.fromEntries(REPROCESS_FIELDS.map(field => [field, null])) as Record<ReprocessField, FieldValue>;
+    return { subscriptionId: null, changes: diffFields(empty, fields) };
+}
+
+// ============================================================================
+// REVIEW
+// ============================================================================
+
+export async function listReprocessProposals(userId: string): Promise<ReprocessProposalView[]> {
+    const proposals = await prisma.reprocessProposal.findMany({
+        where: { userId, status: 'pending' },
+        include: {
+            message: { select: { gmailId: true, subject: true, sender: true, date: true } },
+            subscription: { select: { vendor: { select: { name: true } } } },
+        },
+        orderBy: { createdAt: 'desc' },
+    });
+
+    return proposals.map(proposal => {
+        const fields = JSON.parse(decryptField(proposal.fields, proposal.encryptionKeyId)) as EmailExtraction;
+        return {
+            id: proposal.id,
+            subscriptionId: proposal.subscriptionId,
+            vendorName: proposal.subscription?.vendor.name || fields.vendorName,
+            confidence: fields.confidence,
+            changes: JSON.parse(decryptField(proposal.changes, proposal.encryptionKeyId)) as ReprocessFieldChange[],
+            createdAt: proposal.createdAt,
+            message: proposal.message,
+        };
+    });
+}
+
+async function findPendingProposal(userId: string, proposalId: string) {
+    return prisma.reprocessProposal.findFirst({
+        where: { id: proposalId, userId, status: 'pending' },
+        include: { message: { select: { provider: true, senderDomain: true, date: true } } },
+    });
+}
+
+function toColumnValue(field: ReprocessField, value: FieldValue) {
+    return field === 'renewalDate' || field === 'trialEndsAt'
+        ? parseExtractedDate(value as string | null)
+        : value;
+}
+
+/**
+ * Apply the approved fields of a proposal; all of them when none are named
+ * The proposal is claimed before anything is written, so a double submit
+ * applies it once, and it is refused when the subscription has been edited
+ * since the email was re-read
+ */
+export async function applyReprocessProposal(
+    userId: string,
+    proposalId: string,
+    approved?: ReprocessField[]
+): Promise<ReprocessResult<{ subscriptionId: string | null; applied: ReprocessField[] }>> {
+    const proposal = await findPendingProposal(userId, proposalId);
+    if (!proposal) {
+        return { success: false, error: 'Proposal not found', status: 404 };
+    }
+
+    const changes = JSON.parse(decryptField(proposal.changes, proposal.encryptionKeyId)) as ReprocessFieldChange[];
+    const selected = changes.filter(change => !approved || approved.includes(change.field));
+    if (selected.length === 0) {
+        return { success: false, error: 'Choose at least one change to apply', status: 400 };
+    }
+
+    const applied = selected.map(change => change.field);
+    const decision = {
+        status: 'applied',
+        appliedFields: JSON.stringify(applied),
+        decidedAt: new Date(),
+    };
+    const markMessageRead = {
+        where: { gmailId: proposal.gmailId },
+        data: { isProcessed: true, extractionVersion: proposal.extractionVersion },
+    };
+
+    let subscriptionId = proposal.subscriptionId;
+    if (subscriptionId) {
+        const linkedId = subscriptionId;
+        const outcome = await prisma.$transaction(async (tx) => {
+            const subscription = await tx.subscription.findUnique({ where: { id: linkedId } });
+            if (!subscription) return 'missing' as const;
+
+            const stored = storedValues(subscription);
+            if (selected.some(change => stored[change.field] !== change.current)) return 'stale' as const;
+
+            const claimed = await tx.reprocessProposal.updateMany({
+                where: { id: proposal.id, status: 'pending' },
+                data: decision,
+            });
+            if (claimed.count === 0) return 'handled' as const;
+
+            await tx.subscription.update({
+                where: { id: linkedId },
+                data: Object.fromEntries(selected.map(change => [change.field, toColumnValue(change.field, change.proposed)])),
+            });
+            await tx.gmailMessage.update(markMessageRead);
+            return 'applied' as const;
+        });
+
+        if (outcome === 'missing') {
+            return { success: false, error: 'Subscription not found', status: 404 };
+        }
+        if (outcome === 'stale') {
+            return { success: false, error: 'The subscription has changed since this email was re-read; re-read it again to compare', status: 409 };
+        }
+        if (outcome === 'handled') {
+            return { success: false, error: 'Proposal was already handled', status: 409 };
+        }
+    } else {
+        // A new subscription: fields left unapproved are dropped from the read
+        const fields = JSON.parse(decryptField(proposal.fields, proposal.encryptionKeyId)) as EmailExtraction;
+        const fieldsToApply: EmailExtraction = {
+            ...fields,
+            amount: selected.some(c => c.field === 'amount') ? fields.amount : null,
+            billingCycle: selected.some(c => c.field === 'billingCycle') ? fields.billingCycle : null,
+            plan: selected.some(c => c.field === 'plan') ? fields.plan : null,
+            seats: selected.some(c => c.field === 'seats') ? fields.seats : null,
+            renewalDate: selected.some(c => c.field === 'renewalDate') ? fields.renewalDate : null,
+            trialEndDate: selected.some(c => c.field === 'trialEndsAt') ? fields.trialEndDate : null,
+            // Approved by a person, like an accepted review
+            confidence: 'high',
+        };
+        if (!hasSubscriptionData(fieldsToApply)) {
+            return { success: false, error: 'These changes are not enough to create a subscription', status: 400 };
+        }
+
+        // The email was linked to a subscription after it was re-read
+        const linked = await prisma.subscription.findFirst({
+            where: { userId, gmailMessageId: proposal.gmailId },
+            select: { id: true },
+        });
+        if (linked) {
+            return { success: false, error: 'This email already has a subscription; re-read it again to compare', status: 409 };
+        }
+
+        const claimed = await prisma.reprocessProposal.updateMany({
+            where: { id: proposal.id, status: 'pending' },
+            data: { ...decision, status: 'applying' },
+        });
+        if (claimed.count === 0) {
+            return { success: false, error: 'Proposal was already handled', status: 409 };
+        }
+
+        try {
+            const invoice = await prisma.gmailAttachment.findFirst({
+                where: { gmailId: proposal.gmailId, text: { not: null } },
+                orderBy: { createdAt: 'asc' },
+                select: { id: true },
+            });
+            const result = await applyEmailExtraction(fieldsToApply, {
+                userId,
+                messageId: proposal.gmailId,
+                senderDomain: proposal.message.senderDomain || '',
+                receivedAt: proposal.message.date || proposal.createdAt,
+                source: proposal.message.provider as MailboxKind,
+                invoiceAttachmentId: invoice?.id || null,
+            });
+            subscriptionId = result.subscriptionId;
+        } catch (error) {
+            await prisma.reprocessProposal.update({
+                where: { id: proposal.id },
+                data: { status: 'pending', appliedFields: null, decidedAt: null },
+            });
+            throw error;
+        }
+
+        await prisma.$transaction([
+            prisma.reprocessProposal.update({
+                where: { id: proposal.id },
+                data: { status: 'applied', subscriptionId },
+            }),
+            prisma.gmailMessage.update(markMessageRead),
+        ]);
+    }
+
+    await refreshChargeAlerts(userId);
+
+    log(`Applied proposal ${proposal.id}`, { subscriptionId, applied });
+    return { success: true, data: { subscriptionId, applied } };
+}
+
+/**
+ * Keep the subscription as it is; the email counts as read by this extractor
+ */
+export async function discardReprocessProposal(
+    userId: string,
+    proposalId: string
+): Promise<ReprocessResult<{ id: string }>> {
+    const proposal = await findPendingProposal(userId, proposalId);
+    if (!proposal) {
+        return { success: false, error: 'Proposal not found', status: 404 };
+    }
+
+    const discarded = await prisma.$transaction(async (tx) => {
+        const claimed = await tx.reprocessProposal.updateMany({
+            where: { id: proposal.id, status: 'pending' },
+            data: { status: 'discarded', decidedAt: new Date() },
+        });
+        if (claimed.count === 0) return false;
+
+        await tx.gmailMessage.update({
+            where: { gmailId: proposal.gmailId },
+            data: { isProcessed: true, extractionVersion: proposal.extractionVersion },
+        });
+        return true;
+    });
+    if (!discarded) {
+        return { success: false, error: 'Proposal was already handled', status: 409 };
+    }
+
+    return { success: true, data: { id: proposal.id } };
+}
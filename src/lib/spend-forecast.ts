@@ -0,0 +1,296 @@
+/**
+ * Spend Forecast
+ * Normalizes subscriptions to monthly and annual run-rate by billing cycle and
+ * projects the next 12 months of outflows from their renewal dates, with and
+ * without pending negotiations landing at their estimated savings.
+ */
+
+import prisma from './prisma';
+import { FxConverter, getFxConverter } from './fx';
+import { CalendarDate, DEFAULT_TIMEZONE, addDays, addMonths, formatCalendarDate, fromDate, toDate, todayIn } from './calendar-date';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ForecastSubscription {
+    id: string;
+    vendorId: string;
+    vendorName: string;
+    amount: number;
+    currency: string;
+    billingCycle: string | null;
+    renewalDate: Date | null;
+}
+
+export interface PendingSaving {
+    vendorId: string;
+    annualAmount: number;  // Saving.estimatedAmount, read as a yearly figure
+    currency: string;
+    landsOn: Date | null;  // Negotiated price applies from this renewal; null for the next one
+}
+
+export interface RunRate {
+    subscriptionId: string;
+    vendorName: string;
+    billingCycle: string;
+    assumedCycle: boolean;   // No billingCycle stored; treated as monthly
+    monthly: number | null;  // Reporting currency; null without an FX rate
+    annual: number | null;
+}
+
+export interface ForecastMonth {
+    month: string;           // YYYY-MM
+    baseline: number;
+    withSavings: number;
+    charges: number;         // Projected charges in the month
+}
+
+export interface SpendForecast {
+    reportingCurrency: string;
+    months: ForecastMonth[];
+    runRate: {
+        monthly: number;
+        annual: number;
+        monthlyWithSavings: number;
+        annualWithSavings: number;
+    };
+    totals: { baseline: number; withSavings: number; savings: number };
+    subscriptions: RunRate[];
+    pendingNegotiations: number;
+    unconverted: number;     // Subscriptions left out for lack of an FX rate
+}
+
+// Calendar months per billing period; weekly is handled by days
+const CYCLE_MONTHS: Record<string, number> = {
+    weekly: 12 / 52,
+    monthly: 1,
+    quarterly: 3,
+    semiannual: 6,
+    yearly: 12,
+    biennial: 24,
+    triennial: 36,
+};
+
+const FORECAST_MONTHS = 12;
+
+// ============================================================================
+// PROJECTION
+// ============================================================================
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+function monthKey(date: Date): string {
+    return formatCalendarDate(fromDate(date)).slice(0, 7);
+}
+
+function cycleOf(subscription: ForecastSubscription): { cycle: string; assumed: boolean } {
+    const cycle = subscription.billingCycle;
+    return cycle && CYCLE_MONTHS[cycle] ? { cycle, assumed: false } : { cycle: 'monthly', assumed: true };
+}
+
+/**
+ * Add billing periods to a date, keeping the day of month and clamping to short months
+ */
+function addPeriods(date: Date, cycle: string, periods: number): Date {
+    return cycle === 'weekly'
+        ? toDate(addDays(fromDate(date), 7 * periods))
+        : toDate(addMonths(fromDate(date), CYCLE_MONTHS[cycle] * periods));
+}
+
+/**
+ * Charge dates from `from` up to (not including) `end`
+ * A stale renewal date is rolled forward; without one, charges are spread one per
+ * calendar month at the monthly run-rate, so the amount may differ from the price
+ */
+export function projectCharges(
+    subscription: ForecastSubscription,
+    from: Date,
+    end: Date
+): Array<{ date: Date; amount: number }> {
+    const { cycle } = cycleOf(subscription);
+    const charges: Array<{ date: Date; amount: number }> = [];
+
+    if (!subscription.renewalDate) {
+        const monthly = subscription.amount / CYCLE_MONTHS[cycle];
+        const firstOfMonth = toDate({ ...fromDate(from), day: 1 });
+        for (let i = 0, date = firstOfMonth; date < end; date = addPeriods(firstOfMonth, 'monthly', ++i)) {
+            charges.push({ date, amount: monthly });
+        }
+        return charges;
+    }
+
+    const anchor = subscription.renewalDate;
+    let periods = 0;
+    while (addPeriods(anchor, cycle, periods) < from) periods++;
+
+    for (let date = addPeriods(anchor, cycle, periods); date < end; date = addPeriods(anchor, cycle, ++periods)) {
+        charges.push({ date, amount: subscription.amount });
+    }
+    return charges;
+}
+
+/**
+ * Build the forecast from plain rows; the first month is the one containing `today`
+ * Each pending saving reduces its vendor's largest subscription from the renewal
+ * it lands on, by the share of the annual saving that one billing period covers
+ */
+export function buildSpendForecast(
+    subscriptions: ForecastSubscription[],
+    savings: PendingSaving[],
+    fx: FxConverter,
+    today: CalendarDate = todayIn(DEFAULT_TIMEZONE)
+): SpendForecast {
+    const now = toDate(today);
+    const start = toDate({ ...today, day: 1 });
+    const end = addPeriods(start, 'monthly', FORECAST_MONTHS);
+
+    const months = new Map<string, ForecastMonth>();
+    for (let i = 0; i < FORECAST_MONTHS; i++) {
+        const key = monthKey(addPeriods(start, 'monthly', i));
+        months.set(key, { month: key, baseline: 0, withSavings: 0, charges: 0 });
+    }
+
+    const runRates: RunRate[] = subscriptions.map(subscription => {
+        const { cycle, assumed } = cycleOf(subscription);
+        const monthly = fx.convert(subscription.amount / CYCLE_MONTHS[cycle], subscription.currency, now);
+        return {
+            subscriptionId: subscription.id,
+            vendorName: subscription.vendorName,
+            billingCycle: cycle,
+            assumedCycle: assumed,
+            monthly: monthly === null ? null : round(monthly),
+            annual: monthly === null ? null : round(monthly * 12),
+        };
+    });
+
+    // Savings apply to one subscription per vendor: the one costing the most per year
+    const annualById = new Map(runRates.map(r => [r.subscriptionId, r.annual ?? 0]));
+    const targetByVendor = new Map<string, ForecastSubscription>();
+    for (const subscription of subscriptions) {
+        const current = targetByVendor.get(subscription.vendorId);
+        if (!current || annualById.get(subscription.id)! > annualById.get(current.id)!) {
+            targetByVendor.set(subscription.vendorId, subscription);
+        }
+    }
+
+    let monthlySavings = 0;
+    for (const subscription of subscriptions) {
+        const { cycle } = cycleOf(subscription);
+        const vendorSavings = targetByVendor.get(subscription.vendorId) === subscription
+            ? savings.filter(s => s.vendorId === subscription.vendorId)
+            : [];
+
+        // The share of a year one projected charge covers
+        const share = subscription.renewalDate ? CYCLE_MONTHS[cycle] / 12 : 1 / 12;
+        const charges = projectCharges(subscription, now, end);
+        const firstCharge = charges[0]?.date;
+
+        for (const charge of charges) {
+            const amount = fx.convert(charge.amount, subscription.currency, charge.date);
+            if (amount === null) continue;
+
+            let reduction = 0;
+            for (const saving of vendorSavings) {
+                const landsOn = saving.landsOn && saving.landsOn > now ? saving.landsOn : firstCharge;
+                if (!landsOn || charge.date < landsOn) continue;
+                reduction += fx.convert(saving.annualAmount * share, saving.currency, charge.date) ?? 0;
+            }
+
+            const month = months.get(monthKey(charge.date));
+            if (!month) continue;
+            month.baseline += amount;
+            month.withSavings += Math.max(0, amount - reduction);
+            month.charges++;
+        }
+
+        if (vendorSavings.length > 0) {
+            const saved = vendorSavings.reduce(
+                (sum, saving) => sum + (fx.convert(saving.annualAmount, saving.currency, now) ?? 0) / 12,
+                0
+            );
+            monthlySavings += Math.min(saved, (annualById.get(subscription.id) ?? 0) / 12);
+        }
+    }
+
+    const monthList = Array.from(months.values()).map(m => ({
+        ...m,
+        baseline: round(m.baseline),
+        withSavings: round(m.withSavings),
+    }));
+
+    const monthlyRunRate = runRates.reduce((sum, r) => sum + (r.monthly ?? 0), 0);
+    const monthlyWithSavings = Math.max(0, monthlyRunRate - monthlySavings);
+    const baselineTotal = monthList.reduce((sum, m) => sum + m.baseline, 0);
+    const withSavingsTotal = monthList.reduce((sum, m) => sum + m.withSavings, 0);
+
+    return {
+        reportingCurrency: fx.reportingCurrency,
+        months: monthList,
+        runRate: {
+            monthly: round(monthlyRunRate),
+            annual: round(monthlyRunRate * 12),
+            monthlyWithSavings: round(monthlyWithSavings),
+            annualWithSavings: round(monthlyWithSavings * 12),
+        },
+        totals: {
+            baseline: round(baselineTotal),
+            withSavings: round(withSavingsTotal),
+            savings: round(baselineTotal - withSavingsTotal),
+        },
+        subscriptions: runRates.sort((a, b) => (b.annual ?? 0) - (a.annual ?? 0)),
+        pendingNegotiations: new Set(savings.filter(s => targetByVendor.has(s.vendorId)).map(s => s.vendorId)).size,
+        unconverted: runRates.filter(r => r.monthly === null).length,
+    };
+}
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+/**
+ * Forecast for a user's active, priced subscriptions and unconfirmed negotiation savings
+ */
+export async function getSpendForecast(userId: string): Promise<SpendForecast> {
+    const [user, subscriptions, savings] = await Promise.all([
+        prisma.user.findUnique({ where: { id: userId }, select: { timezone: true } }),
+        prisma.subscription.findMany({
+            where: { userId, status: 'active', amount: { not: null } },
+            include: { vendor: { select: { name: true } } },
+        }),
+        prisma.saving.findMany({
+            where: {
+                confirmedAmount: null,
+                negotiation: { userId, status: { not: 'closed' } },
+            },
+            include: { negotiation: { select: { vendorId: true, renewalDate: true } } },
+        }),
+    ]);
+
+    const fx = await getFxConverter(userId, [
+        ...subscriptions.map(s => s.currency),
+        ...savings.map(s => s.currency),
+    ]);
+
+    return buildSpendForecast(
+        subscriptions.map(s => ({
+            id: s.id,
+            vendorId: s.vendorId,
+            vendorName: s.vendor.name,
+            amount: parseFloat(s.amount!.toString()),
+            currency: s.currency,
+            billingCycle: s.billingCycle,
+            renewalDate: s.renewalDate,
+        })),
+        savings.map(s => ({
+            vendorId: s.negotiation.vendorId,
+            annualAmount: parseFloat(s.estimatedAmount.toString()),
+            currency: s.currency,
+            landsOn: s.negotiation.renewalDate,
+        })),
+        fx,
+        todayIn(user?.timezone || DEFAULT_TIMEZONE)
+    );
+}
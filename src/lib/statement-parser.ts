@@ -0,0 +1,49 @@
+/**
+ * Statement Import Entry Point
+ * Detects the export format from file content (not the extension) and
+ * dispatches to the matching parser. Every parser returns the same
+ * CSVParseResult shape so vendor grouping and frequency detection are shared.
+ */
+
+import { CSVParseResult, ColumnMapping, parseCSV } from './csv-parser';
+import { isOFXContent, parseOFX } from './ofx-parser';
+import { isQIFContent, parseQIF } from './qif-parser';
+
+export type StatementFormat = 'csv' | 'ofx' | 'qif';
+
+export interface StatementParseResult extends CSVParseResult {
+    format: StatementFormat;
+}
+
+export interface StatementParseOptions {
+    mapping?: ColumnMapping; // CSV only; OFX and QIF have fixed fields
+}
+
+/**
+ * Detect statement format from content
+ * OFX and QIF have unambiguous markers; anything else is treated as CSV
+ */
+export function detectStatementFormat(content: string): StatementFormat {
+    if (isOFXContent(content)) return 'ofx';
+    if (isQIFContent(content)) return 'qif';
+    return 'csv';
+}
+
+/**
+ * Parse any supported statement export
+ */
+export function parseStatement(rawContent: string, options: StatementParseOptions = {}): StatementParseResult {
+    // Strip the UTF-8 BOM that some bank exports prepend
+    const content = rawContent.replace(/^\uFEFF/, '');
+    const format = detectStatementFormat(content);
+
+    switch (format) {
+        case 'ofx':
+            return { format, ...parseOFX(content) };
+        case 'qif':
+            return { format, ...parseQIF(content) };
+        case 'csv':
+        default:
+            return { format, ...parseCSV(content, options.mapping) };
+    }
+}
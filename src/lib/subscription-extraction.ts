@@ -11,14 +11,19 @@ import { detectSaaSVendor } from './saas-vendors';
 // TYPES
 // ============================================================================
 
+// What the email is about; trial emails start or end a free trial, receipts confirm a real charge
+export type ExtractedEmailType = 'trial_started' | 'trial_ending' | 'receipt' | 'renewal_notice' | 'other';
+
 export interface ExtractedSubscription {
+    email_type: ExtractedEmailType | null;
     vendor_name: string;
     vendor_domain: string | null;
     plan: string | null;
     seats: number | null;
     billing_cycle: 'monthly' | 'yearly' | null;
     renewal_date: string | null; // YYYY-MM-DD format
-    amount: number | null;
+    trial_end_date: string | null; // YYYY-MM-DD, when a free trial converts to paid
+    amount: number | null;        // For trials, the price charged after the trial
     currency: string | null;
     confidence: 'low' | 'medium' | 'high';
 }
@@ -61,10 +66,16 @@ const KNOWN_SAAS_DOMAINS: Record<string, { name: string; category: string }> = {
     'anthropic.com': { name: 'Anthropic', category: 'AI' },
 };
 
+const EMAIL_TYPES: ExtractedEmailType[] = ['trial_started', 'trial_ending', 'receipt', 'renewal_notice', 'other'];
+
 // ============================================================================
 // LLM EXTRACTION PROMPT
 // ============================================================================
 
+// Recorded on every message the extractor reads. Bump it whenever the prompt or
+// the parsing of its answer changes, so older reads can be found and re-run
+export const EXTRACTION_VERSION = 1;
+
 const EXTRACTION_PROMPT = `You are a data extraction assistant. Extract subscription information from the following email.
 
 IMPORTANT RULES:
@@ -74,6 +85,7 @@ IMPORTANT RULES:
 4. For dates, always use YYYY-MM-DD format
 5. For amounts, extract the numeric value only (no currency symbols)
 6. For vendor_name, extract the actual product/company name, NOT the sender's display name
+7. For free trial emails, amount is the price that will be charged once the trial ends, not $0
 
 Email Subject: {subject}
 
@@ -84,12 +96,14 @@ Sender: {sender}
 
 Return ONLY a valid JSON object with this exact structure (no markdown, no explanation):
 {
+  "email_type": "trial_started or trial_ending or receipt or renewal_notice or other - trial_started when a free trial begins, trial_ending when it warns the trial is about to end or convert, receipt when money was actually charged",
   "vendor_name": "string - the SaaS product name",
   "vendor_domain": "string or null - vendor website domain if mentioned",
   "plan": "string or null - subscription plan name (e.g., Team, Pro, Enterprise)",
   "seats": "number or null - number of seats/licenses if mentioned",
   "billing_cycle": "monthly or yearly or null",
   "renewal_date": "YYYY-MM-DD or null",
+  "trial_end_date": "YYYY-MM-DD or null - when the free trial ends or converts to paid",
   "amount": "number or null - subscription amount without currency symbol",
   "currency": "string or null - currency code like USD, EUR",
   "confidence": "low or medium or high - based on how much information was found"
@@ -233,6 +247,10 @@ export async function extractSubscriptionFromEmail(
         if (extracted.seats && typeof extracted.seats === 'string') {
             extracted.seats = parseInt(extracted.seats as string, 10);
         }
+        extracted.email_type = EMAIL_TYPES.includes(extracted.email_type as ExtractedEmailType)
+            ? extracted.email_type
+            : null;
+        extracted.trial_end_date = extracted.trial_end_date || null;
 
         return extracted;
     } catch (error) {
@@ -255,7 +273,7 @@ function extractWithRegex(subject: string | null, body: string | null): Extracte
 
     // Extract vendor name from subject (e.g., "Notion Billing Plan" -> "Notion")
     let vendorName: string | null = null;
-    const subjectMatch = subject?.match(/^(\w+)\s+(?:Billing|Subscription|Plan|Renewal)/i);
+    const subjectMatch = subject?.match(/^(\w+)\s+(?:Billing|Subscription|Plan|Renewal|Trial|Free Trial)/i);
     if (subjectMatch) {
         vendorName = subjectMatch[1];
     }
@@ -314,6 +332,33 @@ function extractWithRegex(subject: string | null, body: string | null): Extracte
         }
     }
 
+    // Classify the email (e.g., "Your free trial ends in 3 days" -> trial_ending)
+    let emailType: ExtractedEmailType | null = null;
+    if (/trial\s+(?:ends|will end|is ending|expires|is about to end|ending)|(?:end|ends) of your (?:free )?trial/i.test(text)) {
+        emailType = 'trial_ending';
+    } else if (/(?:free\s+)?trial\s+(?:has\s+)?(?:started|begun|begins)|welcome to your (?:free\s+)?trial|\d+[-\s]day (?:free\s+)?trial/i.test(text)) {
+        emailType = 'trial_started';
+    } else if (/receipt|payment (?:received|confirmation|successful)|you(?:'ve| have) been charged|invoice paid/i.test(text)) {
+        emailType = 'receipt';
+    } else if (/renew/i.test(text)) {
+        emailType = 'renewal_notice';
+    }
+
+    // Extract trial end date (e.g., "Your trial ends on March 3, 2026")
+    let trialEndDate: string | null = null;
+    if (emailType === 'trial_started' || emailType === 'trial_ending') {
+        const trialMatch = text.match(
+            /trial\s+(?:ends|will end|expires|ending|converts)\s+(?:on\s+)?([A-Za-z]+\s+\d{1,2},?\s+\d{4})/i
+        ) || text.match(/(?:until|through)\s+([A-Za-z]+\s+\d{1,2},?\s+\d{4})/i);
+        if (trialMatch) {
+            const parsed = new Date(trialMatch[1]);
+            if (!isNaN(parsed.getTime())) {
+                trialEndDate = parsed.toISOString().split('T')[0];
+                console.log('[Extraction] Found trial end date:', trialMatch[1], '->', trialEndDate);
+            }
+        }
+    }
+
     // Extract amount (e.g., "$120.00" or "Amount: $120.00 USD")
     let amount: number | null = null;
     let currency: string | null = null;
@@ -332,18 +377,21 @@ function extractWithRegex(subject: string | null, body: string | null): Extracte
     }
 
     // Only return if we found meaningful data
-    if (!vendorName && !plan && !seats && !amount && !renewalDate) {
+    const isTrial = emailType === 'trial_started' || emailType === 'trial_ending';
+    if (!vendorName && !plan && !seats && !amount && !renewalDate && !trialEndDate && !isTrial) {
         console.log('[Extraction] Regex fallback found no data');
         return null;
     }
 
     const result: ExtractedSubscription = {
+        email_type: emailType,
         vendor_name: vendorName || 'Unknown',
         vendor_domain: null,
         plan,
         seats,
         billing_cycle: billingCycle,
         renewal_date: renewalDate,
+        trial_end_date: trialEndDate,
         amount,
         currency: currency || 'USD',
         confidence: amount && renewalDate ? 'medium' : 'low',
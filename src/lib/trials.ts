@@ -0,0 +1,153 @@
+/**
+ * Free Trials
+ * Tracks subscriptions that are still in a free trial, warns before they
+ * convert to paid, and moves them to active once the first real charge shows up.
+ */
+
+import prisma from './prisma';
+import { DEFAULT_TIMEZONE, daysBetween, fromDate, todayIn } from './calendar-date';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TrialTerms {
+    status: string;
+    trialStartedAt: Date | null;
+    trialEndsAt: Date | null;
+}
+
+// Values a conversion overwrites, so a statement import can restore them on rollback
+export interface ConvertedTrial {
+    id: string;
+    status: string;
+    amount: string | null;
+    currency: string;
+    lastDetectedAt: Date;
+}
+
+export interface TrialCharge {
+    date: Date;
+    amount: number;
+    currency: string;
+    kind: string;
+}
+
+// Trials converting within this many days raise a "trial ending" alert
+export const TRIAL_REMINDER_DAYS = 7;
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+/**
+ * Days until a trial converts, counted from today in `timeZone`
+ * Null when the subscription is not in a trial or the end date is unknown
+ */
+export function daysUntilTrialEnds(
+    trial: TrialTerms,
+    timeZone: string = DEFAULT_TIMEZONE,
+    now: Date = new Date()
+): number | null {
+    if (trial.status !== 'trial' || !trial.trialEndsAt) return null;
+    return daysBetween(todayIn(timeZone, now), fromDate(trial.trialEndsAt));
+}
+
+/**
+ * Whether a trial converts soon enough to warn about; trials already past their
+ * end date stay flagged until a charge converts them or the user cancels
+ */
+export function isTrialEndingSoon(
+    trial: TrialTerms,
+    timeZone: string = DEFAULT_TIMEZONE,
+    now: Date = new Date(),
+    windowDays: number = TRIAL_REMINDER_DAYS
+): boolean {
+    const days = daysUntilTrialEnds(trial, timeZone, now);
+    return days !== null && days <= windowDays;
+}
+
+/**
+ * The first paid charge since the trial started, which is the converted price
+ * Trials without a start date count from when the subscription was detected;
+ * refunds, credits and zero-amount authorizations do not count
+ */
+export function findConversionCharge<T extends TrialCharge>(
+    trial: TrialTerms & { createdAt: Date },
+    charges: T[]
+): T | null {
+    if (trial.status !== 'trial') return null;
+
+    const startedAt = fromDate(trial.trialStartedAt || trial.createdAt);
+    const paid = charges
+        .filter(c => c.kind === 'charge' && c.amount > 0)
+        .filter(c => daysBetween(startedAt, fromDate(c.date)) >= 0)
+        .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    return paid[0] || null;
+}
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+/**
+ * Move trials to active wherever the vendor's statement history has a paid charge
+ * Takes the statement import's transaction client so the conversion commits with
+ * it; returns each converted subscription's previous values
+ */
+export async function convertTrialsFromTransactions(
+    client: Pick<typeof prisma, 'subscription' | 'transaction'>,
+    userId: string
+): Promise<ConvertedTrial[]> {
+    const trials = await client.subscription.findMany({
+        where: { userId, status: 'trial' },
+        select: {
+            id: true,
+            vendorId: true,
+            status: true,
+            amount: true,
+            currency: true,
+            lastDetectedAt: true,
+            trialStartedAt: true,
+            trialEndsAt: true,
+            createdAt: true,
+        },
+    });
+    if (trials.length === 0) return [];
+
+    const transactions = await client.transaction.findMany({
+        where: { userId, vendorId: { in: trials.map(t => t.vendorId) } },
+        select: { vendorId: true, date: true, amount: true, currency: true, kind: true },
+    });
+
+    const converted: ConvertedTrial[] = [];
+    for (const trial of trials) {
+        const charge = findConversionCharge(
+            trial,
+            transactions
+                .filter(t => t.vendorId === trial.vendorId)
+                .map(t => ({ ...t, amount: parseFloat(t.amount.toString()) }))
+        );
+        if (!charge) continue;
+
+        await client.subscription.update({
+            where: { id: trial.id },
+            data: {
+                status: 'active',
+                amount: charge.amount,
+                currency: charge.currency,
+                lastDetectedAt: new Date(),
+            },
+        });
+        converted.push({
+            id: trial.id,
+            status: trial.status,
+            amount: trial.amount?.toString() ?? null,
+            currency: trial.currency,
+            lastDetectedAt: trial.lastDetectedAt,
+        });
+    }
+
+    return converted;
+}
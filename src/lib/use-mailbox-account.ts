@@ -0,0 +1,83 @@
+'use client';
+
+/**
+ * Mailbox Account Hook
+ * Connection status, scan and disconnect for a mailbox with a status route
+ * (GET for the status, DELETE to disconnect) and a scan route, as IMAP and
+ * Outlook have.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { ScanJobType, useScanJob } from './use-scan-job';
+
+interface MailboxStatus {
+    connected: boolean;
+    lastScan?: string;
+}
+
+interface MailboxAccountOptions {
+    statusUrl: string;
+    scanUrl: string;
+    scanType: ScanJobType;
+    disconnectPrompt: string;
+    onScanComplete?: () => void;
+}
+
+export function useMailboxAccount<TStatus extends MailboxStatus>({
+    statusUrl,
+    scanUrl,
+    scanType,
+    disconnectPrompt,
+    onScanComplete,
+}: MailboxAccountOptions) {
+    const [status, setStatus] = useState<TStatus | null>(null);
+    const [busy, setBusy] = useState(false);
+
+    const fetchStatus = useCallback(async () => {
+        try {
+            const res = await fetch(statusUrl);
+            if (res.ok) {
+                setStatus(await res.json());
+            }
+        } catch (error) {
+            console.error(`Failed to fetch mailbox status from ${statusUrl}:`, error);
+        }
+    }, [statusUrl]);
+
+    useEffect(() => {
+        fetchStatus();
+    }, [fetchStatus]);
+
+    const scan = useScanJob({
+        type: scanType,
+        scanUrl,
+        onComplete: () => {
+            setStatus(prev => prev && { ...prev, lastScan: new Date().toISOString() });
+            onScanComplete?.();
+        },
+    });
+
+    const disconnect = async () => {
+        if (!confirm(disconnectPrompt)) {
+            return;
+        }
+
+        setBusy(true);
+        scan.setMessage(null);
+        try {
+            const res = await fetch(statusUrl, { method: 'DELETE' });
+            if (res.ok) {
+                await fetchStatus();
+            } else {
+                scan.setMessage({ text: 'Failed to disconnect', error: true });
+            }
+        } catch (error) {
+            console.error(`Failed to disconnect mailbox at ${statusUrl}:`, error);
+            scan.setMessage({ text: 'Failed to disconnect', error: true });
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return { ...scan, status, setStatus, busy, setBusy, disconnect };
+}
@@ -0,0 +1,110 @@
+'use client';
+
+/**
+ * Mailbox Scan Hook
+ * Starts a mailbox scan, follows its job until it finishes and lets the user
+ * cancel it. A scan of the same type that is still running when the component
+ * mounts, e.g. after a page reload, is picked up again.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { PolledJob, requestJobCancel, waitForJob } from './job-client';
+
+export type ScanJobType = 'gmail_scan' | 'imap_scan' | 'outlook_scan';
+
+export interface ScanMessage {
+    text: string;
+    error: boolean;
+}
+
+interface ScanJobOptions {
+    type: ScanJobType;
+    scanUrl: string;          // POST route that queues the scan and answers with its jobId
+    enabled?: boolean;        // Resume only once the user is signed in
+    onComplete?: () => void;  // A scan finished or was cancelled with results
+}
+
+type ScanResult = { message: string };
+
+export function useScanJob({ type, scanUrl, enabled = true, onComplete }: ScanJobOptions) {
+    const [scanning, setScanning] = useState(false);
+    const [scanJob, setScanJob] = useState<PolledJob<ScanResult> | null>(null);
+    const [message, setMessage] = useState<ScanMessage | null>(null);
+
+    // Callers pass inline callbacks; the latest one runs when a scan finishes
+    const onCompleteRef = useRef(onComplete);
+    useEffect(() => {
+        onCompleteRef.current = onComplete;
+    });
+
+    const followScan = useCallback(async (jobId: string) => {
+        try {
+            const job = await waitForJob<ScanResult>(jobId, setScanJob);
+            if ((job.status === 'succeeded' || job.status === 'cancelled') && job.result) {
+                setMessage({ text: job.result.message, error: false });
+                onCompleteRef.current?.();
+            } else if (job.status === 'cancelled') {
+                setMessage({ text: 'Scan cancelled', error: false });
+            } else {
+                setMessage({ text: job.error || 'Scan failed', error: true });
+            }
+        } finally {
+            setScanJob(null);
+        }
+    }, []);
+
+    const startScan = async () => {
+        setScanning(true);
+        setMessage(null);
+        try {
+            const res = await fetch(scanUrl, { method: 'POST' });
+            const result = await res.json();
+            if (!res.ok) {
+                setMessage({ text: result.error || 'Scan failed', error: true });
+                return;
+            }
+
+            await followScan(result.jobId);
+        } catch {
+            setMessage({ text: 'Scan failed', error: true });
+        } finally {
+            setScanning(false);
+        }
+    };
+
+    const cancelScan = async () => {
+        if (!scanJob) return;
+        try {
+            await requestJobCancel(scanJob.id);
+            setScanJob(prev => prev && { ...prev, cancelRequested: true });
+        } catch {
+            setMessage({ text: 'Failed to cancel scan', error: true });
+        }
+    };
+
+    // Pick up a scan that is still running
+    useEffect(() => {
+        if (!enabled) return;
+
+        const resumeScan = async () => {
+            try {
+                const res = await fetch(`/api/jobs?type=${type}&active=true`);
+                if (!res.ok) return;
+
+                const { jobs } = await res.json();
+                if (jobs.length === 0) return;
+
+                setScanning(true);
+                await followScan(jobs[0].id);
+            } catch (error) {
+                console.error('Failed to resume scan progress:', error);
+            } finally {
+                setScanning(false);
+            }
+        };
+
+        resumeScan();
+    }, [enabled, type, followScan]);
+
+    return { scanning, scanJob, message, setMessage, startScan, cancelScan };
+}
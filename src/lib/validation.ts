@@ -4,6 +4,7 @@
  */
 
 import { z } from 'zod';
+import { isValidTimeZone } from './calendar-date';
 
 // ============================================================================
 // COMMON SCHEMAS
@@ -18,6 +19,8 @@ export const idSchema = z.object({
     id: z.string().cuid(),
 });
 
+export const currencyCodeSchema = z.string().trim().toUpperCase().regex(/^[A-Z]{3}$/, 'Currency must be a 3-letter ISO code');
+
 // ============================================================================
 // AUTH SCHEMAS
 // ============================================================================
@@ -41,10 +44,14 @@ export const loginSchema = z.object({
 // SUBSCRIPTION SCHEMAS
 // ============================================================================
 
+export const billingCycleSchema = z.enum([
+    'weekly', 'monthly', 'quarterly', 'semiannual', 'yearly', 'biennial', 'triennial',
+]);
+
 export const createSubscriptionSchema = z.object({
     vendorName: z.string().min(1, 'Vendor name is required').max(200),
     renewalDate: z.string().datetime().optional().nullable(),
-    billingCycle: z.enum(['monthly', 'yearly', 'quarterly']).optional().nullable(),
+    billingCycle: billingCycleSchema.optional().nullable(),
     amount: z.coerce.number().positive().optional().nullable(),
     currency: z.string().length(3).toUpperCase().optional().default('USD'),
     plan: z.string().max(100).optional().nullable(),
@@ -53,17 +60,26 @@ export const createSubscriptionSchema = z.object({
 
 export const updateSubscriptionSchema = z.object({
     renewalDate: z.string().datetime().optional().nullable(),
-    billingCycle: z.enum(['monthly', 'yearly', 'quarterly']).optional().nullable(),
+    billingCycle: billingCycleSchema.optional().nullable(),
     amount: z.coerce.number().positive().optional().nullable(),
     currency: z.string().length(3).toUpperCase().optional(),
     plan: z.string().max(100).optional().nullable(),
     seats: z.coerce.number().int().positive().optional().nullable(),
-    status: z.enum(['active', 'cancelled', 'pending']).optional(),
+    status: z.enum(['active', 'trial', 'cancelled', 'pending']).optional(),
+    trialEndsAt: z.string().datetime().optional().nullable(),
     notes: z.string().max(1000).optional().nullable(),
-});
+    contractStartDate: z.string().datetime().optional().nullable(),
+    contractEndDate: z.string().datetime().optional().nullable(),
+    termMonths: z.coerce.number().int().positive().max(120).optional().nullable(),
+    autoRenew: z.boolean().optional(),
+    noticePeriodDays: z.coerce.number().int().min(0).max(365).optional().nullable(),
+}).refine(
+    data => !data.contractStartDate || !data.contractEndDate || data.contractEndDate > data.contractStartDate,
+    { message: 'Contract end date must be after the start date', path: ['contractEndDate'] }
+);
 
 export const subscriptionFilterSchema = z.object({
-    filter: z.enum(['all', 'renewing', 'active', 'cancelled']).optional(),
+    filter: z.enum(['all', 'renewing', 'active', 'trial', 'cancelled']).optional(),
     source: z.enum(['gmail', 'csv', 'manual']).optional(),
     sortBy: z.enum(['renewalDate', 'amount', 'vendorName', 'lastDetectedAt']).optional(),
     sortOrder: z.enum(['asc', 'desc']).optional().default('asc'),
@@ -99,8 +115,34 @@ export const sendNegotiationSchema = z.object({
 // GMAIL SCHEMAS
 // ============================================================================
 
+const scanDomainSchema = z.string().trim().toLowerCase()
+    .regex(/^(?:[a-z0-9-]+\.)+[a-z]{2,}$/, 'Invalid sender domain');
+const scanTermSchema = z.string().trim().min(2, 'Keywords need at least 2 characters').max(100);
+// Calendar day as YYYY-MM-DD, stored at UTC midnight
+const scanDateSchema = z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD')
+    .transform(value => new Date(`${value}T00:00:00.000Z`))
+    .refine(date => !isNaN(date.getTime()), 'Invalid date');
+
+export const gmailScanSettingsSchema = z.object({
+    keywords: z.array(scanTermSchema).max(50).optional(),
+    senderDomains: z.array(scanDomainSchema).max(100).optional(),
+    labels: z.array(z.string().trim().min(1).max(225)).max(20).optional(),
+    aliases: z.array(z.string().trim().toLowerCase().email('Invalid alias address')).max(20).optional(),
+    backfillAfter: scanDateSchema.nullable().optional(),
+    backfillBefore: scanDateSchema.nullable().optional(),
+    excludeSenderDomains: z.array(scanDomainSchema).max(100).optional(),
+    excludeKeywords: z.array(scanTermSchema).max(50).optional(),
+}).refine(
+    data => !data.backfillAfter || !data.backfillBefore || data.backfillBefore > data.backfillAfter,
+    { message: 'Backfill end date must be after the start date', path: ['backfillBefore'] }
+);
+
 export const gmailScanSchema = z.object({
-    maxResults: z.coerce.number().int().positive().max(50).optional().default(10),
+    // Caps the backfill on first connect or after the history checkpoint expires
+    maxResults: z.coerce.number().int().positive().max(500).optional().default(100),
+    // Saved before the scan runs; omitted fields keep their stored value
+    settings: gmailScanSettingsSchema.optional(),
 });
 
 export const gmailComposeSchema = z.object({
@@ -109,14 +151,54 @@ export const gmailComposeSchema = z.object({
     body: z.string().min(1, 'Body is required').max(50000),
 });
 
+// ============================================================================
+// IMAP SCHEMAS
+// ============================================================================
+
+export const imapAccountSchema = z.object({
+    host: z.string().trim().min(1, 'Host is required').max(255),
+    port: z.coerce.number().int().min(1).max(65535).optional().default(993),
+    secure: z.boolean().optional().default(true),
+    username: z.string().trim().min(1, 'Username is required').max(320),
+    // Omitted when editing an account to keep the saved password
+    password: z.string().min(1).max(1000).optional(),
+    folder: z.string().trim().min(1).max(255).optional().default('INBOX'),
+});
+
+// ============================================================================
+// JOB SCHEMAS
+// ============================================================================
+
+export const jobListSchema = z.object({
+    type: z.enum(['gmail_scan', 'imap_scan', 'outlook_scan', 'statement_upload', 'intelligence', 'reprocess_extraction']).optional(),
+    active: z.enum(['true', 'false']).optional().transform(value => value === 'true'),
+});
+
 // ============================================================================
 // UPLOAD SCHEMAS
 // ============================================================================
 
 export const csvUploadSchema = z.object({
-    filename: z.string().regex(/\.csv$/i, 'File must be a CSV'),
+    filename: z.string().regex(/\.(csv|ofx|qfx|qif)$/i, 'File must be a CSV, OFX, QFX or QIF statement'),
 });
 
+const mappedColumnSchema = z.string().min(1).max(200).nullable().optional().default(null);
+
+export const columnMappingSchema = z.object({
+    date: z.string().min(1, 'Date column is required').max(200),
+    description: mappedColumnSchema,
+    amount: mappedColumnSchema,
+    debit: mappedColumnSchema,
+    credit: mappedColumnSchema,
+    vendor: mappedColumnSchema,
+    category: mappedColumnSchema,
+    amountSign: z.enum(['absolute', 'negative_is_charge', 'positive_is_charge']).optional().default('absolute'),
+    dateOrder: z.enum(['auto', 'month_first', 'day_first']).optional().default('auto'),
+    decimalSeparator: z.enum(['auto', 'dot', 'comma']).optional().default('auto'),
+});
+
+export const importProfileNameSchema = z.string().trim().min(1, 'Profile name is required').max(100);
+
 // ============================================================================
 // VENDOR SCHEMAS
 // ============================================================================
@@ -137,6 +219,55 @@ export const updateVendorSchema = z.object({
     vendorType: z.enum(['FIXED_PLAN', 'NEGOTIABLE']).optional(),
 });
 
+export const chargeAlertUpdateSchema = z.object({
+    status: z.enum(['open', 'dismissed']),
+});
+
+export const recurringReviewSchema = z.object({
+    action: z.enum(['confirm', 'dismiss']),
+});
+
+const reviewDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+export const extractionReviewSchema = z.discriminatedUnion('action', [
+    z.object({
+        action: z.literal('accept'),
+        fields: z.object({
+            vendorName: z.string().trim().min(1, 'Vendor name is required').max(200),
+            amount: z.coerce.number().positive().nullable(),
+            currency: currencyCodeSchema,
+            billingCycle: z.enum(['monthly', 'yearly']).nullable(),
+            plan: z.string().trim().max(100).nullable(),
+            seats: z.coerce.number().int().positive().nullable(),
+            renewalDate: reviewDateSchema.nullable(),
+            trialEndDate: reviewDateSchema.nullable(),
+        }).partial().optional(),
+    }),
+    z.object({
+        action: z.literal('reject'),
+        blockSender: z.boolean().optional().default(false),
+    }),
+]);
+
+export const reprocessRequestSchema = z.object({
+    messageIds: z.array(z.string().min(1)).min(1).max(500).optional(),
+    outdatedOnly: z.boolean().optional().default(true),
+});
+
+export const reprocessDecisionSchema = z.discriminatedUnion('action', [
+    z.object({
+        action: z.literal('apply'),
+        fields: z.array(z.enum(['amount', 'currency', 'billingCycle', 'plan', 'seats', 'renewalDate', 'trialEndsAt'])).min(1).optional(),
+    }),
+    z.object({
+        action: z.literal('discard'),
+    }),
+]);
+
+export const merchantMappingUpdateSchema = z.object({
+    canonicalName: z.string().trim().min(1, 'Vendor name is required').max(200),
+});
+
 // ============================================================================
 // SAVINGS SCHEMAS
 // ============================================================================
@@ -148,6 +279,19 @@ export const updateSavingsSchema = z.object({
     notes: z.string().max(1000).optional().nullable(),
 });
 
+// ============================================================================
+// SETTINGS SCHEMAS
+// ============================================================================
+
+export const userSettingsSchema = z.object({
+    reportingCurrency: currencyCodeSchema.optional(),
+    timezone: z.string().refine(isValidTimeZone, 'Unknown timezone').optional(),
+});
+
+export const fxRateImportSchema = z.object({
+    base: currencyCodeSchema.optional().default('EUR'),
+});
+
 // ============================================================================
 // VALIDATION HELPER
 // ============================================================================